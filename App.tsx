@@ -5,6 +5,8 @@ import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
 import RootScreen from './src/screens/RootScreen';
 import { initializeLogger } from './src/utils/LoggerConfig';
+import PurchasesService from './src/services/PurchasesService';
+import { FakePurchaseProvider } from './src/services/FakePurchaseProvider';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -12,6 +14,12 @@ SplashScreen.preventAutoHideAsync();
 // Initialize enhanced logging
 initializeLogger();
 
+// Development builds buy from an in-memory store. Release builds need a native store
+// provider; until one is registered the upgrade entry points stay hidden
+if (__DEV__) {
+  PurchasesService.setProvider(new FakePurchaseProvider());
+}
+
 console.log('🚀 [App.tsx] App component is being loaded');
 
 export default function App() {
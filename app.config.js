@@ -74,6 +74,12 @@ export default {
   },
   runtimeVersion: '1.0.2',
   extra: {
+    // Backend selection (see src/config/environment.ts). APP_ENV picks the defaults,
+    // EXPO_PUBLIC_* values override individual endpoints.
+    environment: process.env.APP_ENV || (IS_DEV ? 'development' : 'production'),
+    apiBaseURL: process.env.EXPO_PUBLIC_API_URL,
+    supabaseUrl: process.env.EXPO_PUBLIC_SUPABASE_URL,
+    supabaseAnonKey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
     eas: {
       projectId: '895b0ffc-ca13-47ca-9d32-504395c39b6f'
     }
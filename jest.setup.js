@@ -10,10 +10,10 @@ try {
 // Mock react-native animated modules
 jest.mock('react-native/Libraries/Animated/NativeAnimatedHelper', () => ({}), { virtual: true });
 
-// Mock AsyncStorage
-jest.mock('@react-native-async-storage/async-storage', () =>
-  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
-);
+// Mock AsyncStorage. One store shared across jest.isolateModules, so a service
+// re-required in a test sees what the previous instance saved (like an app restart)
+const mockAsyncStorage = require('@react-native-async-storage/async-storage/jest/async-storage-mock');
+jest.mock('@react-native-async-storage/async-storage', () => mockAsyncStorage);
 
 // Mock expo modules
 jest.mock('expo-secure-store', () => ({
@@ -29,6 +29,19 @@ jest.mock('expo-file-system', () => ({
   getInfoAsync: jest.fn(),
   deleteAsync: jest.fn(),
   downloadAsync: jest.fn(),
+  createUploadTask: jest.fn(),
+  FileSystemUploadType: { BINARY_CONTENT: 0, MULTIPART: 1 },
+  FileSystemSessionType: { BACKGROUND: 0, FOREGROUND: 1 },
+}));
+
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: {} } },
+}));
+
+jest.mock('expo-device', () => ({
+  isDevice: false,
+  deviceName: 'Jest',
 }));
 
 jest.mock('expo-image', () => ({
@@ -38,6 +51,11 @@ jest.mock('expo-image', () => ({
   clearDiskCache: jest.fn(),
 }));
 
+jest.mock('expo-image-manipulator', () => ({
+  ImageManipulator: { manipulate: jest.fn() },
+  SaveFormat: { JPEG: 'jpeg', PNG: 'png' },
+}));
+
 jest.mock('expo-notifications', () => ({
   getPermissionsAsync: jest.fn(),
   requestPermissionsAsync: jest.fn(),
@@ -89,9 +107,37 @@ jest.mock('./src/services/APIService', () => ({
     put: jest.fn(),
     delete: jest.fn(),
     generateImages: jest.fn(),
+    getGenerationStatus: jest.fn(),
     fetchUserModels: jest.fn(),
+    getUsage: jest.fn(),
+    deleteModel: jest.fn(),
+    getModelDeletionPreview: jest.fn(),
+    undoModelDeletion: jest.fn(),
+    renameModel: jest.fn(),
     fetchPresets: jest.fn(),
-    trainCharacter: jest.fn(),
+    fetchPresetCatalog: jest.fn(),
+    fetchImageBatches: jest.fn(),
+    deleteImage: jest.fn(),
+    deleteBatch: jest.fn(),
+    fetchFavorites: jest.fn(),
+    upsertFavorites: jest.fn(),
+    fetchFavoriteCollections: jest.fn(),
+    upsertFavoriteCollections: jest.fn(),
+    createTrainingUpload: jest.fn(),
+    getTrainingUpload: jest.fn(),
+    uploadTrainingFile: jest.fn(),
+    commitTrainingUpload: jest.fn(),
+    fetchModelPhotos: jest.fn(),
+    promoteModelVersion: jest.fn(),
+    fetchPurchaseCatalog: jest.fn(),
+    validatePurchase: jest.fn(),
+    fetchEntitlement: jest.fn(),
+  },
+  SUPABASE_CONFIG: {
+    url: 'https://supabase.test',
+    apiKey: 'test-anon-key',
+    presetsTable: 'presets',
+    favoritesTable: 'favorites',
   },
 }));
 
@@ -102,7 +148,14 @@ jest.mock('./src/services/ImageCacheManager', () => ({
   getCachedImagePath: jest.fn(),
   isImageCached: jest.fn(),
   clearCache: jest.fn(),
+  evictImages: jest.fn(),
   getCacheStats: jest.fn(),
+  CachePriority: {
+    CRITICAL: 'critical',
+    HIGH: 'high',
+    NORMAL: 'normal',
+    LOW: 'low',
+  },
 }));
 
 // Global test setup
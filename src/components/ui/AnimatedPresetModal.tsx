@@ -15,8 +15,14 @@ import { useFavorites } from '../../context/FavoritesContext';
 import { useTraining } from '../../context/TrainingContext';
 import { useAppState } from '../../context/AppStateContext';
 import { useGeneration } from '../../context/GenerationContext';
+import { useUsage } from '../../context/UsageContext';
 import { useGallery } from '../../context/GalleryContext';
-import { Preset } from '../../types/preset.types';
+import { GenerationOptions, Preset } from '../../types/preset.types';
+import { isApiError } from '../../types/api.types';
+import { showGenerationErrorAlert } from '../../utils/errorAlerts';
+import GenerationOptionsService, { DEFAULT_GENERATION_OPTIONS } from '../../services/GenerationOptionsService';
+import GenerationOptionsSheet from './GenerationOptionsSheet';
+import GenerationOptionsButton from './GenerationOptionsButton';
 import { TYPOGRAPHY } from '../../styles/typography';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -51,6 +57,8 @@ export default function AnimatedPresetModal({
   const [selectedModelThumbnail, setSelectedModelThumbnail] = useState<string | undefined>();
   const [imageError, setImageError] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [showOptionsSheet, setShowOptionsSheet] = useState(false);
 
   // Context hooks
   const { isFavorited, toggleFavorite } = useFavorites();
@@ -60,7 +68,8 @@ export default function AnimatedPresetModal({
   const { models, skeletonModels } = useTraining();
   const { selectedLoraId, selectLoRA } = useAppState();
   const { startGeneration } = useGeneration();
-  const { addPendingGeneration } = useGallery();
+  const { ensureCanGenerate, recordGeneration } = useUsage();
+  const { addPendingGeneration, removePendingGeneration } = useGallery();
 
   // Computed values
   const allModels = [...models, ...skeletonModels];
@@ -227,20 +236,26 @@ export default function AnimatedPresetModal({
   // Handle generate
   const handleGenerate = async () => {
     if (!preset || !selectedLoraId || !hasModels) return;
+    if (!ensureCanGenerate()) return;
 
+    let pendingId: string | null = null;
     try {
       setIsGenerating(true);
       
-      const pendingId = addPendingGeneration({
+      pendingId = addPendingGeneration({
         name: preset.name,
         image_url: preset.image_url
       });
 
-      await startGeneration(preset, selectedLoraId, allModels);
+      const submission = await startGeneration(preset, selectedLoraId, allModels, generationOptions);
+      if (submission === 'sent') recordGeneration();
+      GenerationOptionsService.saveOptions(preset.id, generationOptions);
       
       handleClose();
     } catch (error) {
       console.error('[AnimatedPresetModal] Generation failed:', error);
+      if (pendingId) removePendingGeneration(pendingId);
+      showGenerationErrorAlert(error, isApiError(error) && error.isRetryable ? handleGenerate : undefined);
     } finally {
       setIsGenerating(false);
     }
@@ -261,6 +276,14 @@ export default function AnimatedPresetModal({
     setShowDropdown(false);
   };
 
+  // Apply options from the advanced-options sheet
+  const handleOptionsApply = (options: GenerationOptions) => {
+    setGenerationOptions(options);
+    if (preset) {
+      GenerationOptionsService.saveOptions(preset.id, options);
+    }
+  };
+
   // Toggle dropdown
   const toggleDropdown = () => {
     console.log('[AnimatedPresetModal] Toggle dropdown called, current state:', showDropdown);
@@ -288,6 +311,21 @@ export default function AnimatedPresetModal({
     }
   }, [visible, preset]);
 
+  // Effect to restore the last-used generation options for this preset
+  useEffect(() => {
+    if (!preset) return;
+
+    let cancelled = false;
+    setGenerationOptions(DEFAULT_GENERATION_OPTIONS);
+    GenerationOptionsService.getOptions(preset.id).then(options => {
+      if (!cancelled) setGenerationOptions(options);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [preset?.id]);
+
   // Effect to load thumbnail when selected model changes
   useEffect(() => {
     if (selectedLoraId) {
@@ -482,8 +520,22 @@ export default function AnimatedPresetModal({
               )}
             </View>
 
+            {/* Advanced Options */}
+            <GenerationOptionsButton
+              options={generationOptions}
+              onPress={() => setShowOptionsSheet(true)}
+              disabled={isGenerating}
+            />
+
             <View style={styles.spacer} />
           </View>
+
+          <GenerationOptionsSheet
+            visible={showOptionsSheet}
+            options={generationOptions}
+            onApply={handleOptionsApply}
+            onClose={() => setShowOptionsSheet(false)}
+          />
         </Animated.View>
       )}
     </>
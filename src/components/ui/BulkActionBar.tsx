@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+
+export type BulkAction = 'save' | 'share' | 'favorite' | 'delete';
+
+export interface BulkActionProgress {
+  action: BulkAction;
+  completed: number;
+  total: number;
+}
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  progress: BulkActionProgress | null;
+  onAction: (action: BulkAction) => void;
+}
+
+const ACTIONS: { action: BulkAction; icon: string; label: string }[] = [
+  { action: 'save', icon: '⬇︎', label: 'Save' },
+  { action: 'share', icon: '⇪', label: 'Share' },
+  { action: 'favorite', icon: '♡', label: 'Favorite' },
+  { action: 'delete', icon: '🗑', label: 'Delete' },
+];
+
+const PROGRESS_LABELS: Record<BulkAction, string> = {
+  save: 'Saving',
+  share: 'Preparing',
+  favorite: 'Adding',
+  delete: 'Deleting',
+};
+
+// Bottom bar for the gallery's multi-select mode
+export default function BulkActionBar({ selectedCount, progress, onAction }: BulkActionBarProps) {
+  const disabled = selectedCount === 0 || progress !== null;
+
+  return (
+    <View style={styles.container}>
+      {progress ? (
+        <View style={styles.progressRow}>
+          <ActivityIndicator size="small" color="#007AFF" />
+          <Text style={styles.progressText}>
+            {PROGRESS_LABELS[progress.action]} {progress.completed}/{progress.total}
+          </Text>
+        </View>
+      ) : (
+        <Text style={styles.countText}>
+          {selectedCount === 0 ? 'Select photos' : `${selectedCount} selected`}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        {ACTIONS.map(({ action, icon, label }) => (
+          <TouchableOpacity
+            key={action}
+            style={[styles.actionButton, disabled && styles.actionButtonDisabled]}
+            onPress={() => onAction(action)}
+            disabled={disabled}
+          >
+            <Text style={[styles.actionIcon, action === 'delete' && styles.destructive]}>{icon}</Text>
+            <Text style={[styles.actionLabel, action === 'delete' && styles.destructive]}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#ffffff',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(0, 0, 0, 0.15)',
+    paddingTop: 10,
+    paddingBottom: 24,
+    paddingHorizontal: 16,
+  },
+  countText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  actionButton: {
+    alignItems: 'center',
+    minWidth: 64,
+    paddingVertical: 4,
+  },
+  actionButtonDisabled: {
+    opacity: 0.4,
+  },
+  actionIcon: {
+    fontSize: 22,
+    color: '#007AFF',
+  },
+  actionLabel: {
+    fontSize: 12,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  destructive: {
+    color: '#FF3B30',
+  },
+});
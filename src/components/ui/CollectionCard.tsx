@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+
+interface CollectionCardProps {
+  name: string;
+  itemCount: number;
+  coverUrl?: string;
+  width: number;
+  onPress: () => void;
+}
+
+export default function CollectionCard({ name, itemCount, coverUrl, width, onPress }: CollectionCardProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.card, { width }]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <View style={[styles.cover, { height: width }]}>
+        {coverUrl ? (
+          <Image source={{ uri: coverUrl }} style={StyleSheet.absoluteFill} contentFit="cover" transition={200} />
+        ) : (
+          <Text style={styles.placeholderIcon}>🗂️</Text>
+        )}
+      </View>
+      <Text style={styles.name} numberOfLines={1}>{name}</Text>
+      <Text style={styles.count}>{itemCount} item{itemCount !== 1 ? 's' : ''}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  cover: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: '#f8f8f8',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderIcon: {
+    fontSize: 36,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 8,
+  },
+  count: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+});
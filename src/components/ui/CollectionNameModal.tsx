@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { normalizeCollectionName } from '../../services/FavoriteCollectionsService';
+
+interface CollectionNameModalProps {
+  visible: boolean;
+  title: string;
+  confirmLabel: string;
+  initialName?: string;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+// Small centered prompt used to name a new collection or rename an existing one
+export default function CollectionNameModal({
+  visible,
+  title,
+  confirmLabel,
+  initialName = '',
+  onSubmit,
+  onClose,
+}: CollectionNameModalProps) {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (visible) {
+      setName(initialName);
+    }
+  }, [visible]);
+
+  const trimmed = normalizeCollectionName(name);
+
+  const handleSubmit = () => {
+    if (!trimmed) return;
+    onSubmit(trimmed);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{title}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            onSubmitEditing={handleSubmit}
+            placeholder="Collection name"
+            placeholderTextColor="rgba(0, 0, 0, 0.4)"
+            autoFocus={true}
+            maxLength={40}
+            returnKeyType="done"
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.actionButton} onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.confirmButton, !trimmed && styles.confirmButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!trimmed}
+            >
+              <Text style={styles.confirmText}>{confirmLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  dialog: {
+    width: '100%',
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: '#f8f8f8',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000000',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 20,
+    alignItems: 'center',
+    backgroundColor: '#f8f8f8',
+  },
+  confirmButton: {
+    backgroundColor: '#FF48D8',
+  },
+  confirmButtonDisabled: {
+    opacity: 0.5,
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#666666',
+  },
+  confirmText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { useFavorites } from '../../context/FavoritesContext';
+import { favoriteKey } from '../../services/FavoritesSyncService';
+import { getCollectionCoverKey, getFavoriteImageUrl } from '../../services/FavoriteCollectionsService';
+import { FavoriteCollection, FavoriteItem } from '../../types/favorites.types';
+import CollectionNameModal from './CollectionNameModal';
+
+interface CollectionPickerSheetProps {
+  visible: boolean;
+  item: FavoriteItem | null;
+  onClose: () => void;
+}
+
+// "Add to collection" sheet: tap a collection to add or remove the item, or start a new one with it
+export default function CollectionPickerSheet({ visible, item, onClose }: CollectionPickerSheetProps) {
+  const { collections, favorites, createCollection, addToCollection, removeFromCollection } = useFavorites();
+  const [showNameModal, setShowNameModal] = useState(false);
+
+  const itemKey = item ? favoriteKey(item.id, item.type) : null;
+
+  const getCoverUrl = (collection: FavoriteCollection): string | undefined => {
+    const coverKey = getCollectionCoverKey(collection);
+    const cover = favorites.find(fav => favoriteKey(fav.id, fav.type) === coverKey);
+    return cover ? getFavoriteImageUrl(cover) : undefined;
+  };
+
+  const handleCollectionPress = async (collection: FavoriteCollection) => {
+    if (!item || !itemKey) return;
+
+    try {
+      if (collection.itemKeys.includes(itemKey)) {
+        await removeFromCollection(collection.id, item);
+      } else {
+        await addToCollection(collection.id, item);
+      }
+    } catch (error) {
+      console.error('[CollectionPickerSheet] Failed to update collection:', error);
+    }
+  };
+
+  const handleCreate = async (name: string) => {
+    if (!item) return;
+    try {
+      await createCollection(name, [item]);
+    } catch (error) {
+      console.error('[CollectionPickerSheet] Failed to create collection:', error);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerSpacer} />
+            <Text style={styles.title}>Add to Collection</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <TouchableOpacity style={styles.row} onPress={() => setShowNameModal(true)}>
+              <View style={[styles.thumbnail, styles.newThumbnail]}>
+                <Text style={styles.newIcon}>+</Text>
+              </View>
+              <Text style={styles.rowTitle}>New Collection</Text>
+            </TouchableOpacity>
+
+            {collections.map(collection => {
+              const isMember = !!itemKey && collection.itemKeys.includes(itemKey);
+              const coverUrl = getCoverUrl(collection);
+              return (
+                <TouchableOpacity
+                  key={collection.id}
+                  style={styles.row}
+                  onPress={() => handleCollectionPress(collection)}
+                >
+                  {coverUrl ? (
+                    <Image source={{ uri: coverUrl }} style={styles.thumbnail} contentFit="cover" />
+                  ) : (
+                    <View style={styles.thumbnail} />
+                  )}
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>{collection.name}</Text>
+                    <Text style={styles.rowSubtitle}>
+                      {collection.itemKeys.length} item{collection.itemKeys.length !== 1 ? 's' : ''}
+                    </Text>
+                  </View>
+                  <View style={[styles.checkbox, isMember && styles.checkboxChecked]}>
+                    {isMember && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </View>
+
+      <CollectionNameModal
+        visible={showNameModal}
+        title="New Collection"
+        confirmLabel="Create"
+        onSubmit={handleCreate}
+        onClose={() => setShowNameModal(false)}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 34, // Home indicator
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  doneText: {
+    color: '#FE6EFD',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    marginRight: 12,
+  },
+  newThumbnail: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  newIcon: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  rowSubtitle: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: '#FF48D8',
+    borderColor: '#FF48D8',
+  },
+  checkmark: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -1,21 +1,38 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { TouchableOpacity, Text, StyleSheet, TouchableOpacityProps } from 'react-native';
+import UpgradeModal from './UpgradeModal';
+import { useAuth } from '../../context/AuthContext';
+import PurchasesService, { formatTierLabel } from '../../services/PurchasesService';
 import { TYPOGRAPHY } from '../../styles/typography';
 import { COLORS } from '../../styles/colors';
 
 interface FreePillButtonProps extends TouchableOpacityProps {
-  text?: string;
+  text?: string; // Defaults to the user's plan
 }
 
+// The user's plan; opens the upgrade sheet unless given its own onPress or no store is installed
 export default function FreePillButton({ 
-  text = 'Free', 
+  text, 
   style, 
+  onPress,
   ...props 
 }: FreePillButtonProps) {
+  const { user } = useAuth();
+  const [showUpgrade, setShowUpgrade] = useState(false);
+  const canUpgrade = PurchasesService.isAvailable();
+
   return (
-    <TouchableOpacity style={[styles.freeButton, style]} {...props}>
-      <Text style={styles.freeButtonText} numberOfLines={1}>{text}</Text>
-    </TouchableOpacity>
+    <>
+      <TouchableOpacity
+        style={[styles.freeButton, style]}
+        onPress={onPress || (canUpgrade ? () => setShowUpgrade(true) : undefined)}
+        disabled={!onPress && !canUpgrade}
+        {...props}
+      >
+        <Text style={styles.freeButtonText} numberOfLines={1}>{text || formatTierLabel(user?.subscriptionTier)}</Text>
+      </TouchableOpacity>
+      {canUpgrade && <UpgradeModal visible={showUpgrade} onClose={() => setShowUpgrade(false)} />}
+    </>
   );
 }
 
@@ -8,6 +8,7 @@ import {
   Modal,
   ScrollView,
   Animated,
+  Alert,
 } from 'react-native';
 import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
 import Reanimated, { runOnJS, useSharedValue, useAnimatedStyle, withSpring, withTiming } from 'react-native-reanimated';
@@ -18,6 +19,9 @@ import * as FileSystem from 'expo-file-system';
 import * as MediaLibrary from 'expo-media-library';
 import { StatusBar } from 'expo-status-bar';
 import { useFavorites } from '../../context/FavoritesContext';
+import { FavoriteItem } from '../../types/favorites.types';
+import CollectionPickerSheet from './CollectionPickerSheet';
+import { getBatchPrompt } from '../../utils/generationBatches';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -33,6 +37,8 @@ interface FullScreenImageViewerProps {
   initialIndex: number;
   visible: boolean;
   onDismiss: () => void;
+  onDeleteImage?: (imageUrl: string) => Promise<void>; // Delete button is only shown when provided
+  onDeleteBatch?: () => Promise<void>;
 }
 
 function FullScreenImageViewer({
@@ -40,6 +46,8 @@ function FullScreenImageViewer({
   initialIndex,
   visible,
   onDismiss,
+  onDeleteImage,
+  onDeleteBatch,
 }: FullScreenImageViewerProps) {
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const [showControls, setShowControls] = useState(true);
@@ -53,6 +61,7 @@ function FullScreenImageViewer({
   
   // Favorites context - now natively supports images
   const { isFavorited, addFavorite, removeFavorite } = useFavorites();
+  const [collectionPickerItem, setCollectionPickerItem] = useState<FavoriteItem | null>(null);
   
   // Current image info
   const currentImageUrl = batch.images[currentIndex];
@@ -129,6 +138,16 @@ function FullScreenImageViewer({
     return () => clearControlsTimer();
   }, []);
 
+  // Keep the index valid when images are deleted from under us
+  useEffect(() => {
+    if (!visible) return;
+    if (batch.images.length === 0) {
+      onDismiss();
+    } else if (currentIndex >= batch.images.length) {
+      setCurrentIndex(batch.images.length - 1);
+    }
+  }, [batch.images.length, visible]);
+
   // Handle scroll end to update current index
   const handleScrollEnd = (event: any) => {
     const contentOffsetX = event.nativeEvent.contentOffset.x;
@@ -236,31 +255,44 @@ function FullScreenImageViewer({
     }
   };
 
+  const createImageFavorite = (): FavoriteItem => ({
+    id: currentImageUrl,
+    type: 'image',
+    data: {
+      imageUrl: currentImageUrl,
+      batchId: batch.id,
+      generatedAt: batch.generatedAt,
+      prompt: getBatchPrompt(batch),
+    },
+    createdAt: new Date(),
+  });
+
+  const handleRemoveFavorite = async () => {
+    try {
+      await removeFavorite(currentImageUrl, 'image');
+      console.log('[FullScreenImageViewer] Removed from favorites');
+    } catch (error) {
+      console.error('[FullScreenImageViewer] Favorite error:', error);
+      alert('Failed to update favorites');
+    }
+  };
+
   const handleFavoriteToggle = async () => {
+    console.log('[FullScreenImageViewer] Favorite tapped for image:', currentImageUrl);
+
+    // Already a favorite - offer collections instead of silently un-favoriting
+    if (isImageFavorited) {
+      Alert.alert('Favorites', undefined, [
+        { text: 'Add to Collection…', onPress: () => setCollectionPickerItem(createImageFavorite()) },
+        { text: 'Remove from Favorites', style: 'destructive', onPress: handleRemoveFavorite },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+      return;
+    }
+
     try {
-      console.log('[FullScreenImageViewer] Toggling favorite for image:', currentImageUrl);
-      
-      if (isImageFavorited) {
-        // Remove from favorites
-        await removeFavorite(currentImageUrl, 'image');
-        console.log('[FullScreenImageViewer] Removed from favorites');
-      } else {
-        // Add to favorites
-        const favoriteItem = {
-          id: currentImageUrl,
-          type: 'image' as const,
-          data: {
-            imageUrl: currentImageUrl,
-            batchId: batch.id,
-            generatedAt: batch.generatedAt,
-            prompt: batch.preset?.prompt || '',
-          },
-          createdAt: new Date(),
-        };
-        
-        await addFavorite(favoriteItem);
-        console.log('[FullScreenImageViewer] Added to favorites');
-      }
+      await addFavorite(createImageFavorite());
+      console.log('[FullScreenImageViewer] Added to favorites');
     } catch (error) {
       console.error('[FullScreenImageViewer] Favorite error:', error);
       alert('Failed to update favorites');
@@ -301,18 +333,39 @@ function FullScreenImageViewer({
     }
   };
 
-  const handleDelete = async () => {
+  const performDelete = async (deleteAll: boolean) => {
+    const imageUrl = batch.images[currentIndex];
     try {
-      const currentImageUrl = batch.images[currentIndex];
-      console.log('[FullScreenImageViewer] Deleting image:', currentImageUrl);
-      
-      // TODO: Show confirmation dialog and implement delete
-      alert('Delete functionality - coming soon!');
+      console.log('[FullScreenImageViewer] Deleting', deleteAll ? 'batch:' : 'image:', deleteAll ? batch.id : imageUrl);
+      if (deleteAll && onDeleteBatch) {
+        await onDeleteBatch();
+      } else if (onDeleteImage) {
+        await onDeleteImage(imageUrl);
+      }
     } catch (error) {
       console.error('[FullScreenImageViewer] Delete error:', error);
+      Alert.alert('Delete Failed', 'We couldn\'t delete this photo. Please try again.', [{ text: 'OK' }]);
     }
   };
 
+  const handleDelete = () => {
+    const canDeleteBatch = !!onDeleteBatch && batch.images.length > 1;
+
+    Alert.alert(
+      'Delete Photo?',
+      canDeleteBatch
+        ? 'This photo will be permanently deleted. You can also delete all photos from this generation.'
+        : 'This photo will be permanently deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...(canDeleteBatch
+          ? [{ text: `Delete All ${batch.images.length} Photos`, style: 'destructive' as const, onPress: () => performDelete(true) }]
+          : []),
+        { text: 'Delete Photo', style: 'destructive', onPress: () => performDelete(false) },
+      ]
+    );
+  };
+
   return (
     <Modal
       visible={visible}
@@ -429,6 +482,7 @@ function FullScreenImageViewer({
               <TouchableOpacity 
                 style={styles.footerButton}
                 onPress={handleFavoriteToggle}
+                onLongPress={() => setCollectionPickerItem(createImageFavorite())}
                 activeOpacity={0.7}
               >
                 <View style={styles.buttonIconContainer}>
@@ -447,11 +501,29 @@ function FullScreenImageViewer({
                   <Text style={styles.saveIcon}>↓</Text>
                 </View>
               </TouchableOpacity>
+
+              {onDeleteImage && (
+                <TouchableOpacity 
+                  style={styles.footerButton}
+                  onPress={handleDelete}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.buttonIconContainer}>
+                    <Text style={styles.deleteIcon}>🗑</Text>
+                  </View>
+                </TouchableOpacity>
+              )}
             </View>
           )}
         </SafeAreaView>
         </Reanimated.View>
       </GestureHandlerRootView>
+
+      <CollectionPickerSheet
+        visible={collectionPickerItem !== null}
+        item={collectionPickerItem}
+        onClose={() => setCollectionPickerItem(null)}
+      />
     </Modal>
   );
 }
@@ -622,6 +694,10 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontWeight: 'bold',
   },
+  deleteIcon: {
+    fontSize: 22,
+    color: '#FF3B30',
+  },
 });
 
 export default React.memo(FullScreenImageViewer);
\ No newline at end of file
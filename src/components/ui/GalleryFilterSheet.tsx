@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { GenerationSource } from '../../types/preset.types';
+import { GalleryDateRange, GalleryFilters, GalleryGrouping } from '../../types/gallery.types';
+import { DEFAULT_GALLERY_FILTERS, SOURCE_LABELS } from '../../services/GalleryFilterService';
+
+export interface GalleryFilterOption {
+  id: string;
+  name: string;
+}
+
+interface GalleryFilterSheetProps {
+  visible: boolean;
+  filters: GalleryFilters;
+  models: GalleryFilterOption[];
+  categories: string[];
+  presets: (GalleryFilterOption & { category?: string })[];
+  onApply: (filters: GalleryFilters) => void;
+  onClose: () => void;
+}
+
+const GROUPING_OPTIONS: { value: GalleryGrouping; label: string }[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'model', label: 'Model' },
+  { value: 'category', label: 'Category' },
+  { value: 'source', label: 'Source' },
+];
+
+const DATE_OPTIONS: { value: GalleryDateRange; label: string }[] = [
+  { value: 'all', label: 'Any Time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This Week' },
+  { value: 'older', label: 'Older' },
+];
+
+const SOURCE_OPTIONS: { value: GenerationSource | null; label: string }[] = [
+  { value: null, label: 'All' },
+  ...(Object.keys(SOURCE_LABELS) as GenerationSource[]).map(source => ({ value: source, label: SOURCE_LABELS[source] })),
+];
+
+export default function GalleryFilterSheet({
+  visible,
+  filters,
+  models,
+  categories,
+  presets,
+  onApply,
+  onClose,
+}: GalleryFilterSheetProps) {
+  const [draft, setDraft] = useState<GalleryFilters>(filters);
+
+  // Start from the current filters every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+    }
+  }, [visible]);
+
+  // Only offer presets from the chosen category
+  const visiblePresets = draft.category ? presets.filter(preset => preset.category === draft.category) : presets;
+
+  const handleCategoryPress = (category: string | null) => {
+    setDraft(prev => {
+      const presetStillVisible = !category || presets.some(p => p.id === prev.presetId && p.category === category);
+      return { ...prev, category, presetId: presetStillVisible ? prev.presetId : null };
+    });
+  };
+
+  const handleReset = () => {
+    // Grouping is a view preference, not a filter
+    setDraft({ ...DEFAULT_GALLERY_FILTERS, groupBy: draft.groupBy });
+  };
+
+  const handleApply = () => {
+    onApply(draft);
+    onClose();
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <View style={styles.sheet}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity onPress={handleReset}>
+              <Text style={styles.headerAction}>Reset</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Filter Gallery</Text>
+            <TouchableOpacity onPress={handleApply}>
+              <Text style={[styles.headerAction, styles.headerActionPrimary]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* Grouping */}
+            <Text style={styles.sectionLabel}>Group By</Text>
+            <View style={styles.segmentRow}>
+              {GROUPING_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.segment, draft.groupBy === option.value && styles.segmentSelected]}
+                  onPress={() => setDraft(prev => ({ ...prev, groupBy: option.value }))}
+                >
+                  <Text style={[styles.segmentText, draft.groupBy === option.value && styles.segmentTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Date range */}
+            <Text style={styles.sectionLabel}>Date</Text>
+            <View style={styles.chipRow}>
+              {DATE_OPTIONS.map(option => renderChip(
+                option.value,
+                option.label,
+                draft.dateRange === option.value,
+                () => setDraft(prev => ({ ...prev, dateRange: option.value }))
+              ))}
+            </View>
+
+            {/* Source */}
+            <Text style={styles.sectionLabel}>Source</Text>
+            <View style={styles.chipRow}>
+              {SOURCE_OPTIONS.map(option => renderChip(
+                option.value || 'all',
+                option.label,
+                draft.source === option.value,
+                () => setDraft(prev => ({ ...prev, source: option.value }))
+              ))}
+            </View>
+
+            {/* Trained model */}
+            {models.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Model</Text>
+                <View style={styles.chipRow}>
+                  {renderChip('all', 'All Models', draft.modelId === null, () => setDraft(prev => ({ ...prev, modelId: null })))}
+                  {models.map(model => renderChip(
+                    model.id,
+                    model.name,
+                    draft.modelId === model.id,
+                    () => setDraft(prev => ({ ...prev, modelId: model.id }))
+                  ))}
+                </View>
+              </>
+            )}
+
+            {/* Category */}
+            {categories.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Category</Text>
+                <View style={styles.chipRow}>
+                  {renderChip('all', 'All Categories', draft.category === null, () => handleCategoryPress(null))}
+                  {categories.map(category => renderChip(
+                    category,
+                    category,
+                    draft.category === category,
+                    () => handleCategoryPress(category)
+                  ))}
+                </View>
+              </>
+            )}
+
+            {/* Preset */}
+            {visiblePresets.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Preset</Text>
+                <View style={styles.chipRow}>
+                  {renderChip('all', 'All Presets', draft.presetId === null, () => setDraft(prev => ({ ...prev, presetId: null })))}
+                  {visiblePresets.map(preset => renderChip(
+                    preset.id,
+                    preset.name,
+                    draft.presetId === preset.id,
+                    () => setDraft(prev => ({ ...prev, presetId: preset.id }))
+                  ))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 34, // Home indicator
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerAction: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  headerActionPrimary: {
+    color: '#FE6EFD',
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionLabel: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#FF48D8',
+  },
+  segmentText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  segmentTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    maxWidth: '100%',
+  },
+  chipSelected: {
+    backgroundColor: '#FF48D8',
+  },
+  chipText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,44 @@
+import React from 'react';
+import { TouchableOpacity, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { GenerationOptions } from '../../types/preset.types';
+import { describeGenerationOptions } from './GenerationOptionsSheet';
+
+interface GenerationOptionsButtonProps {
+  options: GenerationOptions;
+  onPress: () => void;
+  disabled?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+// "Advanced options" link with a one-line summary of the current choices, opens GenerationOptionsSheet
+export default function GenerationOptionsButton({ options, onPress, disabled, style }: GenerationOptionsButtonProps) {
+  return (
+    <TouchableOpacity style={[styles.button, style]} onPress={onPress} disabled={disabled}>
+      <Text style={styles.buttonText}>⚙️ Advanced options</Text>
+      <Text style={styles.summaryText} numberOfLines={1}>
+        {describeGenerationOptions(options)}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 13,
+  },
+});
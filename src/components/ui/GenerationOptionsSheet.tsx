@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Switch,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { GenerationOptions } from '../../types/preset.types';
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  MAX_SEED,
+  normalizeGenerationOptions,
+} from '../../services/GenerationOptionsService';
+
+interface GenerationOptionsSheetProps {
+  visible: boolean;
+  options: GenerationOptions;
+  onApply: (options: GenerationOptions) => void;
+  onClose: () => void;
+}
+
+const QUALITY_OPTIONS: { value: NonNullable<GenerationOptions['quality']>; label: string }[] = [
+  { value: 'basic', label: 'Basic' },
+  { value: 'high', label: 'High' },
+];
+
+const ASPECT_RATIO_OPTIONS: { value: NonNullable<GenerationOptions['aspect_ratio']>; label: string }[] = [
+  { value: '3:4', label: 'Portrait 3:4' },
+  { value: '1:1', label: 'Square 1:1' },
+  { value: '16:9', label: 'Wide 16:9' },
+];
+
+// One-line summary shown next to the "Advanced options" button
+export const describeGenerationOptions = (options: GenerationOptions): string => {
+  const parts = [
+    options.quality === 'basic' ? 'Basic' : 'High',
+    options.aspect_ratio || DEFAULT_GENERATION_OPTIONS.aspect_ratio,
+  ];
+  if (options.seed !== undefined) parts.push(`Seed ${options.seed}`);
+  if (options.enhance_prompt) parts.push('Enhanced');
+  return parts.join(' · ');
+};
+
+export default function GenerationOptionsSheet({
+  visible,
+  options,
+  onApply,
+  onClose,
+}: GenerationOptionsSheetProps) {
+  const [draft, setDraft] = useState<GenerationOptions>(options);
+  const [seedText, setSeedText] = useState(options.seed !== undefined ? String(options.seed) : '');
+
+  // Start from the current options every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(options);
+      setSeedText(options.seed !== undefined ? String(options.seed) : '');
+    }
+  }, [visible]);
+
+  const handleSeedChange = (text: string) => {
+    const digits = text.replace(/[^0-9]/g, '');
+    setSeedText(digits);
+    setDraft(prev => ({ ...prev, seed: digits ? Math.min(Number(digits), MAX_SEED) : undefined }));
+  };
+
+  const handleRandomizeSeed = () => {
+    const seed = Math.floor(Math.random() * MAX_SEED);
+    setSeedText(String(seed));
+    setDraft(prev => ({ ...prev, seed }));
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_GENERATION_OPTIONS);
+    setSeedText('');
+  };
+
+  const handleApply = () => {
+    onApply(normalizeGenerationOptions(draft));
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+
+        <View style={styles.sheet}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity onPress={handleReset}>
+              <Text style={styles.headerAction}>Reset</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Advanced Options</Text>
+            <TouchableOpacity onPress={handleApply}>
+              <Text style={[styles.headerAction, styles.headerActionPrimary]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {/* Quality */}
+            <Text style={styles.sectionLabel}>Quality</Text>
+            <View style={styles.segmentRow}>
+              {QUALITY_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.segment, draft.quality === option.value && styles.segmentSelected]}
+                  onPress={() => setDraft(prev => ({ ...prev, quality: option.value }))}
+                >
+                  <Text style={[styles.segmentText, draft.quality === option.value && styles.segmentTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Aspect ratio */}
+            <Text style={styles.sectionLabel}>Aspect Ratio</Text>
+            <View style={styles.segmentRow}>
+              {ASPECT_RATIO_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.segment, draft.aspect_ratio === option.value && styles.segmentSelected]}
+                  onPress={() => setDraft(prev => ({ ...prev, aspect_ratio: option.value }))}
+                >
+                  <Text style={[styles.segmentText, draft.aspect_ratio === option.value && styles.segmentTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Seed */}
+            <Text style={styles.sectionLabel}>Seed</Text>
+            <View style={styles.seedRow}>
+              <TextInput
+                style={[styles.input, styles.seedInput]}
+                value={seedText}
+                onChangeText={handleSeedChange}
+                placeholder="Random"
+                placeholderTextColor="rgba(255,255,255,0.4)"
+                keyboardType="number-pad"
+                maxLength={10}
+              />
+              <TouchableOpacity style={styles.seedButton} onPress={handleRandomizeSeed}>
+                <Text style={styles.seedButtonText}>🎲</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.hint}>Reuse a seed to get similar results. Leave empty for a random one.</Text>
+
+            {/* Negative prompt */}
+            <Text style={styles.sectionLabel}>Negative Prompt</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={draft.negative_prompt || ''}
+              onChangeText={text => setDraft(prev => ({ ...prev, negative_prompt: text }))}
+              placeholder="Things to avoid, e.g. blurry, extra fingers"
+              placeholderTextColor="rgba(255,255,255,0.4)"
+              multiline={true}
+              maxLength={500}
+            />
+
+            {/* Prompt enhancement */}
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabelContainer}>
+                <Text style={styles.switchLabel}>Enhance Prompt</Text>
+                <Text style={styles.hint}>Let the AI add detail to the preset prompt.</Text>
+              </View>
+              <Switch
+                value={!!draft.enhance_prompt}
+                onValueChange={value => setDraft(prev => ({ ...prev, enhance_prompt: value }))}
+                trackColor={{ false: 'rgba(255,255,255,0.2)', true: '#FE6EFD' }}
+              />
+            </View>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 34, // Home indicator
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerAction: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  headerActionPrimary: {
+    color: '#FE6EFD',
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionLabel: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#FF48D8',
+  },
+  segmentText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  segmentTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    color: '#ffffff',
+    fontSize: 16,
+  },
+  seedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  seedInput: {
+    flex: 1,
+  },
+  seedButton: {
+    width: 46,
+    height: 46,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  seedButtonText: {
+    fontSize: 20,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 24,
+    gap: 12,
+  },
+  switchLabelContainer: {
+    flex: 1,
+  },
+  switchLabel: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
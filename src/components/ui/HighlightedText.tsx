@@ -0,0 +1,38 @@
+import React from 'react';
+import { Text, TextProps, StyleProp, TextStyle, StyleSheet } from 'react-native';
+import { MatchRange } from '../../services/SearchService';
+
+interface HighlightedTextProps extends TextProps {
+  text: string;
+  ranges: MatchRange[];
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+// Text with search matches emphasised
+export default function HighlightedText({ text, ranges, highlightStyle, ...textProps }: HighlightedTextProps) {
+  if (ranges.length === 0) {
+    return <Text {...textProps}>{text}</Text>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <Text key={index} style={[styles.highlight, highlightStyle]}>
+        {text.slice(start, end)}
+      </Text>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <Text {...textProps}>{parts}</Text>;
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    fontWeight: '700',
+    color: '#FF48D8',
+  },
+});
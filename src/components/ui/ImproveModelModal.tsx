@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useTraining, TrainedModel } from '../../context/TrainingContext';
+import PhotoQualityService from '../../services/PhotoQualityService';
+import { ISSUE_LABELS, PHOTO_GRID_SPACING, PHOTO_TILE_SIZE } from './PhotoReviewModal';
+import { ImproveModelRequest, ModelPhoto, PhotoCheckResult } from '../../types/training.types';
+
+interface ImproveModelModalProps {
+  visible: boolean;
+  model: TrainedModel | null;
+  nextVersion: number;
+  minimumCount: number;
+  onSubmit: (request: ImproveModelRequest) => Promise<void>; // Rejects when training couldn't start; the modal stays open
+  onClose: () => void;
+}
+
+// Pick photos to drop from a model and new ones to add, then train the result as a new version
+export default function ImproveModelModal({
+  visible,
+  model,
+  nextVersion,
+  minimumCount,
+  onSubmit,
+  onClose,
+}: ImproveModelModalProps) {
+  const { getModelPhotos } = useTraining();
+  const [existingPhotos, setExistingPhotos] = useState<ModelPhoto[]>([]);
+  const [removedIds, setRemovedIds] = useState<Set<string>>(new Set());
+  const [addedPhotos, setAddedPhotos] = useState<PhotoCheckResult[]>([]);
+  const [loadingPhotos, setLoadingPhotos] = useState(false);
+  const [checkingPhotos, setCheckingPhotos] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible || !model) return;
+
+    setRemovedIds(new Set());
+    setAddedPhotos([]);
+    setExistingPhotos([]);
+    setLoadError(null);
+    setLoadingPhotos(true);
+
+    getModelPhotos(model.id)
+      .then(setExistingPhotos)
+      .catch(error => {
+        console.error('[ImproveModelModal] Failed to load model photos:', error);
+        setLoadError('Could not load this model\'s photos. You can still add new ones.');
+      })
+      .finally(() => setLoadingPhotos(false));
+  }, [visible, model?.id]);
+
+  if (!model) return null;
+
+  const keptCount = (loadError ? model.photo_count : existingPhotos.length) - removedIds.size + addedPhotos.length;
+  const hasChanges = removedIds.size > 0 || addedPhotos.length > 0;
+  const canSubmit = hasChanges && keptCount >= minimumCount && !loadingPhotos && !checkingPhotos && !submitting;
+
+  const toggleExisting = (id: string) => {
+    setRemovedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const removeAdded = (id: string) => {
+    setAddedPhotos(previous => previous.filter(result => result.photo.id !== id));
+  };
+
+  const handleAddPhotos = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert(
+          'Permission Required',
+          'We need access to your photo library to add photos to your model.',
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        quality: 0.8,
+        selectionLimit: 50,
+      });
+      if (result.canceled || !result.assets) return;
+
+      setCheckingPhotos(true);
+      const report = await PhotoQualityService.analyzePhotos(
+        result.assets.map((asset, index) => ({
+          id: asset.assetId || `${Date.now()}_${index}_${asset.uri}`,
+          uri: asset.uri,
+          width: asset.width,
+          height: asset.height,
+          fileSize: asset.fileSize,
+        }))
+      );
+
+      const addedIds = new Set(addedPhotos.map(added => added.photo.id));
+      setAddedPhotos(previous => [...previous, ...report.results.filter(added => !addedIds.has(added.photo.id))]);
+    } catch (error) {
+      console.error('[ImproveModelModal] Failed to add photos:', error);
+      Alert.alert('Error', 'Failed to add photos. Please try again.');
+    } finally {
+      setCheckingPhotos(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      await onSubmit({
+        addPhotos: addedPhotos.map(({ photo }) => ({ uri: photo.uri, width: photo.width, height: photo.height })),
+        removedPhotoIds: Array.from(removedIds),
+      });
+    } catch {
+      // The parent reports the error; keep the picks so the user can try again
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>Improve {model.name}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.summaryText}>
+            Remove photos that don't look like you and add new ones. The current version stays
+            available until you choose which one to keep.
+          </Text>
+
+          <Text style={styles.sectionTitle}>Current Photos</Text>
+          {loadingPhotos ? (
+            <ActivityIndicator style={styles.loader} color="#FF48D8" />
+          ) : loadError ? (
+            <Text style={styles.errorText}>{loadError}</Text>
+          ) : (
+            <View style={styles.grid}>
+              {existingPhotos.map(photo => {
+                const isRemoved = removedIds.has(photo.id);
+                return (
+                  <TouchableOpacity
+                    key={photo.id}
+                    style={styles.tile}
+                    onPress={() => toggleExisting(photo.id)}
+                    activeOpacity={0.8}
+                  >
+                    <Image
+                      source={{ uri: photo.url }}
+                      style={[styles.image, isRemoved && styles.imageRemoved]}
+                      contentFit="cover"
+                    />
+                    {isRemoved && (
+                      <View style={styles.removedOverlay}>
+                        <Text style={styles.removedIcon}>✕</Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>New Photos</Text>
+            <TouchableOpacity style={styles.addButton} onPress={handleAddPhotos} disabled={checkingPhotos}>
+              {checkingPhotos ? (
+                <ActivityIndicator size="small" color="#FF48D8" />
+              ) : (
+                <Text style={styles.addButtonText}>+ Add Photos</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          <View style={styles.grid}>
+            {addedPhotos.map(({ photo, issues }) => (
+              <TouchableOpacity
+                key={photo.id}
+                style={styles.tile}
+                onPress={() => removeAdded(photo.id)}
+                activeOpacity={0.8}
+              >
+                <Image source={{ uri: photo.uri }} style={styles.image} contentFit="cover" />
+                {issues.length > 0 && (
+                  <View style={styles.badges}>
+                    {issues.map(issue => (
+                      <View key={issue.type} style={styles.badge}>
+                        <Text style={styles.badgeText}>{ISSUE_LABELS[issue.type]}</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {hasChanges && keptCount < minimumCount && (
+            <Text style={styles.minimumText}>
+              Keep at least {minimumCount} photos to train a new version
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.submitText}>
+                Train v{nextVersion} with {keptCount} Photo{keptCount !== 1 ? 's' : ''}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  cancelText: {
+    color: '#FF48D8',
+    fontSize: 16,
+    fontWeight: '500',
+    width: 60,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  content: {
+    paddingBottom: 16,
+  },
+  summaryText: {
+    fontSize: 15,
+    color: '#666666',
+    lineHeight: 21,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingRight: 16,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  addButton: {
+    marginTop: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 72, 216, 0.1)',
+  },
+  addButtonText: {
+    color: '#FF48D8',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    paddingHorizontal: 16,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: PHOTO_GRID_SPACING / 2,
+  },
+  tile: {
+    width: PHOTO_TILE_SIZE,
+    height: PHOTO_TILE_SIZE,
+    margin: PHOTO_GRID_SPACING / 2,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#f8f8f8',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  imageRemoved: {
+    opacity: 0.35,
+  },
+  removedOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removedIcon: {
+    color: '#FF3B30',
+    fontSize: 32,
+    fontWeight: '700',
+  },
+  badges: {
+    position: 'absolute',
+    left: 6,
+    bottom: 6,
+    right: 6,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  badge: {
+    backgroundColor: 'rgba(255, 149, 0, 0.9)',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginTop: 4,
+  },
+  badgeText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  minimumText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  submitButton: {
+    backgroundColor: '#FF48D8',
+    borderRadius: 24,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -6,12 +6,19 @@ import {
   TouchableOpacity,
   Alert,
   Animated,
+  Modal,
+  ActivityIndicator,
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
+import { Image } from 'expo-image';
 import CachedImage from './CachedImage';
 import { CachePriority } from '../../services/ImageCacheManager';
 import { TrainedModel } from '../../context/TrainingContext';
+import { formatTimeRemaining } from '../../services/TrainingProgressTracker';
+import { TrainingProgress, TrainingStage } from '../../types/training.types';
+import { ModelDeletionReport } from '../../types/model.types';
 import { COMPONENT_RADIUS } from '../../styles/borderRadius';
+import { plural } from '../../utils/text';
 
 interface ModelCardProps {
   model: TrainedModel;
@@ -21,8 +28,40 @@ interface ModelCardProps {
   onLongPress: () => void;
   onRename?: (newName: string) => void;
   onDelete?: () => void;
+  loadDeletionPreview?: () => Promise<ModelDeletionReport>; // Lists what the delete removes before confirming
+  isQueued?: boolean; // Upload is paused until the connection returns
+  uploadError?: string; // The photo upload gave up; shown with Retry and Discard
+  onRetryUpload?: () => void;
+  onDiscardUpload?: () => void;
+  trainingProgress?: TrainingProgress | null; // Set while the model isn't ready yet
+  versions?: TrainedModel[]; // Every version of this model, oldest first; `model` is the one shown
+  onSelectVersion?: (id: string) => void;
+  onImprove?: () => void;
+  onPromote?: () => void; // Only offered while the shown version is a candidate
 }
 
+// What else goes with the model, one line per kind of item
+const describeDeletion = (report: ModelDeletionReport): string[] => {
+  const lines: string[] = [];
+  if (report.imageCount > 0) {
+    lines.push(`${plural(report.imageCount, 'image')} from ${plural(report.batchCount, 'generation')} in your gallery`);
+  }
+  if (report.notificationCount > 0) {
+    lines.push(plural(report.notificationCount, 'notification'));
+  }
+  if (report.artifactCount > 0) {
+    lines.push('The training photos and model files');
+  }
+  return lines;
+};
+
+const STAGE_LABELS: Record<TrainingStage, string> = {
+  uploading: 'Uploading photos',
+  queued: 'Queued',
+  training: 'Training',
+  finalizing: 'Finalizing',
+};
+
 export default function ModelCard({
   model,
   isSelected,
@@ -31,8 +70,20 @@ export default function ModelCard({
   onLongPress,
   onRename,
   onDelete,
+  loadDeletionPreview,
+  isQueued = false,
+  uploadError,
+  onRetryUpload,
+  onDiscardUpload,
+  trainingProgress,
+  versions = [],
+  onSelectVersion,
+  onImprove,
+  onPromote,
 }: ModelCardProps) {
   const [showingDeleteAlert, setShowingDeleteAlert] = useState(false);
+  const [deletionPreview, setDeletionPreview] = useState<ModelDeletionReport | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
   const shakeAnim = useRef(new Animated.Value(0)).current;
   const deleteButtonScale = useRef(new Animated.Value(0)).current;
 
@@ -112,12 +163,30 @@ export default function ModelCard({
     );
   };
 
-  const handleDelete = () => {
+  // A card with several versions deletes only the version it shows
+  const deletesOneVersion = versions.length > 1;
+  const deleteTarget = deletesOneVersion ? `v${model.version} of "${model.name}"` : `"${model.name}"`;
+
+  const handleDelete = async () => {
     if (!onDelete) return;
+
+    if (loadDeletionPreview) {
+      setLoadingPreview(true);
+      try {
+        setDeletionPreview(await loadDeletionPreview());
+        return;
+      } catch (error) {
+        console.error('[ModelCard] Failed to load deletion preview:', error);
+      } finally {
+        setLoadingPreview(false);
+      }
+    }
     
     Alert.alert(
-      'Delete Model',
-      `Are you sure you want to delete "${model.name}"? This action cannot be undone.`,
+      deletesOneVersion ? 'Delete Version' : 'Delete Model',
+      `Are you sure you want to delete ${deleteTarget}? Images generated with it will be deleted too.${
+        deletesOneVersion ? ' Other versions stay.' : ''
+      }`,
       [
         {
           text: 'Cancel',
@@ -132,6 +201,26 @@ export default function ModelCard({
     );
   };
 
+  const confirmDeletion = () => {
+    setDeletionPreview(null);
+    onDelete?.();
+  };
+
+  const handleMenuPress = () => {
+    const actions: { text: string; onPress: () => void }[] = [];
+    if (onImprove) {
+      actions.push({ text: 'Improve this Model', onPress: onImprove });
+    }
+    if (onPromote) {
+      actions.push({ text: `Make v${model.version} the Default`, onPress: onPromote });
+    }
+
+    Alert.alert(model.name, undefined, [
+      ...actions,
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const handleLongPress = () => {
     // Add haptic feedback to match iOS UX
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -195,6 +284,65 @@ export default function ModelCard({
 
         {/* Bottom left text overlay */}
         <View style={styles.textOverlay}>
+          {uploadError ? (
+            <View style={styles.uploadFailedContainer}>
+              <Text style={styles.uploadFailedLabel} numberOfLines={2}>⚠️ Upload failed: {uploadError}</Text>
+              <View style={styles.uploadActions}>
+                {onRetryUpload && (
+                  <TouchableOpacity style={[styles.uploadActionButton, styles.uploadRetryButton]} onPress={onRetryUpload}>
+                    <Text style={styles.uploadActionText}>Retry</Text>
+                  </TouchableOpacity>
+                )}
+                {onDiscardUpload && (
+                  <TouchableOpacity style={styles.uploadActionButton} onPress={onDiscardUpload}>
+                    <Text style={styles.uploadActionText}>Discard</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          ) : isQueued ? (
+            <Text style={styles.queuedLabel}>📶 Waiting for connection</Text>
+          ) : null}
+          {!isQueued && !uploadError && trainingProgress && (
+            <View style={styles.progressContainer}>
+              <Text style={styles.stageLabel}>
+                {STAGE_LABELS[trainingProgress.stage]}
+                {trainingProgress.progress > 0 ? ` · ${Math.round(trainingProgress.progress * 100)}%` : ''}
+              </Text>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${Math.round(trainingProgress.progress * 100)}%` }]} />
+              </View>
+              {trainingProgress.etaSeconds !== null && (
+                <Text style={styles.etaLabel}>{formatTimeRemaining(trainingProgress.etaSeconds)}</Text>
+              )}
+            </View>
+          )}
+          {versions.length > 1 && (
+            <View style={styles.versionRow}>
+              {versions.map(version => {
+                const isShown = version.id === model.id;
+                const isArchived = version.versionState === 'archived';
+                const isTraining = version.status === 'training';
+                return (
+                  <TouchableOpacity
+                    key={version.id}
+                    style={[
+                      styles.versionChip,
+                      isShown && styles.versionChipShown,
+                      isArchived && styles.versionChipArchived,
+                    ]}
+                    onPress={() => onSelectVersion?.(version.id)}
+                    disabled={isShown || isArchived || isTraining || isDeleteMode || !onSelectVersion}
+                  >
+                    <Text style={styles.versionChipText}>
+                      v{version.version}
+                      {isTraining ? ' · training' : version.versionState === 'candidate' ? ' · new' : ''}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
           <Text style={styles.photoCount}>
             {model.trainingImageCount > 0 ? model.trainingImageCount : model.photoCount} photos
           </Text>
@@ -206,6 +354,17 @@ export default function ModelCard({
           </TouchableOpacity>
         </View>
 
+        {/* Top left menu */}
+        {(onImprove || onPromote) && !isDeleteMode && !trainingProgress && (
+          <TouchableOpacity
+            style={styles.menuButton}
+            onPress={handleMenuPress}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={styles.menuButtonText}>⋯</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Top right controls */}
         <View style={styles.topRightControls}>
           {/* Delete button (only in delete mode) */}
@@ -222,11 +381,16 @@ export default function ModelCard({
             >
               <TouchableOpacity
                 onPress={handleDelete}
+                disabled={loadingPreview}
                 hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                 style={styles.deleteButtonTouchable}
               >
                 <View style={styles.deleteButtonBackground}>
-                  <Text style={styles.deleteButtonText}>×</Text>
+                  {loadingPreview ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Text style={styles.deleteButtonText}>×</Text>
+                  )}
                 </View>
               </TouchableOpacity>
             </Animated.View>
@@ -240,6 +404,47 @@ export default function ModelCard({
           )}
         </View>
       </TouchableOpacity>
+
+      {/* Delete confirmation listing what goes with the model (or the shown version) */}
+      <Modal
+        visible={deletionPreview !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setDeletionPreview(null)}
+      >
+        <View style={styles.confirmBackdrop}>
+          <View style={styles.confirmDialog}>
+            <Text style={styles.confirmTitle}>Delete {deleteTarget}?</Text>
+            {deletesOneVersion && (
+              <Text style={styles.confirmText}>Only this version is deleted. Other versions stay.</Text>
+            )}
+            {deletionPreview && describeDeletion(deletionPreview).length > 0 && (
+              <>
+                <Text style={styles.confirmText}>This also deletes:</Text>
+                {describeDeletion(deletionPreview).map(line => (
+                  <Text key={line} style={styles.confirmItem}>• {line}</Text>
+                ))}
+              </>
+            )}
+            {deletionPreview && deletionPreview.previewImageUrls.length > 0 && (
+              <View style={styles.confirmImages}>
+                {deletionPreview.previewImageUrls.slice(0, 4).map(url => (
+                  <Image key={url} source={{ uri: url }} style={styles.confirmImage} contentFit="cover" />
+                ))}
+              </View>
+            )}
+            <Text style={styles.confirmHint}>You can undo this for a few seconds after deleting.</Text>
+            <View style={styles.confirmButtons}>
+              <TouchableOpacity style={styles.confirmButton} onPress={() => setDeletionPreview(null)}>
+                <Text style={styles.confirmCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={confirmDeletion}>
+                <Text style={styles.confirmDeleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </Animated.View>
   );
 }
@@ -307,6 +512,106 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     marginBottom: 2,
   },
+  queuedLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFD60A',
+    marginBottom: 2,
+  },
+  progressContainer: {
+    marginBottom: 6,
+  },
+  uploadFailedContainer: {
+    marginBottom: 6,
+  },
+  uploadFailedLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FF6B6B',
+    marginBottom: 6,
+  },
+  uploadActions: {
+    flexDirection: 'row',
+  },
+  uploadActionButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginRight: 6,
+  },
+  uploadRetryButton: {
+    backgroundColor: '#FE6EFD',
+  },
+  uploadActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  stageLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FE6EFD',
+    marginBottom: 4,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: '#FE6EFD',
+  },
+  etaLabel: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 4,
+  },
+  versionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  versionChip: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    marginRight: 4,
+    marginBottom: 4,
+  },
+  versionChipShown: {
+    backgroundColor: '#FE6EFD',
+  },
+  versionChipArchived: {
+    opacity: 0.5,
+  },
+  versionChipText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  menuButton: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  menuButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+    lineHeight: 18,
+  },
   modelName: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -374,4 +679,71 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     lineHeight: 16,
   },
+  confirmBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  confirmDialog: {
+    width: '100%',
+    backgroundColor: '#ffffff',
+    borderRadius: 14,
+    paddingTop: 20,
+    paddingHorizontal: 16,
+  },
+  confirmTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  confirmText: {
+    fontSize: 14,
+    color: '#333333',
+    marginBottom: 4,
+  },
+  confirmItem: {
+    fontSize: 14,
+    color: '#333333',
+    lineHeight: 20,
+  },
+  confirmImages: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  confirmImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    marginRight: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  confirmHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 12,
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    marginTop: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#d1d1d6',
+  },
+  confirmButton: {
+    flex: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  confirmCancelText: {
+    fontSize: 17,
+    color: '#007AFF',
+  },
+  confirmDeleteText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
 });
\ No newline at end of file
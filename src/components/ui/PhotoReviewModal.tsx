@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import { PhotoIssueType, PhotoQualityReport, TrainingPhoto } from '../../types/training.types';
+
+const { width: screenWidth } = Dimensions.get('window');
+const COLUMNS = 3;
+
+// Photo grid and issue badges, shared with ImproveModelModal
+export const PHOTO_GRID_SPACING = 8;
+export const PHOTO_TILE_SIZE = (screenWidth - PHOTO_GRID_SPACING * (COLUMNS + 1)) / COLUMNS;
+
+export const ISSUE_LABELS: Record<PhotoIssueType, string> = {
+  duplicate: 'Duplicate',
+  lowResolution: 'Low res',
+  extremeAspectRatio: 'Shape',
+  oversized: 'Too large',
+};
+
+interface PhotoReviewModalProps {
+  visible: boolean;
+  report: PhotoQualityReport | null;
+  minimumCount: number;
+  onConfirm: (photos: TrainingPhoto[]) => void;
+  onCancel: () => void;
+}
+
+// Grid of the picked training photos with quality warnings; tap a photo to drop or keep it
+export default function PhotoReviewModal({ visible, report, minimumCount, onConfirm, onCancel }: PhotoReviewModalProps) {
+  const [droppedIds, setDroppedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (visible) {
+      setDroppedIds(new Set());
+    }
+  }, [visible, report]);
+
+  if (!report) return null;
+
+  const flaggedIds = report.results.filter(result => result.issues.length > 0).map(result => result.photo.id);
+  const keptPhotos = report.results.filter(result => !droppedIds.has(result.photo.id)).map(result => result.photo);
+  const canContinue = keptPhotos.length >= minimumCount;
+  const allFlaggedDropped = flaggedIds.every(id => droppedIds.has(id));
+
+  const togglePhoto = (id: string) => {
+    setDroppedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleDropFlagged = () => {
+    setDroppedIds(previous => new Set([...previous, ...flaggedIds]));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onCancel}>
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Review Photos</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.summary}>
+          <Text style={styles.summaryText}>
+            {report.flaggedCount} of {report.results.length} photos may hurt your model's quality.
+            Tap a photo to remove it.
+          </Text>
+          {report.flaggedCount > 0 && !allFlaggedDropped && (
+            <TouchableOpacity style={styles.dropFlaggedButton} onPress={handleDropFlagged}>
+              <Text style={styles.dropFlaggedText}>Remove All Flagged</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView contentContainerStyle={styles.grid}>
+          {report.results.map(({ photo, issues }) => {
+            const isDropped = droppedIds.has(photo.id);
+            return (
+              <TouchableOpacity
+                key={photo.id}
+                style={styles.tile}
+                onPress={() => togglePhoto(photo.id)}
+                activeOpacity={0.8}
+              >
+                <Image
+                  source={{ uri: photo.uri }}
+                  style={[styles.image, isDropped && styles.imageDropped]}
+                  contentFit="cover"
+                />
+                {issues.length > 0 && (
+                  <View style={styles.badges}>
+                    {issues.map(issue => (
+                      <View key={issue.type} style={styles.badge}>
+                        <Text style={styles.badgeText}>{ISSUE_LABELS[issue.type]}</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+                {isDropped && (
+                  <View style={styles.droppedOverlay}>
+                    <Text style={styles.droppedIcon}>✕</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {!canContinue && (
+            <Text style={styles.minimumText}>
+              Keep at least {minimumCount} photo{minimumCount !== 1 ? 's' : ''} to continue
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.continueButton, !canContinue && styles.continueButtonDisabled]}
+            onPress={() => onConfirm(keptPhotos)}
+            disabled={!canContinue}
+          >
+            <Text style={styles.continueText}>
+              Continue with {keptPhotos.length} Photo{keptPhotos.length !== 1 ? 's' : ''}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  cancelText: {
+    color: '#FF48D8',
+    fontSize: 16,
+    fontWeight: '500',
+    width: 60,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  summary: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  summaryText: {
+    fontSize: 15,
+    color: '#666666',
+    lineHeight: 21,
+  },
+  dropFlaggedButton: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 72, 216, 0.1)',
+  },
+  dropFlaggedText: {
+    color: '#FF48D8',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: PHOTO_GRID_SPACING / 2,
+    paddingBottom: 16,
+  },
+  tile: {
+    width: PHOTO_TILE_SIZE,
+    height: PHOTO_TILE_SIZE,
+    margin: PHOTO_GRID_SPACING / 2,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#f8f8f8',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  imageDropped: {
+    opacity: 0.35,
+  },
+  badges: {
+    position: 'absolute',
+    left: 6,
+    bottom: 6,
+    right: 6,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  badge: {
+    backgroundColor: 'rgba(255, 149, 0, 0.9)',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginTop: 4,
+  },
+  badgeText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  droppedOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  droppedIcon: {
+    color: '#FF3B30',
+    fontSize: 32,
+    fontWeight: '700',
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  minimumText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  continueButton: {
+    backgroundColor: '#FF48D8',
+    borderRadius: 24,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  continueButtonDisabled: {
+    opacity: 0.5,
+  },
+  continueText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
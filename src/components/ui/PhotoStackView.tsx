@@ -9,6 +9,7 @@ import {
   Animated,
 } from 'react-native';
 import { Image } from 'expo-image';
+import SelectionBadge, { SelectionState } from './SelectionBadge';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -16,6 +17,7 @@ interface GenerationBatch {
   images: string[];
   id?: string;
   generatedAt?: Date;
+  source?: 'preset' | 'custom' | 'camera';
 }
 
 interface PhotoStackViewProps {
@@ -24,6 +26,9 @@ interface PhotoStackViewProps {
   onImageTap?: (imageUrl: string) => void;
   width?: number;
   height?: number;
+  // Set while the gallery is in multi-select mode
+  selectionState?: SelectionState;
+  onSelectToggle?: () => void;
 }
 
 const DEFAULT_STACK_WIDTH = 150;
@@ -35,6 +40,8 @@ export default function PhotoStackView({
   onImageTap,
   width = DEFAULT_STACK_WIDTH,
   height = DEFAULT_STACK_HEIGHT,
+  selectionState,
+  onSelectToggle,
 }: PhotoStackViewProps) {
   
   // Format generation date
@@ -267,6 +274,11 @@ export default function PhotoStackView({
         <View style={styles.labelContainer}>
           <Text style={styles.photoCountIcon}>⎘</Text>
           <Text style={styles.photoCountText}>{formatGenerationDate()}</Text>
+          {batch.source === 'custom' && (
+            <View style={styles.customBadge}>
+              <Text style={styles.customBadgeText}>Custom</Text>
+            </View>
+          )}
         </View>
 
         {/* Stack container with gestures */}
@@ -369,6 +381,10 @@ export default function PhotoStackView({
                 </View>
               )}
             </TouchableOpacity>
+
+            {selectionState && (
+              <SelectionBadge state={selectionState} onPress={onSelectToggle} />
+            )}
           </Animated.View>
         </Animated.View>
       </View>
@@ -400,6 +416,19 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#007AFF',
   },
+  customBadge: {
+    marginLeft: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: 'rgba(254, 110, 253, 0.15)',
+  },
+  customBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FE6EFD',
+    textTransform: 'uppercase',
+  },
   stackContainer: {
     position: 'relative',
   },
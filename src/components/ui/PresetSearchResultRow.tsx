@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import HighlightedText from './HighlightedText';
+import { PresetSearchResult } from '../../services/SearchService';
+import { Preset } from '../../types/preset.types';
+
+interface PresetSearchResultRowProps {
+  result: PresetSearchResult;
+  onPress: (preset: Preset) => void;
+}
+
+export default function PresetSearchResultRow({ result, onPress }: PresetSearchResultRowProps) {
+  const { preset, matches } = result;
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={() => onPress(preset)} activeOpacity={0.7}>
+      <Image
+        source={{ uri: preset.image_url }}
+        style={styles.thumbnail}
+        contentFit="cover"
+        cachePolicy="memory-disk"
+        transition={100}
+      />
+      <View style={styles.textContainer}>
+        <HighlightedText style={styles.name} text={preset.name} ranges={matches.name || []} numberOfLines={1} />
+        <HighlightedText style={styles.category} text={preset.category} ranges={matches.category || []} numberOfLines={1} />
+        {/* Only show the prompt when that's where the match was */}
+        {matches.prompt && (
+          <HighlightedText style={styles.prompt} text={preset.prompt} ranges={matches.prompt} numberOfLines={2} />
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  thumbnail: {
+    width: 56,
+    height: 75, // 3:4
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  category: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+  prompt: {
+    fontSize: 12,
+    color: '#888888',
+    marginTop: 4,
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,174 @@
+import React, { useEffect } from 'react';
+import { StyleSheet, ViewStyle, StyleProp } from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView, ScrollView } from 'react-native-gesture-handler';
+import Reanimated, {
+  SharedValue,
+  runOnJS,
+  useAnimatedReaction,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+} from 'react-native-reanimated';
+
+type Positions = Record<string, number>;
+
+interface ReorderableListProps<T> {
+  data: T[];
+  rowHeight: number;
+  keyExtractor: (item: T) => string;
+  renderItem: (item: T, isDragging: boolean) => React.ReactNode;
+  onReorder: (orderedKeys: string[]) => void;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+}
+
+const toPositions = (keys: string[]): Positions =>
+  keys.reduce<Positions>((positions, key, index) => {
+    positions[key] = index;
+    return positions;
+  }, {});
+
+// Move the row at `from` to `to`, shifting the rows in between by one
+const movePosition = (positions: Positions, from: number, to: number): Positions => {
+  'worklet';
+  const next: Positions = {};
+  Object.keys(positions).forEach(key => {
+    const position = positions[key];
+    if (position === from) {
+      next[key] = to;
+    } else if (from < to && position > from && position <= to) {
+      next[key] = position - 1;
+    } else if (from > to && position >= to && position < from) {
+      next[key] = position + 1;
+    } else {
+      next[key] = position;
+    }
+  });
+  return next;
+};
+
+interface RowProps {
+  id: string;
+  positions: SharedValue<Positions>;
+  rowHeight: number;
+  count: number;
+  onDragEnd: (positions: Positions) => void;
+  children: (isDragging: boolean) => React.ReactNode;
+}
+
+function ReorderableRow({ id, positions, rowHeight, count, onDragEnd, children }: RowProps) {
+  const [isDragging, setIsDragging] = React.useState(false);
+  const dragging = useSharedValue(false);
+  const top = useSharedValue((positions.value[id] ?? 0) * rowHeight);
+  const startTop = useSharedValue(0);
+
+  // Slide into place when another row is dragged past this one
+  useAnimatedReaction(
+    () => positions.value[id],
+    (current, previous) => {
+      if (current !== undefined && current !== previous && !dragging.value) {
+        top.value = withSpring(current * rowHeight, { damping: 20, stiffness: 200 });
+      }
+    }
+  );
+
+  // Long press first so normal swipes still scroll the list
+  const pan = Gesture.Pan()
+    .activateAfterLongPress(250)
+    .onStart(() => {
+      dragging.value = true;
+      startTop.value = top.value;
+      runOnJS(setIsDragging)(true);
+    })
+    .onUpdate(event => {
+      top.value = startTop.value + event.translationY;
+      const target = Math.max(0, Math.min(count - 1, Math.round(top.value / rowHeight)));
+      const current = positions.value[id];
+      if (target !== current) {
+        positions.value = movePosition(positions.value, current, target);
+      }
+    })
+    .onFinalize(() => {
+      if (!dragging.value) return;
+      dragging.value = false;
+      top.value = withSpring(positions.value[id] * rowHeight, { damping: 20, stiffness: 200 });
+      runOnJS(setIsDragging)(false);
+      runOnJS(onDragEnd)(positions.value);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    top: top.value,
+    zIndex: dragging.value ? 10 : 0,
+    transform: [{ scale: withSpring(dragging.value ? 1.03 : 1) }],
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Reanimated.View style={[styles.row, { height: rowHeight }, animatedStyle]}>
+        {children(isDragging)}
+      </Reanimated.View>
+    </GestureDetector>
+  );
+}
+
+/**
+ * Vertical list of fixed-height rows that can be reordered by long-pressing
+ * and dragging. Reports the new order once the row is dropped.
+ */
+export default function ReorderableList<T>({
+  data,
+  rowHeight,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  contentContainerStyle,
+}: ReorderableListProps<T>) {
+  const keys = data.map(keyExtractor);
+  const positions = useSharedValue<Positions>(toPositions(keys));
+
+  // Adopt the new order whenever the data changes from outside
+  useEffect(() => {
+    positions.value = toPositions(keys);
+  }, [keys.join('|')]);
+
+  const handleDragEnd = (finalPositions: Positions) => {
+    const ordered = Object.keys(finalPositions).sort((a, b) => finalPositions[a] - finalPositions[b]);
+    if (ordered.some((key, index) => keys[index] !== key)) {
+      onReorder(ordered);
+    }
+  };
+
+  return (
+    <GestureHandlerRootView style={styles.container}>
+      <ScrollView contentContainerStyle={contentContainerStyle} showsVerticalScrollIndicator={false}>
+        <Reanimated.View style={{ height: data.length * rowHeight }}>
+          {data.map(item => {
+            const key = keyExtractor(item);
+            return (
+              <ReorderableRow
+                key={key}
+                id={key}
+                positions={positions}
+                rowHeight={rowHeight}
+                count={data.length}
+                onDragEnd={handleDragEnd}
+              >
+                {isDragging => renderItem(item, isDragging)}
+              </ReorderableRow>
+            );
+          })}
+        </Reanimated.View>
+      </ScrollView>
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  row: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
+});
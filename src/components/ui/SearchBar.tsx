@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import SearchService, { SearchScope } from '../../services/SearchService';
+
+interface SearchBarProps {
+  scope: SearchScope;
+  value: string;
+  onChangeText: (text: string) => void;
+  placeholder?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Search input with recent searches shown while it's focused and empty.
+ * Queries are remembered when the user submits them.
+ */
+export default function SearchBar({ scope, value, onChangeText, placeholder = 'Search', style }: SearchBarProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  useEffect(() => {
+    SearchService.getRecentSearches(scope).then(setRecentSearches);
+  }, [scope]);
+
+  const handleSubmit = async () => {
+    if (!value.trim()) return;
+    setRecentSearches(await SearchService.addRecentSearch(scope, value));
+  };
+
+  const handleRecentPress = async (query: string) => {
+    onChangeText(query);
+    setRecentSearches(await SearchService.addRecentSearch(scope, query));
+  };
+
+  const handleRemoveRecent = async (query: string) => {
+    setRecentSearches(await SearchService.removeRecentSearch(scope, query));
+  };
+
+  const handleClearRecent = async () => {
+    await SearchService.clearRecentSearches(scope);
+    setRecentSearches([]);
+  };
+
+  const showRecent = isFocused && !value && recentSearches.length > 0;
+
+  return (
+    <View style={style}>
+      <View style={styles.inputContainer}>
+        <Text style={styles.searchIcon}>⌕</Text>
+        <TextInput
+          style={styles.input}
+          value={value}
+          onChangeText={onChangeText}
+          onSubmitEditing={handleSubmit}
+          onFocus={() => setIsFocused(true)}
+          // Delay so taps on a recent search land before the list disappears
+          onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+          placeholder={placeholder}
+          placeholderTextColor="rgba(0, 0, 0, 0.4)"
+          returnKeyType="search"
+          autoCorrect={false}
+          autoCapitalize="none"
+          clearButtonMode="never"
+        />
+        {value.length > 0 && (
+          <TouchableOpacity onPress={() => onChangeText('')} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.clearIcon}>✕</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showRecent && (
+        <View style={styles.recentContainer}>
+          <View style={styles.recentHeader}>
+            <Text style={styles.recentTitle}>Recent</Text>
+            <TouchableOpacity onPress={handleClearRecent}>
+              <Text style={styles.recentClear}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {recentSearches.map(query => (
+            <View key={query} style={styles.recentRow}>
+              <TouchableOpacity style={styles.recentQueryButton} onPress={() => handleRecentPress(query)}>
+                <Text style={styles.recentQuery} numberOfLines={1}>{query}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleRemoveRecent(query)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Text style={styles.recentRemove}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(118, 118, 128, 0.12)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 40,
+  },
+  searchIcon: {
+    fontSize: 18,
+    color: 'rgba(0, 0, 0, 0.45)',
+    marginRight: 6,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000000',
+    paddingVertical: 0,
+  },
+  clearIcon: {
+    fontSize: 14,
+    color: 'rgba(0, 0, 0, 0.45)',
+    paddingLeft: 8,
+  },
+  recentContainer: {
+    marginTop: 8,
+    paddingHorizontal: 4,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  recentTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666666',
+    textTransform: 'uppercase',
+  },
+  recentClear: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  recentQueryButton: {
+    flex: 1,
+  },
+  recentQuery: {
+    fontSize: 15,
+    color: '#000000',
+  },
+  recentRemove: {
+    fontSize: 12,
+    color: 'rgba(0, 0, 0, 0.35)',
+    paddingLeft: 12,
+  },
+});
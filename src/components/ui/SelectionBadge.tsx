@@ -0,0 +1,61 @@
+import React from 'react';
+import { TouchableOpacity, View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+
+export type SelectionState = 'none' | 'partial' | 'all';
+
+interface SelectionBadgeProps {
+  state: SelectionState;
+  onPress?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Check circle shown over gallery images while multi-select is active
+export default function SelectionBadge({ state, onPress, style }: SelectionBadgeProps) {
+  const content = (
+    <View style={[styles.circle, state !== 'none' && styles.circleSelected]}>
+      {state === 'all' && <Text style={styles.icon}>✓</Text>}
+      {state === 'partial' && <Text style={styles.icon}>–</Text>}
+    </View>
+  );
+
+  if (!onPress) {
+    return <View style={[styles.container, style]} pointerEvents="none">{content}</View>;
+  }
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, style]}
+      onPress={onPress}
+      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+    >
+      {content}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    zIndex: 10,
+  },
+  circle: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 2,
+    borderColor: '#ffffff',
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  circleSelected: {
+    backgroundColor: '#007AFF',
+  },
+  icon: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
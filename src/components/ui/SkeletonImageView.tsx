@@ -16,6 +16,8 @@ interface SkeletonImageViewProps {
   width?: number;
   height?: number;
   failed?: boolean;
+  queued?: boolean; // Waiting in the offline queue for connectivity
+  progress?: number; // 0-100 when the backend reports it
   errorMessage?: string;
   onRetry?: () => void;
 }
@@ -25,6 +27,8 @@ export default function SkeletonImageView({
   width = 150, 
   height = 200,
   failed = false,
+  queued = false,
+  progress,
   errorMessage = 'Generation failed',
   onRetry
 }: SkeletonImageViewProps) {
@@ -82,8 +86,12 @@ export default function SkeletonImageView({
       <View style={styles.labelContainer}>
         {failed ? (
           <Text style={styles.failedText}>❌ {errorMessage}</Text>
+        ) : queued ? (
+          <Text style={styles.queuedText}>📶 Waiting for connection...</Text>
         ) : (
-          <Text style={styles.generatingText}>⏳ Generating...</Text>
+          <Text style={styles.generatingText}>
+            ⏳ Generating...{progress ? ` ${Math.round(progress)}%` : ''}
+          </Text>
         )}
       </View>
 
@@ -196,6 +204,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FF9500', // Orange color for generating state
   },
+  queuedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93', // Gray color for queued (offline) state
+  },
   stackContainer: {
     position: 'relative',
   },
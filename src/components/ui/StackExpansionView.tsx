@@ -7,10 +7,12 @@ import {
   Dimensions,
   Modal,
   Animated,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Image } from 'expo-image';
 import FullScreenImageViewer from './FullScreenImageViewer';
+import SelectionBadge from './SelectionBadge';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -25,12 +27,21 @@ interface StackExpansionViewProps {
   batch: GenerationBatch;
   onDismiss: () => void;
   visible: boolean;
+  onDeleteImage?: (imageUrl: string) => Promise<void>;
+  onDeleteBatch?: () => Promise<void>;
+  // When provided the grid picks images for the gallery's multi-select instead of opening them
+  selectedImages?: Set<string>;
+  onToggleImage?: (imageUrl: string) => void;
 }
 
 export default function StackExpansionView({
   batch,
   onDismiss,
   visible,
+  onDeleteImage,
+  onDeleteBatch,
+  selectedImages,
+  onToggleImage,
 }: StackExpansionViewProps) {
   const [fadeAnim] = useState(new Animated.Value(0));
   const [fullScreenVisible, setFullScreenVisible] = useState(false);
@@ -70,10 +81,43 @@ export default function StackExpansionView({
 
   const handleImageTap = (index: number) => {
     console.log('[StackExpansionView] Image tapped, index:', index);
+    if (onToggleImage) {
+      onToggleImage(batch.images[index]);
+      return;
+    }
     setSelectedImageIndex(index);
     setFullScreenVisible(true);
   };
 
+  const renderSelectionBadge = (index: number) => {
+    if (!selectedImages) return null;
+    return <SelectionBadge state={selectedImages.has(batch.images[index]) ? 'all' : 'none'} />;
+  };
+
+  const handleDeleteBatchPress = () => {
+    if (!onDeleteBatch) return;
+
+    Alert.alert(
+      'Delete Generation?',
+      `All ${batch.images.length} photos from this generation will be permanently deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onDeleteBatch();
+            } catch (error) {
+              console.error('[StackExpansionView] Batch delete failed:', error);
+              Alert.alert('Delete Failed', 'We couldn\'t delete these photos. Please try again.', [{ text: 'OK' }]);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleFullScreenDismiss = React.useCallback(() => {
     console.log('[StackExpansionView] Full screen dismissed');
     setFullScreenVisible(false);
@@ -94,6 +138,18 @@ export default function StackExpansionView({
               <Text style={styles.backIcon}>‹</Text>
               <Text style={styles.backText}>Back</Text>
             </TouchableOpacity>
+
+            {onToggleImage && (
+              <TouchableOpacity style={styles.deleteButton} onPress={handleBackPress}>
+                <Text style={styles.doneText}>Done</Text>
+              </TouchableOpacity>
+            )}
+
+            {onDeleteBatch && !onToggleImage && (
+              <TouchableOpacity style={styles.deleteButton} onPress={handleDeleteBatchPress}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
         
@@ -121,6 +177,7 @@ export default function StackExpansionView({
                       placeholder="L6PZfSi_.AyE_3t7t7R**0o#DgR4"
                       transition={100}
                     />
+                    {renderSelectionBadge(0)}
                   </TouchableOpacity>
                 )}
 
@@ -142,6 +199,7 @@ export default function StackExpansionView({
                       placeholder="L6PZfSi_.AyE_3t7t7R**0o#DgR4"
                       transition={100}
                     />
+                    {renderSelectionBadge(1)}
                   </TouchableOpacity>
                 )}
               </View>
@@ -165,6 +223,7 @@ export default function StackExpansionView({
                       placeholder="L6PZfSi_.AyE_3t7t7R**0o#DgR4"
                       transition={100}
                     />
+                    {renderSelectionBadge(2)}
                   </TouchableOpacity>
                 )}
 
@@ -186,6 +245,7 @@ export default function StackExpansionView({
                       placeholder="L6PZfSi_.AyE_3t7t7R**0o#DgR4"
                       transition={100}
                     />
+                    {renderSelectionBadge(3)}
                   </TouchableOpacity>
                 )}
               </View>
@@ -199,6 +259,8 @@ export default function StackExpansionView({
           initialIndex={selectedImageIndex}
           visible={fullScreenVisible}
           onDismiss={handleFullScreenDismiss}
+          onDeleteImage={onDeleteImage}
+          onDeleteBatch={onDeleteBatch}
         />
       </Animated.View>
     </Modal>
@@ -223,6 +285,7 @@ const styles = StyleSheet.create({
   },
   header: {
     flexDirection: 'row',
+    justifyContent: 'space-between',
     paddingLeft: 8,
     paddingRight: 16,
     paddingTop: 8,
@@ -238,6 +301,22 @@ const styles = StyleSheet.create({
     zIndex: 2001,
     elevation: 11,
   },
+  deleteButton: {
+    justifyContent: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    minHeight: 44,
+  },
+  doneText: {
+    fontSize: 17,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  deleteText: {
+    fontSize: 17,
+    color: '#FF3B30',
+    fontWeight: '400',
+  },
   backIcon: {
     fontSize: 24,
     color: '#007AFF',
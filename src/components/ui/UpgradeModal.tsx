@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../context/AuthContext';
+import PurchasesService, { formatTierLabel } from '../../services/PurchasesService';
+import { PurchaseCancelledError, PurchaseProduct, PurchaseValidationError } from '../../types/purchases.types';
+
+interface UpgradeModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// The plans for sale, with purchase and restore
+export default function UpgradeModal({ visible, onClose }: UpgradeModalProps) {
+  const { user } = useAuth();
+  const [products, setProducts] = useState<PurchaseProduct[]>([]);
+  const [loadingProducts, setLoadingProducts] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyProductId, setBusyProductId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const isAvailable = PurchasesService.isAvailable();
+  const isBusy = busyProductId !== null || restoring;
+
+  useEffect(() => {
+    if (!visible || !isAvailable) return;
+
+    setLoadError(null);
+    setLoadingProducts(true);
+    PurchasesService.getProducts()
+      .then(setProducts)
+      .catch(error => {
+        console.error('[UpgradeModal] Failed to load products:', error);
+        setLoadError('Could not load plans. Please try again later.');
+      })
+      .finally(() => setLoadingProducts(false));
+  }, [visible, isAvailable]);
+
+  const handlePurchase = async (product: PurchaseProduct) => {
+    try {
+      setBusyProductId(product.productId);
+      const entitlement = await PurchasesService.purchase(product.productId);
+      Alert.alert(
+        `Welcome to ${formatTierLabel(entitlement.tier)} 🎉`,
+        'Your new limits are ready to use.',
+        [{ text: 'OK', onPress: onClose }]
+      );
+    } catch (error: any) {
+      if (error instanceof PurchaseCancelledError) return;
+      if (error instanceof PurchaseValidationError) {
+        console.error('[UpgradeModal] Purchase not validated:', error.reason);
+        Alert.alert('Payment Received', error.message);
+        return;
+      }
+      console.error('[UpgradeModal] Purchase failed:', error);
+      Alert.alert('Purchase Failed', error.message || 'Something went wrong. You have not been charged.');
+    } finally {
+      setBusyProductId(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    try {
+      setRestoring(true);
+      const entitlement = await PurchasesService.restore();
+      Alert.alert('Purchases Restored', `You're on the ${formatTierLabel(entitlement.tier)} plan.`);
+    } catch (error: any) {
+      console.error('[UpgradeModal] Restore failed:', error);
+      Alert.alert('Restore Failed', error.message || 'Could not restore purchases. Please try again.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Upgrade</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.currentPlan}>
+            You're on the {formatTierLabel(user?.subscriptionTier)} plan
+          </Text>
+
+          {!isAvailable ? (
+            <Text style={styles.messageText}>Upgrades aren't available on this device yet.</Text>
+          ) : loadingProducts ? (
+            <ActivityIndicator style={styles.loader} color="#FF48D8" />
+          ) : loadError ? (
+            <Text style={styles.errorText}>{loadError}</Text>
+          ) : (
+            products.map(product => {
+              const isCurrent = product.tier === user?.subscriptionTier;
+              return (
+                <TouchableOpacity
+                  key={product.productId}
+                  style={[styles.productRow, isCurrent && styles.productRowCurrent]}
+                  onPress={() => handlePurchase(product)}
+                  disabled={isCurrent || isBusy}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.productInfo}>
+                    <Text style={styles.productTitle}>{product.title}</Text>
+                    <Text style={styles.productDescription}>{product.description}</Text>
+                  </View>
+                  {busyProductId === product.productId ? (
+                    <ActivityIndicator color="#FF48D8" />
+                  ) : (
+                    <Text style={styles.productPrice}>
+                      {isCurrent ? 'Current' : `${product.price}/${product.period === 'year' ? 'yr' : 'mo'}`}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+
+        {isAvailable && (
+          <TouchableOpacity style={styles.restoreButton} onPress={handleRestore} disabled={isBusy}>
+            {restoring ? (
+              <ActivityIndicator size="small" color="#666666" />
+            ) : (
+              <Text style={styles.restoreText}>Restore Purchases</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  closeText: {
+    color: '#FF48D8',
+    fontSize: 16,
+    fontWeight: '500',
+    width: 60,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  content: {
+    padding: 16,
+  },
+  currentPlan: {
+    fontSize: 15,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#666666',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#f0f0f0',
+    marginBottom: 12,
+  },
+  productRowCurrent: {
+    borderColor: '#FF48D8',
+  },
+  productInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  productTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 2,
+  },
+  productDescription: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  productPrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF48D8',
+  },
+  restoreButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  restoreText: {
+    fontSize: 15,
+    color: '#666666',
+  },
+});
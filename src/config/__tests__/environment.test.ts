@@ -0,0 +1,53 @@
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: { environment: 'local' } } },
+}));
+
+import Environment, { resolveEnvironment, DEFAULT_ENVIRONMENTS } from '../environment';
+
+describe('resolveEnvironment', () => {
+  it('falls back to production when no extras are provided', () => {
+    expect(resolveEnvironment()).toEqual(DEFAULT_ENVIRONMENTS.production);
+  });
+
+  it('ignores unknown environment names', () => {
+    expect(resolveEnvironment({ environment: 'qa' }).name).toBe('production');
+  });
+
+  it('applies endpoint overrides and strips trailing slashes', () => {
+    const config = resolveEnvironment({
+      environment: 'staging',
+      apiBaseURL: 'https://staging.example.com/api/',
+    });
+
+    expect(config.name).toBe('staging');
+    expect(config.apiBaseURL).toBe('https://staging.example.com/api');
+    expect(config.supabaseUrl).toBe(DEFAULT_ENVIRONMENTS.staging.supabaseUrl);
+  });
+});
+
+describe('Environment', () => {
+  afterEach(() => {
+    Environment.setOverride(null);
+  });
+
+  it('reads the environment from app config extras', () => {
+    expect(Environment.getConfig().name).toBe('local');
+    expect(Environment.apiBaseURL).toBe(DEFAULT_ENVIRONMENTS.local.apiBaseURL);
+  });
+
+  it('notifies subscribers when a runtime override is applied', () => {
+    const listener = jest.fn();
+    const unsubscribe = Environment.subscribe(listener);
+
+    Environment.setOverride({ apiBaseURL: 'http://127.0.0.1:4000/api/' });
+
+    expect(Environment.apiBaseURL).toBe('http://127.0.0.1:4000/api');
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ apiBaseURL: 'http://127.0.0.1:4000/api' }));
+
+    unsubscribe();
+    Environment.setOverride(null);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(Environment.apiBaseURL).toBe(DEFAULT_ENVIRONMENTS.local.apiBaseURL);
+  });
+});
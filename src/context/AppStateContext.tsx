@@ -1,16 +1,17 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { APIService } from '../services/APIService';
+import ModelRepository, { selectModels, selectSelectableModels } from '../services/ModelRepository';
 import ImageCacheManager, { CachePriority } from '../services/ImageCacheManager';
 import { useAuth } from './AuthContext';
 import { AuthState } from '../types/auth.types';
+import { ModelStatus, ModelStoreState, UserModel } from '../types/model.types';
+import { ModelVersionInfo } from '../types/training.types';
 
 // Model interfaces
-export interface LoRAModel {
+export interface LoRAModel extends ModelVersionInfo {
   id: string;
   userId: string;
   name: string;
-  status: 'pending' | 'training' | 'completed' | 'failed';
+  status: ModelStatus;
   higgsfield_id?: string;
   thumbnail_url?: string;
   photoCount: number;
@@ -23,14 +24,28 @@ export interface TrainedModel extends LoRAModel {
   trainingImageCount: number;
 }
 
+// Shape the picker screens use, derived from the model store
+const toLoRAModel = (model: UserModel): LoRAModel => ({
+  id: model.id,
+  userId: model.user_id,
+  name: model.name,
+  status: model.status,
+  higgsfield_id: model.higgsfield_id || undefined,
+  thumbnail_url: model.thumbnail_url || undefined,
+  photoCount: model.photo_count,
+  createdAt: new Date(model.created_at),
+  updatedAt: new Date(model.updated_at),
+  familyId: model.familyId,
+  version: model.version,
+  versionState: model.versionState,
+});
+
 // App State interface
 interface AppState {
-  selectedLoraId: string | null;
-  availableLoRAs: LoRAModel[];
+  modelStore: ModelStoreState; // Mirror of the ModelRepository, the one source of models and selection
   navigationResetTrigger: string;
   loading: boolean;
   error: string | null;
-  modelsLastLoaded: number | null;
   preloadedThumbnails: Set<string>;
 }
 
@@ -38,20 +53,15 @@ interface AppState {
 type AppStateAction =
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
-  | { type: 'SET_SELECTED_LORA'; payload: string | null }
-  | { type: 'SET_AVAILABLE_LORAS'; payload: LoRAModel[] }
+  | { type: 'SET_MODEL_STORE'; payload: ModelStoreState }
   | { type: 'RESET_NAVIGATION' }
-  | { type: 'ADD_MODEL'; payload: LoRAModel }
-  | { type: 'UPDATE_MODEL'; payload: { id: string; updates: Partial<LoRAModel> } }
-  | { type: 'DELETE_MODEL'; payload: string }
-  | { type: 'SET_MODELS_LOADED'; payload: number }
   | { type: 'ADD_PRELOADED_THUMBNAIL'; payload: string };
 
 // Context interface
 interface AppStateContextType {
   // State
   selectedLoraId: string | null;
-  availableLoRAs: LoRAModel[];
+  availableLoRAs: LoRAModel[]; // Selectable versions only; archived versions are history
   navigationResetTrigger: string;
   loading: boolean;
   error: string | null;
@@ -62,23 +72,22 @@ interface AppStateContextType {
   resetNavigationState: () => void;
   handleNewLoRATrained: (loraId: string) => Promise<void>;
   refreshModels: () => Promise<void>;
-  updateModel: (id: string, updates: Partial<LoRAModel>) => void;
   deleteModel: (id: string) => Promise<void>;
+  promoteModelVersion: (id: string) => Promise<void>;
   
   // Helper methods
   getModelById: (id: string) => LoRAModel | undefined;
+  getModelVersions: (familyId: string) => LoRAModel[]; // Every version, archived included, oldest first
   getSelectedModel: () => LoRAModel | undefined;
   getThumbnailForModel: (modelId: string) => Promise<string | null>;
 }
 
 // Initial state
 const initialState: AppState = {
-  selectedLoraId: null,
-  availableLoRAs: [],
+  modelStore: ModelRepository.getState(),
   navigationResetTrigger: '',
   loading: false,
   error: null,
-  modelsLastLoaded: null,
   preloadedThumbnails: new Set(),
 };
 
@@ -91,43 +100,12 @@ const appStateReducer = (state: AppState, action: AppStateAction): AppState => {
     case 'SET_ERROR':
       return { ...state, error: action.payload };
       
-    case 'SET_SELECTED_LORA':
-      return { ...state, selectedLoraId: action.payload };
-      
-    case 'SET_AVAILABLE_LORAS':
-      return { ...state, availableLoRAs: action.payload };
+    case 'SET_MODEL_STORE':
+      return { ...state, modelStore: action.payload };
       
     case 'RESET_NAVIGATION':
       return { ...state, navigationResetTrigger: Date.now().toString() + Math.random() };
       
-    case 'ADD_MODEL':
-      return {
-        ...state,
-        availableLoRAs: [action.payload, ...state.availableLoRAs].sort((a, b) => 
-          b.createdAt.getTime() - a.createdAt.getTime()
-        ),
-      };
-      
-    case 'UPDATE_MODEL':
-      return {
-        ...state,
-        availableLoRAs: state.availableLoRAs.map(model =>
-          model.id === action.payload.id
-            ? { ...model, ...action.payload.updates }
-            : model
-        ),
-      };
-      
-    case 'DELETE_MODEL':
-      return {
-        ...state,
-        availableLoRAs: state.availableLoRAs.filter(model => model.id !== action.payload),
-        selectedLoraId: state.selectedLoraId === action.payload ? null : state.selectedLoraId,
-      };
-      
-    case 'SET_MODELS_LOADED':
-      return { ...state, modelsLastLoaded: action.payload };
-      
     case 'ADD_PRELOADED_THUMBNAIL':
       return {
         ...state,
@@ -139,11 +117,6 @@ const appStateReducer = (state: AppState, action: AppStateAction): AppState => {
   }
 };
 
-// Storage keys
-const SELECTED_MODEL_KEY = 'twyn_selected_model_id';
-const MODELS_CACHE_KEY = 'twyn_cached_models';
-const CACHE_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
-
 // Context
 const AppStateContext = createContext<AppStateContextType | undefined>(undefined);
 
@@ -157,29 +130,52 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
   const [state, dispatch] = useReducer(appStateReducer, initialState);
   const { authState, user } = useAuth();
 
+  const models = selectModels(state.modelStore).map(toLoRAModel);
+  const availableLoRAs = selectSelectableModels(state.modelStore).map(toLoRAModel);
+  const selectedLoraId = state.modelStore.selectedId;
+
   console.log('[🎯 AppState] Provider rendering with state:', {
-    selectedLoraId: state.selectedLoraId,
-    modelCount: state.availableLoRAs.length,
+    selectedLoraId,
+    modelCount: availableLoRAs.length,
     loading: state.loading,
     error: state.error,
   });
 
+  // Follow the model store; every model change and the selection come from there
+  useEffect(() => {
+    dispatch({ type: 'SET_MODEL_STORE', payload: ModelRepository.getState() });
+
+    return ModelRepository.subscribe((store, change) => {
+      dispatch({ type: 'SET_MODEL_STORE', payload: store });
+
+      if (change.type === 'loaded' && change.added.length > 0) {
+        preloadModelThumbnails(change.added.map(id => store.byId[id]), store.selectedId);
+      } else if (change.type === 'selected' && change.id) {
+        // Preload selected model's thumbnail as critical
+        const thumbnailUrl = store.byId[change.id]?.thumbnail_url;
+        if (thumbnailUrl) {
+          console.log('[🎯 AppState] 🚨 Preloading selected model thumbnail as CRITICAL');
+          ImageCacheManager.prefetchCritical([thumbnailUrl]);
+        }
+      }
+    });
+  }, []);
+
   // Initialize on mount and when user changes
   useEffect(() => {
     if (authState === AuthState.AUTHENTICATED && user) {
       console.log('[🎯 AppState] User authenticated, initializing app state');
       initializeAppState();
+    } else if (authState === AuthState.UNAUTHENTICATED) {
+      ModelRepository.clear();
     }
   }, [authState, user]);
 
   // Initialize app state
   const initializeAppState = async () => {
     try {
-      // Load selected model from storage
-      await loadSelectedModelFromStorage();
-      
-      // Load cached models first for immediate UI
-      await loadCachedModels();
+      // Load the saved selection and cached models first for immediate UI
+      await ModelRepository.restore();
       
       // Then refresh from API
       await loadAvailableLoRAs();
@@ -190,91 +186,14 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     }
   };
 
-  // Load selected model from storage
-  const loadSelectedModelFromStorage = async () => {
-    try {
-      const storedModelId = await AsyncStorage.getItem(SELECTED_MODEL_KEY);
-      if (storedModelId) {
-        dispatch({ type: 'SET_SELECTED_LORA', payload: storedModelId });
-        console.log('[🎯 AppState] Loaded selected model from storage:', storedModelId);
-      }
-    } catch (error) {
-      console.error('[🎯 AppState] Failed to load selected model from storage:', error);
-    }
-  };
-
-  // Load cached models from storage
-  const loadCachedModels = async () => {
-    try {
-      const cachedData = await AsyncStorage.getItem(MODELS_CACHE_KEY);
-      if (cachedData) {
-        const { models, timestamp } = JSON.parse(cachedData);
-        
-        // Check if cache is still valid
-        if (Date.now() - timestamp < CACHE_EXPIRY_MS) {
-          const parsedModels = models.map((model: any) => ({
-            ...model,
-            createdAt: new Date(model.createdAt),
-            updatedAt: new Date(model.updatedAt),
-          }));
-          
-          dispatch({ type: 'SET_AVAILABLE_LORAS', payload: parsedModels });
-          dispatch({ type: 'SET_MODELS_LOADED', payload: timestamp });
-          console.log('[🎯 AppState] Loaded', parsedModels.length, 'models from cache');
-        }
-      }
-    } catch (error) {
-      console.error('[🎯 AppState] Failed to load cached models:', error);
-    }
-  };
-
-  // Save models to cache
-  const saveCachedModels = async (models: LoRAModel[]) => {
-    try {
-      const cacheData = {
-        models: models.map(model => ({
-          ...model,
-          createdAt: model.createdAt.toISOString(),
-          updatedAt: model.updatedAt.toISOString(),
-        })),
-        timestamp: Date.now(),
-      };
-      
-      await AsyncStorage.setItem(MODELS_CACHE_KEY, JSON.stringify(cacheData));
-      dispatch({ type: 'SET_MODELS_LOADED', payload: Date.now() });
-    } catch (error) {
-      console.error('[🎯 AppState] Failed to save cached models:', error);
-    }
-  };
-
   // Select LoRA and handle navigation reset
   const selectLoRA = async (loraId: string | null) => {
     console.log('[🎯 AppState] Selecting LoRA:', loraId);
     
-    const isChangingLoRA = state.selectedLoraId !== loraId;
+    const isChangingLoRA = ModelRepository.getState().selectedId !== loraId;
     
-    // Update selected LoRA in state
-    dispatch({ type: 'SET_SELECTED_LORA', payload: loraId });
-    
-    // Save to storage
-    try {
-      if (loraId) {
-        await AsyncStorage.setItem(SELECTED_MODEL_KEY, loraId);
-      } else {
-        await AsyncStorage.removeItem(SELECTED_MODEL_KEY);
-      }
-    } catch (error) {
-      console.error('[🎯 AppState] Failed to save selected model:', error);
-    }
-    
-    // Preload selected model's thumbnail as critical
-    if (loraId && isChangingLoRA) {
-      const selectedModel = state.availableLoRAs.find(model => model.id === loraId);
-      if (selectedModel?.thumbnail_url) {
-        console.log('[🎯 AppState] 🚨 Preloading selected model thumbnail as CRITICAL');
-        ImageCacheManager.prefetchCritical([selectedModel.thumbnail_url]);
-      }
-    }
+    // Update the selection in the model store, which also saves it
+    await ModelRepository.select(loraId);
     
     // Trigger navigation reset only if LoRA actually changed
     if (isChangingLoRA) {
@@ -291,43 +210,10 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'SET_ERROR', payload: null });
       
-      const response = await APIService.fetchUserModels();
+      // Shared with any other refresh in flight
+      const store = await ModelRepository.refresh();
       
-      const models: LoRAModel[] = response.models.map(backendModel => {
-        const createdAt = new Date(backendModel.created_at);
-        const updatedAt = new Date(backendModel.updated_at);
-        
-        return {
-          id: backendModel.higgsfield_id || backendModel.id, // Use higgsfield_id for generation
-          userId: backendModel.user_id,
-          name: backendModel.name,
-          status: backendModel.status as any,
-          higgsfield_id: backendModel.higgsfield_id,
-          thumbnail_url: backendModel.thumbnail_url,
-          photoCount: backendModel.photo_count,
-          createdAt,
-          updatedAt,
-        };
-      });
-      
-      // Sort by creation date (newest first)
-      models.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-      
-      dispatch({ type: 'SET_AVAILABLE_LORAS', payload: models });
-      
-      // Cache the models
-      await saveCachedModels(models);
-      
-      console.log('[🎯 AppState] Loaded', models.length, 'models from API');
-      
-      // Auto-select if we have exactly one LoRA and none selected
-      if (models.length === 1 && !state.selectedLoraId) {
-        await selectLoRA(models[0].id);
-        console.log('[🎯 AppState] Auto-selected single LoRA:', models[0].id);
-      }
-      
-      // Start preloading thumbnails
-      preloadModelThumbnails(models);
+      console.log('[🎯 AppState] Loaded', store.ids.length, 'models from API');
       
     } catch (error) {
       console.error('[🎯 AppState] Failed to load LoRAs:', error);
@@ -338,20 +224,20 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
   };
 
   // Preload model thumbnails for better performance
-  const preloadModelThumbnails = async (models: LoRAModel[]) => {
-    console.log('[🎯 AppState] Starting thumbnail preload for', models.length, 'models');
+  const preloadModelThumbnails = async (newModels: UserModel[], selectedId: string | null) => {
+    console.log('[🎯 AppState] Starting thumbnail preload for', newModels.length, 'models');
     
     try {
       // Collect thumbnail URLs
       const thumbnailUrls: string[] = [];
       const criticalUrls: string[] = [];
       
-      for (const model of models) {
+      for (const model of newModels) {
         if (model.thumbnail_url) {
           thumbnailUrls.push(model.thumbnail_url);
           
           // Mark selected model's thumbnail as critical
-          if (model.id === state.selectedLoraId) {
+          if (model.id === selectedId) {
             criticalUrls.push(model.thumbnail_url);
           }
           
@@ -399,16 +285,10 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     await loadAvailableLoRAs();
   };
 
-  // Update a model
-  const updateModel = (id: string, updates: Partial<LoRAModel>) => {
-    dispatch({ type: 'UPDATE_MODEL', payload: { id, updates } });
-  };
-
   // Delete a model
   const deleteModel = async (id: string) => {
     try {
-      await APIService.deleteModel(id);
-      dispatch({ type: 'DELETE_MODEL', payload: id });
+      await ModelRepository.remove(id);
       console.log('[🎯 AppState] Model deleted:', id);
     } catch (error) {
       console.error('[🎯 AppState] Failed to delete model:', error);
@@ -416,13 +296,30 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     }
   };
 
+  // Make a version the default for its model; the family's other versions are archived
+  const promoteModelVersion = async (id: string) => {
+    try {
+      await ModelRepository.promote(id);
+      console.log('[🎯 AppState] Promoted model version:', id);
+    } catch (error) {
+      console.error('[🎯 AppState] Failed to promote model version:', error);
+      throw error;
+    }
+  };
+
   // Helper methods
   const getModelById = (id: string): LoRAModel | undefined => {
-    return state.availableLoRAs.find(model => model.id === id);
+    return models.find(model => model.id === id);
+  };
+
+  const getModelVersions = (familyId: string): LoRAModel[] => {
+    return models
+      .filter(model => model.familyId === familyId)
+      .sort((a, b) => a.version - b.version);
   };
 
   const getSelectedModel = (): LoRAModel | undefined => {
-    return state.selectedLoraId ? getModelById(state.selectedLoraId) : undefined;
+    return selectedLoraId ? getModelById(selectedLoraId) : undefined;
   };
 
   const getThumbnailForModel = async (modelId: string): Promise<string | null> => {
@@ -439,8 +336,8 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
   // Context value
   const contextValue: AppStateContextType = {
     // State
-    selectedLoraId: state.selectedLoraId,
-    availableLoRAs: state.availableLoRAs,
+    selectedLoraId,
+    availableLoRAs,
     navigationResetTrigger: state.navigationResetTrigger,
     loading: state.loading,
     error: state.error,
@@ -451,11 +348,12 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     resetNavigationState,
     handleNewLoRATrained,
     refreshModels,
-    updateModel,
     deleteModel,
+    promoteModelVersion,
     
     // Helper methods
     getModelById,
+    getModelVersions,
     getSelectedModel,
     getThumbnailForModel,
   };
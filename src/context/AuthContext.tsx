@@ -20,6 +20,7 @@ interface AuthContextType {
   updateProfile: (profileData: ProfileData) => Promise<boolean>;
   completeOnboarding: () => Promise<boolean>;
   getAuthHeader: () => Promise<string | null>;
+  fetchWithAuth: (url: string, init?: RequestInit) => Promise<Response>; // fetch() that refreshes and retries on a 401
   logout: () => Promise<void>;
   refreshToken: () => Promise<boolean>;
   initializeNotifications: () => Promise<boolean>;
@@ -153,6 +154,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const fetchWithAuth = (url: string, init?: RequestInit): Promise<Response> =>
+    AuthService.fetchWithAuth(url, init);
+
   const refreshToken = async (): Promise<boolean> => {
     try {
       return await AuthService.refreshToken();
@@ -187,6 +191,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     updateProfile,
     completeOnboarding,
     getAuthHeader,
+    fetchWithAuth,
     logout,
     refreshToken,
     initializeNotifications,
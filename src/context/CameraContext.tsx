@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import { RequestQueuedError } from '../services/RequestQueueService';
 
 // Types
 export interface CameraCapture {
@@ -59,6 +60,7 @@ type CameraAction =
   | { type: 'START_GENERATING' }
   | { type: 'GENERATE_SUCCESS'; payload: { generationId: string } }
   | { type: 'GENERATE_ERROR'; payload: { error: string } }
+  | { type: 'GENERATE_QUEUED' }
   | { type: 'SET_GENERATION_OPTIONS'; payload: Partial<CameraState['generationOptions']> }
   | { type: 'SET_SELECTED_MODEL'; payload: { modelId: string } }
   | { type: 'CLEAR_CAPTURE' }
@@ -164,6 +166,12 @@ function cameraReducer(state: CameraState, action: CameraAction): CameraState {
         } : null,
       };
 
+    case 'GENERATE_QUEUED':
+      return {
+        ...state,
+        isGenerating: false,
+      };
+
     case 'GENERATE_ERROR':
       return {
         ...state,
@@ -289,7 +297,7 @@ export function CameraProvider({ children }: CameraProviderProps) {
         // Return the analysis data directly
         return analysisData;
       } else {
-        throw new Error(response.error || 'Failed to analyze image');
+        throw response.errorDetails || new Error(response.error || 'Failed to analyze image');
       }
     } catch (error) {
       console.error('[CameraContext] ❌ Analysis failed:', error);
@@ -339,6 +347,12 @@ export function CameraProvider({ children }: CameraProviderProps) {
 
       const response = await APIService.captureAndGenerate(formData);
       
+      if (response.queuedRequest) {
+        // Offline - the request will be replayed by the queue when connectivity returns
+        dispatch({ type: 'GENERATE_QUEUED' });
+        throw new RequestQueuedError(response.queuedRequest);
+      }
+
       if (response.success && response.data?.generationId) {
         console.log('[CameraContext] ✅ Generation started:', response.data.generationId);
         dispatch({
@@ -346,9 +360,10 @@ export function CameraProvider({ children }: CameraProviderProps) {
           payload: { generationId: response.data.generationId },
         });
       } else {
-        throw new Error(response.error || 'Failed to start generation');
+        throw response.errorDetails || new Error(response.error || 'Failed to start generation');
       }
     } catch (error) {
+      if (error instanceof RequestQueuedError) throw error;
       console.error('[CameraContext] ❌ Generation failed:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to start generation';
       dispatch({ type: 'GENERATE_ERROR', payload: { error: errorMessage } });
@@ -377,6 +392,12 @@ export function CameraProvider({ children }: CameraProviderProps) {
 
       const response = await APIService.captureAndGenerate(formData);
       
+      if (response.queuedRequest) {
+        // Offline - the request will be replayed by the queue when connectivity returns
+        dispatch({ type: 'GENERATE_QUEUED' });
+        throw new RequestQueuedError(response.queuedRequest);
+      }
+
       if (response.success && response.data?.generationId) {
         console.log('[CameraContext] ✅ Generation started with captureId:', response.data.generationId);
         dispatch({
@@ -384,9 +405,10 @@ export function CameraProvider({ children }: CameraProviderProps) {
           payload: { generationId: response.data.generationId },
         });
       } else {
-        throw new Error(response.error || 'Failed to start generation');
+        throw response.errorDetails || new Error(response.error || 'Failed to start generation');
       }
     } catch (error) {
+      if (error instanceof RequestQueuedError) throw error;
       console.error('[CameraContext] ❌ Generation with captureId failed:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to start generation';
       dispatch({ type: 'GENERATE_ERROR', payload: { error: errorMessage } });
@@ -422,7 +444,7 @@ export function CameraProvider({ children }: CameraProviderProps) {
           payload: { history: response.data || [] },
         });
       } else {
-        throw new Error(response.error || 'Failed to load capture history');
+        throw response.errorDetails || new Error(response.error || 'Failed to load capture history');
       }
     } catch (error) {
       console.error('[CameraContext] ❌ Failed to load history:', error);
@@ -1,27 +1,41 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import AuthService from '../services/AuthService';
+import FavoritesSyncService, { favoriteKey } from '../services/FavoritesSyncService';
+import FavoriteCollectionsService, {
+  addToCollection as addKeyToCollection,
+  createCollection as buildCollection,
+  normalizeCollectionName,
+  pruneCollections,
+  removeFromCollection as removeKeysFromCollection,
+  reorderCollection as reorderCollectionKeys,
+} from '../services/FavoriteCollectionsService';
 import { Preset } from '../types/preset.types';
-
-interface FavoriteItem {
-  id: string;
-  type: 'preset' | 'image';
-  data: Preset | {
-    imageUrl: string;
-    batchId: string;
-    generatedAt: Date;
-    prompt?: string;
-  };
-  createdAt: Date;
-}
+import { AuthState } from '../types/auth.types';
+import { FavoriteCollection, FavoriteItem } from '../types/favorites.types';
 
 interface FavoritesContextType {
   favorites: FavoriteItem[];
   favoriteIds: Set<string>; // Keep for backward compatibility
   isFavorited: (id: string, type: 'preset' | 'image') => boolean;
   addFavorite: (item: FavoriteItem) => Promise<void>;
+  addFavorites: (items: FavoriteItem[]) => Promise<void>; // Bulk add, skips items that are already favorited
   removeFavorite: (id: string, type: 'preset' | 'image') => Promise<void>;
+  removeImageFavorites: (imageUrls: string[]) => Promise<void>; // Used when gallery images are deleted
   toggleFavorite: (preset: Preset) => Promise<void>; // Keep for backward compatibility
   getFavorites: (type?: 'preset' | 'image') => FavoriteItem[];
+
+  // Collections (albums) of favorites; adding an item to a collection favorites it
+  collections: FavoriteCollection[];
+  createCollection: (name: string, items?: FavoriteItem[]) => Promise<FavoriteCollection>;
+  renameCollection: (collectionId: string, name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  addToCollection: (collectionId: string, item: FavoriteItem) => Promise<void>;
+  removeFromCollection: (collectionId: string, item: FavoriteItem) => Promise<void>;
+  reorderCollection: (collectionId: string, itemKeys: string[]) => Promise<void>;
+  setCollectionCover: (collectionId: string, item: FavoriteItem | null) => Promise<void>;
+  getCollectionItems: (collectionId: string) => FavoriteItem[]; // In collection order, favorites only
 }
 
 const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
@@ -32,16 +46,75 @@ interface FavoritesProviderProps {
 
 const FAVORITES_KEY = 'favorited_items';
 const OLD_PRESETS_KEY = 'favorited_presets'; // For migration
+const SYNC_DEBOUNCE_MS = 2000; // Batch rapid taps into one sync
 
 export function FavoritesProvider({ children }: FavoritesProviderProps) {
   const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
   const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set()); // Keep for compatibility
 
-  // Load favorites from storage on mount
+  // Latest favorites for background sync, which outlives the render that started it
+  const favoritesRef = useRef<FavoriteItem[]>([]);
+  const [collections, setCollections] = useState<FavoriteCollection[]>([]);
+  const collectionsRef = useRef<FavoriteCollection[]>([]);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncInFlightRef = useRef(false);
+  const resyncRef = useRef(false);
+
+  // Load favorites from storage on mount, then reconcile with the server
   useEffect(() => {
-    loadFavorites();
+    Promise.all([loadFavorites(), loadCollections()]).then(() => syncFavorites());
+
+    // Sync on sign-in and whenever the app comes back to the foreground
+    const unsubscribeAuth = AuthService.subscribe(state => {
+      if (state === AuthState.AUTHENTICATED) {
+        scheduleSync();
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        scheduleSync();
+      }
+    });
+
+    return () => {
+      unsubscribeAuth();
+      appStateSubscription.remove();
+      if (syncTimerRef.current) {
+        clearTimeout(syncTimerRef.current);
+      }
+    };
   }, []);
 
+  const updateFavorites = (newFavorites: FavoriteItem[]) => {
+    favoritesRef.current = newFavorites;
+    setFavorites(newFavorites);
+    setFavoriteIds(new Set(newFavorites.map(item => item.id)));
+  };
+
+  const applyCollections = async (newCollections: FavoriteCollection[]) => {
+    collectionsRef.current = newCollections;
+    setCollections(newCollections);
+    await FavoriteCollectionsService.saveCollections(newCollections);
+  };
+
+  // Collections sync with favorites, so the same local-first rule applies
+  const updateCollections = async (newCollections: FavoriteCollection[]) => {
+    await applyCollections(newCollections);
+    scheduleSync();
+  };
+
+  const updateCollection = async (collectionId: string, update: (collection: FavoriteCollection) => FavoriteCollection) => {
+    await updateCollections(collectionsRef.current.map(collection =>
+      collection.id === collectionId ? update(collection) : collection
+    ));
+  };
+
+  const loadCollections = async () => {
+    const stored = await FavoriteCollectionsService.getCollections();
+    collectionsRef.current = stored;
+    setCollections(stored);
+  };
+
   const loadFavorites = async () => {
     try {
       // Try to load new format first
@@ -52,13 +125,13 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
         const processedItems = favoriteItems.map(item => ({
           ...item,
           createdAt: new Date(item.createdAt),
+          updatedAt: item.updatedAt ? new Date(item.updatedAt) : undefined,
           data: item.type === 'image' && typeof item.data === 'object' && 'generatedAt' in item.data
             ? { ...item.data, generatedAt: new Date(item.data.generatedAt) }
             : item.data
         }));
         
-        setFavorites(processedItems);
-        setFavoriteIds(new Set(processedItems.map(item => item.id)));
+        updateFavorites(processedItems);
         console.log('[FavoritesContext] Loaded', processedItems.length, 'favorites from storage');
         return;
       }
@@ -77,11 +150,10 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
           createdAt: new Date(),
         }));
         
-        setFavorites(migratedItems);
-        setFavoriteIds(new Set(oldFavoriteIds));
+        updateFavorites(migratedItems);
         
         // Save in new format and remove old
-        await saveFavorites(migratedItems);
+        await persistFavorites(migratedItems);
         await AsyncStorage.removeItem(OLD_PRESETS_KEY);
       }
     } catch (error) {
@@ -89,7 +161,7 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
     }
   };
 
-  const saveFavorites = async (newFavorites: FavoriteItem[]) => {
+  const persistFavorites = async (newFavorites: FavoriteItem[]) => {
     try {
       await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(newFavorites));
       console.log('[FavoritesContext] Saved', newFavorites.length, 'favorites to storage');
@@ -98,6 +170,59 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
     }
   };
 
+  // Local-first: the change is on disk before the server hears about it
+  const saveFavorites = async (newFavorites: FavoriteItem[]) => {
+    await persistFavorites(newFavorites);
+    scheduleSync();
+  };
+
+  const scheduleSync = () => {
+    if (syncTimerRef.current) {
+      clearTimeout(syncTimerRef.current);
+    }
+    syncTimerRef.current = setTimeout(() => {
+      syncTimerRef.current = null;
+      syncFavorites();
+    }, SYNC_DEBOUNCE_MS);
+  };
+
+  const syncFavorites = async (): Promise<void> => {
+    if (syncInFlightRef.current) {
+      resyncRef.current = true;
+      return;
+    }
+
+    syncInFlightRef.current = true;
+    const snapshot = favoritesRef.current;
+    const collectionsSnapshot = collectionsRef.current;
+    try {
+      const [merged, mergedCollections] = await Promise.all([
+        FavoritesSyncService.sync(snapshot),
+        FavoriteCollectionsService.sync(collectionsSnapshot),
+      ]);
+      if (!merged || !mergedCollections) return;
+
+      // Favorites or collections changed while syncing - sync again rather than overwrite those changes
+      if (favoritesRef.current !== snapshot || collectionsRef.current !== collectionsSnapshot) {
+        resyncRef.current = true;
+        return;
+      }
+
+      updateFavorites(merged);
+      await persistFavorites(merged);
+      await applyCollections(mergedCollections);
+    } catch (error: any) {
+      // Local favorites stay as they are; the next sync retries
+      console.warn('[FavoritesContext] ⚠️ Favorites sync failed:', error?.message || error);
+    } finally {
+      syncInFlightRef.current = false;
+      if (resyncRef.current) {
+        resyncRef.current = false;
+        scheduleSync();
+      }
+    }
+  };
+
   const isFavoritedById = (id: string, type: 'preset' | 'image'): boolean => {
     return favorites.some(fav => fav.id === id && fav.type === type);
   };
@@ -112,21 +237,47 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
       return;
     }
     
-    newFavorites.push(item);
-    setFavorites(newFavorites);
-    setFavoriteIds(new Set([...favoriteIds, item.id]));
+    newFavorites.push({ ...item, updatedAt: new Date() });
+    updateFavorites(newFavorites);
     
     console.log('[FavoritesContext] Added favorite:', item.type, item.id);
     await saveFavorites(newFavorites);
   };
 
+  const addFavorites = async (items: FavoriteItem[]): Promise<void> => {
+    const newItems = items.filter(item => !favorites.some(fav => fav.id === item.id && fav.type === item.type));
+    if (newItems.length === 0) return;
+
+    const updatedAt = new Date();
+    const newFavorites = [...favorites, ...newItems.map(item => ({ ...item, updatedAt }))];
+    updateFavorites(newFavorites);
+
+    console.log('[FavoritesContext] Added', newItems.length, 'favorites');
+    await saveFavorites(newFavorites);
+  };
+
   const removeFavorite = async (id: string, type: 'preset' | 'image'): Promise<void> => {
     const newFavorites = favorites.filter(fav => !(fav.id === id && fav.type === type));
-    setFavorites(newFavorites);
-    setFavoriteIds(new Set(newFavorites.map(fav => fav.id)));
+    updateFavorites(newFavorites);
     
     console.log('[FavoritesContext] Removed favorite:', type, id);
+    await FavoritesSyncService.recordRemovals([{ id, type }]);
     await saveFavorites(newFavorites);
+    await updateCollections(pruneCollections(collectionsRef.current, [favoriteKey(id, type)]));
+  };
+
+  const removeImageFavorites = async (imageUrls: string[]): Promise<void> => {
+    const urls = new Set(imageUrls);
+    const newFavorites = favorites.filter(fav => !(fav.type === 'image' && urls.has(fav.id)));
+    if (newFavorites.length === favorites.length) return;
+
+    updateFavorites(newFavorites);
+
+    console.log('[FavoritesContext] Removed', favorites.length - newFavorites.length, 'favorites for deleted images');
+    const removed = favorites.filter(fav => fav.type === 'image' && urls.has(fav.id));
+    await FavoritesSyncService.recordRemovals(removed.map(fav => ({ id: fav.id, type: fav.type })));
+    await saveFavorites(newFavorites);
+    await updateCollections(pruneCollections(collectionsRef.current, removed.map(fav => favoriteKey(fav.id, fav.type))));
   };
 
   // Keep for backward compatibility
@@ -161,14 +312,82 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
     return favorites;
   };
 
+  const createCollection = async (name: string, items: FavoriteItem[] = []): Promise<FavoriteCollection> => {
+    if (items.length > 0) {
+      await addFavorites(items);
+    }
+
+    const collection = buildCollection(name, items.map(item => favoriteKey(item.id, item.type)));
+    await updateCollections([...collectionsRef.current, collection]);
+    console.log('[FavoritesContext] Created collection:', collection.name);
+    return collection;
+  };
+
+  const renameCollection = async (collectionId: string, name: string): Promise<void> => {
+    const normalized = normalizeCollectionName(name);
+    if (!normalized) return;
+    await updateCollection(collectionId, collection => ({ ...collection, name: normalized, updatedAt: new Date().toISOString() }));
+  };
+
+  // The favorites themselves stay favorited
+  const deleteCollection = async (collectionId: string): Promise<void> => {
+    await FavoriteCollectionsService.recordDeletion(collectionId);
+    await updateCollections(collectionsRef.current.filter(collection => collection.id !== collectionId));
+    console.log('[FavoritesContext] Deleted collection:', collectionId);
+  };
+
+  const addToCollection = async (collectionId: string, item: FavoriteItem): Promise<void> => {
+    if (!isFavoritedById(item.id, item.type)) {
+      await addFavorite(item);
+    }
+    await updateCollection(collectionId, collection => addKeyToCollection(collection, favoriteKey(item.id, item.type)));
+  };
+
+  const removeFromCollection = async (collectionId: string, item: FavoriteItem): Promise<void> => {
+    await updateCollection(collectionId, collection => removeKeysFromCollection(collection, [favoriteKey(item.id, item.type)]));
+  };
+
+  const reorderCollection = async (collectionId: string, itemKeys: string[]): Promise<void> => {
+    await updateCollection(collectionId, collection => reorderCollectionKeys(collection, itemKeys));
+  };
+
+  const setCollectionCover = async (collectionId: string, item: FavoriteItem | null): Promise<void> => {
+    await updateCollection(collectionId, collection => ({
+      ...collection,
+      coverKey: item ? favoriteKey(item.id, item.type) : null,
+      updatedAt: new Date().toISOString(),
+    }));
+  };
+
+  const getCollectionItems = (collectionId: string): FavoriteItem[] => {
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) return [];
+
+    const favoritesByKey = new Map(favorites.map(item => [favoriteKey(item.id, item.type), item]));
+    return collection.itemKeys
+      .map(key => favoritesByKey.get(key))
+      .filter((item): item is FavoriteItem => !!item);
+  };
+
   const contextValue: FavoritesContextType = {
     favorites,
     favoriteIds,
     isFavorited: isFavoritedById,
     addFavorite,
+    addFavorites,
     removeFavorite,
+    removeImageFavorites,
     toggleFavorite,
     getFavorites,
+    collections,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+    reorderCollection,
+    setCollectionCover,
+    getCollectionItems,
   };
 
   return (
@@ -1,11 +1,31 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, ReactNode } from 'react';
 import { APIService } from '../services/APIService';
 import { GenerationBatch } from '../types/preset.types';
+import { ApiImageBatch, BulkActionResult } from '../types/gallery.types';
 import ImageCacheManager, { CachePriority } from '../services/ImageCacheManager';
 import NotificationService from '../services/NotificationService';
+import ModelRepository from '../services/ModelRepository';
+import { useFavorites } from './FavoritesContext';
+
+export const GALLERY_PAGE_SIZE = 20;
+const PRELOAD_BATCHES_BEHIND = 2;
+const PRELOAD_BATCHES_AHEAD = 6;
+
+const toGenerationBatch = (batch: ApiImageBatch): GenerationBatch => ({
+  id: batch.higgsfield_id || batch.id,
+  images: batch.images,
+  generatedAt: new Date(batch.created_at),
+  source: batch.source,
+  modelId: batch.model_id,
+  presetId: batch.preset_id,
+  presetName: batch.preset_name,
+  category: batch.category,
+  prompt: batch.prompt,
+  synthetic: batch.synthetic,
+});
 
 // Pending generation for skeleton display
-interface PendingGeneration {
+export interface PendingGeneration {
   id: string;
   preset: {
     name: string;
@@ -19,10 +39,17 @@ interface GalleryContextType {
   generationBatches: GenerationBatch[];
   pendingGenerations: PendingGeneration[];
   isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
   errorMessage: string | null;
   refresh: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  preloadAround: (displayedBatches: GenerationBatch[], firstVisibleIndex: number, lastVisibleIndex: number) => void;
   addPendingGeneration: (preset: { name: string; image_url: string }) => string;
   removePendingGeneration: (id: string) => void;
+  deleteImage: (imageUrl: string, batchId: string) => Promise<void>;
+  deleteBatch: (batchId: string) => Promise<void>;
+  deleteImages: (imageUrls: string[], onProgress?: (completed: number, total: number) => void) => Promise<BulkActionResult>;
 }
 
 const GalleryContext = createContext<GalleryContextType | undefined>(undefined);
@@ -32,11 +59,29 @@ interface GalleryProviderProps {
 }
 
 export function GalleryProvider({ children }: GalleryProviderProps) {
-  const [images, setImages] = useState<string[]>([]);
   const [generationBatches, setGenerationBatches] = useState<GenerationBatch[]>([]);
   const [pendingGenerations, setPendingGenerations] = useState<PendingGeneration[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { removeImageFavorites } = useFavorites();
+
+  // Latest batches for bulk actions that span several renders
+  const batchesRef = useRef<GenerationBatch[]>([]);
+  batchesRef.current = generationBatches;
+
+  const nextCursorRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  const preloadedRef = useRef<Set<string>>(new Set());
+
+  // Flattened images for backwards compatibility
+  const images = useMemo(() => generationBatches.flatMap(batch => batch.images), [generationBatches]);
+
+  const setBatches = (batches: GenerationBatch[]) => {
+    batchesRef.current = batches;
+    setGenerationBatches(batches);
+  };
 
   // Group images into batches of 4 (each generation creates 4 images)
   const groupImagesIntoBatches = (imageUrls: string[]): GenerationBatch[] => {
@@ -55,31 +100,27 @@ export function GalleryProvider({ children }: GalleryProviderProps) {
     return batches;
   };
 
+  // Replace the first page, keeping any older pages the user has already scrolled through
   const refresh = async () => {
     try {
       console.log('[GalleryContext] Refreshing gallery...');
       setIsLoading(true);
       setErrorMessage(null);
-      
-      const currentImageCount = images.length;
-      
-      // Try to fetch images with proper batch information
-      const batchResponse = await APIService.fetchImageBatches();
-      console.log('[GalleryContext] API returned', batchResponse.count, 'image batches');
-      
-      // Flatten batches to get all images for backwards compatibility
-      const allImages = batchResponse.batches.flatMap(batch => batch.images);
-      console.log('[GalleryContext] Total images:', allImages.length, '(was', currentImageCount, ')');
-      
-      // Check if we have new images (indicating a generation completed)
-      if (allImages.length > currentImageCount && pendingGenerations.length > 0) {
-        const newImagesCount = allImages.length - currentImageCount;
-        console.log(`[GalleryContext] 🎉 Detected ${newImagesCount} new images, removing pending generations`);
-        
-        // Remove pending generations (now we can potentially match by timestamp)
+
+      const page = await APIService.fetchImageBatches({ limit: GALLERY_PAGE_SIZE });
+      console.log('[GalleryContext] API returned', page.batches.length, 'of', page.count, 'image batches');
+
+      const firstPage = page.batches.map(toGenerationBatch);
+      const firstPageIds = new Set(firstPage.map(batch => batch.id));
+      const previous = batchesRef.current;
+
+      // New batches on the first page mean a generation completed
+      const hasNewBatches = previous.length > 0 && firstPage.some(batch => !previous.some(b => b.id === batch.id));
+      if (hasNewBatches && pendingGenerations.length > 0) {
+        console.log('[GalleryContext] 🎉 Detected new batches, removing pending generations');
         setPendingGenerations([]);
       }
-      
+
       // ALSO check for failed generations by looking at time elapsed
       // If pending generations are older than 15 minutes, likely failed
       if (pendingGenerations.length > 0) {
@@ -97,26 +138,22 @@ export function GalleryProvider({ children }: GalleryProviderProps) {
           }));
         }
       }
-      
-      // Set flattened images for backwards compatibility
-      setImages(allImages);
-      
-      // Convert API batches to our GenerationBatch format
-      const generationBatches: GenerationBatch[] = batchResponse.batches.map(batch => ({
-        id: batch.higgsfield_id || batch.id,
-        images: batch.images,
-        generatedAt: new Date(batch.created_at),
-      }));
-      
-      console.log('[GalleryContext] Created', generationBatches.length, 'properly grouped generation batches');
-      setGenerationBatches(generationBatches);
-
-      // Preload gallery images with high priority for development
-      if (allImages.length > 0) {
-        const imagesToPreload = allImages.slice(0, 200);
-        console.log(`[GalleryContext] Preloading ${imagesToPreload.length} images with HIGH priority`);
-        await ImageCacheManager.preloadImages(imagesToPreload, CachePriority.HIGH);
+
+      let nextBatches = firstPage;
+      if (previous.length > GALLERY_PAGE_SIZE && page.next_cursor) {
+        // Keep the older pages and their cursor so the list doesn't jump back to the top
+        const oldestOnFirstPage = firstPage[firstPage.length - 1]?.generatedAt.getTime() ?? Infinity;
+        const olderBatches = previous.filter(batch =>
+          !firstPageIds.has(batch.id) && batch.generatedAt.getTime() <= oldestOnFirstPage
+        );
+        nextBatches = [...firstPage, ...olderBatches];
+      } else {
+        nextCursorRef.current = page.next_cursor;
       }
+
+      console.log('[GalleryContext] Showing', nextBatches.length, 'generation batches');
+      setBatches(nextBatches);
+      setHasMore(!!nextCursorRef.current);
     } catch (error: any) {
       console.error('[GalleryContext] Failed to load images:', error);
       setErrorMessage(error.message || 'Failed to load images');
@@ -125,6 +162,195 @@ export function GalleryProvider({ children }: GalleryProviderProps) {
     }
   };
 
+  // Append the next page when the list nears its end
+  const loadMore = async () => {
+    const cursor = nextCursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      console.log('[GalleryContext] 📄 Loading next page of batches');
+      const page = await APIService.fetchImageBatches({ limit: GALLERY_PAGE_SIZE, cursor });
+      const loadedIds = new Set(batchesRef.current.map(batch => batch.id));
+      const newBatches = page.batches.map(toGenerationBatch).filter(batch => !loadedIds.has(batch.id));
+
+      // A refresh may have replaced the cursor while this page was loading
+      if (nextCursorRef.current === cursor) {
+        nextCursorRef.current = page.next_cursor;
+        setBatches([...batchesRef.current, ...newBatches]);
+        setHasMore(!!page.next_cursor);
+        console.log('[GalleryContext] 📄 Loaded', newBatches.length, 'more batches, has more:', !!page.next_cursor);
+      }
+    } catch (error: any) {
+      console.error('[GalleryContext] Failed to load more images:', error);
+      setErrorMessage(error.message || 'Failed to load more images');
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Preload the visible batches plus a few on either side instead of the whole gallery.
+  // Takes the batches in display order since filters and grouping reorder them.
+  const preloadAround = (displayedBatches: GenerationBatch[], firstVisibleIndex: number, lastVisibleIndex: number) => {
+    const batches = displayedBatches;
+    const visible = batches.slice(Math.max(0, firstVisibleIndex), lastVisibleIndex + 1);
+    const nearby = [
+      ...batches.slice(Math.max(0, firstVisibleIndex - PRELOAD_BATCHES_BEHIND), Math.max(0, firstVisibleIndex)),
+      ...batches.slice(lastVisibleIndex + 1, lastVisibleIndex + 1 + PRELOAD_BATCHES_AHEAD),
+    ];
+
+    const pick = (list: GenerationBatch[]) => list
+      .flatMap(batch => batch.images)
+      .filter(url => !preloadedRef.current.has(url));
+
+    const visibleUrls = pick(visible);
+    const nearbyUrls = pick(nearby);
+    [...visibleUrls, ...nearbyUrls].forEach(url => preloadedRef.current.add(url));
+
+    if (visibleUrls.length > 0) {
+      ImageCacheManager.preloadImages(visibleUrls, CachePriority.HIGH);
+    }
+    if (nearbyUrls.length > 0) {
+      ImageCacheManager.preloadImages(nearbyUrls, CachePriority.NORMAL);
+    }
+  };
+
+  const insertBatch = (batch: GenerationBatch) => {
+    console.log('[GalleryContext] ➕ Inserting completed batch:', batch.id, 'with', batch.images.length, 'images');
+    setGenerationBatches(prev => [batch, ...prev.filter(b => b.id !== batch.id)]);
+    ImageCacheManager.preloadImages(batch.images, CachePriority.HIGH);
+  };
+
+  // Put a deleted batch (or some of its images) back where it was after a failed delete
+  const restoreBatch = (batch: GenerationBatch, batchIndex: number, restoredImages: string[]) => {
+    setGenerationBatches(prev => {
+      const existing = prev.find(b => b.id === batch.id);
+      if (!existing) {
+        const next = [...prev];
+        next.splice(Math.min(batchIndex, next.length), 0, { ...batch, images: restoredImages });
+        return next;
+      }
+      // Keep the original image order
+      const images = batch.images.filter(url => existing.images.includes(url) || restoredImages.includes(url));
+      return prev.map(b => (b.id === batch.id ? { ...b, images } : b));
+    });
+  };
+
+  // Favorites are updated once per user action - several updates from the same render would overwrite each other
+  const finishDeletion = (imageUrls: string[]) => {
+    if (imageUrls.length === 0) return;
+    ImageCacheManager.evictImages(imageUrls);
+    removeImageFavorites(imageUrls);
+  };
+
+  // Optimistic delete + rollback; resolves with the removed image URLs
+  const removeImage = async (imageUrl: string, batchId: string): Promise<string[]> => {
+    const batchIndex = batchesRef.current.findIndex(b => b.id === batchId);
+    const batch = batchesRef.current[batchIndex];
+    if (!batch || !batch.images.includes(imageUrl)) {
+      console.warn('[GalleryContext] Image to delete not found in batch:', batchId);
+      return [];
+    }
+
+    console.log('[GalleryContext] 🗑️ Deleting image from batch:', batchId);
+
+    // Optimistic update - drop the batch entirely once its last image is gone
+    setGenerationBatches(prev => prev
+      .map(b => (b.id === batchId ? { ...b, images: b.images.filter(url => url !== imageUrl) } : b))
+      .filter(b => b.images.length > 0));
+
+    try {
+      await APIService.deleteImage(imageUrl, batch.synthetic ? undefined : batchId);
+    } catch (error) {
+      console.error('[GalleryContext] ❌ Failed to delete image, rolling back:', error);
+      restoreBatch(batch, batchIndex, [imageUrl]);
+      throw error;
+    }
+
+    return [imageUrl];
+  };
+
+  const removeBatch = async (batchId: string): Promise<string[]> => {
+    const batchIndex = batchesRef.current.findIndex(b => b.id === batchId);
+    const batch = batchesRef.current[batchIndex];
+    if (!batch) {
+      console.warn('[GalleryContext] Batch to delete not found:', batchId);
+      return [];
+    }
+
+    console.log('[GalleryContext] 🗑️ Deleting batch:', batchId, 'with', batch.images.length, 'images');
+
+    setGenerationBatches(prev => prev.filter(b => b.id !== batchId));
+
+    try {
+      if (batch.synthetic) {
+        // The server never had this batch; a DELETE for it would 404 and look like success
+        for (const imageUrl of batch.images) {
+          await APIService.deleteImage(imageUrl);
+        }
+      } else {
+        await APIService.deleteBatch(batchId);
+      }
+    } catch (error) {
+      console.error('[GalleryContext] ❌ Failed to delete batch, rolling back:', error);
+      restoreBatch(batch, batchIndex, batch.images);
+      throw error;
+    }
+
+    return batch.images;
+  };
+
+  const deleteImage = async (imageUrl: string, batchId: string): Promise<void> => {
+    finishDeletion(await removeImage(imageUrl, batchId));
+  };
+
+  const deleteBatch = async (batchId: string): Promise<void> => {
+    finishDeletion(await removeBatch(batchId));
+  };
+
+  /**
+   * Delete images across batches. Batches whose images are all selected are
+   * deleted as a whole; every failure is rolled back and reported individually.
+   */
+  const deleteImages = async (
+    imageUrls: string[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<BulkActionResult> => {
+    const selected = new Set(imageUrls);
+    const result: BulkActionResult = { succeeded: [], failed: [] };
+    const reportProgress = () => onProgress?.(result.succeeded.length + result.failed.length, imageUrls.length);
+    const affectedBatches = batchesRef.current.filter(batch => batch.images.some(url => selected.has(url)));
+
+    for (const batch of affectedBatches) {
+      const batchImages = batch.images.filter(url => selected.has(url));
+
+      if (batchImages.length === batch.images.length) {
+        try {
+          result.succeeded.push(...await removeBatch(batch.id));
+        } catch (error: any) {
+          result.failed.push(...batchImages.map(imageUrl => ({ imageUrl, error: error?.message || 'Delete failed' })));
+        }
+        reportProgress();
+        continue;
+      }
+
+      for (const imageUrl of batchImages) {
+        try {
+          result.succeeded.push(...await removeImage(imageUrl, batch.id));
+        } catch (error: any) {
+          result.failed.push({ imageUrl, error: error?.message || 'Delete failed' });
+        }
+        reportProgress();
+      }
+    }
+
+    finishDeletion(result.succeeded);
+    console.log(`[GalleryContext] 🗑️ Bulk delete finished: ${result.succeeded.length} deleted, ${result.failed.length} failed`);
+    return result;
+  };
+
   const addPendingGeneration = (preset: { name: string; image_url: string }): string => {
     const id = `pending_${Date.now()}`;
     const pendingGen: PendingGeneration = {
@@ -148,13 +374,33 @@ export function GalleryProvider({ children }: GalleryProviderProps) {
     refresh();
   }, []);
 
+  // A deleted model takes its images with it; an undone delete brings them back
+  useEffect(() => {
+    return ModelRepository.subscribe((_state, change) => {
+      if (change.type === 'removed') {
+        const remaining = batchesRef.current.filter(batch => batch.modelId !== change.id);
+        if (remaining.length !== batchesRef.current.length) {
+          console.log('[GalleryContext] Hiding', batchesRef.current.length - remaining.length, 'batches of deleted model:', change.id);
+          setBatches(remaining);
+        }
+      } else if (change.type === 'restored') {
+        refresh();
+      }
+    });
+  }, []);
+
   // Listen for generation completion notifications
   useEffect(() => {
     const handleGenerationCompleted = (data: any) => {
       console.log('[GalleryContext] 🎉 Generation completed notification received:', data);
       
-      // Refresh gallery to show new images
-      refresh();
+      if (data.batch?.images?.length) {
+        // Status came with the result - insert the exact batch without refetching everything
+        insertBatch(data.batch);
+      } else {
+        // Push notifications only carry a count - refresh gallery to show new images
+        refresh();
+      }
       
       // Remove any matching pending generation
       if (data.generationId) {
@@ -210,10 +456,17 @@ export function GalleryProvider({ children }: GalleryProviderProps) {
     generationBatches,
     pendingGenerations,
     isLoading,
+    isLoadingMore,
+    hasMore,
     errorMessage,
     refresh,
+    loadMore,
+    preloadAround,
     addPendingGeneration,
     removePendingGeneration,
+    deleteImage,
+    deleteBatch,
+    deleteImages,
   };
 
   return (
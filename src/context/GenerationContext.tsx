@@ -1,17 +1,27 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useState, useRef, ReactNode } from 'react';
 import { Alert } from 'react-native';
 import { APIService } from '../services/APIService';
-import { Preset } from '../types/preset.types';
+import { GenerationOptions, GenerationSubmission, Preset } from '../types/preset.types';
 import NotificationService from '../services/NotificationService';
+import GenerationStatusStream from '../services/GenerationStatusStream';
+import { showGenerationErrorAlert } from '../utils/errorAlerts';
+import RequestQueue, { RequestQueuedError, generateIdempotencyKey } from '../services/RequestQueueService';
+import { DEFAULT_GENERATION_OPTIONS } from '../services/GenerationOptionsService';
+import { isCustomPreset } from '../services/CustomPromptService';
 
-interface SkeletonGeneration {
+export interface SkeletonGeneration {
   id: string;
+  generationId?: string; // Backend generation_id, known once the request has been accepted
   preset: Preset;
   characterId: string;
+  options?: GenerationOptions; // Advanced options the request was sent with, reused on retry
   timestamp: Date;
   isGenerating: true;
   failed?: boolean;
   errorMessage?: string;
+  queued?: boolean; // Request is waiting in the offline queue
+  progress?: number; // 0-100 as reported by the backend
+  resultImageUrls?: string[]; // Filled in when the backend reports completion
 }
 
 interface GenerationState {
@@ -26,8 +36,20 @@ type GenerationAction =
   | { type: 'ADD_SKELETON_GENERATION'; payload: SkeletonGeneration }
   | { type: 'REMOVE_SKELETON_GENERATION'; payload: string }
   | { type: 'MARK_GENERATION_FAILED'; payload: { id: string; errorMessage: string } }
+  | { type: 'SET_GENERATION_ID'; payload: { id: string; generationId: string } }
+  | { type: 'UPDATE_GENERATION_PROGRESS'; payload: { id: string; progress: number; resultImageUrls?: string[] } }
+  | { type: 'MARK_GENERATION_QUEUED'; payload: string }
+  | { type: 'MARK_GENERATION_SENT'; payload: { id: string; generationId?: string } }
+  | { type: 'RESTORE_QUEUED_GENERATIONS'; payload: SkeletonGeneration[] }
   | { type: 'CLEAR_ERROR' };
 
+// Prefer the backend generation_id; fall back to partial matching on the local skeleton ID
+const matchesGeneration = (skeleton: SkeletonGeneration, generationId: string): boolean => {
+  if (!generationId) return false;
+  if (skeleton.generationId) return skeleton.generationId === generationId;
+  return skeleton.id.includes(generationId) || generationId.includes(skeleton.id);
+};
+
 const generationReducer = (state: GenerationState, action: GenerationAction): GenerationState => {
   switch (action.type) {
     case 'SET_LOADING':
@@ -49,10 +71,57 @@ const generationReducer = (state: GenerationState, action: GenerationAction): Ge
         ...state,
         skeletonGenerations: state.skeletonGenerations.map(g => 
           g.id === action.payload.id 
-            ? { ...g, failed: true, errorMessage: action.payload.errorMessage }
+            ? { ...g, failed: true, queued: false, errorMessage: action.payload.errorMessage }
             : g
         )
       };
+    case 'SET_GENERATION_ID':
+      return {
+        ...state,
+        skeletonGenerations: state.skeletonGenerations.map(g =>
+          g.id === action.payload.id ? { ...g, generationId: action.payload.generationId } : g
+        )
+      };
+    case 'UPDATE_GENERATION_PROGRESS':
+      return {
+        ...state,
+        skeletonGenerations: state.skeletonGenerations.map(g =>
+          g.id === action.payload.id
+            ? {
+                ...g,
+                progress: action.payload.progress,
+                resultImageUrls: action.payload.resultImageUrls || g.resultImageUrls,
+              }
+            : g
+        )
+      };
+    case 'MARK_GENERATION_QUEUED':
+      return {
+        ...state,
+        skeletonGenerations: state.skeletonGenerations.map(g =>
+          g.id === action.payload ? { ...g, queued: true } : g
+        )
+      };
+    case 'MARK_GENERATION_SENT':
+      // Restart the clock once the backend actually has the request
+      return {
+        ...state,
+        skeletonGenerations: state.skeletonGenerations.map(g =>
+          g.id === action.payload.id
+            ? { ...g, queued: false, generationId: action.payload.generationId, timestamp: new Date() }
+            : g
+        )
+      };
+    case 'RESTORE_QUEUED_GENERATIONS': {
+      const existingIds = new Set(state.skeletonGenerations.map(g => g.id));
+      return {
+        ...state,
+        skeletonGenerations: [
+          ...state.skeletonGenerations,
+          ...action.payload.filter(g => !existingIds.has(g.id)),
+        ]
+      };
+    }
     case 'CLEAR_ERROR':
       return { ...state, error: null };
     default:
@@ -64,8 +133,8 @@ interface GenerationContextType {
   skeletonGenerations: SkeletonGeneration[];
   loading: boolean;
   error: string | null;
-  startGeneration: (preset: Preset, characterId: string, models: any[]) => Promise<void>;
-  retryGeneration: (failedGenerationId: string) => Promise<void>;
+  startGeneration: (preset: Preset, characterId: string, models: any[], options?: GenerationOptions) => Promise<GenerationSubmission>;
+  retryGeneration: (failedGenerationId: string) => Promise<GenerationSubmission | null>; // Null when the retry couldn't start
   clearError: () => void;
 }
 
@@ -81,6 +150,11 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
     loading: false,
     error: null,
   });
+  const [streamConnected, setStreamConnected] = useState(GenerationStatusStream.isConnected());
+
+  // Latest skeletons for interval callbacks, which would otherwise see a stale closure
+  const skeletonsRef = useRef(state.skeletonGenerations);
+  skeletonsRef.current = state.skeletonGenerations;
   
   // Note: We can't use useGallery here because it would create a circular dependency
   // The polling will trigger a manual refresh of the gallery through the refresh function
@@ -92,8 +166,7 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
       
       // Find and remove skeleton generation that matches this completion
       state.skeletonGenerations.forEach(skeleton => {
-        // Match by generation ID or partial ID
-        if (skeleton.id.includes(data.generationId) || data.generationId.includes(skeleton.id)) {
+        if (matchesGeneration(skeleton, data.generationId)) {
           dispatch({ type: 'REMOVE_SKELETON_GENERATION', payload: skeleton.id });
         }
       });
@@ -104,8 +177,7 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
       
       // Find and mark skeleton generation as failed
       state.skeletonGenerations.forEach(skeleton => {
-        // Match by generation ID or partial ID
-        if (skeleton.id.includes(data.generationId) || data.generationId.includes(skeleton.id)) {
+        if (matchesGeneration(skeleton, data.generationId)) {
           dispatch({ 
             type: 'MARK_GENERATION_FAILED', 
             payload: { 
@@ -117,17 +189,65 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
       });
     };
 
+    const handleGenerationProgress = (data: any) => {
+      state.skeletonGenerations.forEach(skeleton => {
+        if (matchesGeneration(skeleton, data.generationId)) {
+          dispatch({ type: 'UPDATE_GENERATION_PROGRESS', payload: { id: skeleton.id, progress: data.progress } });
+        }
+      });
+    };
+
     // Subscribe to notification events
     const successSubscription = NotificationService.on('removeSkeletonGeneration', handleRemoveSkeletonGeneration);
     const failureSubscription = NotificationService.on('generationFailed', handleGenerationFailure);
+    const progressSubscription = NotificationService.on('generationProgress', handleGenerationProgress);
 
     // Cleanup listeners on unmount
     return () => {
       successSubscription.remove();
       failureSubscription.remove();
+      progressSubscription.remove();
     };
   }, [state.skeletonGenerations]);
 
+  // Restore generations queued while offline (survives app restarts) and follow their replay
+  useEffect(() => {
+    RequestQueue.getPendingRequests('generateImages').then(requests => {
+      const queuedSkeletons: SkeletonGeneration[] = requests
+        .filter(request => request.meta?.skeletonId && request.meta?.preset)
+        .map(request => ({
+          id: request.meta!.skeletonId,
+          preset: request.meta!.preset,
+          characterId: request.meta!.characterId,
+          options: request.meta!.options,
+          timestamp: new Date(request.createdAt),
+          isGenerating: true,
+          queued: true,
+        }));
+
+      if (queuedSkeletons.length > 0) {
+        console.log(`[GenerationContext] 📮 Restoring ${queuedSkeletons.length} queued generations`);
+        dispatch({ type: 'RESTORE_QUEUED_GENERATIONS', payload: queuedSkeletons });
+      }
+    });
+
+    return RequestQueue.subscribe(event => {
+      if (event.type === 'changed' || event.request.kind !== 'generateImages') return;
+      const skeletonId = event.request.meta?.skeletonId;
+      if (!skeletonId) return;
+
+      if (event.type === 'completed') {
+        console.log('[GenerationContext] 📮 Queued generation sent:', skeletonId, event.result?.generation_id);
+        dispatch({ type: 'MARK_GENERATION_SENT', payload: { id: skeletonId, generationId: event.result?.generation_id } });
+      } else {
+        dispatch({
+          type: 'MARK_GENERATION_FAILED',
+          payload: { id: skeletonId, errorMessage: event.errorMessage },
+        });
+      }
+    });
+  }, []);
+
   // Timeout check for stale skeleton generations (fallback when notifications fail)
   useEffect(() => {
     if (state.skeletonGenerations.length === 0) return;
@@ -139,7 +259,7 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         const ageMinutes = (now - skeleton.timestamp.getTime()) / (1000 * 60);
         
         // Mark as failed if older than 15 minutes and not already failed (gives backend extra time beyond its 10min timeout)
-        if (ageMinutes > 15 && !skeleton.failed) {
+        if (ageMinutes > 15 && !skeleton.failed && !skeleton.queued) {
           console.log(`[GenerationContext] ⏰ Skeleton generation ${skeleton.id} timed out after ${ageMinutes.toFixed(1)} minutes, marking as failed`);
           dispatch({ 
             type: 'MARK_GENERATION_FAILED', 
@@ -155,9 +275,22 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
     return () => clearInterval(timeoutCheck);
   }, [state.skeletonGenerations.length]);
 
-  // Fallback polling when skeleton generations exist (since push notifications might not work)
+  // Keep the status stream subscribed to every generation the backend is working on
   useEffect(() => {
-    if (state.skeletonGenerations.length === 0) return;
+    const activeGenerationIds = state.skeletonGenerations
+      .filter(g => g.generationId && !g.failed && !g.queued)
+      .map(g => g.generationId!);
+    GenerationStatusStream.syncSubscriptions(activeGenerationIds);
+  }, [state.skeletonGenerations]);
+
+  useEffect(() => {
+    return GenerationStatusStream.onConnectionChange(setStreamConnected);
+  }, []);
+
+  // Fallback polling when skeleton generations exist and the status stream is down
+  // (push notifications might not work either)
+  useEffect(() => {
+    if (state.skeletonGenerations.length === 0 || streamConnected) return;
 
     console.log('[GenerationContext] Skeleton generations detected, starting fallback polling');
     let pollCount = 0;
@@ -173,8 +306,7 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         return;
       }
       
-      // Check for new images to detect completed generations
-      // This is a fallback when push notifications aren't working
+      // Poll each generation's status - fallback when the stream and push notifications aren't working
       checkForCompletedGenerations();
       
     }, 30000); // Check every 30 seconds
@@ -183,47 +315,74 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
       console.log('[GenerationContext] Stopping generation fallback polling');
       clearInterval(interval);
     };
-  }, [state.skeletonGenerations.length]);
+  }, [state.skeletonGenerations.length, streamConnected]);
 
-  // Helper function to check if generations have completed (fallback when notifications fail)
+  // Ask the backend for the exact status of each in-flight generation (fallback when the stream and notifications fail)
   const checkForCompletedGenerations = async () => {
-    try {
-      console.log('[GenerationContext] Checking for completed generations...');
-      
-      // Fetch latest images to see if new ones appeared
-      const response = await APIService.fetchImageBatches();
-      const currentTime = new Date().getTime();
-      
-      // Look for images that were created recently (within the last hour)
-      // This is a simple heuristic - when notifications work properly, this won't be needed
-      const recentBatches = response.batches.filter(batch => {
-        const batchTime = new Date(batch.created_at).getTime();
-        const ageMinutes = (currentTime - batchTime) / (1000 * 60);
-        return ageMinutes < 60; // Images created in the last hour
-      });
-      
-      if (recentBatches.length > 0) {
-        console.log(`[GenerationContext] Found ${recentBatches.length} recent image batches, checking if any skeletons can be removed`);
-        
-        // Remove skeleton generations - assume they've completed if we have recent images
-        // This is not perfect but works as a fallback until notifications are properly set up
-        state.skeletonGenerations.forEach(skeleton => {
-          const skeletonAge = (currentTime - skeleton.timestamp.getTime()) / (1000 * 60);
-          
-          // If skeleton is older than 4 minutes and we have recent images, assume it completed
-          // This balances responsiveness with safety since generations typically take 3-8 minutes
-          if (skeletonAge > 4) {
-            console.log(`[GenerationContext] Removing skeleton ${skeleton.id} (age: ${skeletonAge.toFixed(1)} min) due to recent image activity`);
-            dispatch({ type: 'REMOVE_SKELETON_GENERATION', payload: skeleton.id });
-          }
-        });
+    const inFlight = skeletonsRef.current.filter(g => g.generationId && !g.failed && !g.queued);
+    if (inFlight.length === 0) return;
+
+    console.log(`[GenerationContext] Checking status of ${inFlight.length} generations...`);
+
+    await Promise.all(inFlight.map(async skeleton => {
+      const generationId = skeleton.generationId!;
+      try {
+        const status = await APIService.getGenerationStatus(generationId);
+
+        switch (status.status) {
+          case 'completed':
+            console.log(`[GenerationContext] ✅ Generation ${generationId} completed with ${status.image_urls.length} images`);
+            dispatch({
+              type: 'UPDATE_GENERATION_PROGRESS',
+              payload: { id: skeleton.id, progress: 100, resultImageUrls: status.image_urls },
+            });
+            // Same events a push notification produces, plus the result so the gallery can insert the batch directly
+            NotificationService.emit('generationCompleted', {
+              generationId,
+              imageCount: status.image_urls.length,
+              presetName: skeleton.preset.name,
+              batch: {
+                id: status.batch_id || generationId,
+                images: status.image_urls,
+                generatedAt: status.created_at ? new Date(status.created_at) : new Date(),
+                preset: skeleton.preset,
+                source: isCustomPreset(skeleton.preset) ? 'custom' : 'preset',
+                modelId: skeleton.characterId,
+                presetId: skeleton.preset.id,
+                presetName: skeleton.preset.name,
+                category: skeleton.preset.category,
+                prompt: skeleton.preset.prompt,
+              },
+            });
+            NotificationService.emit('removeSkeletonGeneration', { generationId });
+            break;
+          case 'failed':
+          case 'nsfw':
+            NotificationService.emit('generationFailed', {
+              generationId,
+              errorMessage: status.status === 'nsfw'
+                ? 'Content flagged as inappropriate. Please try a different prompt.'
+                : status.error_message || 'Generation failed. Please try again.',
+              isNSFW: status.status === 'nsfw',
+            });
+            break;
+          default:
+            if (status.progress !== skeleton.progress) {
+              dispatch({ type: 'UPDATE_GENERATION_PROGRESS', payload: { id: skeleton.id, progress: status.progress } });
+            }
+        }
+      } catch (error) {
+        console.error(`[GenerationContext] Error checking status of generation ${generationId}:`, error);
       }
-    } catch (error) {
-      console.error('[GenerationContext] Error checking for completed generations:', error);
-    }
+    }));
   };
 
-  const startGeneration = async (preset: Preset, characterId: string, models: any[]): Promise<void> => {
+  const startGeneration = async (
+    preset: Preset,
+    characterId: string,
+    models: any[],
+    options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+  ): Promise<GenerationSubmission> => {
     const skeletonId = `generation_${Date.now()}`;
     
     try {
@@ -249,6 +408,7 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         id: skeletonId,
         preset,
         characterId,
+        options,
         timestamp: new Date(),
         isGenerating: true,
       };
@@ -261,8 +421,7 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         preset: preset.name,
         style_id: preset.style_id,
         higgsfield_id: selectedModel.higgsfield_id,
-        quality: 'high',
-        aspect_ratio: '3:4'
+        ...options,
       });
 
       // Start async generation using 302.AI API
@@ -270,11 +429,17 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         prompt: preset.prompt,
         style_id: preset.style_id,
         higgsfield_id: selectedModel.higgsfield_id,
-        quality: 'high',
-        aspect_ratio: '3:4',
+        ...options,
+        source: isCustomPreset(preset) ? 'custom' : 'preset',
+      }, {
+        idempotencyKey: generateIdempotencyKey(),
+        meta: { skeletonId, preset, characterId, options },
       });
 
       console.log('[🎯 GenerationContext] ✅ Generation started with ID:', response.generation_id);
+      if (response.generation_id) {
+        dispatch({ type: 'SET_GENERATION_ID', payload: { id: skeletonId, generationId: response.generation_id } });
+      }
       console.log('[🎯 GenerationContext] 📱 Backend will handle polling. User will receive notification when ready.');
 
       // Show success alert to user
@@ -285,31 +450,38 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
       );
 
       // Backend handles all polling - no frontend polling needed!
-      
+      return 'sent';
     } catch (error: any) {
+      if (error instanceof RequestQueuedError) {
+        console.log('[🎯 GenerationContext] 📮 Offline - generation queued:', skeletonId);
+        dispatch({ type: 'MARK_GENERATION_QUEUED', payload: skeletonId });
+        Alert.alert(
+          'Generation Queued 📶',
+          `You're offline. Your images with "${preset.name}" will start generating as soon as you're back online.`,
+          [{ text: 'OK' }]
+        );
+        return 'queued';
+      }
+
       console.error('[❌ GenerationContext] Generation failed:', error);
       
       const errorMessage = error.message || 'Generation failed. Please try again.';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
       dispatch({ type: 'REMOVE_SKELETON_GENERATION', payload: skeletonId });
       
-      // Show error alert to user
-      Alert.alert(
-        'Generation Failed ❌',
-        errorMessage,
-        [{ text: 'OK' }]
-      );
+      // Callers branch on the ApiError type to show the right alert
+      throw error;
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
   };
 
-  const retryGeneration = async (failedGenerationId: string): Promise<void> => {
+  const retryGeneration = async (failedGenerationId: string): Promise<GenerationSubmission | null> => {
     // Find the failed generation
     const failedGeneration = state.skeletonGenerations.find(g => g.id === failedGenerationId);
     if (!failedGeneration) {
       console.error('[GenerationContext] Failed generation not found:', failedGenerationId);
-      return;
+      return null;
     }
 
     console.log('[GenerationContext] Retrying generation:', failedGenerationId);
@@ -326,6 +498,7 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         id: retryId,
         preset: failedGeneration.preset,
         characterId: failedGeneration.characterId,
+        options: failedGeneration.options,
         timestamp: new Date(),
         isGenerating: true,
       };
@@ -340,11 +513,22 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         prompt: failedGeneration.preset.prompt,
         style_id: failedGeneration.preset.style_id,
         higgsfield_id: failedGeneration.characterId, // Using characterId as higgsfield_id for retry
-        quality: 'high',
-        aspect_ratio: '3:4',
+        ...(failedGeneration.options || DEFAULT_GENERATION_OPTIONS),
+        source: isCustomPreset(failedGeneration.preset) ? 'custom' : 'preset',
+      }, {
+        idempotencyKey: generateIdempotencyKey(),
+        meta: {
+          skeletonId: retryId,
+          preset: failedGeneration.preset,
+          characterId: failedGeneration.characterId,
+          options: failedGeneration.options,
+        },
       });
 
       console.log('[GenerationContext] ✅ Retry generation started with ID:', response.generation_id);
+      if (response.generation_id) {
+        dispatch({ type: 'SET_GENERATION_ID', payload: { id: retryId, generationId: response.generation_id } });
+      }
       
       // Show success alert
       Alert.alert(
@@ -352,18 +536,21 @@ export function GenerationProvider({ children }: GenerationProviderProps) {
         `Your images with "${failedGeneration.preset.name}" are being generated again. You'll receive a notification when ready!`,
         [{ text: 'OK' }]
       );
-      
+      return 'sent';
     } catch (error: any) {
+      if (error instanceof RequestQueuedError) {
+        console.log('[GenerationContext] 📮 Offline - retry queued:', retryId);
+        dispatch({ type: 'MARK_GENERATION_QUEUED', payload: retryId });
+        return 'queued';
+      }
+
       console.error('[GenerationContext] Retry failed:', error);
       
       // Remove the retry skeleton and show error
       dispatch({ type: 'REMOVE_SKELETON_GENERATION', payload: retryId });
       
-      Alert.alert(
-        'Retry Failed ❌',
-        'Unable to retry generation. Please try again later.',
-        [{ text: 'OK' }]
-      );
+      showGenerationErrorAlert(error);
+      return null;
     }
   };
 
@@ -1,19 +1,29 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
 import { APIService } from '../services/APIService';
 import * as ImagePicker from 'expo-image-picker';
 import NotificationService from '../services/NotificationService';
+import ModelRepository, { selectModels } from '../services/ModelRepository';
+import TrainingUploadManager, { getUploadProgress } from '../services/TrainingUploadManager';
+import TrainingProgressTracker, { isTrainingFinished, recordProgress } from '../services/TrainingProgressTracker';
 import { useAuth } from './AuthContext';
 import { AuthState } from '../types/auth.types';
+import { NotFoundError, PermissionError } from '../types/api.types';
+import { ModelDeletionReport, PendingModelDeletion, UserModel } from '../types/model.types';
+import {
+  ImproveModelRequest,
+  ModelPhoto,
+  TrainingProgress,
+  TrainingProgressRecord,
+  TrainingUploadJob,
+} from '../types/training.types';
+import { getNextVersionNumber } from '../utils/modelVersions';
 
-interface Model {
-  id: string;
-  name: string;
-  thumbnail_url: string | null;
-  higgsfield_id: string | null;
-  created_at: string;
-  status: 'training' | 'completed' | 'failed';
-  photo_count: number;
-}
+const POLL_INTERVAL = 15000; // 15 seconds
+const MAX_SKELETON_POLLS = 240; // Give up on skeletons that never turn into models after an hour
+
+// Models live in the shared ModelRepository; this context only mirrors them
+type Model = UserModel;
 
 // Extended interface for UI components
 export interface TrainedModel extends Model {
@@ -28,11 +38,22 @@ interface SkeletonModel {
   isTraining: true;
   created_at: string;
   photoCount: number;
+  queued?: boolean; // Upload is paused until the connection returns
+  uploadProgress?: number; // 0-1 while photos are uploading, unset once training has started
+  uploadJobId?: string; // TrainingUploadManager job sending the photos
+  uploadError?: string; // Set when the upload gave up; the job waits for a retry or discard
+  baseModelId?: string; // Set when this is a new version of an existing model
+  version?: number;
+  modelId?: string; // Backend model, known once the upload is committed
 }
 
+// Photos are all uploaded and the backend is training; only these turn into real models
+const isCommittedSkeleton = (skeleton: SkeletonModel) => skeleton.uploadProgress === undefined;
+
 interface TrainingState {
   models: Model[];
   skeletonModels: SkeletonModel[];
+  trainingProgress: Record<string, TrainingProgressRecord>; // By model id, for models still training
   loading: boolean;
   error: string | null;
 }
@@ -43,16 +64,18 @@ type TrainingAction =
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'ADD_SKELETON_MODEL'; payload: SkeletonModel }
   | { type: 'REMOVE_SKELETON_MODEL'; payload: string }
-  | { type: 'ADD_COMPLETED_MODEL'; payload: Model }
-  | { type: 'DELETE_MODEL'; payload: string }
-  | { type: 'RENAME_MODEL'; payload: { id: string; name: string } };
+  | { type: 'SET_SKELETON_UPLOAD'; payload: { id: string; uploadJobId: string; uploadProgress?: number; queued: boolean } }
+  | { type: 'SET_SKELETON_UPLOAD_FAILED'; payload: { id: string; uploadJobId: string; error: string } }
+  | { type: 'SET_SKELETON_COMMITTED'; payload: { id: string; modelId?: string } }
+  | { type: 'RESTORE_QUEUED_SKELETONS'; payload: SkeletonModel[] }
+  | { type: 'SET_TRAINING_PROGRESS'; payload: Record<string, TrainingProgressRecord> };
 
 const trainingReducer = (state: TrainingState, action: TrainingAction): TrainingState => {
   switch (action.type) {
     case 'SET_LOADING':
       return { ...state, loading: action.payload };
     case 'SET_MODELS':
-      return { ...state, models: action.payload, loading: false, error: null };
+      return { ...state, models: action.payload };
     case 'SET_ERROR':
       return { ...state, error: action.payload, loading: false };
     case 'ADD_SKELETON_MODEL':
@@ -65,24 +88,51 @@ const trainingReducer = (state: TrainingState, action: TrainingAction): Training
         ...state, 
         skeletonModels: state.skeletonModels.filter(m => m.id !== action.payload) 
       };
-    case 'ADD_COMPLETED_MODEL':
-      return { 
-        ...state, 
-        models: [...state.models, action.payload],
-        skeletonModels: state.skeletonModels.filter(m => m.id !== action.payload.id)
+    case 'SET_SKELETON_UPLOAD':
+      return {
+        ...state,
+        skeletonModels: state.skeletonModels.map(m =>
+          m.id === action.payload.id
+            ? {
+                ...m,
+                uploadJobId: action.payload.uploadJobId,
+                uploadProgress: action.payload.uploadProgress,
+                queued: action.payload.queued,
+                uploadError: undefined,
+              }
+            : m
+        )
       };
-    case 'DELETE_MODEL':
-      return { 
-        ...state, 
-        models: state.models.filter(m => m.id !== action.payload) 
+    case 'SET_SKELETON_UPLOAD_FAILED':
+      return {
+        ...state,
+        skeletonModels: state.skeletonModels.map(m =>
+          m.id === action.payload.id
+            ? { ...m, uploadJobId: action.payload.uploadJobId, queued: false, uploadError: action.payload.error }
+            : m
+        )
       };
-    case 'RENAME_MODEL':
-      return { 
-        ...state, 
-        models: state.models.map(m => 
-          m.id === action.payload.id ? { ...m, name: action.payload.name } : m
-        ) 
+    case 'SET_SKELETON_COMMITTED':
+      return {
+        ...state,
+        skeletonModels: state.skeletonModels.map(m =>
+          m.id === action.payload.id
+            ? { ...m, uploadProgress: undefined, queued: false, modelId: action.payload.modelId }
+            : m
+        )
       };
+    case 'RESTORE_QUEUED_SKELETONS': {
+      const existingIds = new Set(state.skeletonModels.map(m => m.id));
+      return {
+        ...state,
+        skeletonModels: [
+          ...state.skeletonModels,
+          ...action.payload.filter(m => !existingIds.has(m.id)),
+        ]
+      };
+    }
+    case 'SET_TRAINING_PROGRESS':
+      return { ...state, trainingProgress: action.payload };
     default:
       return state;
   }
@@ -95,8 +145,15 @@ interface TrainingContextType {
   error: string | null;
   refreshModels: () => Promise<void>;
   startTraining: (name: string, photos: any[]) => Promise<void>;
-  deleteModel: (id: string) => Promise<void>;
+  deleteModel: (id: string) => Promise<PendingModelDeletion>; // Rethrows the typed ApiError when the delete fails
+  undoDeleteModel: (id: string) => Promise<void>;
+  getDeletionPreview: (id: string) => Promise<ModelDeletionReport>;
   renameModel: (id: string, name: string) => Promise<void>;
+  improveModel: (id: string, request: ImproveModelRequest) => Promise<void>; // Train a new version; rejects when it couldn't start
+  getModelPhotos: (id: string) => Promise<ModelPhoto[]>;
+  getTrainingProgress: (id: string) => TrainingProgress | null; // Null once the model is ready
+  retryUpload: (skeletonId: string) => Promise<void>; // Resume a failed upload; photos that landed aren't re-sent
+  discardUpload: (skeletonId: string) => Promise<void>;
 }
 
 const TrainingContext = createContext<TrainingContextType | undefined>(undefined);
@@ -104,11 +161,16 @@ const TrainingContext = createContext<TrainingContextType | undefined>(undefined
 export const TrainingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { authState } = useAuth();
   const [state, dispatch] = useReducer(trainingReducer, {
-    models: [],
+    models: selectModels(ModelRepository.getState()),
     skeletonModels: [],
+    trainingProgress: {},
     loading: false,
     error: null,
   });
+  // The scheduler outlives renders, so it reads the latest state through refs
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const refreshModelsRef = useRef<() => Promise<void>>(async () => {});
 
   // Load models only when authenticated
   useEffect(() => {
@@ -120,6 +182,19 @@ export const TrainingProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   }, [authState]);
 
+  // Models come from the shared store; skeletons go away once their model shows up there
+  useEffect(() => {
+    dispatch({ type: 'SET_MODELS', payload: selectModels(ModelRepository.getState()) });
+
+    return ModelRepository.subscribe((store, change) => {
+      const models = selectModels(store);
+      if (change.type === 'loaded') {
+        removeMatchedSkeletons(models);
+      }
+      dispatch({ type: 'SET_MODELS', payload: models });
+    });
+  }, []);
+
   // Listen for training completion notifications
   useEffect(() => {
     const handleTrainingCompleted = (data: any) => {
@@ -132,102 +207,215 @@ export const TrainingProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     return () => subscription.remove();
   }, []);
 
-  // Fallback polling when skeleton models exist (since push notifications might not work)
+  // Restore photo uploads still running from a previous launch and follow their progress
   useEffect(() => {
-    if (state.skeletonModels.length === 0) return;
+    const skeletonFromJob = (job: TrainingUploadJob): SkeletonModel => ({
+      id: job.meta?.skeletonId || job.id,
+      name: job.modelName || 'New Model',
+      isTraining: true,
+      created_at: job.createdAt,
+      photoCount: job.meta?.photoCount || job.files.length,
+      queued: job.status === 'paused',
+      uploadProgress: getUploadProgress(job),
+      uploadJobId: job.id,
+      uploadError: job.status === 'failed' ? job.error || 'Upload failed' : undefined,
+      baseModelId: job.baseModelId,
+      version: job.meta?.version,
+    });
 
-    console.log('[TrainingContext] Skeleton models detected, starting fallback polling');
-    let pollCount = 0;
-    const maxPolls = 120; // 60 minutes max (30s * 120 = 3600s)
-    
-    const interval = setInterval(() => {
-      pollCount++;
-      console.log(`[TrainingContext] Fallback poll ${pollCount}/${maxPolls} - refreshing models`);
-      
-      if (pollCount >= maxPolls) {
-        console.log('[TrainingContext] Fallback polling timeout reached, stopping');
-        clearInterval(interval);
-        // Optionally remove skeleton models that timed out
-        state.skeletonModels.forEach(skeleton => {
-          dispatch({ type: 'REMOVE_SKELETON_MODEL', payload: skeleton.id });
+    // Failed uploads come back too, waiting for the user to retry or discard them
+    TrainingUploadManager.getJobs('model').then(jobs => {
+      const uploads = jobs.map(skeletonFromJob);
+      if (uploads.length > 0) {
+        console.log(`[TrainingContext] 📤 Restoring ${uploads.length} training uploads`);
+        dispatch({ type: 'RESTORE_QUEUED_SKELETONS', payload: uploads });
+      }
+    });
+
+    return TrainingUploadManager.subscribe(event => {
+      if (event.job.purpose !== 'model') return;
+      const skeletonId = event.job.meta?.skeletonId || event.job.id;
+
+      if (event.type === 'progress') {
+        dispatch({
+          type: 'SET_SKELETON_UPLOAD',
+          payload: {
+            id: skeletonId,
+            uploadJobId: event.job.id,
+            uploadProgress: getUploadProgress(event.job),
+            queued: event.job.status === 'paused',
+          },
+        });
+      } else if (event.type === 'committed') {
+        console.log('[TrainingContext] 📤 All photos uploaded, training started:', skeletonId);
+        dispatch({ type: 'SET_SKELETON_COMMITTED', payload: { id: skeletonId, modelId: event.result.modelId } });
+        refreshModelsRef.current(); // Pick up the new model so its progress is tracked
+      } else {
+        // Keep the skeleton and the photos already sent so the upload can be retried
+        dispatch({
+          type: 'SET_SKELETON_UPLOAD_FAILED',
+          payload: { id: skeletonId, uploadJobId: event.job.id, error: event.errorMessage },
         });
-        return;
       }
-      
-      refreshModels();
-    }, 30000); // Check every 30 seconds
+    });
+  }, []);
+
+  // Progress readings from before a restart keep the time estimate going
+  useEffect(() => {
+    TrainingProgressTracker.getRecords().then(records => {
+      dispatch({ type: 'SET_TRAINING_PROGRESS', payload: { ...records, ...stateRef.current.trainingProgress } });
+    });
+  }, []);
+
+  /**
+   * The one polling scheduler for training: fetches progress for every model the
+   * backend is training and refreshes the model list until skeletons turn into
+   * real models (push notifications might not arrive). Runs while anything is in
+   * flight, pauses in the background and polls right away when the app returns.
+   */
+  const hasActiveTraining =
+    state.skeletonModels.some(isCommittedSkeleton) || state.models.some(model => model.status === 'training');
+
+  useEffect(() => {
+    if (!hasActiveTraining) return;
+
+    console.log('[TrainingContext] Training in progress, starting polling');
+    let skeletonPolls = 0;
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+
+      try {
+        const { models, skeletonModels, trainingProgress } = stateRef.current;
+        const training = models.filter(model => model.status === 'training');
+        const committedSkeletons = skeletonModels.filter(isCommittedSkeleton);
+        let needsRefresh = committedSkeletons.length > 0;
+
+        const readings = await Promise.all(training.map(model =>
+          APIService.getTrainingProgress(model.id).catch(error => {
+            console.warn('[TrainingContext] ⚠️ Progress check failed for', model.id, error?.message || error);
+            return null;
+          })
+        ));
+
+        // Only models still training keep a record
+        const next: Record<string, TrainingProgressRecord> = {};
+        readings.forEach((reading, index) => {
+          const modelId = training[index].id;
+          if (!reading) {
+            // Keep the last reading through a failed check
+            if (trainingProgress[modelId]) next[modelId] = trainingProgress[modelId];
+          } else if (isTrainingFinished(reading.status)) {
+            needsRefresh = true;
+          } else {
+            next[modelId] = recordProgress(trainingProgress[modelId], modelId, reading);
+          }
+        });
+
+        dispatch({ type: 'SET_TRAINING_PROGRESS', payload: next });
+        await TrainingProgressTracker.saveRecords(next);
+
+        if (committedSkeletons.length > 0) {
+          skeletonPolls++;
+          if (skeletonPolls >= MAX_SKELETON_POLLS) {
+            console.log('[TrainingContext] Skeleton polling timeout reached');
+            // Uploads still running or waiting for a connection keep their skeleton
+            committedSkeletons.forEach(skeleton => {
+              dispatch({ type: 'REMOVE_SKELETON_MODEL', payload: skeleton.id });
+            });
+          }
+        }
+
+        if (needsRefresh) {
+          await refreshModelsRef.current();
+        }
+      } finally {
+        polling = false;
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL);
+    const appStateSubscription = AppState.addEventListener('change', status => {
+      if (status === 'active') poll();
+    });
 
     return () => {
-      console.log('[TrainingContext] Stopping fallback polling');
+      console.log('[TrainingContext] Stopping training polling');
       clearInterval(interval);
+      appStateSubscription.remove();
     };
-  }, [state.skeletonModels.length]);
+  }, [hasActiveTraining]);
 
   const refreshModels = async () => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const response = await APIService.fetchUserModels();
+      await ModelRepository.refresh(); // Shared with any other refresh in flight
+      dispatch({ type: 'SET_LOADING', payload: false });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (error) {
+      console.error('Failed to load models:', error);
+      dispatch({ type: 'SET_ERROR', payload: 'Failed to load models' });
+    }
+  };
+
+  const removeMatchedSkeletons = (models: Model[]) => {
+    const { skeletonModels } = stateRef.current;
+
+    // Check for completed training - remove skeleton models when real models are found
+    if (skeletonModels.length > 0) {
+      console.log(`[TrainingContext] Checking ${skeletonModels.length} skeleton models against ${models.length} real models`);
       
-      // Transform API response to match Model interface
-      const models: Model[] = response.models.map(apiModel => ({
-        id: apiModel.id,
-        name: apiModel.name,
-        thumbnail_url: apiModel.thumbnail_url || null, // Convert undefined to null
-        higgsfield_id: apiModel.higgsfield_id || null, // Convert undefined to null
-        created_at: apiModel.created_at,
-        status: apiModel.status as 'training' | 'completed' | 'failed', // Type assertion for status
-        photo_count: apiModel.photo_count || 0, // Include photo_count
-      }));
+      // For each skeleton model, check if we now have a real model with the same name
+      const skeletonsToRemove: string[] = [];
       
-      // Check for completed training - remove skeleton models when real models are found
-      if (state.skeletonModels.length > 0) {
-        console.log(`[TrainingContext] Checking ${state.skeletonModels.length} skeleton models against ${models.length} real models`);
+      skeletonModels.forEach(skeleton => {
+        console.log(`[TrainingContext] Checking skeleton: ${skeleton.name} (created: ${skeleton.created_at})`);
         
-        // For each skeleton model, check if we now have a real model with the same name
-        const skeletonsToRemove: string[] = [];
-        
-        state.skeletonModels.forEach(skeleton => {
-          console.log(`[TrainingContext] Checking skeleton: ${skeleton.name} (created: ${skeleton.created_at})`);
-          
-          // Find any model (completed, failed, or even training) with the same name
-          const matchingModel = models.find(model => {
-            const nameMatch = model.name === skeleton.name;
-            
-            // Check if the model was created around the same time (within 2 hours to be safe)
-            const skeletonTime = new Date(skeleton.created_at).getTime();
-            const modelTime = new Date(model.created_at).getTime();
-            const timeDiff = Math.abs(modelTime - skeletonTime);
-            const twoHours = 2 * 60 * 60 * 1000;
-            const timeMatch = timeDiff < twoHours;
-            
-            console.log(`[TrainingContext] Comparing with model: ${model.name} (status: ${model.status}, created: ${model.created_at})`);
-            console.log(`[TrainingContext] Name match: ${nameMatch}, Time diff: ${Math.round(timeDiff/1000/60)} minutes, Time match: ${timeMatch}`);
-            
-            return nameMatch && timeMatch;
-          });
-          
-          if (matchingModel) {
-            console.log(`[TrainingContext] ✅ Found matching model for skeleton "${skeleton.name}" -> removing skeleton`);
+        // Versions share their model's name, so they can only be matched by id
+        if (skeleton.modelId || skeleton.baseModelId) {
+          if (models.some(model => model.id === skeleton.modelId)) {
+            console.log(`[TrainingContext] ✅ Found model ${skeleton.modelId} for skeleton "${skeleton.name}" -> removing skeleton`);
             skeletonsToRemove.push(skeleton.id);
-          } else {
-            console.log(`[TrainingContext] ⏳ No matching model found for skeleton "${skeleton.name}" - keeping skeleton`);
           }
-        });
+          return;
+        }
         
-        // Remove all matched skeletons
-        skeletonsToRemove.forEach(skeletonId => {
-          dispatch({ type: 'REMOVE_SKELETON_MODEL', payload: skeletonId });
+        // Find any model (completed, failed, or even training) with the same name
+        const matchingModel = models.find(model => {
+          const nameMatch = model.name === skeleton.name;
+          
+          // Check if the model was created around the same time (within 2 hours to be safe)
+          const skeletonTime = new Date(skeleton.created_at).getTime();
+          const modelTime = new Date(model.created_at).getTime();
+          const timeDiff = Math.abs(modelTime - skeletonTime);
+          const twoHours = 2 * 60 * 60 * 1000;
+          const timeMatch = timeDiff < twoHours;
+          
+          console.log(`[TrainingContext] Comparing with model: ${model.name} (status: ${model.status}, created: ${model.created_at})`);
+          console.log(`[TrainingContext] Name match: ${nameMatch}, Time diff: ${Math.round(timeDiff/1000/60)} minutes, Time match: ${timeMatch}`);
+          
+          return nameMatch && timeMatch;
         });
         
-        if (skeletonsToRemove.length > 0) {
-          console.log(`[TrainingContext] Removed ${skeletonsToRemove.length} skeleton models`);
+        if (matchingModel) {
+          console.log(`[TrainingContext] ✅ Found matching model for skeleton "${skeleton.name}" -> removing skeleton`);
+          skeletonsToRemove.push(skeleton.id);
+        } else {
+          console.log(`[TrainingContext] ⏳ No matching model found for skeleton "${skeleton.name}" - keeping skeleton`);
         }
-      }
+      });
       
-      dispatch({ type: 'SET_MODELS', payload: models });
-    } catch (error) {
-      console.error('Failed to load models:', error);
-      dispatch({ type: 'SET_ERROR', payload: 'Failed to load models' });
+      // Remove all matched skeletons
+      skeletonsToRemove.forEach(skeletonId => {
+        dispatch({ type: 'REMOVE_SKELETON_MODEL', payload: skeletonId });
+      });
+      
+      if (skeletonsToRemove.length > 0) {
+        console.log(`[TrainingContext] Removed ${skeletonsToRemove.length} skeleton models`);
+      }
     }
   };
 
@@ -252,25 +440,20 @@ export const TrainingProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         isTraining: true,
         created_at: new Date().toISOString(),
         photoCount: photos.length,
+        uploadProgress: 0,
       };
       console.log(`[TrainingContext] Adding skeleton model:`, skeletonModel);
       dispatch({ type: 'ADD_SKELETON_MODEL', payload: skeletonModel });
 
-      // Step 2: Convert images to FormData and upload
-      const formData = new FormData();
-      formData.append('modelName', name);
-      
-      photos.forEach((asset, index) => {
-        formData.append('images', {
-          uri: asset.uri,
-          type: 'image/jpeg',
-          name: `photo_${index}.jpg`,
-        } as any);
+      // Step 2: Hand the photos to the upload manager; it resizes them, sends them one
+      // by one and starts training on the backend once every photo has landed
+      await TrainingUploadManager.startUpload({
+        purpose: 'model',
+        modelName: name,
+        photos: photos.map(asset => ({ uri: asset.uri, width: asset.width, height: asset.height })),
+        meta: { skeletonId },
       });
-
-      // Step 3: Send to backend (creates temp S3 folder + Supabase row)
-      await APIService.startModelTraining(formData);
-      console.log('[TrainingContext] Training started successfully');
+      console.log('[TrainingContext] Training upload started');
       
     } catch (error: any) {
       console.error('[TrainingContext] Failed to start training:', error);
@@ -279,55 +462,113 @@ export const TrainingProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
-  const deleteModel = async (id: string) => {
+  const improveModel = async (id: string, request: ImproveModelRequest) => {
+    const model = state.models.find(m => m.id === id);
+    if (!model) {
+      throw new Error('Model not found');
+    }
+
+    const family = state.models.filter(m => m.familyId === model.familyId);
+    const pendingVersions = state.skeletonModels.filter(skeleton =>
+      family.some(m => m.id === skeleton.baseModelId)
+    );
+    if (pendingVersions.length > 0) {
+      throw new Error(`A new version of "${model.name}" is already being trained`);
+    }
+
+    const skeletonId = `training_${Date.now()}`;
+    const version = getNextVersionNumber(family);
+    const photoCount = model.photo_count - request.removedPhotoIds.length + request.addPhotos.length;
+    console.log(`[TrainingContext] 🔁 Training v${version} of "${model.name}" from ${id} with skeleton ID: ${skeletonId}`);
+
+    try {
+      dispatch({
+        type: 'ADD_SKELETON_MODEL',
+        payload: {
+          id: skeletonId,
+          name: model.name,
+          isTraining: true,
+          created_at: new Date().toISOString(),
+          photoCount,
+          uploadProgress: 0,
+          baseModelId: id,
+          version,
+        },
+      });
+
+      // The backend copies the base version's photos, minus the removed ones, into the new version
+      await TrainingUploadManager.startUpload({
+        purpose: 'model',
+        modelName: model.name,
+        photos: request.addPhotos,
+        baseModelId: id,
+        removedPhotoIds: request.removedPhotoIds,
+        meta: { skeletonId, version, photoCount },
+      });
+      console.log('[TrainingContext] Version upload started');
+    } catch (error: any) {
+      console.error('[TrainingContext] Failed to start new version:', error);
+      dispatch({ type: 'SET_ERROR', payload: error.message });
+      dispatch({ type: 'REMOVE_SKELETON_MODEL', payload: skeletonId });
+      throw error;
+    }
+  };
+
+  const getModelPhotos = (id: string): Promise<ModelPhoto[]> => APIService.fetchModelPhotos(id);
+
+  const getDeletionPreview = (id: string): Promise<ModelDeletionReport> => ModelRepository.getDeletionPreview(id);
+
+  const deleteModel = async (id: string): Promise<PendingModelDeletion> => {
     try {
       console.log('[TrainingContext] 🗑️ Starting delete for model:', id);
       
-      // Call backend API to delete model (includes S3 cleanup and database deletion)
-      await APIService.deleteModel(id);
-      
-      console.log('[TrainingContext] ✅ Model deleted from backend, updating local state');
+      // The backend cleans up the model's storage, images and notifications once the
+      // undo window passes; the store drops the model now and every screen follows
+      const pending = await ModelRepository.remove(id);
       
-      // Remove from local state only after successful backend deletion
-      dispatch({ type: 'DELETE_MODEL', payload: id });
+      console.log('[TrainingContext] ✅ Model deleted from backend');
+      return pending;
       
     } catch (error: any) {
       console.error('[TrainingContext] ❌ Failed to delete model:', error);
       
       // Show user-friendly error message
       let errorMessage = 'Failed to delete model';
-      if (error.message?.includes('404')) {
+      if (error instanceof NotFoundError) {
         errorMessage = 'Model not found or already deleted';
-      } else if (error.message?.includes('403')) {
+      } else if (error instanceof PermissionError) {
         errorMessage = 'You do not have permission to delete this model';
       } else if (error.message) {
         errorMessage = error.message;
       }
       
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      throw error;
     }
   };
 
+  const undoDeleteModel = async (id: string) => {
+    console.log('[TrainingContext] ↩️ Undoing delete for model:', id);
+    await ModelRepository.undoRemove(id);
+  };
+
   const renameModel = async (id: string, name: string) => {
     try {
       console.log('[TrainingContext] ✏️ Starting rename for model:', id, 'to:', name);
       
-      // Call backend API to rename model in Supabase
-      await APIService.renameModel(id, name);
-      
-      console.log('[TrainingContext] ✅ Model renamed in backend, updating local state');
+      // Rename in Supabase; the store updates the name everywhere after the backend succeeds
+      await ModelRepository.rename(id, name);
       
-      // Update local state only after successful backend update
-      dispatch({ type: 'RENAME_MODEL', payload: { id, name } });
+      console.log('[TrainingContext] ✅ Model renamed in backend');
       
     } catch (error: any) {
       console.error('[TrainingContext] ❌ Failed to rename model:', error);
       
       // Show user-friendly error message
       let errorMessage = 'Failed to rename model';
-      if (error.message?.includes('404')) {
+      if (error instanceof NotFoundError) {
         errorMessage = 'Model not found';
-      } else if (error.message?.includes('403')) {
+      } else if (error instanceof PermissionError) {
         errorMessage = 'You do not have permission to rename this model';
       } else if (error.message) {
         errorMessage = error.message;
@@ -337,6 +578,40 @@ export const TrainingProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
+  refreshModelsRef.current = refreshModels;
+
+  const getTrainingProgress = (id: string): TrainingProgress | null => {
+    const skeleton = state.skeletonModels.find(m => m.id === id);
+    if (skeleton) {
+      return skeleton.uploadProgress !== undefined
+        ? { stage: 'uploading', progress: skeleton.uploadProgress, etaSeconds: null }
+        : { stage: 'queued', progress: 0, etaSeconds: null };
+    }
+
+    const model = state.models.find(m => m.id === id);
+    if (model?.status !== 'training') return null;
+    return state.trainingProgress[id] || { stage: 'training', progress: 0, etaSeconds: null };
+  };
+
+  const retryUpload = async (skeletonId: string): Promise<void> => {
+    const skeleton = state.skeletonModels.find(m => m.id === skeletonId);
+    if (!skeleton?.uploadJobId) return;
+
+    console.log('[TrainingContext] 📤 Retrying upload:', skeletonId);
+    await TrainingUploadManager.retry(skeleton.uploadJobId);
+  };
+
+  const discardUpload = async (skeletonId: string): Promise<void> => {
+    const skeleton = state.skeletonModels.find(m => m.id === skeletonId);
+    if (!skeleton) return;
+
+    console.log('[TrainingContext] 🗑️ Discarding upload:', skeletonId);
+    dispatch({ type: 'REMOVE_SKELETON_MODEL', payload: skeletonId });
+    if (skeleton.uploadJobId) {
+      await TrainingUploadManager.cancel(skeleton.uploadJobId);
+    }
+  };
+
   const value: TrainingContextType = {
     models: state.models,
     skeletonModels: state.skeletonModels,
@@ -345,7 +620,14 @@ export const TrainingProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     refreshModels,
     startTraining,
     deleteModel,
+    undoDeleteModel,
+    getDeletionPreview,
     renameModel,
+    improveModel,
+    getModelPhotos,
+    getTrainingProgress,
+    retryUpload,
+    discardUpload,
   };
 
   return (
@@ -0,0 +1,180 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { APIService } from '../services/APIService';
+import AuthService from '../services/AuthService';
+import ModelRepository from '../services/ModelRepository';
+import PurchasesService from '../services/PurchasesService';
+import RequestQueue from '../services/RequestQueueService';
+import { AuthState, UserUsage } from '../types/auth.types';
+import {
+  canCreateModels as canCreateModelsWith,
+  canGenerateImages,
+  getRemainingGenerations,
+  getRemainingModelSlots,
+  recordGeneration as countGeneration,
+} from '../utils/usageLimits';
+import { showGenerationLimitAlert, showModelLimitAlert } from '../utils/errorAlerts';
+import UpgradeModal from '../components/ui/UpgradeModal';
+
+interface UsageContextType {
+  usage: UserUsage | null; // Null until the first fetch succeeds
+  loading: boolean;
+  remainingGenerations: number | null; // Null when unlimited or not loaded
+  remainingModelSlots: number | null;
+  canGenerate: boolean;
+  canCreateModels: boolean;
+  refreshUsage: () => Promise<void>;
+  ensureCanGenerate: () => boolean; // Shows the limit alert and returns false when generations are used up
+  ensureCanCreateModel: () => boolean; // Same for model slots
+  recordGeneration: () => void; // Call after the backend accepted a generation, not when it was only queued
+  canUpgrade: boolean; // False when no store provider is installed; hide upgrade entry points then
+  openUpgrade: () => void; // Show the upgrade sheet; the limit alerts offer it too
+}
+
+const UsageContext = createContext<UsageContextType | undefined>(undefined);
+
+interface UsageProviderProps {
+  children: ReactNode;
+}
+
+export function UsageProvider({ children }: UsageProviderProps) {
+  const [usage, setUsageState] = useState<UserUsage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
+
+  // Latest usage for checks made from callbacks created in earlier renders
+  const usageRef = useRef<UserUsage | null>(null);
+
+  const setUsage = (next: UserUsage | null) => {
+    usageRef.current = next;
+    setUsageState(next);
+  };
+
+  const refreshUsage = async () => {
+    try {
+      setLoading(true);
+      setUsage(await APIService.getUsage());
+    } catch (error) {
+      // Keep the last known usage; the backend still enforces the limits
+      console.error('[UsageContext] Failed to load usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load on sign-in (subscribe announces the current state right away, which covers mount),
+  // then refresh on foreground, on a plan change and when the model count changes
+  useEffect(() => {
+    // AuthService re-announces AUTHENTICATED with a new user on every plan change;
+    // only signing in should reload, the plan change itself is handled below
+    let previousState: AuthState | null = null;
+    const unsubscribeAuth = AuthService.subscribe(state => {
+      const changed = state !== previousState;
+      previousState = state;
+      if (!changed) return;
+
+      if (state === AuthState.AUTHENTICATED) {
+        refreshUsage();
+        PurchasesService.refreshEntitlement().catch(error => {
+          console.error('[UsageContext] Failed to load plan:', error);
+        });
+      } else if (state === AuthState.UNAUTHENTICATED) {
+        setUsage(null);
+        PurchasesService.clear();
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        refreshUsage();
+      }
+    });
+    const unsubscribeModels = ModelRepository.subscribe((_state, change) => {
+      const countChanged =
+        (change.type === 'loaded' && (change.added.length > 0 || change.removed.length > 0)) ||
+        change.type === 'removed' ||
+        change.type === 'restored';
+      if (countChanged) {
+        refreshUsage();
+      }
+    });
+
+    // A new plan changes the limits
+    const unsubscribePurchases = PurchasesService.subscribe(() => {
+      refreshUsage();
+    });
+
+    // Generations queued offline count once the backend accepts them on replay
+    const unsubscribeQueue = RequestQueue.subscribe(event => {
+      if (event.type === 'completed' && usageRef.current) {
+        setUsage(countGeneration(usageRef.current));
+      }
+    });
+
+    return () => {
+      unsubscribeAuth();
+      appStateSubscription.remove();
+      unsubscribeModels();
+      unsubscribePurchases();
+      unsubscribeQueue();
+    };
+  }, []);
+
+  const canUpgrade = PurchasesService.isAvailable();
+  const openUpgrade = () => setShowUpgrade(true);
+
+  const ensureCanGenerate = (): boolean => {
+    const current = usageRef.current;
+    if (canGenerateImages(current)) return true;
+
+    console.log('[UsageContext] 🚫 Generation limit reached');
+    showGenerationLimitAlert(current!, canUpgrade ? openUpgrade : undefined);
+    return false;
+  };
+
+  const ensureCanCreateModel = (): boolean => {
+    const current = usageRef.current;
+    if (canCreateModelsWith(current)) return true;
+
+    console.log('[UsageContext] 🚫 Model limit reached');
+    showModelLimitAlert(current!, canUpgrade ? openUpgrade : undefined);
+    return false;
+  };
+
+  const recordGeneration = () => {
+    if (usageRef.current) {
+      setUsage(countGeneration(usageRef.current));
+    }
+  };
+
+  const value: UsageContextType = {
+    usage,
+    loading,
+    remainingGenerations: usage ? getRemainingGenerations(usage) : null,
+    remainingModelSlots: usage ? getRemainingModelSlots(usage) : null,
+    canGenerate: canGenerateImages(usage),
+    canCreateModels: canCreateModelsWith(usage),
+    refreshUsage,
+    ensureCanGenerate,
+    ensureCanCreateModel,
+    recordGeneration,
+    canUpgrade,
+    openUpgrade,
+  };
+
+  return (
+    <UsageContext.Provider value={value}>
+      {children}
+      <UpgradeModal visible={showUpgrade} onClose={() => setShowUpgrade(false)} />
+    </UsageContext.Provider>
+  );
+}
+
+export function useUsage(): UsageContextType {
+  const context = useContext(UsageContext);
+  if (context === undefined) {
+    throw new Error('useUsage must be used within a UsageProvider');
+  }
+  return context;
+}
+
+export default UsageContext;
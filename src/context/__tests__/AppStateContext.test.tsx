@@ -5,6 +5,7 @@ import { AppStateProvider, useAppState } from '../AppStateContext';
 import { AuthProvider, useAuth } from '../AuthContext';
 import { AuthState } from '../../types/auth.types';
 import { APIService } from '../../services/APIService';
+import ModelRepository from '../../services/ModelRepository';
 
 // Mock the auth context to return authenticated state
 jest.mock('../AuthContext', () => ({
@@ -67,8 +68,9 @@ describe('AppStateContext', () => {
     typeof APIService.fetchUserModels
   >;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
+    await ModelRepository.clear();
     
     // Mock authenticated user
     mockUseAuth.mockReturnValue({
@@ -0,0 +1,161 @@
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GalleryProvider, useGallery } from '../GalleryContext';
+import { FavoritesProvider, useFavorites } from '../FavoritesContext';
+import { APIService } from '../../services/APIService';
+import ImageCacheManager from '../../services/ImageCacheManager';
+
+const mockBatches = {
+  batches: [
+    { id: 'b1', images: ['https://img/1.jpg', 'https://img/2.jpg'], created_at: '2024-01-02T00:00:00Z', higgsfield_id: 'b1' },
+    { id: 'b2', images: ['https://img/3.jpg'], created_at: '2024-01-01T00:00:00Z', higgsfield_id: 'b2' },
+  ],
+  count: 2,
+};
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <FavoritesProvider>
+    <GalleryProvider>{children}</GalleryProvider>
+  </FavoritesProvider>
+);
+
+const renderGallery = async () => {
+  const hook = renderHook(() => ({ gallery: useGallery(), favorites: useFavorites() }), { wrapper });
+  await waitFor(() => expect(hook.result.current.gallery.generationBatches).toHaveLength(2));
+  return hook;
+};
+
+describe('GalleryContext deletion', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    (APIService.fetchImageBatches as jest.Mock).mockResolvedValue(mockBatches);
+  });
+
+  it('removes an image, evicts it from the cache and drops its favorite', async () => {
+    (APIService.deleteImage as jest.Mock).mockResolvedValue(undefined);
+    const { result } = await renderGallery();
+
+    await act(async () => {
+      await result.current.favorites.addFavorite({
+        id: 'https://img/1.jpg',
+        type: 'image',
+        data: { imageUrl: 'https://img/1.jpg', batchId: 'b1', generatedAt: new Date() },
+        createdAt: new Date(),
+      });
+    });
+
+    await act(async () => {
+      await result.current.gallery.deleteImage('https://img/1.jpg', 'b1');
+    });
+
+    expect(APIService.deleteImage).toHaveBeenCalledWith('https://img/1.jpg', 'b1');
+    expect(result.current.gallery.generationBatches[0].images).toEqual(['https://img/2.jpg']);
+    expect(result.current.gallery.images).not.toContain('https://img/1.jpg');
+    expect(ImageCacheManager.evictImages).toHaveBeenCalledWith(['https://img/1.jpg']);
+    expect(result.current.favorites.isFavorited('https://img/1.jpg', 'image')).toBe(false);
+  });
+
+  it('restores the batch when the backend rejects the delete', async () => {
+    (APIService.deleteBatch as jest.Mock).mockRejectedValue(new Error('Server error'));
+    const { result } = await renderGallery();
+
+    await act(async () => {
+      await expect(result.current.gallery.deleteBatch('b1')).rejects.toThrow('Server error');
+    });
+
+    expect(result.current.gallery.generationBatches.map(b => b.id)).toEqual(['b1', 'b2']);
+    expect(result.current.gallery.generationBatches[0].images).toEqual(['https://img/1.jpg', 'https://img/2.jpg']);
+    expect(ImageCacheManager.evictImages).not.toHaveBeenCalled();
+  });
+
+  it('deletes a batch made up on the device image by image', async () => {
+    (APIService.fetchImageBatches as jest.Mock).mockResolvedValue({
+      batches: [
+        { id: 'single-0', images: ['https://img/1.jpg'], created_at: '2024-01-02T00:00:00Z', higgsfield_id: 'single-0', synthetic: true },
+        { id: 'single-1', images: ['https://img/2.jpg'], created_at: '2024-01-01T00:00:00Z', higgsfield_id: 'single-1', synthetic: true },
+      ],
+      count: 2,
+    });
+    (APIService.deleteImage as jest.Mock).mockResolvedValue(undefined);
+    const { result } = await renderGallery();
+
+    await act(async () => {
+      await result.current.gallery.deleteBatch('single-0');
+    });
+
+    expect(APIService.deleteBatch).not.toHaveBeenCalled();
+    expect(APIService.deleteImage).toHaveBeenCalledWith('https://img/1.jpg');
+    expect(result.current.gallery.generationBatches.map(b => b.id)).toEqual(['single-1']);
+  });
+});
+
+describe('GalleryContext bulk deletion', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    (APIService.fetchImageBatches as jest.Mock).mockResolvedValue(mockBatches);
+  });
+
+  it('deletes fully selected batches whole and reports per-image failures', async () => {
+    (APIService.deleteBatch as jest.Mock).mockResolvedValue(undefined);
+    (APIService.deleteImage as jest.Mock).mockRejectedValue(new Error('Server error'));
+    const { result } = await renderGallery();
+
+    let bulkResult: any;
+    await act(async () => {
+      bulkResult = await result.current.gallery.deleteImages(['https://img/1.jpg', 'https://img/3.jpg']);
+    });
+
+    expect(APIService.deleteBatch).toHaveBeenCalledWith('b2');
+    expect(APIService.deleteImage).toHaveBeenCalledWith('https://img/1.jpg', 'b1');
+    expect(bulkResult).toEqual({
+      succeeded: ['https://img/3.jpg'],
+      failed: [{ imageUrl: 'https://img/1.jpg', error: 'Server error' }],
+    });
+    expect(result.current.gallery.generationBatches.map(b => b.id)).toEqual(['b1']);
+    expect(result.current.gallery.generationBatches[0].images).toEqual(['https://img/1.jpg', 'https://img/2.jpg']);
+    expect(ImageCacheManager.evictImages).toHaveBeenCalledWith(['https://img/3.jpg']);
+  });
+});
+
+describe('GalleryContext pagination', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  it('appends the next page using the cursor from the previous one', async () => {
+    (APIService.fetchImageBatches as jest.Mock)
+      .mockResolvedValueOnce({ ...mockBatches, next_cursor: 'cursor-1' })
+      .mockResolvedValueOnce({
+        batches: [{ id: 'b3', images: ['https://img/4.jpg'], created_at: '2023-12-31T00:00:00Z', higgsfield_id: 'b3' }],
+        count: 3,
+        next_cursor: null,
+      });
+    const { result } = await renderGallery();
+    expect(result.current.gallery.hasMore).toBe(true);
+
+    await act(async () => {
+      await result.current.gallery.loadMore();
+    });
+
+    expect(APIService.fetchImageBatches).toHaveBeenLastCalledWith({ limit: 20, cursor: 'cursor-1' });
+    expect(result.current.gallery.generationBatches.map(b => b.id)).toEqual(['b1', 'b2', 'b3']);
+    expect(result.current.gallery.images).toContain('https://img/4.jpg');
+    expect(result.current.gallery.hasMore).toBe(false);
+  });
+
+  it('preloads only the batches around the visible window', async () => {
+    (APIService.fetchImageBatches as jest.Mock).mockResolvedValue(mockBatches);
+    const { result } = await renderGallery();
+
+    act(() => {
+      result.current.gallery.preloadAround(result.current.gallery.generationBatches, 0, 0);
+    });
+
+    expect(ImageCacheManager.preloadImages).toHaveBeenCalledWith(['https://img/1.jpg', 'https://img/2.jpg'], 'high');
+    expect(ImageCacheManager.preloadImages).toHaveBeenCalledWith(['https://img/3.jpg'], 'normal');
+  });
+});
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { renderHook, act } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GenerationProvider, useGeneration } from '../GenerationContext';
+import { APIService } from '../../services/APIService';
+import GenerationStatusStream from '../../services/GenerationStatusStream';
+import NotificationService from '../../services/NotificationService';
+import { GenerationStatusResponse } from '../../types/preset.types';
+import { makePreset } from '../../test-utils/fixtures';
+
+const preset = makePreset('preset-1', { name: 'Golden Hour', prompt: 'warm sunset light' });
+
+const models = [{ id: 'model-1', higgsfield_id: 'hf-1' }];
+
+const status = (overrides: Partial<GenerationStatusResponse>): GenerationStatusResponse => ({
+  generation_id: 'gen-1',
+  status: 'processing',
+  progress: 0,
+  image_urls: [],
+  ...overrides,
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <GenerationProvider>{children}</GenerationProvider>;
+
+// Start a generation the backend accepted as gen-1, with the status stream down so polling takes over
+const renderWithGeneration = async () => {
+  const hook = renderHook(() => useGeneration(), { wrapper });
+  await act(async () => {
+    await hook.result.current.startGeneration(preset, 'model-1', models);
+  });
+  expect(hook.result.current.skeletonGenerations[0].generationId).toBe('gen-1');
+  return hook;
+};
+
+// Let the fallback poll run once and its status requests settle
+const poll = async () => {
+  await act(async () => {
+    jest.advanceTimersByTime(30000);
+  });
+  await act(async () => {});
+};
+
+describe('GenerationContext status polling', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    await AsyncStorage.clear();
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    jest.spyOn(GenerationStatusStream, 'syncSubscriptions').mockImplementation(() => {});
+    (APIService.generateImages as jest.Mock).mockResolvedValue({ generation_id: 'gen-1', status: 'started' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shows the reported progress on the skeleton', async () => {
+    (APIService.getGenerationStatus as jest.Mock).mockResolvedValue(status({ progress: 40 }));
+    const { result } = await renderWithGeneration();
+
+    await poll();
+
+    expect(APIService.getGenerationStatus).toHaveBeenCalledWith('gen-1');
+    expect(result.current.skeletonGenerations[0].progress).toBe(40);
+  });
+
+  it('hands the finished batch to the gallery and removes the skeleton', async () => {
+    (APIService.getGenerationStatus as jest.Mock).mockResolvedValue(
+      status({ status: 'completed', progress: 100, image_urls: ['https://img/1.jpg'], batch_id: 'batch-1' })
+    );
+    const completed = jest.fn();
+    const subscription = NotificationService.on('generationCompleted', completed);
+    const { result } = await renderWithGeneration();
+
+    await poll();
+
+    expect(result.current.skeletonGenerations).toHaveLength(0);
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({
+      generationId: 'gen-1',
+      imageCount: 1,
+      batch: expect.objectContaining({
+        id: 'batch-1',
+        images: ['https://img/1.jpg'],
+        source: 'preset',
+        modelId: 'model-1',
+        presetId: 'preset-1',
+      }),
+    }));
+    subscription.remove();
+  });
+
+  it('marks the skeleton failed with the backend message', async () => {
+    (APIService.getGenerationStatus as jest.Mock).mockResolvedValue(
+      status({ status: 'failed', error_message: 'Model weights unavailable' })
+    );
+    const { result } = await renderWithGeneration();
+
+    await poll();
+
+    expect(result.current.skeletonGenerations[0].failed).toBe(true);
+    expect(result.current.skeletonGenerations[0].errorMessage).toBe('Model weights unavailable');
+  });
+
+  it('marks flagged content as failed with the content message', async () => {
+    (APIService.getGenerationStatus as jest.Mock).mockResolvedValue(status({ status: 'nsfw' }));
+    const { result } = await renderWithGeneration();
+
+    await poll();
+
+    expect(result.current.skeletonGenerations[0].failed).toBe(true);
+    expect(result.current.skeletonGenerations[0].errorMessage).toMatch(/flagged as inappropriate/);
+  });
+});
@@ -14,6 +14,8 @@ import GalleryScreen from '../screens/main/GalleryScreen';
 import TrainingScreen from '../screens/main/TrainingScreen';
 import PresetDetailScreen from '../screens/main/PresetDetailScreen';
 import CameraScreen from '../screens/main/CameraScreen';
+import CustomPromptScreen from '../screens/main/CustomPromptScreen';
+import CollectionDetailScreen from '../screens/main/CollectionDetailScreen';
 import { useGeneration } from '../context/GenerationContext';
 import { useTraining } from '../context/TrainingContext';
 import { useAppState } from '../context/AppStateContext';
@@ -33,6 +35,7 @@ export type HomeStackParamList = {
     characterId?: string; 
     onGenerateRequest?: (preset: any, characterId: string) => void;
   };
+  CustomPrompt: undefined;
 };
 
 export type FavoritesStackParamList = {
@@ -42,6 +45,7 @@ export type FavoritesStackParamList = {
     characterId?: string; 
     onGenerateRequest?: (preset: any, characterId: string) => void;
   };
+  CollectionDetail: { collectionId: string };
 };
 
 export type GalleryStackParamList = {
@@ -122,6 +126,7 @@ function HomeStackNavigator() {
     <HomeStack.Navigator screenOptions={{ headerShown: false }}>
       <HomeStack.Screen name="HomeScreen" component={HomeScreenWithGeneration} />
       <HomeStack.Screen name="PresetDetail" component={PresetDetailScreenWithGeneration} />
+      <HomeStack.Screen name="CustomPrompt" component={CustomPromptScreen} />
     </HomeStack.Navigator>
   );
 }
@@ -131,6 +136,7 @@ function FavoritesStackNavigator() {
     <FavoritesStack.Navigator screenOptions={{ headerShown: false }}>
       <FavoritesStack.Screen name="FavoritesScreen" component={FavoritesScreenWithGeneration} />
       <FavoritesStack.Screen name="PresetDetail" component={PresetDetailScreenWithGeneration} />
+      <FavoritesStack.Screen name="CollectionDetail" component={CollectionDetailScreen} />
     </FavoritesStack.Navigator>
   );
 }
@@ -8,6 +8,7 @@ import { GenerationProvider } from '../context/GenerationContext';
 import { TrainingProvider } from '../context/TrainingContext';
 import { AppStateProvider } from '../context/AppStateContext';
 import { CameraProvider } from '../context/CameraContext';
+import { UsageProvider } from '../context/UsageContext';
 import ErrorBoundary from '../components/ui/ErrorBoundary';
 import { Loading, LoadingType } from '../components/ui/LoadingStates';
 import { AuthState } from '../types/auth.types';
@@ -84,24 +85,26 @@ function AppContent() {
               console.error('❌ [RootScreen] Context providers error:', error);
             }}
           >
-            <FavoritesProvider>
-              <TrainingProvider>
-                <GenerationProvider>
-                  <GalleryProvider>
-                    <CameraProvider>
-                      <ErrorBoundary
-                        onError={(error, errorInfo) => {
-                          console.error('❌ [RootScreen] Navigation error:', error);
-                          // TODO: Handle navigation specific errors
-                        }}
-                      >
-                        <AppNavigator key={`nav-${authState}-${user?.id || 'none'}`} />
-                      </ErrorBoundary>
-                    </CameraProvider>
-                  </GalleryProvider>
-                </GenerationProvider>
-              </TrainingProvider>
-            </FavoritesProvider>
+            <UsageProvider>
+              <FavoritesProvider>
+                <TrainingProvider>
+                  <GenerationProvider>
+                    <GalleryProvider>
+                      <CameraProvider>
+                        <ErrorBoundary
+                          onError={(error, errorInfo) => {
+                            console.error('❌ [RootScreen] Navigation error:', error);
+                            // TODO: Handle navigation specific errors
+                          }}
+                        >
+                          <AppNavigator key={`nav-${authState}-${user?.id || 'none'}`} />
+                        </ErrorBoundary>
+                      </CameraProvider>
+                    </GalleryProvider>
+                  </GenerationProvider>
+                </TrainingProvider>
+              </FavoritesProvider>
+            </UsageProvider>
           </ErrorBoundary>
         </AppStateProvider>
       </ErrorBoundary>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -13,27 +13,72 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Image } from 'expo-image';
 import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '../../context/AuthContext';
+import PhotoReviewModal from '../../components/ui/PhotoReviewModal';
+import PhotoQualityService from '../../services/PhotoQualityService';
+import TrainingUploadManager, { getUploadedCount } from '../../services/TrainingUploadManager';
+import { PhotoQualityReport, TrainingPhoto, TrainingUploadJob } from '../../types/training.types';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+const describeUpload = (job: TrainingUploadJob): string => {
+  switch (job.status) {
+    case 'paused':
+      return 'Waiting for connection...';
+    case 'committing':
+      return 'Finishing upload...';
+    default:
+      return `Uploaded ${getUploadedCount(job)} of ${job.files.length} photos...`;
+  }
+};
+
 interface AvatarTrainingScreenProps {
   onUploadComplete: (tempFolderName?: string) => void;
 }
 
-interface SelectedImage {
-  id: string;
-  uri: string;
-  width?: number;
-  height?: number;
-}
-
 export default function AvatarTrainingScreen({ onUploadComplete }: AvatarTrainingScreenProps) {
-  const { getAuthHeader, logout } = useAuth();
+  const { logout } = useAuth();
   
-  const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([]);
+  const [selectedImages, setSelectedImages] = useState<TrainingPhoto[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [progressText, setProgressText] = useState('');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [photoReport, setPhotoReport] = useState<PhotoQualityReport | null>(null);
+  const [failedJobId, setFailedJobId] = useState<string | null>(null);
+  const uploadJobId = useRef<string | null>(null);
+
+  // Follow the upload, including one that was still running when the app was closed
+  useEffect(() => {
+    TrainingUploadManager.getJobs('onboarding').then(jobs => {
+      const job = jobs[jobs.length - 1];
+      if (!job) return;
+
+      uploadJobId.current = job.id;
+      if (job.status === 'failed') {
+        setFailedJobId(job.id);
+        setErrorMessage(job.error || 'Failed to upload photos. Please try again.');
+      } else {
+        setIsUploading(true);
+        setProgressText(describeUpload(job));
+      }
+    });
+
+    return TrainingUploadManager.subscribe(event => {
+      if (event.job.id !== uploadJobId.current) return;
+
+      if (event.type === 'progress') {
+        setProgressText(describeUpload(event.job));
+      } else if (event.type === 'committed') {
+        uploadJobId.current = null;
+        setIsUploading(false);
+        onUploadComplete(event.result.tempModelId);
+      } else {
+        console.error('[AvatarTraining] Upload error:', event.errorMessage);
+        setFailedJobId(event.job.id);
+        setErrorMessage(event.errorMessage || 'Failed to upload photos. Please try again.');
+        setIsUploading(false);
+      }
+    });
+  }, []);
 
   const requestPermissions = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -62,95 +107,74 @@ export default function AvatarTrainingScreen({ onUploadComplete }: AvatarTrainin
       });
 
       if (!result.canceled && result.assets) {
-        const images: SelectedImage[] = result.assets.map((asset, index) => ({
+        const images: TrainingPhoto[] = result.assets.map((asset, index) => ({
           id: `${Date.now()}_${index}`,
           uri: asset.uri,
           width: asset.width,
           height: asset.height,
+          fileSize: asset.fileSize,
         }));
         
         setErrorMessage(null);
-        
-        // Immediately start upload without showing preview
-        if (images.length > 0) {
+        if (images.length === 0) return;
+
+        // Only stop for a review when something looks wrong; otherwise upload right away
+        setIsUploading(true);
+        setProgressText('Checking photos...');
+        const report = await PhotoQualityService.analyzePhotos(images, (checked, total) => {
+          setProgressText(`Checking photo ${checked}/${total}...`);
+        });
+        setIsUploading(false);
+
+        if (report.flaggedCount > 0) {
+          setPhotoReport(report);
+        } else {
           uploadPhotos(images);
         }
       }
     } catch (error: any) {
       console.error('[AvatarTraining] Error selecting photos:', error);
+      setIsUploading(false);
       setErrorMessage('Failed to select photos. Please try again.');
     }
   };
 
-  const uploadPhotos = async (images: SelectedImage[]) => {
+  const uploadPhotos = async (images: TrainingPhoto[]) => {
     setErrorMessage(null);
     setIsUploading(true);
     setProgressText(`Uploading ${images.length} photos...`);
 
-    try {
-      const authHeader = await getAuthHeader();
-      if (!authHeader) {
-        throw new Error('Not authenticated');
-      }
-      
-      console.log('[AvatarTraining] 🔑 Auth header:', authHeader ? 'present' : 'missing');
-      console.log('[AvatarTraining] 🌐 API URL:', process.env.EXPO_PUBLIC_API_URL);
-
-      // Convert images to form data
-      const formData = new FormData();
-      
-      for (let i = 0; i < images.length; i++) {
-        setProgressText(`Processing image ${i + 1}/${images.length}...`);
-        
-        const image = images[i];
-        const response = await fetch(image.uri);
-        const blob = await response.blob();
-        
-        // Create file object for form data
-        formData.append('images', {
-          uri: image.uri,
-          type: 'image/jpeg',
-          name: `image_${i + 1}.jpg`,
-        } as any);
-      }
-
-      setProgressText('Uploading to cloud...');
-
-      const API_BASE_URL = 'https://twynbackend-production.up.railway.app/api';
-      console.log('[AvatarTraining] 📤 Starting upload to:', `${API_BASE_URL}/onboarding/batch-upload`);
-      console.log('[AvatarTraining] 📝 FormData has', images.length, 'images');
-      
-      // Upload to backend
-      const uploadResponse = await fetch(`${API_BASE_URL}/onboarding/batch-upload`, {
-        method: 'POST',
-        headers: {
-          'Authorization': authHeader,
-          // Don't set Content-Type - let the browser set it automatically for FormData
-        },
-        body: formData,
-      });
-      
-      console.log('[AvatarTraining] 📥 Upload response status:', uploadResponse.status);
-
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text();
-        throw new Error(errorText || 'Upload failed');
-      }
-
-      const result = await uploadResponse.json();
-      const tempFolderName = result.tempModelId;
-
-      setIsUploading(false);
-      onUploadComplete(tempFolderName);
+    // A new selection replaces an upload that gave up
+    if (failedJobId) {
+      TrainingUploadManager.cancel(failedJobId);
+      setFailedJobId(null);
+    }
 
+    try {
+      // Photos are resized and sent one by one; the subscription above reports progress
+      const job = await TrainingUploadManager.startUpload({ purpose: 'onboarding', photos: images });
+      uploadJobId.current = job.id;
     } catch (error: any) {
       console.error('[AvatarTraining] Upload error:', error);
       setErrorMessage(error.message || 'Failed to upload photos. Please try again.');
       setIsUploading(false);
-      // If upload fails, user can tap the selected images to try again or use skip button
     }
   };
 
+  const handleRetryUpload = () => {
+    if (!failedJobId) return;
+    setErrorMessage(null);
+    setIsUploading(true);
+    setProgressText('Resuming upload...');
+    TrainingUploadManager.retry(failedJobId);
+    setFailedJobId(null);
+  };
+
+  const handlePhotoReviewConfirm = (photos: TrainingPhoto[]) => {
+    setPhotoReport(null);
+    uploadPhotos(photos);
+  };
+
   const handleSkip = () => {
     onUploadComplete();
   };
@@ -219,6 +243,12 @@ export default function AvatarTrainingScreen({ onUploadComplete }: AvatarTrainin
           {errorMessage && (
             <Text style={styles.errorText}>{errorMessage}</Text>
           )}
+
+          {failedJobId && !isUploading && (
+            <TouchableOpacity style={styles.retryButton} onPress={handleRetryUpload}>
+              <Text style={styles.retryButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Action Buttons */}
@@ -234,6 +264,14 @@ export default function AvatarTrainingScreen({ onUploadComplete }: AvatarTrainin
         </View>
 
       </View>
+
+      <PhotoReviewModal
+        visible={!!photoReport}
+        report={photoReport}
+        minimumCount={1}
+        onConfirm={handlePhotoReviewConfirm}
+        onCancel={() => setPhotoReport(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -362,6 +400,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 20,
   },
+  retryButton: {
+    alignSelf: 'center',
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+  },
+  retryButtonText: {
+    color: '#FF48D8',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   actionSection: {
     alignItems: 'center',
   },
@@ -7,6 +7,10 @@ import { useCamera } from '../../context/CameraContext';
 import { useTraining } from '../../context/TrainingContext';
 import { useAppState } from '../../context/AppStateContext';
 import { useGallery } from '../../context/GalleryContext';
+import { useUsage } from '../../context/UsageContext';
+import { RequestQueuedError } from '../../services/RequestQueueService';
+import { ApiErrorType, isApiError } from '../../types/api.types';
+import { showGenerationErrorAlert } from '../../utils/errorAlerts';
 
 // Import camera properly
 import { CameraView, useCameraPermissions } from 'expo-camera';
@@ -33,6 +37,7 @@ export default function CameraScreen({}: CameraScreenProps) {
   const { models } = useTraining();
   const { selectedLoraId, availableLoRAs } = useAppState();
   const { addPendingGeneration } = useGallery();
+  const { ensureCanGenerate, recordGeneration } = useUsage();
 
   useEffect(() => {
     if (!permission?.granted && permission?.canAskAgain) {
@@ -56,6 +61,8 @@ export default function CameraScreen({}: CameraScreenProps) {
 
   const handleCapture = async () => {
     if (!cameraRef.current || cameraState.isCapturing) return;
+    // Analyzing the photo already counts as a generation
+    if (!ensureCanGenerate()) return;
 
     try {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -95,11 +102,29 @@ export default function CameraScreen({}: CameraScreenProps) {
         
       } catch (analysisError) {
         console.error('[CameraScreen] Analysis failed:', analysisError);
-        Alert.alert(
-          'Analysis Failed',
-          'We couldn\'t analyze your photo. Please try again with a different photo.',
-          [{ text: 'OK', onPress: () => navigation.goBack() }]
-        );
+
+        const errorType = isApiError(analysisError) ? analysisError.type : ApiErrorType.UNKNOWN;
+        switch (errorType) {
+          case ApiErrorType.CONTENT_REJECTED:
+            // Stay on the camera so the user can retake the photo
+            Alert.alert('Photo Not Allowed', (analysisError as Error).message, [{ text: 'Retake' }]);
+            break;
+          case ApiErrorType.NETWORK_ERROR:
+          case ApiErrorType.TIMEOUT:
+            Alert.alert('No Connection', (analysisError as Error).message, [{ text: 'OK' }]);
+            break;
+          case ApiErrorType.QUOTA_EXCEEDED:
+          case ApiErrorType.RATE_LIMITED:
+          case ApiErrorType.UNAUTHORIZED:
+            showGenerationErrorAlert(analysisError);
+            break;
+          default:
+            Alert.alert(
+              'Analysis Failed',
+              'We couldn\'t analyze your photo. Please try again with a different photo.',
+              [{ text: 'OK', onPress: () => navigation.goBack() }]
+            );
+        }
       }
       
     } catch (error) {
@@ -139,6 +164,7 @@ export default function CameraScreen({}: CameraScreenProps) {
       
       // Start generation using captureId directly
       await startGenerationWithCaptureId(modelId, pendingCaptureData.captureId);
+      recordGeneration();
       
       Alert.alert(
         'Generation Started!',
@@ -147,8 +173,17 @@ export default function CameraScreen({}: CameraScreenProps) {
       );
       
     } catch (error) {
+      if (error instanceof RequestQueuedError) {
+        Alert.alert(
+          'Generation Queued 📶',
+          'You\'re offline. Your camera avatar will start generating as soon as you\'re back online.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
+
       console.error('[CameraScreen] Generation failed:', error);
-      Alert.alert('Generation Failed', 'Failed to start avatar generation. Please try again.');
+      showGenerationErrorAlert(error);
     }
   };
 
@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { FavoritesStackParamList } from '../../navigation/AppNavigator';
+import { Image } from 'expo-image';
+import { useFavorites } from '../../context/FavoritesContext';
+import { favoriteKey } from '../../services/FavoritesSyncService';
+import { getCollectionCoverKey, getFavoriteImageUrl } from '../../services/FavoriteCollectionsService';
+import { FavoriteItem } from '../../types/favorites.types';
+import { Preset } from '../../types/preset.types';
+import ReorderableList from '../../components/ui/ReorderableList';
+import CollectionNameModal from '../../components/ui/CollectionNameModal';
+import FullScreenImageViewer from '../../components/ui/FullScreenImageViewer';
+
+const ROW_HEIGHT = 84;
+
+export default function CollectionDetailScreen() {
+  const navigation = useNavigation<StackNavigationProp<FavoritesStackParamList>>();
+  const route = useRoute<RouteProp<FavoritesStackParamList, 'CollectionDetail'>>();
+  const { collectionId } = route.params;
+
+  const {
+    collections,
+    getCollectionItems,
+    renameCollection,
+    deleteCollection,
+    removeFromCollection,
+    reorderCollection,
+    setCollectionCover,
+  } = useFavorites();
+
+  const [showRenameModal, setShowRenameModal] = useState(false);
+  const [viewerItem, setViewerItem] = useState<FavoriteItem | null>(null);
+
+  const collection = collections.find(c => c.id === collectionId);
+  const items = getCollectionItems(collectionId);
+  const coverKey = collection ? getCollectionCoverKey(collection) : null;
+
+  if (!collection) {
+    // Deleted from another screen
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>Collection not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const handleMenuPress = () => {
+    Alert.alert(collection.name, undefined, [
+      { text: 'Rename', onPress: () => setShowRenameModal(true) },
+      {
+        text: 'Delete Collection',
+        style: 'destructive',
+        onPress: () => {
+          Alert.alert(
+            'Delete Collection?',
+            'The items stay in your favorites.',
+            [
+              { text: 'Cancel', style: 'cancel' },
+              {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                  await deleteCollection(collection.id);
+                  navigation.goBack();
+                },
+              },
+            ]
+          );
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleItemMenuPress = (item: FavoriteItem) => {
+    Alert.alert(getItemTitle(item), undefined, [
+      { text: 'Use as Cover', onPress: () => setCollectionCover(collection.id, item) },
+      { text: 'Remove from Collection', style: 'destructive', onPress: () => removeFromCollection(collection.id, item) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleItemPress = (item: FavoriteItem) => {
+    if (item.type === 'image') {
+      setViewerItem(item);
+    } else {
+      navigation.navigate('PresetDetail', { preset: item.data as Preset });
+    }
+  };
+
+  const getItemTitle = (item: FavoriteItem): string =>
+    item.type === 'preset' ? (item.data as Preset).name || 'Preset' : 'AI Generated Image';
+
+  const renderRow = (item: FavoriteItem, isDragging: boolean) => {
+    const imageUrl = getFavoriteImageUrl(item);
+    const isCover = favoriteKey(item.id, item.type) === coverKey;
+
+    return (
+      <View style={[styles.row, isDragging && styles.rowDragging]}>
+        <TouchableOpacity style={styles.rowMain} onPress={() => handleItemPress(item)} activeOpacity={0.7}>
+          {imageUrl ? (
+            <Image source={{ uri: imageUrl }} style={styles.thumbnail} contentFit="cover" />
+          ) : (
+            <View style={styles.thumbnail} />
+          )}
+          <View style={styles.rowText}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{getItemTitle(item)}</Text>
+            <Text style={styles.rowSubtitle}>
+              {item.type === 'preset' ? 'Preset' : 'Image'}{isCover ? ' · Cover' : ''}
+            </Text>
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.rowAction} onPress={() => handleItemMenuPress(item)}>
+          <Text style={styles.rowActionText}>⋯</Text>
+        </TouchableOpacity>
+        <Text style={styles.dragHandle}>≡</Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.menuButton} onPress={handleMenuPress}>
+          <Text style={styles.menuButtonText}>⋯</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title} numberOfLines={1}>{collection.name}</Text>
+        <Text style={styles.subtitle}>
+          {items.length} item{items.length !== 1 ? 's' : ''}
+          {items.length > 1 ? ' · Hold and drag to reorder' : ''}
+        </Text>
+      </View>
+
+      {items.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>Nothing here yet</Text>
+          <Text style={styles.emptyText}>
+            Open an image and tap the heart to add it to this collection
+          </Text>
+        </View>
+      ) : (
+        <ReorderableList
+          data={items}
+          rowHeight={ROW_HEIGHT}
+          keyExtractor={item => favoriteKey(item.id, item.type)}
+          renderItem={renderRow}
+          onReorder={keys => reorderCollection(collection.id, keys)}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+      {viewerItem && 'imageUrl' in viewerItem.data && (
+        <FullScreenImageViewer
+          batch={{
+            id: viewerItem.data.batchId || viewerItem.id,
+            images: [viewerItem.data.imageUrl],
+            generatedAt: new Date(viewerItem.data.generatedAt || viewerItem.createdAt),
+            preset: viewerItem.data.prompt ? { prompt: viewerItem.data.prompt } : undefined,
+          }}
+          initialIndex={0}
+          visible={true}
+          onDismiss={() => setViewerItem(null)}
+        />
+      )}
+
+      <CollectionNameModal
+        visible={showRenameModal}
+        title="Rename Collection"
+        confirmLabel="Save"
+        initialName={collection.name}
+        onSubmit={name => renameCollection(collection.id, name)}
+        onClose={() => setShowRenameModal(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 4,
+  },
+  backButton: {
+    padding: 12,
+  },
+  backButtonText: {
+    color: '#FF48D8',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  menuButton: {
+    padding: 12,
+  },
+  menuButtonText: {
+    color: '#000000',
+    fontSize: 22,
+    fontWeight: '600',
+  },
+  titleContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  row: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    marginVertical: 4,
+    paddingRight: 8,
+  },
+  rowDragging: {
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thumbnail: {
+    width: 68,
+    height: 68,
+    borderRadius: 12,
+    backgroundColor: '#f8f8f8',
+    marginRight: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  rowSubtitle: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 2,
+  },
+  rowAction: {
+    padding: 8,
+  },
+  rowActionText: {
+    fontSize: 20,
+    color: '#666666',
+  },
+  dragHandle: {
+    fontSize: 22,
+    color: '#bbbbbb',
+    paddingHorizontal: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#000000',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,395 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Image } from 'expo-image';
+import { useTraining } from '../../context/TrainingContext';
+import { useAppState } from '../../context/AppStateContext';
+import { useGeneration } from '../../context/GenerationContext';
+import { useUsage } from '../../context/UsageContext';
+import PresetRepository from '../../services/PresetRepository';
+import CustomPromptService, {
+  PromptStyle,
+  createCustomPreset,
+  getPromptStyles,
+} from '../../services/CustomPromptService';
+import GenerationOptionsService, { DEFAULT_GENERATION_OPTIONS } from '../../services/GenerationOptionsService';
+import GenerationOptionsSheet from '../../components/ui/GenerationOptionsSheet';
+import GenerationOptionsButton from '../../components/ui/GenerationOptionsButton';
+import { CustomPromptEntry, GenerationOptions } from '../../types/preset.types';
+import { isApiError } from '../../types/api.types';
+import { showGenerationErrorAlert } from '../../utils/errorAlerts';
+import { TYPOGRAPHY } from '../../styles/typography';
+
+// Last-used advanced options for custom prompts are stored alongside the per-preset ones
+const CUSTOM_OPTIONS_KEY = 'custom';
+const MAX_PROMPT_LENGTH = 1000;
+
+export default function CustomPromptScreen() {
+  const navigation = useNavigation();
+
+  const { models, skeletonModels } = useTraining();
+  const { selectedLoraId, selectLoRA } = useAppState();
+  const { startGeneration } = useGeneration();
+  const { ensureCanGenerate, recordGeneration } = useUsage();
+
+  const [prompt, setPrompt] = useState('');
+  const [promptStyles, setPromptStyles] = useState<PromptStyle[]>([]);
+  const [selectedStyleId, setSelectedStyleId] = useState<string | undefined>();
+  const [isLoadingStyles, setIsLoadingStyles] = useState(true);
+  const [history, setHistory] = useState<CustomPromptEntry[]>([]);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [showOptionsSheet, setShowOptionsSheet] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const allModels = [...models, ...skeletonModels];
+  const selectedStyle = promptStyles.find(style => style.style_id === selectedStyleId);
+  const canGenerate = !!prompt.trim() && !!selectedStyle && !!selectedLoraId && !isGenerating;
+
+  useEffect(() => {
+    loadStyles();
+    CustomPromptService.getHistory().then(setHistory);
+    GenerationOptionsService.getOptions(CUSTOM_OPTIONS_KEY).then(setGenerationOptions);
+  }, []);
+
+  const loadStyles = async () => {
+    try {
+      setIsLoadingStyles(true);
+      const presets = await PresetRepository.getPresets();
+      const styleOptions = getPromptStyles(presets);
+      console.log('[✏️ CustomPromptScreen] Loaded', styleOptions.length, 'styles from', presets.length, 'presets');
+      setPromptStyles(styleOptions);
+      setSelectedStyleId(current => current || styleOptions[0]?.style_id);
+    } catch (error) {
+      console.error('[✏️ CustomPromptScreen] Failed to load styles:', error);
+    } finally {
+      setIsLoadingStyles(false);
+    }
+  };
+
+  const handleHistorySelect = (entry: CustomPromptEntry) => {
+    setPrompt(entry.prompt);
+    if (promptStyles.some(style => style.style_id === entry.style_id)) {
+      setSelectedStyleId(entry.style_id);
+    }
+  };
+
+  const handleHistoryRemove = async (entry: CustomPromptEntry) => {
+    setHistory(await CustomPromptService.removeFromHistory(entry));
+  };
+
+  const handleOptionsApply = (options: GenerationOptions) => {
+    setGenerationOptions(options);
+    GenerationOptionsService.saveOptions(CUSTOM_OPTIONS_KEY, options);
+  };
+
+  const handleGenerate = async () => {
+    if (!selectedLoraId) {
+      Alert.alert(
+        'Create a Model First',
+        'Please go to the Training tab and create a character model before generating images.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+    if (!prompt.trim() || !selectedStyle) return;
+
+    // Stop before the request when this month's generations are used up
+    if (!ensureCanGenerate()) return;
+
+    try {
+      setIsGenerating(true);
+      console.log('[✏️ CustomPromptScreen] 🚀 Generating custom prompt with style:', selectedStyle.style_id);
+
+      const submission = await startGeneration(createCustomPreset(prompt, selectedStyle), selectedLoraId, allModels, generationOptions);
+      if (submission === 'sent') recordGeneration();
+      GenerationOptionsService.saveOptions(CUSTOM_OPTIONS_KEY, generationOptions);
+      setHistory(await CustomPromptService.addToHistory(prompt, selectedStyle.style_id));
+
+      navigation.goBack();
+    } catch (error) {
+      console.error('[✏️ CustomPromptScreen] ❌ Generation failed:', error);
+      showGenerationErrorAlert(error, isApiError(error) && error.isRetryable ? handleGenerate : undefined);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Custom Prompt</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.flex}
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Prompt editor */}
+          <TextInput
+            style={styles.promptInput}
+            value={prompt}
+            onChangeText={setPrompt}
+            placeholder="Describe the photo you want, e.g. me hiking in the Alps at sunrise"
+            placeholderTextColor="rgba(255,255,255,0.4)"
+            multiline={true}
+            maxLength={MAX_PROMPT_LENGTH}
+          />
+          <Text style={styles.characterCount}>{prompt.length}/{MAX_PROMPT_LENGTH}</Text>
+
+          {/* Style picker */}
+          <Text style={styles.sectionLabel}>Style</Text>
+          {isLoadingStyles ? (
+            <ActivityIndicator size="small" color="#ffffff" style={styles.stylesLoading} />
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+              {promptStyles.map(style => (
+                <TouchableOpacity
+                  key={style.style_id}
+                  style={[styles.styleCard, selectedStyleId === style.style_id && styles.styleCardSelected]}
+                  onPress={() => setSelectedStyleId(style.style_id)}
+                >
+                  <Image
+                    source={{ uri: style.image_url }}
+                    style={styles.styleImage}
+                    contentFit="cover"
+                    placeholder="L6PZfSi_.AyE_3t7t7R**0o#DgR4"
+                  />
+                  <Text style={styles.styleName} numberOfLines={1}>{style.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {/* Model selector */}
+          <Text style={styles.sectionLabel}>Model</Text>
+          {allModels.length === 0 ? (
+            <Text style={styles.emptyText}>Train a model in the Training tab to use custom prompts.</Text>
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+              {allModels.map(model => (
+                <TouchableOpacity
+                  key={model.id}
+                  style={[styles.modelChip, selectedLoraId === model.id && styles.modelChipSelected]}
+                  onPress={() => selectLoRA(model.id)}
+                >
+                  <Text style={styles.modelChipText} numberOfLines={1}>{model.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {/* Advanced options */}
+          <GenerationOptionsButton
+            options={generationOptions}
+            onPress={() => setShowOptionsSheet(true)}
+            style={styles.optionsButton}
+          />
+
+          {/* Generate */}
+          <TouchableOpacity
+            style={[styles.generateButton, { opacity: canGenerate ? 1.0 : 0.5 }]}
+            onPress={handleGenerate}
+            disabled={!canGenerate}
+          >
+            {isGenerating && <ActivityIndicator size="small" color="#ffffff" style={{ marginRight: 8 }} />}
+            <Text style={styles.generateButtonText}>{isGenerating ? 'Generating...' : 'Generate'}</Text>
+          </TouchableOpacity>
+
+          {/* Prompt history */}
+          {history.length > 0 && (
+            <>
+              <Text style={styles.sectionLabel}>Recent Prompts</Text>
+              {history.map(entry => (
+                <View key={`${entry.style_id}-${entry.prompt}`} style={styles.historyItem}>
+                  <TouchableOpacity style={styles.historyTextContainer} onPress={() => handleHistorySelect(entry)}>
+                    <Text style={styles.historyText} numberOfLines={2}>{entry.prompt}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.historyRemoveButton} onPress={() => handleHistoryRemove(entry)}>
+                    <Text style={styles.historyRemoveText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <GenerationOptionsSheet
+        visible={showOptionsSheet}
+        options={generationOptions}
+        onApply={handleOptionsApply}
+        onClose={() => setShowOptionsSheet(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  backButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  title: {
+    ...TYPOGRAPHY.fatFrankHeadline,
+    color: '#ffffff',
+  },
+  headerSpacer: {
+    width: 70,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  promptInput: {
+    minHeight: 120,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 16,
+    padding: 16,
+    color: '#ffffff',
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  characterCount: {
+    alignSelf: 'flex-end',
+    color: 'rgba(255,255,255,0.4)',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  sectionLabel: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  stylesLoading: {
+    alignSelf: 'flex-start',
+    marginVertical: 20,
+  },
+  horizontalList: {
+    gap: 10,
+  },
+  styleCard: {
+    width: 90,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    overflow: 'hidden',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  styleCardSelected: {
+    borderColor: '#FE6EFD',
+  },
+  styleImage: {
+    width: '100%',
+    height: 110,
+  },
+  styleName: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '500',
+    paddingHorizontal: 6,
+    paddingVertical: 6,
+  },
+  modelChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    maxWidth: 180,
+  },
+  modelChipSelected: {
+    backgroundColor: '#FF48D8',
+  },
+  modelChipText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyText: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+  },
+  optionsButton: {
+    justifyContent: 'flex-start',
+    marginTop: 20,
+    paddingHorizontal: 0,
+  },
+  generateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: '#FF48D8',
+  },
+  generateButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  historyTextContainer: {
+    flex: 1,
+  },
+  historyText: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 14,
+  },
+  historyRemoveButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  historyRemoveText: {
+    color: 'rgba(255,255,255,0.4)',
+    fontSize: 14,
+  },
+});
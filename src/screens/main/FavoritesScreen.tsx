@@ -12,22 +12,30 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { FavoritesStackParamList } from '../../navigation/AppNavigator';
 import { useFavorites } from '../../context/FavoritesContext';
-import { APIService } from '../../services/APIService';
+import PresetRepository from '../../services/PresetRepository';
+import { favoriteKey } from '../../services/FavoritesSyncService';
+import { countCollectionItems, getCollectionCoverKey, getFavoriteImageUrl } from '../../services/FavoriteCollectionsService';
+import { FavoriteCollection } from '../../types/favorites.types';
 import { Preset } from '../../types/preset.types';
 import StaggeredGrid from '../../components/ui/StaggeredGrid';
 import { AdaptivePresetCard } from '../../components/ui/PresetCard';
 import { Image } from 'expo-image';
 import FullScreenImageViewer from '../../components/ui/FullScreenImageViewer';
 import AnimatedPresetModal from '../../components/ui/AnimatedPresetModal';
+import CollectionCard from '../../components/ui/CollectionCard';
+import CollectionNameModal from '../../components/ui/CollectionNameModal';
 
 const { width: screenWidth } = Dimensions.get('window');
+const COLLECTION_CARD_WIDTH = (screenWidth - 16 * 2 - 12) / 2;
 
-type FilterType = 'all' | 'images' | 'presets';
+type FilterType = 'all' | 'images' | 'presets' | 'collections';
 
 export default function FavoritesScreen() {
-  const navigation = useNavigation();
-  const { favoriteIds, isFavorited, getFavorites } = useFavorites();
+  const navigation = useNavigation<StackNavigationProp<FavoritesStackParamList>>();
+  const { favoriteIds, isFavorited, getFavorites, favorites, collections, createCollection } = useFavorites();
   
   const [favoritePresets, setFavoritePresets] = useState<Preset[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -39,6 +47,7 @@ export default function FavoritesScreen() {
   const viewerKeyRef = useRef<string | null>(null);
   const [selectedPreset, setSelectedPreset] = useState<Preset | null>(null);
   const [showPresetModal, setShowPresetModal] = useState(false);
+  const [showNewCollectionModal, setShowNewCollectionModal] = useState(false);
   
   // Animation refs for preset modal (same as HomeScreen)
   const parallaxOffset = useRef(new Animated.Value(0)).current;
@@ -50,6 +59,8 @@ export default function FavoritesScreen() {
   const allFavorites = getFavorites();
   const imageFavorites = getFavorites('image');
   const presetFavoriteItems = getFavorites('preset');
+  const presetFavoriteItemsRef = useRef(presetFavoriteItems);
+  presetFavoriteItemsRef.current = presetFavoriteItems;
 
   // Memoize the current batch to prevent remounting
   const currentBatch = React.useMemo(() => 
@@ -75,6 +86,14 @@ export default function FavoritesScreen() {
     loadFavoritePresets();
   }, [presetFavoriteItems.length]); // Only reload when preset count changes
 
+  // Catalog changes (renames, new thumbnails, deactivated presets) update the cards in place
+  useEffect(() => {
+    const subscription = PresetRepository.subscribe(updatedPresets => {
+      const favoritedIds = new Set(presetFavoriteItemsRef.current.map(fav => fav.id));
+      setFavoritePresets(updatedPresets.filter(preset => favoritedIds.has(preset.id)));
+    });
+    return () => subscription.remove();
+  }, []);
 
   const loadFavoritePresets = async () => {
     try {
@@ -88,7 +107,7 @@ export default function FavoritesScreen() {
       }
 
       // Fetch all presets and filter by favorites
-      const allPresets = await APIService.fetchPresets();
+      const allPresets = await PresetRepository.getPresets();
       const favorites = allPresets.filter(preset => 
         presetFavoriteItems.some(fav => fav.id === preset.id)
       );
@@ -205,9 +224,52 @@ export default function FavoritesScreen() {
           Presets ({favoritePresets.length})
         </Text>
       </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.filterTab, currentFilter === 'collections' && styles.filterTabActive]}
+        onPress={() => setCurrentFilter('collections')}
+      >
+        <Text style={[styles.filterText, currentFilter === 'collections' && styles.filterTextActive]} numberOfLines={1}>
+          Collections
+        </Text>
+      </TouchableOpacity>
     </View>
   );
 
+  const favoriteKeys = new Set(favorites.map(fav => favoriteKey(fav.id, fav.type)));
+
+  const getCollectionCoverUrl = (collection: FavoriteCollection): string | undefined => {
+    const coverKey = getCollectionCoverKey(collection);
+    const cover = favorites.find(fav => favoriteKey(fav.id, fav.type) === coverKey);
+    return cover ? getFavoriteImageUrl(cover) : undefined;
+  };
+
+  const renderCollections = () => (
+    <ScrollView contentContainerStyle={styles.collectionsContent} showsVerticalScrollIndicator={false}>
+      <View style={styles.collectionsGrid}>
+        <TouchableOpacity
+          style={[styles.newCollectionCard, { width: COLLECTION_CARD_WIDTH, height: COLLECTION_CARD_WIDTH }]}
+          onPress={() => setShowNewCollectionModal(true)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.newCollectionIcon}>+</Text>
+          <Text style={styles.newCollectionText}>New Collection</Text>
+        </TouchableOpacity>
+
+        {collections.map(collection => (
+          <CollectionCard
+            key={collection.id}
+            name={collection.name}
+            itemCount={countCollectionItems(collection, favoriteKeys)}
+            coverUrl={getCollectionCoverUrl(collection)}
+            width={COLLECTION_CARD_WIDTH}
+            onPress={() => navigation.navigate('CollectionDetail', { collectionId: collection.id })}
+          />
+        ))}
+      </View>
+    </ScrollView>
+  );
+
   const handleRefresh = () => {
     loadFavoritePresets();
   };
@@ -303,21 +365,23 @@ export default function FavoritesScreen() {
           {renderFilterTabs()}
 
           {/* Combined Grid */}
-          <StaggeredGrid
-            data={filteredData}
-            columns={2}
-            spacing={12}
-            renderItem={(item) => (
-              <AdaptivePresetCard
-                preset={item}
-                onPress={handleItemPress}
-                showFavoriteIndicator={true}
-              />
-            )}
-            keyExtractor={(item) => item.id}
-            showsVerticalScrollIndicator={false}
-            contentContainerStyle={styles.gridContent}
-          />
+          {currentFilter === 'collections' ? renderCollections() : (
+            <StaggeredGrid
+              data={filteredData}
+              columns={2}
+              spacing={12}
+              renderItem={(item) => (
+                <AdaptivePresetCard
+                  preset={item}
+                  onPress={handleItemPress}
+                  showFavoriteIndicator={true}
+                />
+              )}
+              keyExtractor={(item) => item.id}
+              showsVerticalScrollIndicator={false}
+              contentContainerStyle={styles.gridContent}
+            />
+          )}
 
           {/* Full Screen Image Viewer */}
           {currentBatch && fullScreenVisible && (
@@ -342,6 +406,14 @@ export default function FavoritesScreen() {
         scaleY={scaleY}
         contentOpacity={contentOpacity}
       />
+
+      <CollectionNameModal
+        visible={showNewCollectionModal}
+        title="New Collection"
+        confirmLabel="Create"
+        onSubmit={name => createCollection(name)}
+        onClose={() => setShowNewCollectionModal(false)}
+      />
     </>
   );
 }
@@ -488,6 +560,36 @@ const styles = StyleSheet.create({
   filterTextActive: {
     color: '#ffffff',
   },
+  collectionsContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 40,
+  },
+  collectionsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  newCollectionCard: {
+    borderRadius: 16,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: '#FF48D8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  newCollectionIcon: {
+    fontSize: 36,
+    fontWeight: '300',
+    color: '#FF48D8',
+  },
+  newCollectionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF48D8',
+    marginTop: 4,
+  },
   gridContent: {
     paddingHorizontal: 16,
     paddingBottom: 40, // Reduced padding to match other screens
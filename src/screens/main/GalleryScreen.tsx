@@ -1,37 +1,111 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   View, 
   Text, 
   StyleSheet, 
-  ScrollView, 
+  SectionList,
+  SectionListRenderItemInfo,
+  ViewToken,
   RefreshControl,
   ActivityIndicator,
   Dimensions,
-  TouchableOpacity 
+  TouchableOpacity,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Image } from 'expo-image';
-import { useGallery } from '../../context/GalleryContext';
-import { useGeneration } from '../../context/GenerationContext';
+import { useGallery, PendingGeneration, GALLERY_PAGE_SIZE } from '../../context/GalleryContext';
+import { useGeneration, SkeletonGeneration } from '../../context/GenerationContext';
+import { useFavorites } from '../../context/FavoritesContext';
+import { useAppState } from '../../context/AppStateContext';
+import { useUsage } from '../../context/UsageContext';
+import MediaExportService from '../../services/MediaExportService';
+import PresetRepository from '../../services/PresetRepository';
+import ModelRepository from '../../services/ModelRepository';
+import SearchService, { MatchRange, searchBatches } from '../../services/SearchService';
+import GalleryFilterService, {
+  DEFAULT_GALLERY_FILTERS,
+  countActiveFilters,
+  filterBatches,
+  getBatchCategory,
+  getBatchPresetId,
+  getBatchPresetName,
+  groupBatches,
+} from '../../services/GalleryFilterService';
+import { BulkActionResult, GalleryFilters } from '../../types/gallery.types';
+import { GenerationBatch, Preset } from '../../types/preset.types';
+import { showBulkActionResultAlert } from '../../utils/errorAlerts';
+import { getBatchPrompt } from '../../utils/generationBatches';
 import { TYPOGRAPHY, TEXT_COLORS } from '../../styles/typography';
 import { COLORS } from '../../styles/colors';
 import PhotoStackView from '../../components/ui/PhotoStackView';
 import SkeletonImageView from '../../components/ui/SkeletonImageView';
 import StackExpansionView from '../../components/ui/StackExpansionView';
 import FreePillButton from '../../components/ui/FreePillButton';
+import BulkActionBar, { BulkAction, BulkActionProgress } from '../../components/ui/BulkActionBar';
+import { SelectionState } from '../../components/ui/SelectionBadge';
+import GalleryFilterSheet from '../../components/ui/GalleryFilterSheet';
+import SearchBar from '../../components/ui/SearchBar';
+import HighlightedText from '../../components/ui/HighlightedText';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+type GalleryGridItem =
+  | { kind: 'skeleton'; key: string; skeleton: SkeletonGeneration }
+  | { kind: 'pending'; key: string; pending: PendingGeneration }
+  | { kind: 'batch'; key: string; batch: GenerationBatch; batchIndex: number };
+
+// Rows of up to two grid items, so sections can keep the two-column layout
+interface GalleryGridSection {
+  key: string;
+  title: string | null;
+  data: GalleryGridItem[][];
+}
+
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 10 };
+
+const GROUPING_LABELS: Record<GalleryFilters['groupBy'], string> = {
+  date: 'date',
+  model: 'model',
+  category: 'category',
+  source: 'source',
+};
+
+const toRows = (items: GalleryGridItem[], columns: number): GalleryGridItem[][] => {
+  const rows: GalleryGridItem[][] = [];
+  for (let i = 0; i < items.length; i += columns) {
+    rows.push(items.slice(i, i + columns));
+  }
+  return rows;
+};
+
 function GalleryContent() {
   const { 
     generationBatches, 
     pendingGenerations, 
     isLoading, 
+    isLoadingMore,
+    hasMore,
     errorMessage, 
-    refresh 
+    refresh,
+    loadMore,
+    preloadAround,
+    deleteImage,
+    deleteBatch,
+    deleteImages,
   } = useGallery();
+  const { addFavorites } = useFavorites();
+  const { availableLoRAs } = useAppState();
   
   const { retryGeneration, skeletonGenerations } = useGeneration();
+  const { ensureCanGenerate, recordGeneration } = useUsage();
+
+  // A retry is a new generation: gated and counted like the first attempt
+  const handleRetryGeneration = async (skeletonId: string) => {
+    if (!ensureCanGenerate()) return;
+    const submission = await retryGeneration(skeletonId);
+    if (submission === 'sent') recordGeneration();
+  };
   
   // Debug logging for generations
   console.log('[GalleryScreen] 🔍 Render - skeletonGenerations count:', skeletonGenerations.length);
@@ -58,7 +132,50 @@ function GalleryContent() {
   }, [skeletonGenerations]);
   
   const [refreshing, setRefreshing] = useState(false);
-  const [selectedBatch, setSelectedBatch] = useState<any | null>(null);
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedImages, setSelectedImages] = useState<Set<string>>(new Set());
+  const [bulkProgress, setBulkProgress] = useState<BulkActionProgress | null>(null);
+  const [filters, setFilters] = useState<GalleryFilters>(DEFAULT_GALLERY_FILTERS);
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [presets, setPresets] = useState<Preset[]>([]);
+
+  // Restore the last-used filters
+  useEffect(() => {
+    GalleryFilterService.getFilters().then(setFilters);
+  }, []);
+
+  // A deleted model can't match anything, so its filter goes with it
+  useEffect(() => {
+    const dropMissingModel = () => {
+      const store = ModelRepository.getState();
+      // Only trust a fetched model list; the cached one may predate the model
+      if (!store.loadedAt) return;
+      GalleryFilterService.dropMissingModel(id => !!store.byId[id]).then(setFilters);
+    };
+
+    dropMissingModel();
+    return ModelRepository.subscribe((_, change) => {
+      if (change.type === 'loaded' || change.type === 'removed') dropMissingModel();
+    });
+  }, []);
+
+  // Presets let search match batches that only know their preset id
+  useEffect(() => {
+    PresetRepository.getPresets()
+      .then(setPresets)
+      .catch(error => console.error('[GalleryScreen] Failed to load presets for search:', error));
+  }, []);
+
+  const handleApplyFilters = (newFilters: GalleryFilters) => {
+    console.log('[GalleryScreen] Applying filters:', newFilters);
+    setFilters(newFilters);
+    GalleryFilterService.saveFilters(newFilters);
+  };
+
+  // Look the batch up on every render so deletions show up in the open stack
+  const selectedBatch = selectedBatchId ? generationBatches.find(b => b.id === selectedBatchId) : undefined;
 
   const handleRefresh = async () => {
     setRefreshing(true);
@@ -68,7 +185,171 @@ function GalleryContent() {
 
   const handleStackTap = (batch: any) => {
     console.log('[GalleryScreen] Stack tapped:', batch.id);
-    setSelectedBatch(batch);
+    if (searchQuery.trim()) {
+      SearchService.addRecentSearch('gallery', searchQuery);
+    }
+    setSelectedBatchId(batch.id);
+  };
+
+  // Drop selections for images that no longer exist (deleted here or elsewhere)
+  useEffect(() => {
+    if (selectedImages.size === 0) return;
+    const existing = new Set(generationBatches.flatMap(batch => batch.images));
+    const stillSelected = [...selectedImages].filter(url => existing.has(url));
+    if (stillSelected.length !== selectedImages.size) {
+      setSelectedImages(new Set(stillSelected));
+    }
+  }, [generationBatches]);
+
+  const toggleSelectionMode = () => {
+    if (bulkProgress) return;
+    setSelectionMode(prev => !prev);
+    setSelectedImages(new Set());
+  };
+
+  const getBatchSelectionState = (batch: GenerationBatch): SelectionState => {
+    const count = batch.images.filter(url => selectedImages.has(url)).length;
+    if (count === 0) return 'none';
+    return count === batch.images.length ? 'all' : 'partial';
+  };
+
+  // Tapping the check on a stack selects the whole batch, or clears it if anything was selected
+  const toggleBatchSelection = (batch: GenerationBatch) => {
+    setSelectedImages(prev => {
+      const next = new Set(prev);
+      if (batch.images.some(url => next.has(url))) {
+        batch.images.forEach(url => next.delete(url));
+      } else {
+        batch.images.forEach(url => next.add(url));
+      }
+      return next;
+    });
+  };
+
+  const toggleImageSelection = (imageUrl: string) => {
+    setSelectedImages(prev => {
+      const next = new Set(prev);
+      if (next.has(imageUrl)) {
+        next.delete(imageUrl);
+      } else {
+        next.add(imageUrl);
+      }
+      return next;
+    });
+  };
+
+  // Keep failed images selected so the user can retry them; clear everything else
+  const finishBulkAction = (result: BulkActionResult) => {
+    setSelectedImages(new Set(result.failed.map(failure => failure.imageUrl)));
+    if (result.failed.length === 0) {
+      setSelectionMode(false);
+    }
+  };
+
+  const handleBulkSave = async (imageUrls: string[]) => {
+    setBulkProgress({ action: 'save', completed: 0, total: imageUrls.length });
+    try {
+      const result = await MediaExportService.saveImagesToLibrary(imageUrls, (completed, total) => {
+        setBulkProgress({ action: 'save', completed, total });
+      });
+      showBulkActionResultAlert('saved', result, true);
+      finishBulkAction(result);
+    } catch (error: any) {
+      console.error('[GalleryScreen] Bulk save failed:', error);
+      Alert.alert('Save Failed', error?.message || 'Failed to save images. Please try again.', [{ text: 'OK' }]);
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleBulkShare = async (imageUrls: string[]) => {
+    setBulkProgress({ action: 'share', completed: 0, total: imageUrls.length });
+    try {
+      const result = await MediaExportService.shareImages(imageUrls);
+      showBulkActionResultAlert('shared', result);
+      finishBulkAction(result);
+    } catch (error) {
+      console.error('[GalleryScreen] Bulk share failed:', error);
+      Alert.alert('Share Failed', 'Failed to share images. Please try again.', [{ text: 'OK' }]);
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleBulkFavorite = async (imageUrls: string[]) => {
+    const batchByImage = new Map<string, GenerationBatch>();
+    generationBatches.forEach(batch => batch.images.forEach(url => batchByImage.set(url, batch)));
+
+    const items = imageUrls.flatMap(imageUrl => {
+      const batch = batchByImage.get(imageUrl);
+      if (!batch) return [];
+      return [{
+        id: imageUrl,
+        type: 'image' as const,
+        data: {
+          imageUrl,
+          batchId: batch.id,
+          generatedAt: batch.generatedAt,
+          prompt: getBatchPrompt(batch, presets),
+        },
+        createdAt: new Date(),
+      }];
+    });
+
+    try {
+      await addFavorites(items);
+      finishBulkAction({ succeeded: imageUrls, failed: [] });
+    } catch (error) {
+      console.error('[GalleryScreen] Bulk favorite failed:', error);
+      Alert.alert('Favorite Failed', 'Failed to update favorites. Please try again.', [{ text: 'OK' }]);
+    }
+  };
+
+  const handleBulkDelete = (imageUrls: string[]) => {
+    Alert.alert(
+      `Delete ${imageUrls.length} Photo${imageUrls.length === 1 ? '' : 's'}?`,
+      'These photos will be permanently deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBulkProgress({ action: 'delete', completed: 0, total: imageUrls.length });
+            try {
+              const result = await deleteImages(imageUrls, (completed, total) => {
+                setBulkProgress({ action: 'delete', completed, total });
+              });
+              showBulkActionResultAlert('deleted', result);
+              finishBulkAction(result);
+            } finally {
+              setBulkProgress(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleBulkAction = (action: BulkAction) => {
+    const imageUrls = [...selectedImages];
+    if (imageUrls.length === 0) return;
+    console.log('[GalleryScreen] Bulk action:', action, 'on', imageUrls.length, 'images');
+
+    switch (action) {
+      case 'save':
+        handleBulkSave(imageUrls);
+        break;
+      case 'share':
+        handleBulkShare(imageUrls);
+        break;
+      case 'favorite':
+        handleBulkFavorite(imageUrls);
+        break;
+      case 'delete':
+        handleBulkDelete(imageUrls);
+        break;
+    }
   };
 
 
@@ -76,7 +357,184 @@ function GalleryContent() {
   const spacing = 20;
   const itemWidth = (screenWidth - (spacing * 3)) / columns;
 
-  if (isLoading && generationBatches.length === 0) {
+  const modelNames = useMemo(
+    () => new Map(availableLoRAs.map(model => [model.id, model.name])),
+    [availableLoRAs]
+  );
+
+  // Filter options come from what's actually in the loaded gallery
+  const filterOptions = useMemo(() => {
+    const categories = new Set<string>();
+    const presets = new Map<string, { id: string; name: string; category?: string }>();
+    generationBatches.forEach(batch => {
+      const category = getBatchCategory(batch);
+      const presetId = getBatchPresetId(batch);
+      if (category) categories.add(category);
+      if (presetId && !presets.has(presetId)) {
+        presets.set(presetId, { id: presetId, name: getBatchPresetName(batch) || 'Preset', category });
+      }
+    });
+    return {
+      models: availableLoRAs.map(model => ({ id: model.id, name: model.name })),
+      categories: Array.from(categories).sort(),
+      presets: Array.from(presets.values()),
+    };
+  }, [generationBatches, availableLoRAs]);
+
+  const isSearching = searchQuery.trim().length > 0;
+
+  const filteredBatches = useMemo(() => filterBatches(generationBatches, filters), [generationBatches, filters]);
+
+  // Search results are ranked, so they replace the grouped sections while searching
+  const searchResults = useMemo(
+    () => (isSearching ? searchBatches(filteredBatches, presets, searchQuery) : []),
+    [isSearching, filteredBatches, presets, searchQuery]
+  );
+  const searchHighlights = useMemo(
+    () => new Map<string, { name: string; ranges: MatchRange[] }>(
+      searchResults.map(result => [result.batch.id, { name: result.presetName || '', ranges: result.nameRanges }])
+    ),
+    [searchResults]
+  );
+
+  const batchSections = useMemo(() => {
+    if (isSearching) {
+      return searchResults.length > 0
+        ? [{
+            key: 'search',
+            title: `${searchResults.length}${hasMore ? '+' : ''} result${searchResults.length === 1 ? '' : 's'}`,
+            batches: searchResults.map(result => result.batch),
+          }]
+        : [];
+    }
+    return groupBatches(filteredBatches, filters.groupBy, modelNames);
+  }, [isSearching, searchResults, hasMore, filteredBatches, filters.groupBy, modelNames]);
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Filters and search only see loaded pages. Keep paging until the filters fill a page,
+  // and page through the whole gallery while searching so results and their count are complete.
+  const isPagingForMatches = hasMore && (
+    isSearching || (activeFilterCount > 0 && filteredBatches.length < GALLERY_PAGE_SIZE)
+  );
+  useEffect(() => {
+    // A failed page stops the loop; pull to refresh starts it again
+    if (isPagingForMatches && !isLoading && !isLoadingMore && !errorMessage) loadMore();
+  }, [isPagingForMatches, isLoading, isLoadingMore, errorMessage, generationBatches]);
+
+  // Batches in the order they're shown, for windowed preloading
+  const displayedBatches = useMemo(() => batchSections.flatMap(section => section.batches), [batchSections]);
+
+  // Skeletons and pending camera captures come first, then the filtered batch sections
+  const sections = useMemo<GalleryGridSection[]>(() => {
+    const activeItems: GalleryGridItem[] = [
+      ...skeletonGenerations.map(skeleton => ({ kind: 'skeleton' as const, key: skeleton.id, skeleton })),
+      ...pendingGenerations.map(pending => ({ kind: 'pending' as const, key: pending.id, pending })),
+    ];
+
+    let batchIndex = 0;
+    const gridSections = batchSections.map(section => ({
+      key: section.key,
+      title: section.title,
+      data: toRows(section.batches.map(batch => ({ kind: 'batch' as const, key: batch.id, batch, batchIndex: batchIndex++ })), columns),
+    }));
+
+    return activeItems.length > 0
+      ? [{ key: 'active', title: null, data: toRows(activeItems, columns) }, ...gridSections]
+      : gridSections;
+  }, [skeletonGenerations, pendingGenerations, batchSections]);
+
+  // SectionList doesn't allow swapping this callback, so it reads the latest values through refs
+  const preloadAroundRef = useRef(preloadAround);
+  preloadAroundRef.current = preloadAround;
+  const displayedBatchesRef = useRef(displayedBatches);
+  displayedBatchesRef.current = displayedBatches;
+  const handleViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    const batchIndexes = viewableItems
+      .flatMap(token => (Array.isArray(token.item) ? token.item as GalleryGridItem[] : []))
+      .filter((item): item is Extract<GalleryGridItem, { kind: 'batch' }> => item.kind === 'batch')
+      .map(item => item.batchIndex);
+    if (batchIndexes.length === 0) return;
+    preloadAroundRef.current(displayedBatchesRef.current, Math.min(...batchIndexes), Math.max(...batchIndexes));
+  });
+
+  const renderGridRow = ({ item: row }: SectionListRenderItemInfo<GalleryGridItem[], GalleryGridSection>) => (
+    <View style={styles.gridRow}>
+      {row.map(item => (
+        <React.Fragment key={item.key}>{renderGridItem(item)}</React.Fragment>
+      ))}
+    </View>
+  );
+
+  const renderGridItem = (item: GalleryGridItem) => {
+    switch (item.kind) {
+      case 'skeleton': {
+        const { skeleton } = item;
+        console.log('[GalleryScreen] 🎨 Rendering skeleton for:', skeleton.id, skeleton.preset?.name, 'failed:', skeleton.failed);
+        return (
+          <View style={[styles.gridItem, { width: itemWidth }]}>
+            <SkeletonImageView 
+              preset={{
+                name: skeleton.preset.name,
+                image_url: skeleton.preset.image_url
+              }}
+              width={itemWidth - 10}
+              height={(itemWidth - 10) * 4 / 3}
+              failed={skeleton.failed}
+              queued={skeleton.queued}
+              progress={skeleton.progress}
+              errorMessage={skeleton.errorMessage}
+              onRetry={() => handleRetryGeneration(skeleton.id)}
+            />
+          </View>
+        );
+      }
+      case 'pending': {
+        const { pending } = item;
+        console.log('[GalleryScreen] 📸 Rendering pending camera generation for:', pending.id, pending.preset?.name);
+        return (
+          <View style={[styles.gridItem, { width: itemWidth }]}>
+            <SkeletonImageView 
+              preset={{
+                name: pending.preset.name,
+                image_url: pending.preset.image_url
+              }}
+              width={itemWidth - 10}
+              height={(itemWidth - 10) * 4 / 3}
+              failed={false}
+              errorMessage={undefined}
+              onRetry={() => {}} // Camera generations don't have retry functionality
+            />
+          </View>
+        );
+      }
+      case 'batch': {
+        const { batch } = item;
+        const highlight = isSearching ? searchHighlights.get(batch.id) : undefined;
+        return (
+          <View style={[styles.gridItem, { width: itemWidth }]}>
+            <PhotoStackView
+              batch={batch}
+              onTap={() => handleStackTap(batch)}
+              width={itemWidth - 10}
+              height={(itemWidth - 10) * 4 / 3}
+              selectionState={selectionMode ? getBatchSelectionState(batch) : undefined}
+              onSelectToggle={() => toggleBatchSelection(batch)}
+            />
+            {highlight?.name ? (
+              <HighlightedText
+                style={styles.searchMatchText}
+                text={highlight.name}
+                ranges={highlight.ranges}
+                numberOfLines={1}
+              />
+            ) : null}
+          </View>
+        );
+      }
+    }
+  };
+
+  if (isLoading && generationBatches.length === 0 && sections.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -102,6 +560,11 @@ function GalleryContent() {
             <Text style={styles.galleryTitle}>GALLERY</Text>
             
             <View style={styles.headerButtons}>
+              {generationBatches.length > 0 && (
+                <TouchableOpacity onPress={toggleSelectionMode} disabled={!!bulkProgress}>
+                  <Text style={styles.selectButtonText}>{selectionMode ? 'Cancel' : 'Select'}</Text>
+                </TouchableOpacity>
+              )}
               <FreePillButton />
             </View>
           </View>
@@ -110,9 +573,18 @@ function GalleryContent() {
 
       {/* Main content area with white background */}
       <View style={styles.contentArea}>
-        <ScrollView
+        <SectionList
           style={styles.scrollView}
-          contentContainerStyle={styles.scrollContent}
+          sections={sections}
+          keyExtractor={row => row.map(item => item.key).join('|')}
+          renderItem={renderGridRow}
+          renderSectionHeader={({ section }) => section.title ? (
+            <Text style={styles.sectionHeader}>{section.title}</Text>
+          ) : null}
+          stickySectionHeadersEnabled={false}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={[styles.scrollContent, styles.gridContainer, selectionMode && styles.scrollContentSelecting]}
+          extraData={selectionMode ? selectedImages : null}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -120,99 +592,106 @@ function GalleryContent() {
               tintColor="#007AFF"
             />
           }
-        >
+          onEndReached={() => { if (hasMore) loadMore(); }}
+          onEndReachedThreshold={0.5}
+          onViewableItemsChanged={handleViewableItemsChanged.current}
+          viewabilityConfig={VIEWABILITY_CONFIG}
+          initialNumToRender={4}
+          maxToRenderPerBatch={4}
+          windowSize={7}
+          ListHeaderComponent={
+            <>
+              {errorMessage && (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{errorMessage}</Text>
+                </View>
+              )}
 
-          {/* Error Message */}
-          {errorMessage && (
-            <View style={styles.errorContainer}>
-              <Text style={styles.errorText}>{errorMessage}</Text>
-            </View>
-          )}
+              {generationBatches.length > 0 && (
+                <SearchBar
+                  scope="gallery"
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  placeholder="Search by preset"
+                  style={styles.searchBar}
+                />
+              )}
 
-          {/* Gallery Grid */}
-          <View style={styles.gridContainer}>
-            <View style={styles.grid}>
-              {/* Skeleton generations (loading and failed) from GenerationContext */}
-              {skeletonGenerations.length > 0 && ((() => {
-                console.log('[GalleryScreen] 🎨 Rendering', skeletonGenerations.length, 'skeleton generations');
-                return null;
-              })())}
-              {skeletonGenerations.map((skeleton) => {
-                console.log('[GalleryScreen] 🎨 Rendering skeleton for:', skeleton.id, skeleton.preset?.name, 'failed:', skeleton.failed);
-                return (
-                  <View key={skeleton.id} style={[styles.gridItem, { width: itemWidth }]}>
-                    <SkeletonImageView 
-                      preset={{
-                        name: skeleton.preset.name,
-                        image_url: skeleton.preset.image_url
-                      }}
-                      width={itemWidth - 10}
-                      height={(itemWidth - 10) * 4 / 3}
-                      failed={skeleton.failed}
-                      errorMessage={skeleton.errorMessage}
-                      onRetry={() => retryGeneration(skeleton.id)}
-                    />
-                  </View>
-                );
-              })}
-
-              {/* Pending generations (loading) from GalleryContext (for camera captures) */}
-              {pendingGenerations.length > 0 && ((() => {
-                console.log('[GalleryScreen] 📸 Rendering', pendingGenerations.length, 'pending camera generations');
-                return null;
-              })())}
-              {pendingGenerations.map((pending) => {
-                console.log('[GalleryScreen] 📸 Rendering pending camera generation for:', pending.id, pending.preset?.name);
-                return (
-                  <View key={pending.id} style={[styles.gridItem, { width: itemWidth }]}>
-                    <SkeletonImageView 
-                      preset={{
-                        name: pending.preset.name,
-                        image_url: pending.preset.image_url
-                      }}
-                      width={itemWidth - 10}
-                      height={(itemWidth - 10) * 4 / 3}
-                      failed={false}
-                      errorMessage={undefined}
-                      onRetry={() => {}} // Camera generations don't have retry functionality
-                    />
-                  </View>
-                );
-              })}
-
-              {/* Generation batches as photo stacks */}
-              {generationBatches.map((batch) => (
-                <View key={batch.id} style={[styles.gridItem, { width: itemWidth }]}>
-                  <PhotoStackView
-                    batch={batch}
-                    onTap={() => handleStackTap(batch)}
-                    width={itemWidth - 10}
-                    height={(itemWidth - 10) * 4 / 3}
-                  />
-                </View>
-              ))}
-
-              {/* Empty state */}
-              {generationBatches.length === 0 && pendingGenerations.length === 0 && !isLoading && (
-                <View style={styles.emptyState}>
-                  <Text style={styles.emptyStateIcon}>🎨</Text>
-                  <Text style={styles.emptyStateTitle}>No generations yet</Text>
-                  <Text style={styles.emptyStateText}>
-                    Start creating by browsing presets and generating your first images!
+              {generationBatches.length > 0 && (
+                <View style={styles.filterBar}>
+                  <Text style={styles.filterSummaryText} numberOfLines={1}>
+                    Grouped by {GROUPING_LABELS[filters.groupBy]}
+                    {activeFilterCount > 0 ? ` · ${activeFilterCount} filter${activeFilterCount === 1 ? '' : 's'}` : ''}
                   </Text>
+                  <TouchableOpacity onPress={() => setFilterSheetVisible(true)}>
+                    <Text style={styles.filterButtonText}>Filter</Text>
+                  </TouchableOpacity>
                 </View>
               )}
+            </>
+          }
+          ListFooterComponent={isLoadingMore ? (
+            <ActivityIndicator style={styles.loadingMore} color="#007AFF" />
+          ) : null}
+          ListEmptyComponent={isLoading || (isPagingForMatches && !errorMessage) ? null : generationBatches.length > 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateIcon}>🔍</Text>
+              <Text style={styles.emptyStateTitle}>No matching photos</Text>
+              <Text style={styles.emptyStateText}>
+                {isSearching
+                  ? hasMore
+                    ? `Nothing loaded so far matches "${searchQuery.trim()}". Pull to refresh to search the rest.`
+                    : `Nothing in your gallery matches "${searchQuery.trim()}".`
+                  : 'Nothing in your gallery matches these filters.'}
+              </Text>
+              <TouchableOpacity
+                style={styles.clearFiltersButton}
+                onPress={() => handleApplyFilters({ ...DEFAULT_GALLERY_FILTERS, groupBy: filters.groupBy })}
+              >
+                <Text style={styles.filterButtonText}>Clear Filters</Text>
+              </TouchableOpacity>
             </View>
-          </View>
-        </ScrollView>
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateIcon}>🎨</Text>
+              <Text style={styles.emptyStateTitle}>No generations yet</Text>
+              <Text style={styles.emptyStateText}>
+                Start creating by browsing presets and generating your first images!
+              </Text>
+            </View>
+          )}
+        />
       </View>
 
       {/* Stack expansion overlay */}
       {selectedBatch && (
         <StackExpansionView
           batch={selectedBatch}
-          onDismiss={() => setSelectedBatch(null)}
+          onDismiss={() => setSelectedBatchId(null)}
           visible={true}
+          onDeleteImage={imageUrl => deleteImage(imageUrl, selectedBatch.id)}
+          onDeleteBatch={() => deleteBatch(selectedBatch.id)}
+          selectedImages={selectionMode ? selectedImages : undefined}
+          onToggleImage={selectionMode ? toggleImageSelection : undefined}
+        />
+      )}
+
+      <GalleryFilterSheet
+        visible={filterSheetVisible}
+        filters={filters}
+        models={filterOptions.models}
+        categories={filterOptions.categories}
+        presets={filterOptions.presets}
+        onApply={handleApplyFilters}
+        onClose={() => setFilterSheetVisible(false)}
+      />
+
+      {/* Bulk actions for multi-select */}
+      {selectionMode && (
+        <BulkActionBar
+          selectedCount={selectedImages.size}
+          progress={bulkProgress}
+          onAction={handleBulkAction}
         />
       )}
     </>
@@ -250,6 +729,9 @@ const styles = StyleSheet.create({
   scrollContent: {
     paddingBottom: 20, // Small padding for content separation
   },
+  scrollContentSelecting: {
+    paddingBottom: 120, // Keep the last row above the bulk action bar
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -284,6 +766,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 12,
   },
+  selectButtonText: {
+    fontSize: 17,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
   errorContainer: {
     margin: 16,
     padding: 16,
@@ -298,10 +785,52 @@ const styles = StyleSheet.create({
   gridContainer: {
     paddingHorizontal: 12,
   },
-  grid: {
+  gridRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  sectionHeader: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#000000',
+    marginTop: 4,
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  searchBar: {
+    paddingHorizontal: 4,
+    paddingTop: 4,
+  },
+  searchMatchText: {
+    fontSize: 12,
+    color: '#333333',
+    marginTop: 6,
+    paddingHorizontal: 2,
+  },
+  filterBar: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
+    alignItems: 'center',
     justifyContent: 'space-between',
+    paddingHorizontal: 4,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  filterSummaryText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666666',
+    marginRight: 12,
+  },
+  filterButtonText: {
+    fontSize: 15,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  clearFiltersButton: {
+    marginTop: 16,
+  },
+  loadingMore: {
+    paddingVertical: 16,
   },
   gridItem: {
     marginBottom: 24,
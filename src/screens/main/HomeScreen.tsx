@@ -1,14 +1,17 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator, Alert, ScrollView, TouchableOpacity, Dimensions, Animated } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { Image } from 'expo-image';
 import StaggeredGrid from '../../components/ui/StaggeredGrid';
 import { AdaptivePresetCard } from '../../components/ui/PresetCard';
 import { CategoryCard } from '../../components/ui/CategoryCard';
 import { HowToUseCard } from '../../components/ui/HowToUseCard';
 import AnimatedPresetModal from '../../components/ui/AnimatedPresetModal';
-import { APIService } from '../../services/APIService';
+import SearchBar from '../../components/ui/SearchBar';
+import PresetSearchResultRow from '../../components/ui/PresetSearchResultRow';
+import PresetRepository from '../../services/PresetRepository';
+import SearchService, { searchPresets } from '../../services/SearchService';
 import { Preset, PresetCategory } from '../../types/preset.types';
 import { TYPOGRAPHY, TEXT_COLORS } from '../../styles/typography';
 import { COLORS } from '../../styles/colors';
@@ -20,12 +23,15 @@ const { width: screenWidth } = Dimensions.get('window');
 export default function HomeScreen() {
   console.log('[HomeScreen] 🏠 Rendering HomeScreen');
   
+  const navigation = useNavigation();
+  
   const [presets, setPresets] = useState<Preset[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<PresetCategory | null>(null);
   const [selectedPreset, setSelectedPreset] = useState<Preset | null>(null);
   const [showModal, setShowModal] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
   
   // Parallax animation refs
   const parallaxOffset = useRef(new Animated.Value(0)).current;
@@ -35,6 +41,14 @@ export default function HomeScreen() {
 
   useEffect(() => {
     loadPresets();
+
+    // Background revalidation and realtime changes push the new catalog here
+    const subscription = PresetRepository.subscribe((updatedPresets, diff) => {
+      console.log('[HomeScreen] Preset catalog updated:', diff.added.length, 'added,', diff.removed.length, 'removed');
+      setPresets(updatedPresets);
+      setError(null);
+    });
+    return () => subscription.remove();
   }, []);
 
   // Reset category selection when returning to home screen
@@ -50,7 +64,8 @@ export default function HomeScreen() {
       setIsLoading(true);
       setError(null);
       
-      const presetsData = await APIService.fetchPresets();
+      // Cached catalog renders immediately and revalidates in the background
+      const presetsData = await PresetRepository.getPresets();
       console.log('[HomeScreen] Loaded presets:', presetsData.length);
       setPresets(presetsData);
     } catch (error: any) {
@@ -72,6 +87,14 @@ export default function HomeScreen() {
     setSelectedPreset(null);
   };
 
+  const searchResults = useMemo(() => searchPresets(presets, searchQuery), [presets, searchQuery]);
+  const isSearching = searchQuery.trim().length > 0;
+
+  const handleSearchResultPress = (preset: Preset) => {
+    SearchService.addRecentSearch('home', searchQuery);
+    handlePresetPress(preset);
+  };
+
   // Filtered presets based on selected category
   const filteredPresets = selectedCategory
     ? presets.filter(preset => preset.category === selectedCategory)
@@ -92,6 +115,11 @@ export default function HomeScreen() {
     setSelectedCategory(null);
   };
 
+  const handleCustomPromptPress = () => {
+    console.log('[HomeScreen] Custom prompt pressed');
+    navigation.navigate('CustomPrompt' as never);
+  };
+
   const handleHowToUsePress = () => {
     console.log('[HomeScreen] How to use pressed');
     // TODO: Navigate to tutorial or help screen
@@ -146,6 +174,9 @@ export default function HomeScreen() {
               
               <View style={styles.headerButtons}>
                 <FreePillButton />
+                <TouchableOpacity style={styles.settingsButton} onPress={handleCustomPromptPress}>
+                  <Text style={styles.settingsIcon}>✎</Text>
+                </TouchableOpacity>
                 <TouchableOpacity style={styles.settingsButton}>
                   <Text style={styles.settingsIcon}>⚙︎</Text>
                 </TouchableOpacity>
@@ -171,61 +202,89 @@ export default function HomeScreen() {
           style={styles.scrollView}
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
         >
-          {/* Combined Tutorial + Category Cards Row */}
-          <View style={styles.categoriesSection}>
-            <ScrollView
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              contentContainerStyle={styles.categoriesScrollContent}
-            >
-              {/* How to Use Card */}
-              <HowToUseCard onPress={handleHowToUsePress} />
-              
-              {/* Category Cards */}
-              {availableCategories.map((category) => {
-                const categoryPreset = presets.find(preset => preset.category === category);
-                return (
-                  <CategoryCard
-                    key={category}
-                    title={category}
-                    isSelected={selectedCategory === category}
-                    preset={categoryPreset}
-                    onPress={() => handleCategoryPress(category)}
-                  />
-                );
-              })}
-            </ScrollView>
-          </View>
+          <SearchBar
+            scope="home"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search presets"
+            style={styles.searchBar}
+          />
 
-          {/* Browse Section */}
-          <View style={styles.browseSection}>
-            <View style={styles.browseSectionHeader}>
-              <Text style={styles.browseTitle}>
-                {selectedCategory ? selectedCategory.toUpperCase() : 'BROWSE'}
-              </Text>
-              {selectedCategory && (
-                <TouchableOpacity onPress={clearCategoryFilter} style={styles.allCategoriesButton}>
-                  <Text style={styles.allCategoriesText}>All Categories</Text>
-                </TouchableOpacity>
+          {isSearching ? (
+            /* Ranked search results */
+            <View style={styles.searchResults}>
+              {searchResults.length > 0 ? (
+                searchResults.map(result => (
+                  <PresetSearchResultRow
+                    key={result.preset.id}
+                    result={result}
+                    onPress={handleSearchResultPress}
+                  />
+                ))
+              ) : (
+                <Text style={styles.noResultsText}>No presets match "{searchQuery.trim()}"</Text>
               )}
             </View>
+          ) : (
+            <>
+              {/* Combined Tutorial + Category Cards Row */}
+              <View style={styles.categoriesSection}>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.categoriesScrollContent}
+                >
+                  {/* How to Use Card */}
+                  <HowToUseCard onPress={handleHowToUsePress} />
+              
+                  {/* Category Cards */}
+                  {availableCategories.map((category) => {
+                    const categoryPreset = presets.find(preset => preset.category === category);
+                    return (
+                      <CategoryCard
+                        key={category}
+                        title={category}
+                        isSelected={selectedCategory === category}
+                        preset={categoryPreset}
+                        onPress={() => handleCategoryPress(category)}
+                      />
+                    );
+                  })}
+                </ScrollView>
+              </View>
+
+              {/* Browse Section */}
+              <View style={styles.browseSection}>
+                <View style={styles.browseSectionHeader}>
+                  <Text style={styles.browseTitle}>
+                    {selectedCategory ? selectedCategory.toUpperCase() : 'BROWSE'}
+                  </Text>
+                  {selectedCategory && (
+                    <TouchableOpacity onPress={clearCategoryFilter} style={styles.allCategoriesButton}>
+                      <Text style={styles.allCategoriesText}>All Categories</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
 
-            <StaggeredGrid
-              data={filteredPresets}
-              columns={2}
-              spacing={12}
-              renderItem={(preset) => (
-                <AdaptivePresetCard
-                  preset={preset}
-                  onPress={handlePresetPress}
+                <StaggeredGrid
+                  data={filteredPresets}
+                  columns={2}
+                  spacing={12}
+                  renderItem={(preset) => (
+                    <AdaptivePresetCard
+                      preset={preset}
+                      onPress={handlePresetPress}
+                    />
+                  )}
+                  keyExtractor={(preset) => preset.id}
+                  showsVerticalScrollIndicator={false}
+                  contentContainerStyle={styles.gridContent}
                 />
-              )}
-              keyExtractor={(preset) => preset.id}
-              showsVerticalScrollIndicator={false}
-              contentContainerStyle={styles.gridContent}
-            />
-          </View>
+              </View>
+            </>
+          )}
         </ScrollView>
       </Animated.View>
 
@@ -303,6 +362,23 @@ const styles = StyleSheet.create({
     paddingBottom: 20, // Small padding for content separation
   },
 
+  // Search
+  searchBar: {
+    paddingHorizontal: 16,
+    paddingTop: 4,
+    paddingBottom: 8,
+  },
+  searchResults: {
+    paddingTop: 4,
+  },
+  noResultsText: {
+    ...TYPOGRAPHY.systemBody,
+    color: TEXT_COLORS.secondary,
+    textAlign: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 32,
+  },
+
   // Categories section (matching SwiftUI spacing)
   categoriesSection: {
     paddingTop: 5,
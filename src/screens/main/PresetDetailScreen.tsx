@@ -16,8 +16,14 @@ import { useFavorites } from '../../context/FavoritesContext';
 import { useTraining } from '../../context/TrainingContext';
 import { useAppState } from '../../context/AppStateContext';
 import { useGeneration } from '../../context/GenerationContext';
+import { useUsage } from '../../context/UsageContext';
 import { useGallery } from '../../context/GalleryContext';
-import { Preset } from '../../types/preset.types';
+import { GenerationOptions, Preset } from '../../types/preset.types';
+import { isApiError } from '../../types/api.types';
+import { showGenerationErrorAlert } from '../../utils/errorAlerts';
+import GenerationOptionsService, { DEFAULT_GENERATION_OPTIONS } from '../../services/GenerationOptionsService';
+import GenerationOptionsSheet from '../../components/ui/GenerationOptionsSheet';
+import GenerationOptionsButton from '../../components/ui/GenerationOptionsButton';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -48,7 +54,8 @@ export default function PresetDetailScreen() {
   const { models, skeletonModels } = useTraining();
   const { selectedLoraId, selectLoRA } = useAppState();
   const { startGeneration } = useGeneration();
-  const { addPendingGeneration } = useGallery();
+  const { ensureCanGenerate, recordGeneration } = useUsage();
+  const { addPendingGeneration, removePendingGeneration } = useGallery();
 
   const [showImage, setShowImage] = useState(true); // Start with true for debugging
   const [selectedCharacterId, setSelectedCharacterId] = useState<string | undefined>(characterId);
@@ -57,6 +64,8 @@ export default function PresetDetailScreen() {
   const [imageError, setImageError] = useState(false);
   const [dropdownPosition, setDropdownPosition] = useState<{ top?: number; bottom?: number }>({ top: 60 });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [showOptionsSheet, setShowOptionsSheet] = useState(false);
   
   const fadeAnim = new Animated.Value(1); // Start with 1 for debugging
 
@@ -82,6 +91,18 @@ export default function PresetDetailScreen() {
     fadeAnim.setValue(1);
   }, [models, skeletonModels, characterId, selectedLoraId]);
 
+  // Restore the last-used generation options for this preset
+  useEffect(() => {
+    let cancelled = false;
+    GenerationOptionsService.getOptions(preset.id).then(options => {
+      if (!cancelled) setGenerationOptions(options);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [preset.id]);
+
   // Update thumbnail when selected model changes
   useEffect(() => {
     loadSelectedModelThumbnail(selectedCharacterId);
@@ -128,6 +149,9 @@ export default function PresetDetailScreen() {
       return;
     }
 
+    // Stop before the request when this month's generations are used up
+    if (!ensureCanGenerate()) return;
+
     console.log('[🎯 PresetDetailScreen] 📲 Calling onGenerateRequest with characterId:', selectedCharacterId);
     console.log('[🎯 PresetDetailScreen] 📝 Preset details:', {
       name: preset.name,
@@ -136,6 +160,7 @@ export default function PresetDetailScreen() {
     });
     
     // Use context directly instead of relying on navigation params
+    let pendingId: string | null = null;
     try {
       setIsGenerating(true);
       console.log('[🎯 PresetDetailScreen] ⏳ Starting generation process using context directly...');
@@ -145,24 +170,32 @@ export default function PresetDetailScreen() {
       console.log('[🎯 PresetDetailScreen] 🤔 addPendingGeneration function available:', !!addPendingGeneration);
       console.log('[🎯 PresetDetailScreen] 🤔 Preset data:', { name: preset.name, image_url: preset.image_url });
       
-      const pendingId = addPendingGeneration({
+      pendingId = addPendingGeneration({
         name: preset.name,
         image_url: preset.image_url
       });
       console.log('[🎯 PresetDetailScreen] 📝 Added pending generation to gallery:', pendingId);
       
-      await startGeneration(preset, selectedCharacterId, allModels);
+      const submission = await startGeneration(preset, selectedCharacterId, allModels, generationOptions);
+      if (submission === 'sent') recordGeneration();
+      GenerationOptionsService.saveOptions(preset.id, generationOptions);
       
       console.log('[🎯 PresetDetailScreen] ✅ Generation request completed, navigating back');
       navigation.goBack();
     } catch (error) {
       console.error('[🎯 PresetDetailScreen] ❌ Generation failed:', error);
-      // Error handling is done in GenerationContext
+      if (pendingId) removePendingGeneration(pendingId);
+      showGenerationErrorAlert(error, isApiError(error) && error.isRetryable ? handleGenerate : undefined);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleOptionsApply = (options: GenerationOptions) => {
+    setGenerationOptions(options);
+    GenerationOptionsService.saveOptions(preset.id, options);
+  };
+
   const handleModelSelect = (modelId: string) => {
     setSelectedCharacterId(modelId);
     selectLoRA(modelId); // Update global state
@@ -330,6 +363,13 @@ export default function PresetDetailScreen() {
             )}
           </View>
 
+          {/* Advanced Options */}
+          <GenerationOptionsButton
+            options={generationOptions}
+            onPress={() => setShowOptionsSheet(true)}
+            disabled={isGenerating}
+          />
+
         </View>
 
         {/* Back Button */}
@@ -341,6 +381,13 @@ export default function PresetDetailScreen() {
         </TouchableOpacity>
 
       </View>
+
+      <GenerationOptionsSheet
+        visible={showOptionsSheet}
+        options={generationOptions}
+        onApply={handleOptionsApply}
+        onClose={() => setShowOptionsSheet(false)}
+      />
     </SafeAreaView>
   );
 }
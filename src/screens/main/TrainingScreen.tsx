@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   View, 
   Text, 
@@ -13,17 +13,29 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Image } from 'expo-image';
 import * as ImagePicker from 'expo-image-picker';
-import { TrainingProvider, useTraining } from '../../context/TrainingContext';
+import { useTraining, TrainedModel } from '../../context/TrainingContext';
 import { useAuth } from '../../context/AuthContext';
+import Environment from '../../config/environment';
 // Force TypeScript refresh
 import { useAppState } from '../../context/AppStateContext';
+import { useUsage } from '../../context/UsageContext';
 import { useNavigation } from '@react-navigation/native';
 import ModelCard from '../../components/ui/ModelCard';
+import PhotoReviewModal from '../../components/ui/PhotoReviewModal';
+import ImproveModelModal from '../../components/ui/ImproveModelModal';
+import PhotoQualityService from '../../services/PhotoQualityService';
+import { formatTierLabel } from '../../services/PurchasesService';
+import { ImproveModelRequest, PhotoQualityReport, TrainingPhoto } from '../../types/training.types';
+import { getFamilyRepresentative, getNextVersionNumber, groupModelVersions } from '../../utils/modelVersions';
+import { formatUsageSummary } from '../../utils/usageLimits';
+import { showModelDeleteErrorAlert } from '../../utils/errorAlerts';
 import { TYPOGRAPHY, TEXT_COLORS } from '../../styles/typography';
 import { COLORS } from '../../styles/colors';
 import { BORDER_RADIUS, CONTAINER_RADIUS, COMPONENT_RADIUS } from '../../styles/borderRadius';
 import * as Haptics from 'expo-haptics';
 
+const MIN_TRAINING_PHOTOS = 20;
+
 const { width: screenWidth } = Dimensions.get('window');
 
 interface TrainingContentProps {
@@ -31,9 +43,10 @@ interface TrainingContentProps {
 }
 
 function TrainingContent({}: TrainingContentProps) {
-  const { logout, getAuthHeader } = useAuth();
+  const { user, logout, fetchWithAuth } = useAuth();
   const navigation = useNavigation();
-  const { selectedLoraId, selectLoRA } = useAppState();
+  const { selectedLoraId, selectLoRA, promoteModelVersion } = useAppState();
+  const { usage, canCreateModels, ensureCanCreateModel, canUpgrade, openUpgrade } = useUsage();
   // Get training context
   const { 
     models,
@@ -43,13 +56,30 @@ function TrainingContent({}: TrainingContentProps) {
     refreshModels,
     renameModel,
     deleteModel,
-    startTraining
+    undoDeleteModel,
+    getDeletionPreview,
+    startTraining,
+    improveModel,
+    getTrainingProgress,
+    retryUpload,
+    discardUpload
   } = useTraining();
 
   const [isDeleteMode, setIsDeleteMode] = useState(false);
   const [showLogoutMenu, setShowLogoutMenu] = useState(false);
   const [isSelectingPhotos, setIsSelectingPhotos] = useState(false);
   const [isTrainingStarting, setIsTrainingStarting] = useState(false);
+  const [photoReview, setPhotoReview] = useState<{
+    modelName: string;
+    report: PhotoQualityReport;
+    assets: Map<string, ImagePicker.ImagePickerAsset>;
+  } | null>(null);
+  const [improvingModel, setImprovingModel] = useState<TrainedModel | null>(null);
+  // One entry per model still inside its undo window, oldest first
+  const [undoableDeletions, setUndoableDeletions] = useState<{ id: string; name: string; undoUntil: number }[]>([]);
+
+  const families = Array.from(groupModelVersions(models).values());
+  const improvingFamily = improvingModel ? models.filter(m => m.familyId === improvingModel.familyId) : [];
 
   const handleModelTap = (modelId: string) => {
     if (isDeleteMode) {
@@ -87,27 +117,77 @@ function TrainingContent({}: TrainingContentProps) {
 
   const handleDeleteModel = async (modelId: string) => {
     try {
-      await deleteModel(modelId);
-      Alert.alert('Success', 'Model deleted successfully');
+      const { model, undoUntil } = await deleteModel(modelId);
+      if (model) {
+        setUndoableDeletions(current => [...current.filter(entry => entry.id !== modelId), { id: modelId, name: model.name, undoUntil }]);
+      }
+    } catch (error) {
+      showModelDeleteErrorAlert(error);
+    }
+  };
+
+  const handleUndoDelete = async (id: string) => {
+    setUndoableDeletions(current => current.filter(entry => entry.id !== id));
+
+    try {
+      await undoDeleteModel(id);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to restore model');
+    }
+  };
+
+  // Hide each undo bar once the backend has started cleaning up that model
+  useEffect(() => {
+    if (undoableDeletions.length === 0) return;
+    const nextExpiry = Math.min(...undoableDeletions.map(entry => entry.undoUntil));
+    const timeout = setTimeout(
+      () => setUndoableDeletions(current => current.filter(entry => entry.undoUntil > Date.now())),
+      Math.max(0, nextExpiry - Date.now())
+    );
+    return () => clearTimeout(timeout);
+  }, [undoableDeletions]);
+
+  const handleImproveSubmit = async (request: ImproveModelRequest) => {
+    if (!improvingModel) return;
+    const model = improvingModel;
+    const version = getNextVersionNumber(improvingFamily);
+
+    try {
+      await improveModel(model.id, request);
+      setImprovingModel(null);
+      Alert.alert(
+        'Training Started',
+        `Version ${version} of "${model.name}" is being trained. Your current version stays available until you pick the one to keep.`,
+        [{ text: 'OK' }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start training. Please try again.');
+      throw error; // Keeps the improve sheet open
+    }
+  };
+
+  const handlePromoteVersion = async (model: TrainedModel) => {
+    try {
+      await promoteModelVersion(model.id);
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to delete model');
+      Alert.alert('Error', error.message || 'Failed to update model');
     }
   };
 
+  const toTrainedModel = (model: typeof models[number]): TrainedModel => ({
+    ...model,
+    thumbnailURL: model.thumbnail_url,
+    trainingImageCount: 0, // TODO: Get from API
+    photoCount: model.photo_count || 20 // Use actual count from API
+  });
+
   const handleGenerateNew = async () => {
+    if (!ensureCanCreateModel()) return;
+
     // First check if user has onboarding photos
     try {
-      const authHeader = await getAuthHeader();
-      if (!authHeader) {
-        Alert.alert('Error', 'Authentication required');
-        return;
-      }
-
-      const response = await fetch('https://twynbackend-production.up.railway.app/api/onboarding/check-temp-folder', {
+      const response = await fetchWithAuth(`${Environment.apiBaseURL}/onboarding/check-temp-folder`, {
         method: 'GET',
-        headers: {
-          'Authorization': authHeader,
-        },
       });
 
       if (response.ok) {
@@ -187,15 +267,9 @@ function TrainingContent({}: TrainingContentProps) {
 
       console.log('[Training] Creating model from onboarding photos:', { modelName, tempFolderName });
 
-      const authHeader = await getAuthHeader();
-      if (!authHeader) {
-        throw new Error('Authentication required');
-      }
-
-      const response = await fetch('https://twynbackend-production.up.railway.app/api/onboarding/train-from-images', {
+      const response = await fetchWithAuth(`${Environment.apiBaseURL}/onboarding/train-from-images`, {
         method: 'POST',
         headers: {
-          'Authorization': authHeader,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -212,12 +286,9 @@ function TrainingContent({}: TrainingContentProps) {
       const result = await response.json();
       console.log('[Training] Model creation started:', result);
 
-      // Refresh models immediately to show the new training model
+      // Show the new model; TrainingContext tracks its progress from here
       await refreshModels();
 
-      // Start more frequent polling for this specific training
-      startPollingForTrainingCompletion(modelName);
-
       Alert.alert(
         'Model Training Started',
         `Your model "${modelName}" is now training with your onboarding photos. This may take 10-20 minutes.`,
@@ -232,43 +303,6 @@ function TrainingContent({}: TrainingContentProps) {
     }
   };
 
-  // Helper function to poll more frequently when we know training is happening
-  const startPollingForTrainingCompletion = (modelName: string) => {
-    console.log(`[Training] Starting frequent polling for model: ${modelName}`);
-    
-    let pollCount = 0;
-    const maxPolls = 60; // 30 minutes max (30s * 60 = 1800s)
-    
-    const interval = setInterval(async () => {
-      pollCount++;
-      console.log(`[Training] Polling ${pollCount}/${maxPolls} for model: ${modelName}`);
-      
-      try {
-        await refreshModels();
-        
-        // Check if training completed (model exists and not in training status)
-        const completedModel = models.find(model => 
-          model.name === modelName && 
-          (model.status === 'completed' || model.status === 'failed')
-        );
-        
-        if (completedModel) {
-          console.log(`[Training] Model ${modelName} completed with status: ${completedModel.status}`);
-          clearInterval(interval);
-          return;
-        }
-        
-        if (pollCount >= maxPolls) {
-          console.log(`[Training] Polling timeout for model: ${modelName}`);
-          clearInterval(interval);
-          return;
-        }
-      } catch (error) {
-        console.error(`[Training] Polling error for model ${modelName}:`, error);
-      }
-    }, 30000); // Check every 30 seconds
-  };
-
   const handleSelectPhotos = async (modelName: string) => {
     try {
       setIsSelectingPhotos(true);
@@ -295,15 +329,31 @@ function TrainingContent({}: TrainingContentProps) {
       if (!result.canceled && result.assets) {
         const selectedImages = result.assets;
         
-        if (selectedImages.length < 20) {
+        if (selectedImages.length < MIN_TRAINING_PHOTOS) {
           Alert.alert(
             'Not Enough Photos',
-            `Please select at least 20 photos to create a model. You selected ${selectedImages.length}.`,
+            `Please select at least ${MIN_TRAINING_PHOTOS} photos to create a model. You selected ${selectedImages.length}.`,
             [{ text: 'OK' }]
           );
           return;
         }
 
+        // Check for duplicates and unusable photos before anything is uploaded
+        const assets = new Map(selectedImages.map((asset, index) => [asset.assetId || `${index}_${asset.uri}`, asset]));
+        const photos: TrainingPhoto[] = Array.from(assets, ([id, asset]) => ({
+          id,
+          uri: asset.uri,
+          width: asset.width,
+          height: asset.height,
+          fileSize: asset.fileSize,
+        }));
+        const report = await PhotoQualityService.analyzePhotos(photos);
+
+        if (report.flaggedCount > 0) {
+          setPhotoReview({ modelName, report, assets });
+          return;
+        }
+
         // Automatically start training like FluxApp
         await handleStartTraining(selectedImages, modelName);
       }
@@ -315,6 +365,13 @@ function TrainingContent({}: TrainingContentProps) {
     }
   };
 
+  const handlePhotoReviewConfirm = async (photos: TrainingPhoto[]) => {
+    if (!photoReview) return;
+    const { modelName, assets } = photoReview;
+    setPhotoReview(null);
+    await handleStartTraining(photos.map(photo => assets.get(photo.id)!), modelName);
+  };
+
   const handleStartTraining = async (images: ImagePicker.ImagePickerAsset[], modelName: string) => {
     try {
       setIsTrainingStarting(true);
@@ -382,8 +439,8 @@ function TrainingContent({}: TrainingContentProps) {
             <View style={styles.spacer} />
             
             <View style={styles.headerButtons}>
-              <TouchableOpacity style={styles.freeButton}>
-                <Text style={styles.freeButtonText}>Free</Text>
+              <TouchableOpacity style={styles.freeButton} onPress={openUpgrade} disabled={!canUpgrade}>
+                <Text style={styles.freeButtonText}>{formatTierLabel(user?.subscriptionTier)}</Text>
               </TouchableOpacity>
               
               <TouchableOpacity 
@@ -494,6 +551,25 @@ function TrainingContent({}: TrainingContentProps) {
             </TouchableOpacity>
           </View>
 
+          {/* Plan usage, with an upgrade prompt once every model slot is taken */}
+          {usage && (
+            <Text style={styles.usageText}>{formatUsageSummary(usage)}</Text>
+          )}
+          {usage && !canCreateModels && (
+            <View style={styles.upgradePrompt}>
+              <Text style={styles.upgradeTitle}>You've reached your model limit</Text>
+              <Text style={styles.upgradeText}>
+                Your plan includes {usage.limits.models} model{usage.limits.models === 1 ? '' : 's'}. Upgrade your plan
+                to train more, or delete a model to free up a slot.
+              </Text>
+              {canUpgrade && (
+                <TouchableOpacity style={styles.upgradeButton} onPress={openUpgrade}>
+                  <Text style={styles.upgradeButtonText}>See Plans</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
           {/* Error Message */}
           {error && (
             <View style={styles.errorContainer}>
@@ -511,10 +587,16 @@ function TrainingContent({}: TrainingContentProps) {
                     <ModelCard
                       model={{
                         id: skeletonModel.id,
-                        name: skeletonModel.name,
+                        user_id: '', // Not saved on the backend yet
+                        name: skeletonModel.version ? `${skeletonModel.name} v${skeletonModel.version}` : skeletonModel.name,
+                        familyId: skeletonModel.baseModelId || skeletonModel.id,
+                        version: skeletonModel.version || 1,
+                        versionState: skeletonModel.version ? 'candidate' : 'active',
                         thumbnail_url: null,
                         higgsfield_id: null,
+                        photo_count: skeletonModel.photoCount,
                         created_at: skeletonModel.created_at,
+                        updated_at: skeletonModel.created_at,
                         status: 'training' as const,
                         thumbnailURL: null,
                         trainingImageCount: 0,
@@ -522,6 +604,11 @@ function TrainingContent({}: TrainingContentProps) {
                       }}
                       isSelected={selectedLoraId === skeletonModel.id}
                       isDeleteMode={isDeleteMode}
+                      isQueued={skeletonModel.queued}
+                      uploadError={skeletonModel.uploadError}
+                      onRetryUpload={() => retryUpload(skeletonModel.id)}
+                      onDiscardUpload={() => discardUpload(skeletonModel.id)}
+                      trainingProgress={getTrainingProgress(skeletonModel.id)}
                       onTap={() => handleModelTap(skeletonModel.id)}
                       onLongPress={handleModelLongPress}
                       onRename={(newName) => handleRenameModel(skeletonModel.id, newName)}
@@ -529,24 +616,27 @@ function TrainingContent({}: TrainingContentProps) {
                     />
                   </View>
                 ))}
-                {/* Completed models */}
-                {models.map((model) => {
-                  console.log('[TrainingScreen] Model data:', { id: model.id, name: model.name, photo_count: model.photo_count });
+                {/* Completed models, one card per model with its versions */}
+                {families.map((versions) => {
+                  const model = getFamilyRepresentative(versions, selectedLoraId);
+                  const isReady = model.status === 'completed';
+                  console.log('[TrainingScreen] Model data:', { id: model.id, name: model.name, photo_count: model.photo_count, version: model.version });
                   return (
-                  <View key={model.id} style={[styles.modelItem, { width: itemWidth }]}>
+                  <View key={model.familyId} style={[styles.modelItem, { width: itemWidth }]}>
                     <ModelCard
-                      model={{
-                        ...model,
-                        thumbnailURL: model.thumbnail_url,
-                        trainingImageCount: 0, // TODO: Get from API
-                        photoCount: model.photo_count || 20 // Use actual count from API
-                      }}
-                      isSelected={selectedLoraId === model.id}
+                      model={toTrainedModel(model)}
+                      versions={versions.map(toTrainedModel)}
+                      isSelected={versions.some(version => version.id === selectedLoraId)}
                       isDeleteMode={isDeleteMode}
                       onTap={() => handleModelTap(model.id)}
                       onLongPress={handleModelLongPress}
                       onRename={(newName) => handleRenameModel(model.id, newName)}
                       onDelete={() => handleDeleteModel(model.id)}
+                      loadDeletionPreview={() => getDeletionPreview(model.id)}
+                      onSelectVersion={(id) => selectLoRA(id)}
+                      onImprove={isReady ? () => setImprovingModel(toTrainedModel(model)) : undefined}
+                      onPromote={isReady && model.versionState === 'candidate' ? () => handlePromoteVersion(toTrainedModel(model)) : undefined}
+                      trainingProgress={getTrainingProgress(model.id)}
                     />
                   </View>
                   );
@@ -569,16 +659,44 @@ function TrainingContent({}: TrainingContentProps) {
           </TouchableWithoutFeedback>
         </ScrollView>
       </View>
+
+      {/* Undo for each model deleted within its undo window */}
+      {undoableDeletions.length > 0 && (
+        <View style={styles.undoStack}>
+          {undoableDeletions.map(entry => (
+            <View key={entry.id} style={styles.undoBar}>
+              <Text style={styles.undoText} numberOfLines={1}>Deleted "{entry.name}"</Text>
+              <TouchableOpacity onPress={() => handleUndoDelete(entry.id)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Text style={styles.undoButtonText}>Undo</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <PhotoReviewModal
+        visible={!!photoReview}
+        report={photoReview?.report || null}
+        minimumCount={MIN_TRAINING_PHOTOS}
+        onConfirm={handlePhotoReviewConfirm}
+        onCancel={() => setPhotoReview(null)}
+      />
+
+      <ImproveModelModal
+        visible={!!improvingModel}
+        model={improvingModel}
+        nextVersion={getNextVersionNumber(improvingFamily)}
+        minimumCount={MIN_TRAINING_PHOTOS}
+        onSubmit={handleImproveSubmit}
+        onClose={() => setImprovingModel(null)}
+      />
     </>
   );
 }
 
+// Uses the app-wide TrainingProvider so training progress keeps polling from a single place
 export default function TrainingScreen() {
-  return (
-    <TrainingProvider>
-      <TrainingContent />
-    </TrainingProvider>
-  );
+  return <TrainingContent />;
 }
 
 const styles = StyleSheet.create({
@@ -742,6 +860,44 @@ const styles = StyleSheet.create({
     paddingHorizontal: 40,
     marginBottom: 20,
   },
+  usageText: {
+    fontSize: 13,
+    color: TEXT_COLORS.secondary,
+    textAlign: 'center',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  upgradePrompt: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 16,
+    borderRadius: COMPONENT_RADIUS.card,
+    backgroundColor: 'rgba(254, 110, 253, 0.12)',
+  },
+  upgradeTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: TEXT_COLORS.primary,
+    marginBottom: 4,
+  },
+  upgradeText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: TEXT_COLORS.secondary,
+  },
+  upgradeButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: COMPONENT_RADIUS.button,
+    backgroundColor: '#FE6EFD',
+  },
+  upgradeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
   generateButtonAsset: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -878,4 +1034,31 @@ const styles = StyleSheet.create({
   modelsGridDeleteMode: {
     // Removed overlay z-index management since we're not using blocking overlay
   },
+  undoStack: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+  },
+  undoBar: {
+    marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1C1C1E',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  undoText: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 15,
+    marginRight: 12,
+  },
+  undoButtonText: {
+    color: '#FE6EFD',
+    fontSize: 15,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
@@ -1,5 +1,6 @@
 import * as SecureStore from 'expo-secure-store';
 import axios from 'axios';
+import { AppState } from 'react-native';
 import { 
   SendOTPRequest, 
   SendOTPResponse, 
@@ -12,21 +13,43 @@ import {
   AuthError,
   AuthErrorType 
 } from '../types/auth.types';
+import Environment from '../config/environment';
 
-const API_BASE_URL = 'https://twynbackend-production.up.railway.app/api';
+const REFRESH_MARGIN_MS = 60 * 1000; // Refresh this long before the access token expires
+const OFFLINE_RETRY_MS = 30 * 1000; // Try again this soon when a refresh couldn't reach the server
+
+// Milliseconds until the token should be refreshed; zero or less means now
+export const getRefreshDelay = (expiresAt: number, now: number = Date.now()): number =>
+  expiresAt * 1000 - REFRESH_MARGIN_MS - now;
 
 class AuthService {
   private static instance: AuthService;
   private currentUser: UserProfile | null = null;
   private authState: AuthState = AuthState.UNAUTHENTICATED;
   private listeners: Array<(state: AuthState, user?: UserProfile) => void> = [];
+  private tokenExpiresAt: number | null = null; // Epoch seconds, from the session
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<boolean> | null = null;
 
   // Secure storage keys
   private static readonly ACCESS_TOKEN_KEY = 'soul_access_token';
   private static readonly REFRESH_TOKEN_KEY = 'soul_refresh_token';
   private static readonly USER_PROFILE_KEY = 'soul_user_profile';
+  private static readonly TOKEN_EXPIRES_AT_KEY = 'soul_token_expires_at';
 
-  private constructor() {}
+  private constructor() {
+    // Timers don't run in the background; catch up when the app comes back
+    AppState.addEventListener('change', status => {
+      if (status === 'active' && this.tokenExpiresAt !== null) {
+        this.scheduleRefresh(this.tokenExpiresAt);
+      }
+    });
+  }
+
+  // Resolved per request so runtime environment overrides take effect immediately
+  private get baseURL(): string {
+    return Environment.getConfig().apiBaseURL;
+  }
 
   public static getInstance(): AuthService {
     if (!AuthService.instance) {
@@ -63,17 +86,29 @@ class AuthService {
   }
 
   // Token management
-  private async storeTokens(accessToken: string, refreshToken: string): Promise<void> {
+  private async storeTokens(accessToken: string, refreshToken: string, expiresAt?: number): Promise<void> {
     try {
       console.log('[AuthService] 🔒 Storing tokens:', {
         accessToken: accessToken.substring(0, 20) + '...',
-        refreshToken: refreshToken.substring(0, 20) + '...'
+        refreshToken: refreshToken.substring(0, 20) + '...',
+        expiresAt,
       });
       await Promise.all([
         SecureStore.setItemAsync(AuthService.ACCESS_TOKEN_KEY, accessToken),
-        SecureStore.setItemAsync(AuthService.REFRESH_TOKEN_KEY, refreshToken)
+        SecureStore.setItemAsync(AuthService.REFRESH_TOKEN_KEY, refreshToken),
+        expiresAt
+          ? SecureStore.setItemAsync(AuthService.TOKEN_EXPIRES_AT_KEY, String(expiresAt))
+          : SecureStore.deleteItemAsync(AuthService.TOKEN_EXPIRES_AT_KEY),
       ]);
       console.log('[AuthService] ✅ Tokens stored successfully');
+
+      // Without an expiry we fall back to refreshing when a request gets a 401
+      this.tokenExpiresAt = expiresAt || null;
+      if (expiresAt) {
+        this.scheduleRefresh(expiresAt);
+      } else {
+        this.cancelScheduledRefresh();
+      }
     } catch (error) {
       console.error('[AuthService] ❌ Error storing tokens:', error);
       throw error;
@@ -89,7 +124,12 @@ class AuthService {
     }
   }
 
+  // Every HTTP path gets its token here, so a token about to expire is refreshed first
   public async getAccessToken(): Promise<string | null> {
+    if (this.tokenExpiresAt !== null && getRefreshDelay(this.tokenExpiresAt) <= 0) {
+      await this.refreshToken();
+    }
+
     try {
       const token = await SecureStore.getItemAsync(AuthService.ACCESS_TOKEN_KEY);
       console.log('[AuthService] 🔓 Retrieved access token:', token ? `${token.substring(0, 20)}...` : 'null');
@@ -130,10 +170,13 @@ class AuthService {
 
   public async clearTokens(): Promise<void> {
     try {
+      this.tokenExpiresAt = null;
+      this.cancelScheduledRefresh();
       await Promise.all([
         SecureStore.deleteItemAsync(AuthService.ACCESS_TOKEN_KEY),
         SecureStore.deleteItemAsync(AuthService.REFRESH_TOKEN_KEY),
-        SecureStore.deleteItemAsync(AuthService.USER_PROFILE_KEY)
+        SecureStore.deleteItemAsync(AuthService.USER_PROFILE_KEY),
+        SecureStore.deleteItemAsync(AuthService.TOKEN_EXPIRES_AT_KEY)
       ]);
     } catch (error) {
       console.error('[AuthService] Error clearing tokens:', error);
@@ -147,6 +190,10 @@ class AuthService {
     
     try {
       console.log('[AuthService] 🔍 Checking for stored tokens and user profile');
+      const storedExpiry = await SecureStore.getItemAsync(AuthService.TOKEN_EXPIRES_AT_KEY);
+      this.tokenExpiresAt = storedExpiry ? Number(storedExpiry) : null;
+
+      // An access token that expired while the app was closed is refreshed here
       const [accessToken, userProfileJson] = await Promise.all([
         this.getAccessToken(),
         SecureStore.getItemAsync(AuthService.USER_PROFILE_KEY)
@@ -157,6 +204,9 @@ class AuthService {
       if (accessToken && userProfileJson) {
         const userProfile: UserProfile = JSON.parse(userProfileJson);
         console.log('[AuthService] ✅ Found existing auth, setting to AUTHENTICATED');
+        if (this.tokenExpiresAt !== null) {
+          this.scheduleRefresh(this.tokenExpiresAt);
+        }
         this.setState(AuthState.AUTHENTICATED, userProfile);
       } else {
         console.log('[AuthService] ❌ No existing auth, setting to UNAUTHENTICATED');
@@ -174,7 +224,7 @@ class AuthService {
 
     try {
       const request: SendOTPRequest = { phone };
-      const response = await axios.post<SendOTPResponse>(`${API_BASE_URL}/auth/send-otp`, request);
+      const response = await axios.post<SendOTPResponse>(`${this.baseURL}/auth/send-otp`, request);
       
       if (!response.data.success) {
         throw new Error(response.data.message);
@@ -193,7 +243,7 @@ class AuthService {
 
     try {
       const request: VerifyOTPRequest = { phone, token };
-      const response = await axios.post<VerifyOTPResponse>(`${API_BASE_URL}/auth/verify-otp`, request);
+      const response = await axios.post<VerifyOTPResponse>(`${this.baseURL}/auth/verify-otp`, request);
       
       if (!response.data.success) {
         throw new Error('OTP verification failed');
@@ -201,7 +251,11 @@ class AuthService {
 
       // Store tokens and user profile
       await Promise.all([
-        this.storeTokens(response.data.session.access_token, response.data.session.refresh_token),
+        this.storeTokens(
+          response.data.session.access_token,
+          response.data.session.refresh_token,
+          response.data.session.expires_at
+        ),
         this.storeUserProfile(response.data.user)
       ]);
 
@@ -213,8 +267,21 @@ class AuthService {
     }
   }
 
-  // Refresh access token
-  public async refreshToken(): Promise<boolean> {
+  /**
+   * Refresh the access token. Concurrent callers (the scheduled refresh, a 401
+   * from any client, a token read just before expiry) share one request, since
+   * the refresh token can only be used once.
+   */
+  public refreshToken(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async performRefresh(): Promise<boolean> {
     try {
       console.log('[AuthService] 🔄 Starting token refresh...');
       const refreshToken = await this.getRefreshToken();
@@ -224,23 +291,51 @@ class AuthService {
 
       console.log('[AuthService] 📤 Sending refresh request with token:', refreshToken.substring(0, 20) + '...');
       const request: RefreshTokenRequest = { refreshToken };
-      const response = await axios.post<RefreshTokenResponse>(`${API_BASE_URL}/auth/refresh`, request);
+      const response = await axios.post<RefreshTokenResponse>(`${this.baseURL}/auth/refresh`, request);
       
       console.log('[AuthService] 📥 Refresh response received:', {
         success: !!response.data.access_token,
         accessToken: response.data.access_token ? response.data.access_token.substring(0, 20) + '...' : 'missing'
       });
       
-      await this.storeTokens(response.data.access_token, response.data.refresh_token);
+      await this.storeTokens(response.data.access_token, response.data.refresh_token, response.data.expires_at);
       console.log('[AuthService] ✅ Token refresh completed successfully');
       return true;
     } catch (error) {
+      // Offline: keep the session and try again shortly (or sooner, on the next request or foreground)
+      if (axios.isAxiosError(error) && !error.response) {
+        console.warn('[AuthService] ⚠️ Token refresh could not reach the server:', error.message);
+        this.scheduleRefreshIn(OFFLINE_RETRY_MS);
+        return false;
+      }
+
       console.error('[AuthService] ❌ Token refresh failed:', error);
       await this.logout();
       return false;
     }
   }
 
+  private scheduleRefresh(expiresAt: number): void {
+    this.scheduleRefreshIn(getRefreshDelay(expiresAt));
+  }
+
+  private scheduleRefreshIn(delay: number): void {
+    this.cancelScheduledRefresh();
+
+    console.log(`[AuthService] ⏰ Refreshing token in ${Math.max(0, Math.round(delay / 1000))}s`);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshToken();
+    }, Math.max(0, delay));
+  }
+
+  private cancelScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
   // Logout
   public async logout(): Promise<void> {
     await this.clearTokens();
@@ -274,7 +369,7 @@ class AuthService {
         throw new Error('Not authenticated');
       }
 
-      const response = await axios.put(`${API_BASE_URL}/users/profile`, profileData, {
+      const response = await axios.put(`${this.baseURL}/users/profile`, profileData, {
         headers: { Authorization: `Bearer ${accessToken}` }
       });
 
@@ -303,7 +398,7 @@ class AuthService {
         throw new Error('Not authenticated');
       }
 
-      const response = await axios.post(`${API_BASE_URL}/users/complete-onboarding`, {}, {
+      const response = await axios.post(`${this.baseURL}/users/complete-onboarding`, {}, {
         headers: { Authorization: `Bearer ${accessToken}` }
       });
 
@@ -324,6 +419,18 @@ class AuthService {
     }
   }
 
+  // Reflect a plan change from PurchasesService without signing in again
+  public async updateSubscriptionTier(tier: string): Promise<void> {
+    if (!this.currentUser || this.currentUser.subscriptionTier === tier) return;
+
+    const updatedUser: UserProfile = {
+      ...this.currentUser,
+      subscriptionTier: tier,
+    };
+    await this.storeUserProfile(updatedUser);
+    this.setState(this.authState, updatedUser);
+  }
+
   // Get auth header for API requests
   public async getAuthHeader(): Promise<string | null> {
     try {
@@ -335,6 +442,29 @@ class AuthService {
     }
   }
 
+  /**
+   * fetch() with the access token, retried once after a refresh on a 401.
+   * For calls that don't go through APIService.
+   */
+  public async fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = async () => {
+      const authHeader = await this.getAuthHeader();
+      if (!authHeader) {
+        throw new Error('Authentication required');
+      }
+      // Headers instances don't spread; copying through the constructor keeps every form
+      const headers = new Headers(init.headers);
+      headers.set('Authorization', authHeader);
+      return fetch(url, { ...init, headers });
+    };
+
+    const response = await send();
+    if (response.status === 401 && await this.refreshToken()) {
+      return send();
+    }
+    return response;
+  }
+
   // Error handling
   private handleAuthError(error: any): AuthError {
     if (error.message) {
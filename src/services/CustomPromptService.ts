@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CustomPromptEntry, Preset } from '../types/preset.types';
+
+const HISTORY_STORAGE_KEY = 'custom_prompt_history';
+const MAX_HISTORY_ENTRIES = 30;
+
+export const CUSTOM_PRESET_CATEGORY = 'custom';
+export const CUSTOM_PRESET_ID_PREFIX = 'custom_';
+
+// A style the user can apply to a custom prompt, represented by the first preset that uses it
+export interface PromptStyle {
+  style_id: string;
+  name: string;
+  image_url: string;
+  presetCount: number;
+}
+
+// Distinct style_ids across the preset catalogue, in catalogue order
+export const getPromptStyles = (presets: Preset[]): PromptStyle[] => {
+  const styles = new Map<string, PromptStyle>();
+
+  presets.forEach(preset => {
+    if (!preset.style_id) return;
+    const existing = styles.get(preset.style_id);
+    if (existing) {
+      existing.presetCount++;
+    } else {
+      styles.set(preset.style_id, {
+        style_id: preset.style_id,
+        name: preset.name,
+        image_url: preset.image_url,
+        presetCount: 1,
+      });
+    }
+  });
+
+  return Array.from(styles.values());
+};
+
+/**
+ * Wrap a custom prompt in a Preset so it flows through the same generation,
+ * skeleton and offline-queue tracking as catalogue presets
+ */
+export const createCustomPreset = (prompt: string, style: PromptStyle): Preset => ({
+  id: `${CUSTOM_PRESET_ID_PREFIX}${Date.now()}`,
+  style_id: style.style_id,
+  name: 'Custom Prompt',
+  image_url: style.image_url,
+  prompt: prompt.trim(),
+  category: CUSTOM_PRESET_CATEGORY,
+  sort_order: 0,
+  is_active: true,
+});
+
+export const isCustomPreset = (preset?: Pick<Preset, 'id' | 'category'>): boolean =>
+  !!preset && preset.category === CUSTOM_PRESET_CATEGORY && preset.id.startsWith(CUSTOM_PRESET_ID_PREFIX);
+
+/**
+ * Custom Prompt Service
+ * Keeps the history of prompts the user has generated with in custom mode
+ */
+class CustomPromptService {
+  private static instance: CustomPromptService;
+  private history: CustomPromptEntry[] | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): CustomPromptService {
+    if (!CustomPromptService.instance) {
+      CustomPromptService.instance = new CustomPromptService();
+    }
+    return CustomPromptService.instance;
+  }
+
+  // Most recent first
+  public async getHistory(): Promise<CustomPromptEntry[]> {
+    if (this.history) return this.history;
+
+    try {
+      const stored = await AsyncStorage.getItem(HISTORY_STORAGE_KEY);
+      this.history = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[✏️ CustomPrompt] Failed to load prompt history:', error);
+      this.history = [];
+    }
+    return this.history!;
+  }
+
+  // Re-using a prompt moves it back to the top instead of adding a duplicate
+  public async addToHistory(prompt: string, styleId: string): Promise<CustomPromptEntry[]> {
+    const trimmed = prompt.trim();
+    if (!trimmed) return this.getHistory();
+
+    const history = await this.getHistory();
+    const entry: CustomPromptEntry = { prompt: trimmed, style_id: styleId, used_at: new Date().toISOString() };
+    this.history = [
+      entry,
+      ...history.filter(item => !(item.prompt === trimmed && item.style_id === styleId)),
+    ].slice(0, MAX_HISTORY_ENTRIES);
+
+    await this.persist();
+    return this.history;
+  }
+
+  public async removeFromHistory(entry: CustomPromptEntry): Promise<CustomPromptEntry[]> {
+    const history = await this.getHistory();
+    this.history = history.filter(item => !(item.prompt === entry.prompt && item.style_id === entry.style_id));
+    await this.persist();
+    return this.history;
+  }
+
+  public async clearHistory(): Promise<void> {
+    this.history = [];
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(this.history || []));
+    } catch (error) {
+      console.error('[✏️ CustomPrompt] Failed to save prompt history:', error);
+    }
+  }
+}
+
+export default CustomPromptService.getInstance();
@@ -0,0 +1,71 @@
+import {
+  PurchaseCancelledError,
+  PurchaseCatalogItem,
+  PurchaseProduct,
+  PurchaseProvider,
+  PurchaseReceipt,
+} from '../types/purchases.types';
+
+type FakePurchaseOutcome = 'success' | 'cancel' | 'fail';
+
+const describeTier = (tier: string) => tier.charAt(0).toUpperCase() + tier.slice(1);
+
+/**
+ * Fake Purchase Provider
+ * An in-memory store for tests and development builds. Every catalog product
+ * is for sale at a fixed price, purchases succeed unless told otherwise, and
+ * restore returns everything bought on this instance.
+ */
+export class FakePurchaseProvider implements PurchaseProvider {
+  public readonly platform = 'fake' as const;
+  private owned: PurchaseReceipt[] = [];
+  private nextOutcome: FakePurchaseOutcome = 'success';
+  private transactionCount = 0;
+  public finishedTransactions: string[] = [];
+
+  constructor(private price: string = '$4.99') {}
+
+  public async initialize(): Promise<void> {}
+
+  public async getProducts(catalog: PurchaseCatalogItem[]): Promise<PurchaseProduct[]> {
+    return catalog.map(item => ({
+      productId: item.productId,
+      tier: item.tier,
+      title: `Twyn ${describeTier(item.tier)}`,
+      description: `Everything in ${describeTier(item.tier)}`,
+      price: this.price,
+      period: 'month',
+    }));
+  }
+
+  // Make the next purchase cancel or fail, then go back to succeeding
+  public setNextOutcome(outcome: FakePurchaseOutcome): void {
+    this.nextOutcome = outcome;
+  }
+
+  public async purchase(productId: string): Promise<PurchaseReceipt> {
+    const outcome = this.nextOutcome;
+    this.nextOutcome = 'success';
+
+    if (outcome === 'cancel') throw new PurchaseCancelledError();
+    if (outcome === 'fail') throw new Error('The store could not complete the purchase');
+
+    this.transactionCount += 1;
+    const receipt: PurchaseReceipt = {
+      productId,
+      transactionId: `fake-transaction-${this.transactionCount}`,
+      receipt: `fake-receipt-${productId}-${this.transactionCount}`,
+      platform: this.platform,
+    };
+    this.owned = [...this.owned.filter(owned => owned.productId !== productId), receipt];
+    return receipt;
+  }
+
+  public async restore(): Promise<PurchaseReceipt[]> {
+    return this.owned;
+  }
+
+  public async finishTransaction(receipt: PurchaseReceipt): Promise<void> {
+    this.finishedTransactions.push(receipt.transactionId);
+  }
+}
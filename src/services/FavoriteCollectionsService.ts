@@ -0,0 +1,194 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APIService } from './APIService';
+import { LastWriteWinsSync, MergeResult, mergeLastWriteWins } from './LastWriteWinsSync';
+import {
+  FavoriteCollection,
+  FavoriteCollectionRecord,
+  FavoriteCollectionTombstone,
+  FavoriteItem,
+} from '../types/favorites.types';
+
+const COLLECTIONS_STORAGE_KEY = 'favorite_collections';
+const TOMBSTONES_KEY = 'favorite_collections_tombstones';
+const SYNCED_USER_KEY = 'favorite_collections_synced_user'; // Whose collections are on this device; unset until the first sync
+const MAX_NAME_LENGTH = 40;
+
+const touch = (collection: FavoriteCollection, changes: Partial<FavoriteCollection>): FavoriteCollection => ({
+  ...collection,
+  ...changes,
+  updatedAt: new Date().toISOString(),
+});
+
+export const normalizeCollectionName = (name: string): string => name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH);
+
+export const createCollection = (name: string, itemKeys: string[] = []): FavoriteCollection => {
+  const now = new Date().toISOString();
+  return {
+    id: `collection-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: normalizeCollectionName(name),
+    itemKeys: Array.from(new Set(itemKeys)),
+    coverKey: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// New items go to the end; adding an item that's already there changes nothing
+export const addToCollection = (collection: FavoriteCollection, itemKey: string): FavoriteCollection =>
+  collection.itemKeys.includes(itemKey) ? collection : touch(collection, { itemKeys: [...collection.itemKeys, itemKey] });
+
+export const removeFromCollection = (collection: FavoriteCollection, itemKeys: string[]): FavoriteCollection => {
+  const removed = new Set(itemKeys);
+  if (!collection.itemKeys.some(key => removed.has(key))) return collection;
+
+  return touch(collection, {
+    itemKeys: collection.itemKeys.filter(key => !removed.has(key)),
+    coverKey: collection.coverKey && removed.has(collection.coverKey) ? null : collection.coverKey,
+  });
+};
+
+/**
+ * Apply an order produced by drag-to-reorder. Keys that aren't in the collection are
+ * ignored and any the new order left out keep their place at the end.
+ */
+export const reorderCollection = (collection: FavoriteCollection, orderedKeys: string[]): FavoriteCollection => {
+  const current = new Set(collection.itemKeys);
+  const ordered = orderedKeys.filter(key => current.has(key));
+  const orderedSet = new Set(ordered);
+  const itemKeys = [...ordered, ...collection.itemKeys.filter(key => !orderedSet.has(key))];
+
+  return itemKeys.every((key, index) => collection.itemKeys[index] === key) ? collection : touch(collection, { itemKeys });
+};
+
+// Unfavorited items leave every collection they were in
+export const pruneCollections = (collections: FavoriteCollection[], removedKeys: string[]): FavoriteCollection[] =>
+  collections.map(collection => removeFromCollection(collection, removedKeys));
+
+export const getCollectionCoverKey = (collection: FavoriteCollection): string | null =>
+  collection.coverKey && collection.itemKeys.includes(collection.coverKey)
+    ? collection.coverKey
+    : collection.itemKeys[0] || null;
+
+// Item count for the collection card; keys of favorites removed on another device don't count
+export const countCollectionItems = (collection: FavoriteCollection, favoriteKeys: Set<string>): number =>
+  collection.itemKeys.filter(key => favoriteKeys.has(key)).length;
+
+export const toCollectionRecord = (collection: FavoriteCollection): FavoriteCollectionRecord => ({
+  id: collection.id,
+  name: collection.name,
+  item_keys: collection.itemKeys,
+  cover_key: collection.coverKey,
+  created_at: collection.createdAt,
+  updated_at: collection.updatedAt,
+  deleted_at: null,
+});
+
+export const fromCollectionRecord = (record: FavoriteCollectionRecord): FavoriteCollection => ({
+  id: record.id,
+  name: record.name,
+  itemKeys: record.item_keys || [],
+  coverKey: record.cover_key,
+  createdAt: record.created_at,
+  updatedAt: record.updated_at,
+});
+
+// A local deletion as a deleted row, keeping the name so the server row stays readable
+const tombstoneToRecord = (
+  tombstone: FavoriteCollectionTombstone,
+  collection: FavoriteCollection | undefined
+): FavoriteCollectionRecord => ({
+  id: tombstone.id,
+  name: collection?.name || '',
+  item_keys: [],
+  cover_key: null,
+  created_at: collection?.createdAt || tombstone.deletedAt,
+  updated_at: tombstone.deletedAt,
+  deleted_at: tombstone.deletedAt,
+});
+
+/**
+ * Merge local collections (and deletions not yet synced) with the server's rows.
+ * Per collection the most recent change wins; ties go to the server.
+ */
+export const mergeCollections = (
+  localCollections: FavoriteCollection[],
+  tombstones: FavoriteCollectionTombstone[],
+  remote: FavoriteCollectionRecord[]
+): MergeResult<FavoriteCollection, FavoriteCollectionRecord> => {
+  const byId = new Map(localCollections.map(collection => [collection.id, collection]));
+  const { records, upload } = mergeLastWriteWins(
+    [
+      ...localCollections.map(toCollectionRecord),
+      ...tombstones.map(tombstone => tombstoneToRecord(tombstone, byId.get(tombstone.id))),
+    ],
+    remote,
+    record => record.id
+  );
+  return { merged: records.map(fromCollectionRecord), upload };
+};
+
+export const getFavoriteImageUrl = (item: FavoriteItem): string | undefined =>
+  'imageUrl' in item.data ? item.data.imageUrl : item.data.image_url;
+
+/**
+ * Favorite Collections Service
+ * Persists the user's favorite collections (albums) on the device and keeps them
+ * in step with the signed-in user's rows in Supabase, alongside FavoritesSyncService.
+ */
+class FavoriteCollectionsService {
+  private static instance: FavoriteCollectionsService;
+  private collections: FavoriteCollection[] | null = null;
+  private readonly remote = new LastWriteWinsSync<FavoriteCollection, FavoriteCollectionRecord, FavoriteCollectionTombstone>({
+    logPrefix: '[🗂️ FavoriteCollections]',
+    noun: 'collections',
+    tombstonesKey: TOMBSTONES_KEY,
+    syncedUserKey: SYNCED_USER_KEY,
+    tombstoneKey: tombstone => tombstone.id,
+    merge: mergeCollections,
+    fetchRemote: () => APIService.fetchFavoriteCollections(),
+    upsertRemote: records => APIService.upsertFavoriteCollections(records),
+  });
+
+  private constructor() {}
+
+  public static getInstance(): FavoriteCollectionsService {
+    if (!FavoriteCollectionsService.instance) {
+      FavoriteCollectionsService.instance = new FavoriteCollectionsService();
+    }
+    return FavoriteCollectionsService.instance;
+  }
+
+  public async getCollections(): Promise<FavoriteCollection[]> {
+    if (this.collections) return this.collections;
+
+    try {
+      const stored = await AsyncStorage.getItem(COLLECTIONS_STORAGE_KEY);
+      this.collections = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[🗂️ FavoriteCollections] Failed to load collections:', error);
+      this.collections = [];
+    }
+    return this.collections!;
+  }
+
+  public async saveCollections(collections: FavoriteCollection[]): Promise<void> {
+    this.collections = collections;
+    try {
+      await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+    } catch (error) {
+      console.error('[🗂️ FavoriteCollections] Failed to save collections:', error);
+    }
+  }
+
+  // Remember a deletion so it reaches the server even if the app closes first
+  public recordDeletion(collectionId: string): Promise<void> {
+    return this.remote.recordDeletions([{ id: collectionId, deletedAt: new Date().toISOString() }]);
+  }
+
+  // Resolves with the merged collections, or null when signed out
+  public sync(localCollections: FavoriteCollection[]): Promise<FavoriteCollection[] | null> {
+    return this.remote.sync(localCollections);
+  }
+}
+
+export default FavoriteCollectionsService.getInstance();
@@ -0,0 +1,112 @@
+import { APIService } from './APIService';
+import { LastWriteWinsSync, MergeResult, mergeLastWriteWins } from './LastWriteWinsSync';
+import {
+  FavoriteItem,
+  FavoriteRecord,
+  FavoriteRecordData,
+  FavoriteTombstone,
+  FavoriteType,
+} from '../types/favorites.types';
+
+const TOMBSTONES_KEY = 'favorites_tombstones';
+const SYNCED_USER_KEY = 'favorites_synced_user'; // Whose favorites are on this device; unset until the one-time migration
+
+// Identifies a favorite across types (an image URL and a preset id never clash)
+export const favoriteKey = (id: string, type: FavoriteType): string => `${type}:${id}`;
+
+export const toFavoriteRecord = (item: FavoriteItem): FavoriteRecord => ({
+  item_id: item.id,
+  item_type: item.type,
+  data: item.data,
+  created_at: new Date(item.createdAt).toISOString(),
+  updated_at: new Date(item.updatedAt || item.createdAt).toISOString(),
+  deleted_at: null,
+});
+
+const tombstoneToRecord = (tombstone: FavoriteTombstone): FavoriteRecord => ({
+  item_id: tombstone.id,
+  item_type: tombstone.type,
+  data: null,
+  created_at: tombstone.deletedAt,
+  updated_at: tombstone.deletedAt,
+  deleted_at: tombstone.deletedAt,
+});
+
+// A row that isn't removed, so it carries data
+type LiveFavoriteRecord = FavoriteRecord & { data: FavoriteRecordData };
+
+const isLiveRecord = (record: FavoriteRecord): record is LiveFavoriteRecord => !record.deleted_at && record.data !== null;
+
+export const fromFavoriteRecord = (record: LiveFavoriteRecord): FavoriteItem => ({
+  id: record.item_id,
+  type: record.item_type,
+  data: 'generatedAt' in record.data
+    ? { ...record.data, generatedAt: new Date(record.data.generatedAt) }
+    : record.data,
+  createdAt: new Date(record.created_at),
+  updatedAt: new Date(record.updated_at),
+});
+
+// Local removals become deleted rows so they can win against the server's copy
+const toLocalRecords = (items: FavoriteItem[], tombstones: FavoriteTombstone[]): FavoriteRecord[] => [
+  ...items.map(toFavoriteRecord),
+  ...tombstones.map(tombstoneToRecord),
+];
+
+/**
+ * Merge local favorites (and removals not yet synced) with the server's rows.
+ * For each favorite the most recent change wins; ties go to the server.
+ */
+export const mergeFavorites = (
+  localItems: FavoriteItem[],
+  tombstones: FavoriteTombstone[],
+  remote: FavoriteRecord[]
+): MergeResult<FavoriteItem, FavoriteRecord> => {
+  const { records, upload } = mergeLastWriteWins(
+    toLocalRecords(localItems, tombstones),
+    remote,
+    record => favoriteKey(record.item_id, record.item_type)
+  );
+  return { merged: records.filter(isLiveRecord).map(fromFavoriteRecord), upload };
+};
+
+/**
+ * Favorites Sync Service
+ * Keeps the device's favorites in step with the signed-in user's rows in Supabase.
+ * FavoritesContext writes locally first; this service reconciles in the background.
+ */
+class FavoritesSyncService {
+  private static instance: FavoritesSyncService;
+  private readonly favorites = new LastWriteWinsSync<FavoriteItem, FavoriteRecord, FavoriteTombstone>({
+    logPrefix: '[❤️ FavoritesSync]',
+    noun: 'favorites',
+    tombstonesKey: TOMBSTONES_KEY,
+    syncedUserKey: SYNCED_USER_KEY,
+    tombstoneKey: tombstone => favoriteKey(tombstone.id, tombstone.type),
+    merge: mergeFavorites,
+    fetchRemote: () => APIService.fetchFavorites(),
+    upsertRemote: records => APIService.upsertFavorites(records),
+  });
+
+  private constructor() {}
+
+  public static getInstance(): FavoritesSyncService {
+    if (!FavoritesSyncService.instance) {
+      FavoritesSyncService.instance = new FavoritesSyncService();
+    }
+    return FavoritesSyncService.instance;
+  }
+
+  // Remember removals so they reach the server even if the app closes first
+  public recordRemovals(items: { id: string; type: FavoriteType }[]): Promise<void> {
+    const deletedAt = new Date().toISOString();
+    return this.favorites.recordDeletions(items.map(item => ({ id: item.id, type: item.type, deletedAt })));
+  }
+
+  // Resolves with the merged favorites, or null when signed out
+  public sync(localItems: FavoriteItem[]): Promise<FavoriteItem[] | null> {
+    return this.favorites.sync(localItems);
+  }
+}
+
+export default FavoritesSyncService.getInstance();
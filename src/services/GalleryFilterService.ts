@@ -0,0 +1,169 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GenerationBatch, GenerationSource } from '../types/preset.types';
+import { GalleryDateRange, GalleryFilters, GallerySection } from '../types/gallery.types';
+
+const FILTERS_STORAGE_KEY = 'gallery_filters';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = {
+  modelId: null,
+  category: null,
+  presetId: null,
+  source: null,
+  dateRange: 'all',
+  groupBy: 'date',
+};
+
+export const DATE_RANGE_LABELS: Record<Exclude<GalleryDateRange, 'all'>, string> = {
+  today: 'Today',
+  week: 'This Week',
+  older: 'Older',
+};
+
+export const SOURCE_LABELS: Record<GenerationSource, string> = {
+  preset: 'Presets',
+  custom: 'Custom Prompts',
+  camera: 'Camera',
+};
+
+// Batches from older backends don't report a source - they all came from presets
+export const getBatchSource = (batch: GenerationBatch): GenerationSource => batch.source || 'preset';
+
+export const getBatchPresetId = (batch: GenerationBatch): string | undefined => batch.presetId || batch.preset?.id;
+
+export const getBatchPresetName = (batch: GenerationBatch): string | undefined => batch.presetName || batch.preset?.name;
+
+export const getBatchCategory = (batch: GenerationBatch): string | undefined => batch.category || batch.preset?.category;
+
+// Today = same calendar day, This Week = the 6 days before that
+export const getBatchDateRange = (batch: GenerationBatch, now: Date = new Date()): Exclude<GalleryDateRange, 'all'> => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const generatedAt = batch.generatedAt.getTime();
+
+  if (generatedAt >= startOfToday) return 'today';
+  if (generatedAt >= startOfToday - 6 * DAY_MS) return 'week';
+  return 'older';
+};
+
+export const countActiveFilters = (filters: GalleryFilters): number =>
+  [filters.modelId, filters.category, filters.presetId, filters.source].filter(value => value !== null).length +
+  (filters.dateRange !== 'all' ? 1 : 0);
+
+export const filterBatches = (
+  batches: GenerationBatch[],
+  filters: GalleryFilters,
+  now: Date = new Date()
+): GenerationBatch[] => batches.filter(batch =>
+  (filters.modelId === null || batch.modelId === filters.modelId) &&
+  (filters.category === null || getBatchCategory(batch) === filters.category) &&
+  (filters.presetId === null || getBatchPresetId(batch) === filters.presetId) &&
+  (filters.source === null || getBatchSource(batch) === filters.source) &&
+  (filters.dateRange === 'all' || getBatchDateRange(batch, now) === filters.dateRange)
+);
+
+/**
+ * Split (already filtered) batches into sections, keeping newest-first order
+ * inside each section. Sections appear in the order of their newest batch,
+ * except date sections which always go Today -> This Week -> Older.
+ */
+export const groupBatches = (
+  batches: GenerationBatch[],
+  groupBy: GalleryFilters['groupBy'],
+  modelNames: Map<string, string> = new Map(),
+  now: Date = new Date()
+): GallerySection[] => {
+  const sections = new Map<string, GallerySection>();
+
+  if (groupBy === 'date') {
+    (['today', 'week', 'older'] as const).forEach(range => {
+      sections.set(range, { key: range, title: DATE_RANGE_LABELS[range], batches: [] });
+    });
+  }
+
+  batches.forEach(batch => {
+    let key: string;
+    let title: string;
+
+    switch (groupBy) {
+      case 'date':
+        key = getBatchDateRange(batch, now);
+        title = DATE_RANGE_LABELS[key as keyof typeof DATE_RANGE_LABELS];
+        break;
+      case 'model':
+        key = batch.modelId || 'unknown';
+        title = (batch.modelId && modelNames.get(batch.modelId)) || 'Unknown Model';
+        break;
+      case 'category':
+        key = getBatchCategory(batch) || 'unknown';
+        title = getBatchCategory(batch) || 'Uncategorized';
+        break;
+      case 'source':
+        key = getBatchSource(batch);
+        title = SOURCE_LABELS[getBatchSource(batch)];
+        break;
+    }
+
+    const section = sections.get(key);
+    if (section) {
+      section.batches.push(batch);
+    } else {
+      sections.set(key, { key, title, batches: [batch] });
+    }
+  });
+
+  return Array.from(sections.values()).filter(section => section.batches.length > 0);
+};
+
+/**
+ * Gallery Filter Service
+ * Persists the gallery's filter and grouping choices across sessions
+ */
+class GalleryFilterService {
+  private static instance: GalleryFilterService;
+  private filters: GalleryFilters | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): GalleryFilterService {
+    if (!GalleryFilterService.instance) {
+      GalleryFilterService.instance = new GalleryFilterService();
+    }
+    return GalleryFilterService.instance;
+  }
+
+  public async getFilters(): Promise<GalleryFilters> {
+    if (this.filters) return this.filters;
+
+    try {
+      const stored = await AsyncStorage.getItem(FILTERS_STORAGE_KEY);
+      // Merge with defaults so filters added in later versions get a value
+      this.filters = { ...DEFAULT_GALLERY_FILTERS, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.error('[🗂️ GalleryFilters] Failed to load filters:', error);
+      this.filters = { ...DEFAULT_GALLERY_FILTERS };
+    }
+    return this.filters!;
+  }
+
+  public async saveFilters(filters: GalleryFilters): Promise<void> {
+    this.filters = filters;
+    try {
+      await AsyncStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filters));
+    } catch (error) {
+      console.error('[🗂️ GalleryFilters] Failed to save filters:', error);
+    }
+  }
+
+  // A model filter can't match anything once its model is deleted; returns the filters to show
+  public async dropMissingModel(modelExists: (id: string) => boolean): Promise<GalleryFilters> {
+    const filters = await this.getFilters();
+    if (filters.modelId === null || modelExists(filters.modelId)) return filters;
+
+    console.log('[🗂️ GalleryFilters] Dropping filter for missing model:', filters.modelId);
+    const next = { ...filters, modelId: null };
+    await this.saveFilters(next);
+    return next;
+  }
+}
+
+export default GalleryFilterService.getInstance();
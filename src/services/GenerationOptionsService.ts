@@ -0,0 +1,78 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GenerationOptions } from '../types/preset.types';
+
+const OPTIONS_STORAGE_KEY = 'generation_options_by_preset';
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  quality: 'high',
+  aspect_ratio: '3:4',
+  enhance_prompt: false,
+};
+
+export const MAX_SEED = 2147483647;
+
+// Drop empty fields so the backend falls back to its own defaults
+export const normalizeGenerationOptions = (options: GenerationOptions): GenerationOptions => {
+  const negativePrompt = options.negative_prompt?.trim();
+  const seed = typeof options.seed === 'number' && Number.isFinite(options.seed)
+    ? Math.max(0, Math.min(MAX_SEED, Math.floor(options.seed)))
+    : undefined;
+
+  return {
+    quality: options.quality || DEFAULT_GENERATION_OPTIONS.quality,
+    aspect_ratio: options.aspect_ratio || DEFAULT_GENERATION_OPTIONS.aspect_ratio,
+    enhance_prompt: !!options.enhance_prompt,
+    ...(negativePrompt && { negative_prompt: negativePrompt }),
+    ...(seed !== undefined && { seed }),
+  };
+};
+
+/**
+ * Generation Options Service
+ * Remembers the last-used advanced generation options for each preset
+ */
+class GenerationOptionsService {
+  private static instance: GenerationOptionsService;
+  private optionsByPreset: Record<string, GenerationOptions> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): GenerationOptionsService {
+    if (!GenerationOptionsService.instance) {
+      GenerationOptionsService.instance = new GenerationOptionsService();
+    }
+    return GenerationOptionsService.instance;
+  }
+
+  // Last-used options for a preset, or the defaults if it has never been customised
+  public async getOptions(presetId: string): Promise<GenerationOptions> {
+    const stored = await this.load();
+    return normalizeGenerationOptions({ ...DEFAULT_GENERATION_OPTIONS, ...stored[presetId] });
+  }
+
+  public async saveOptions(presetId: string, options: GenerationOptions): Promise<void> {
+    const stored = await this.load();
+    this.optionsByPreset = { ...stored, [presetId]: normalizeGenerationOptions(options) };
+
+    try {
+      await AsyncStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(this.optionsByPreset));
+    } catch (error) {
+      console.error('[⚙️ GenerationOptions] Failed to save options for preset', presetId, error);
+    }
+  }
+
+  private async load(): Promise<Record<string, GenerationOptions>> {
+    if (this.optionsByPreset) return this.optionsByPreset;
+
+    try {
+      const stored = await AsyncStorage.getItem(OPTIONS_STORAGE_KEY);
+      this.optionsByPreset = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('[⚙️ GenerationOptions] Failed to load saved options:', error);
+      this.optionsByPreset = {};
+    }
+    return this.optionsByPreset!;
+  }
+}
+
+export default GenerationOptionsService.getInstance();
@@ -0,0 +1,313 @@
+import AuthService from './AuthService';
+import NotificationService from './NotificationService';
+import Environment from '../config/environment';
+import { GenerationSource } from '../types/preset.types';
+
+/**
+ * Generation Status Stream
+ * WebSocket client that subscribes to backend status updates by generation_id and
+ * re-emits them as the same NotificationService events push notifications use
+ * (`generationCompleted`, `removeSkeletonGeneration`, `generationFailed`), plus
+ * `generationProgress` for in-flight updates.
+ *
+ * Push notifications remain the primary signal when the app is backgrounded;
+ * GenerationContext only falls back to polling while this stream is down.
+ */
+
+// Messages the backend sends on the stream
+interface GenerationStatusMessage {
+  type: 'generation_status';
+  generation_id: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'nsfw';
+  progress?: number;
+  image_count?: number;
+  image_urls?: string[];
+  batch_id?: string;
+  preset_name?: string;
+  preset_id?: string;
+  model_id?: string;
+  category?: string;
+  source?: GenerationSource;
+  prompt?: string;
+  error_message?: string;
+}
+
+interface StreamSocket {
+  readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface GenerationStatusStreamOptions {
+  url?: string; // Defaults to <apiBaseURL>/generations/stream with ws(s) scheme
+  socketFactory?: (url: string) => StreamSocket; // Injected by tests to use a local mock server
+}
+
+type ConnectionListener = (connected: boolean) => void;
+
+const SOCKET_OPEN = 1;
+const BASE_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+class GenerationStatusStream {
+  private static instance: GenerationStatusStream;
+  private socket: StreamSocket | null = null;
+  private subscriptions = new Set<string>();
+  private finishedGenerations = new Set<string>();
+  private connectionListeners: ConnectionListener[] = [];
+  private connected = false;
+  private connecting = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private options: GenerationStatusStreamOptions = {};
+
+  private constructor() {}
+
+  public static getInstance(): GenerationStatusStream {
+    if (!GenerationStatusStream.instance) {
+      GenerationStatusStream.instance = new GenerationStatusStream();
+    }
+    return GenerationStatusStream.instance;
+  }
+
+  public configure(options: GenerationStatusStreamOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Subscribe to stream up/down changes
+  public onConnectionChange(listener: ConnectionListener): () => void {
+    this.connectionListeners.push(listener);
+
+    return () => {
+      const index = this.connectionListeners.indexOf(listener);
+      if (index > -1) {
+        this.connectionListeners.splice(index, 1);
+      }
+    };
+  }
+
+  public subscribe(generationId: string): void {
+    if (!generationId || this.subscriptions.has(generationId)) return;
+
+    this.subscriptions.add(generationId);
+    console.log('[📡 StatusStream] Subscribing to generation:', generationId);
+
+    if (this.socket?.readyState === SOCKET_OPEN) {
+      this.send({ type: 'subscribe', generation_id: generationId });
+    } else {
+      this.connect();
+    }
+  }
+
+  public unsubscribe(generationId: string): void {
+    if (!this.subscriptions.delete(generationId)) return;
+
+    if (this.socket?.readyState === SOCKET_OPEN) {
+      this.send({ type: 'unsubscribe', generation_id: generationId });
+    }
+
+    // Nothing left to watch - free the socket
+    if (this.subscriptions.size === 0) {
+      this.disconnect();
+    }
+  }
+
+  // Make the subscriptions match the set of in-flight generations
+  public syncSubscriptions(generationIds: string[]): void {
+    const wanted = new Set(generationIds.filter(Boolean));
+    Array.from(this.subscriptions)
+      .filter(id => !wanted.has(id))
+      .forEach(id => this.unsubscribe(id));
+    wanted.forEach(id => this.subscribe(id));
+  }
+
+  public disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.onmessage = null;
+      socket.close();
+    }
+
+    this.connecting = false;
+    this.reconnectAttempts = 0;
+    this.setConnected(false);
+  }
+
+  // Tear down everything (used by tests)
+  public reset(): void {
+    this.subscriptions.clear();
+    this.finishedGenerations.clear();
+    this.disconnect();
+    this.options = {};
+  }
+
+  private async connect(): Promise<void> {
+    if (this.socket || this.connecting || this.subscriptions.size === 0) return;
+    this.connecting = true;
+
+    try {
+      const url = await this.buildUrl();
+
+      // disconnect() may have run while we were reading the token
+      if (!this.connecting || this.subscriptions.size === 0) {
+        this.connecting = false;
+        return;
+      }
+      console.log('[📡 StatusStream] Connecting to status stream');
+
+      const socket = this.options.socketFactory
+        ? this.options.socketFactory(url)
+        : (new WebSocket(url) as unknown as StreamSocket);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        console.log('[📡 StatusStream] ✅ Connected, subscribing to', this.subscriptions.size, 'generations');
+        this.connecting = false;
+        this.reconnectAttempts = 0;
+        this.setConnected(true);
+        this.subscriptions.forEach(id => this.send({ type: 'subscribe', generation_id: id }));
+      };
+
+      socket.onmessage = event => this.handleMessage(event.data);
+
+      socket.onerror = event => {
+        console.warn('[📡 StatusStream] ⚠️ Socket error:', event?.message || event);
+      };
+
+      socket.onclose = () => {
+        console.log('[📡 StatusStream] 🔌 Connection closed');
+        this.socket = null;
+        this.connecting = false;
+        this.setConnected(false);
+        this.scheduleReconnect();
+      };
+    } catch (error) {
+      console.error('[📡 StatusStream] ❌ Failed to open status stream:', error);
+      this.socket = null;
+      this.connecting = false;
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.subscriptions.size === 0) return;
+
+    const delay = Math.min(BASE_RECONNECT_DELAY * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    console.log(`[📡 StatusStream] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private async buildUrl(): Promise<string> {
+    const baseUrl = this.options.url || `${Environment.apiBaseURL.replace(/^http/, 'ws')}/generations/stream`;
+    const token = await AuthService.getAccessToken();
+    // Browsers and React Native can't both set headers on a WebSocket handshake, so the token goes in the query
+    return token ? `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}` : baseUrl;
+  }
+
+  private handleMessage(raw: any): void {
+    let message: GenerationStatusMessage;
+    try {
+      message = JSON.parse(typeof raw === 'string' ? raw : raw.toString());
+    } catch (error) {
+      console.warn('[📡 StatusStream] ⚠️ Ignoring malformed message:', raw);
+      return;
+    }
+
+    if (message.type !== 'generation_status' || !message.generation_id) return;
+
+    const generationId = message.generation_id;
+    // Guard against replayed terminal events after a reconnect
+    if (this.finishedGenerations.has(generationId)) return;
+
+    switch (message.status) {
+      case 'completed':
+        console.log('[📡 StatusStream] 🎉 Generation completed:', generationId);
+        this.finish(generationId);
+        NotificationService.emit('generationCompleted', {
+          generationId,
+          imageCount: message.image_count ?? message.image_urls?.length,
+          presetName: message.preset_name,
+          ...(message.image_urls?.length && {
+            batch: {
+              id: message.batch_id || generationId,
+              images: message.image_urls,
+              generatedAt: new Date(),
+              source: message.source,
+              modelId: message.model_id,
+              presetId: message.preset_id,
+              presetName: message.preset_name,
+              category: message.category,
+              prompt: message.prompt,
+            },
+          }),
+        });
+        NotificationService.emit('removeSkeletonGeneration', { generationId });
+        break;
+      case 'failed':
+        console.log('[📡 StatusStream] ❌ Generation failed:', generationId);
+        this.finish(generationId);
+        NotificationService.emit('generationFailed', {
+          generationId,
+          errorMessage: message.error_message || 'Generation failed. Please try again.',
+        });
+        break;
+      case 'nsfw':
+        console.log('[📡 StatusStream] 🚫 Generation flagged as NSFW:', generationId);
+        this.finish(generationId);
+        NotificationService.emit('generationFailed', {
+          generationId,
+          errorMessage: 'Content flagged as inappropriate. Please try a different prompt.',
+          isNSFW: true,
+        });
+        break;
+      default:
+        // queued / processing updates only move the progress bar
+        if (typeof message.progress === 'number') {
+          NotificationService.emit('generationProgress', { generationId, progress: message.progress });
+        }
+        break;
+    }
+  }
+
+  private finish(generationId: string): void {
+    this.finishedGenerations.add(generationId);
+    this.unsubscribe(generationId);
+  }
+
+  private send(message: Record<string, any>): void {
+    try {
+      this.socket?.send(JSON.stringify(message));
+    } catch (error) {
+      console.warn('[📡 StatusStream] ⚠️ Failed to send message:', error);
+    }
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.connectionListeners.forEach(listener => listener(connected));
+  }
+}
+
+export default GenerationStatusStream.getInstance();
@@ -296,6 +296,38 @@ class ImageCacheManager {
     }
   }
 
+  /**
+   * Evict specific images (e.g. after they were deleted from the gallery)
+   */
+  public async evictImages(urls: string[]): Promise<void> {
+    if (urls.length === 0) return;
+    console.log(`[ImageCacheManager] 🗑️ Evicting ${urls.length} images from cache`);
+
+    try {
+      const metadata = await this.getCacheMetadata();
+
+      for (const url of urls) {
+        const entry = metadata[url];
+        if (entry) {
+          await FileSystem.deleteAsync(entry.localPath, { idempotent: true }).catch(() => {});
+          delete metadata[url];
+        }
+
+        // expo-image keys its disk cache by URL
+        const expoCachePath = await Image.getCachePathAsync(url).catch(() => null);
+        if (expoCachePath) {
+          const cacheUri = expoCachePath.startsWith('file://') ? expoCachePath : `file://${expoCachePath}`;
+          await FileSystem.deleteAsync(cacheUri, { idempotent: true }).catch(() => {});
+        }
+      }
+
+      await AsyncStorage.setItem(this.cacheMetadataKey, JSON.stringify(metadata));
+      console.log(`[ImageCacheManager] ✅ Evicted ${urls.length} images`);
+    } catch (error) {
+      console.error('[ImageCacheManager] ❌ Failed to evict images:', error);
+    }
+  }
+
   /**
    * Get cache size and statistics
    */
@@ -0,0 +1,161 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import AuthService from './AuthService';
+
+// Columns shared by every Supabase table synced last-write-wins.
+// Deleted rows stay with deleted_at set so deletions sync across devices.
+export interface SyncedRecord {
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface MergeResult<T, R extends SyncedRecord> {
+  merged: T[]; // What to keep on the device
+  upload: R[]; // Local changes the server is missing
+}
+
+export interface LastWriteWinsSyncOptions<T, R extends SyncedRecord, Tombstone> {
+  logPrefix: string; // e.g. '[❤️ FavoritesSync]'
+  noun: string; // Plural, for logs
+  tombstonesKey: string;
+  syncedUserKey: string; // Whose rows are on this device; unset until the first sync
+  tombstoneKey: (tombstone: Tombstone) => string;
+  merge: (local: T[], tombstones: Tombstone[], remote: R[]) => MergeResult<T, R>;
+  fetchRemote: () => Promise<R[]>;
+  upsertRemote: (records: R[]) => Promise<void>;
+}
+
+const isNewer = (a: SyncedRecord, b: SyncedRecord): boolean =>
+  new Date(a.updated_at).getTime() > new Date(b.updated_at).getTime();
+
+/**
+ * Merge the device's rows (including deletions not yet synced) with the server's.
+ * Per key the most recent change wins; ties go to the server. The device's order is
+ * kept, then rows created elsewhere, oldest first. Deleted rows are left out.
+ */
+export const mergeLastWriteWins = <R extends SyncedRecord>(
+  local: R[],
+  remote: R[],
+  keyOf: (record: R) => string
+): { records: R[]; upload: R[] } => {
+  const localByKey = new Map<string, R>();
+  local.forEach(record => {
+    const key = keyOf(record);
+    const existing = localByKey.get(key);
+    if (!existing || isNewer(record, existing)) {
+      localByKey.set(key, record);
+    }
+  });
+  const remoteByKey = new Map(remote.map(record => [keyOf(record), record]));
+
+  const upload: R[] = [];
+  const winners: R[] = [];
+
+  localByKey.forEach((record, key) => {
+    const remoteRecord = remoteByKey.get(key);
+    if (!remoteRecord || isNewer(record, remoteRecord)) {
+      upload.push(record);
+      winners.push(record);
+    } else {
+      winners.push(remoteRecord);
+    }
+  });
+
+  const remoteOnly = remote
+    .filter(record => !localByKey.has(keyOf(record)))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  return { records: [...winners, ...remoteOnly].filter(record => !record.deleted_at), upload };
+};
+
+/**
+ * Last-Write-Wins Sync
+ * Reconciles a list kept on the device with the signed-in user's rows in Supabase.
+ * Deletions are held as tombstones until a sync sends them. Whatever was on the
+ * device before sync existed goes to the first account that signs in; a different
+ * account starts from the server's rows alone.
+ */
+export class LastWriteWinsSync<T, R extends SyncedRecord, Tombstone> {
+  private tombstones: Tombstone[] | null = null;
+  private syncing: Promise<T[] | null> | null = null;
+
+  constructor(private readonly options: LastWriteWinsSyncOptions<T, R, Tombstone>) {}
+
+  // Remember deletions so they reach the server even if the app closes first
+  public async recordDeletions(deletions: Tombstone[]): Promise<void> {
+    if (deletions.length === 0) return;
+
+    const { tombstoneKey } = this.options;
+    const replacedKeys = new Set(deletions.map(tombstoneKey));
+    const tombstones = await this.loadTombstones();
+
+    this.tombstones = [...tombstones.filter(tombstone => !replacedKeys.has(tombstoneKey(tombstone))), ...deletions];
+    await this.saveTombstones();
+  }
+
+  /**
+   * Reconcile local items with the server. Concurrent calls share one sync.
+   * Resolves with the merged items, or null when signed out.
+   */
+  public sync(localItems: T[]): Promise<T[] | null> {
+    if (!this.syncing) {
+      this.syncing = this.runSync(localItems).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async runSync(localItems: T[]): Promise<T[] | null> {
+    const { logPrefix, noun, syncedUserKey } = this.options;
+    const userId = await AuthService.getCurrentUserId();
+    if (!userId || !AuthService.isAuthenticated()) return null;
+
+    const syncedUser = await AsyncStorage.getItem(syncedUserKey);
+    const pendingDeletions = await this.loadTombstones();
+    let local = localItems;
+    let tombstones = pendingDeletions;
+
+    if (!syncedUser) {
+      console.log(`${logPrefix} Migrating`, local.length, `local ${noun} to the server`);
+    } else if (syncedUser !== userId) {
+      console.log(`${logPrefix} Different account signed in, replacing local ${noun}`);
+      local = [];
+      tombstones = [];
+    }
+
+    const remote = await this.options.fetchRemote();
+    const { merged, upload } = this.options.merge(local, tombstones, remote);
+    await this.options.upsertRemote(upload);
+
+    // Deletions this sync saw are resolved (uploaded or superseded); keep any recorded while it ran
+    const resolved = new Set(pendingDeletions);
+    this.tombstones = (this.tombstones || []).filter(tombstone => !resolved.has(tombstone));
+    await this.saveTombstones();
+    await AsyncStorage.setItem(syncedUserKey, userId);
+
+    console.log(`${logPrefix} ✅ Synced ${merged.length} ${noun} (${upload.length} uploaded)`);
+    return merged;
+  }
+
+  private async loadTombstones(): Promise<Tombstone[]> {
+    if (this.tombstones) return this.tombstones;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.options.tombstonesKey);
+      this.tombstones = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error(`${this.options.logPrefix} Failed to load pending deletions:`, error);
+      this.tombstones = [];
+    }
+    return this.tombstones!;
+  }
+
+  private async saveTombstones(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.options.tombstonesKey, JSON.stringify(this.tombstones || []));
+    } catch (error) {
+      console.error(`${this.options.logPrefix} Failed to save pending deletions:`, error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import Share from 'react-native-share';
+import { BulkActionResult } from '../types/gallery.types';
+
+type ProgressCallback = (completed: number, total: number) => void;
+
+const errorMessage = (error: any): string => error?.message || String(error);
+
+/**
+ * Media Export Service
+ * Downloads generated images so they can be saved to the photo library or shared
+ */
+class MediaExportService {
+  private static instance: MediaExportService;
+
+  private constructor() {}
+
+  public static getInstance(): MediaExportService {
+    if (!MediaExportService.instance) {
+      MediaExportService.instance = new MediaExportService();
+    }
+    return MediaExportService.instance;
+  }
+
+  /**
+   * Save images to the photo library one by one, reporting progress.
+   * Failures don't stop the rest of the images from being saved.
+   */
+  public async saveImagesToLibrary(imageUrls: string[], onProgress?: ProgressCallback): Promise<BulkActionResult> {
+    const { status } = await MediaLibrary.requestPermissionsAsync();
+    if (status !== 'granted') {
+      throw new Error('Permission to access photo library is required to save images.');
+    }
+
+    const result: BulkActionResult = { succeeded: [], failed: [] };
+    onProgress?.(0, imageUrls.length);
+
+    for (const imageUrl of imageUrls) {
+      try {
+        const localUri = await this.downloadToCache(imageUrl);
+        await MediaLibrary.saveToLibraryAsync(localUri);
+        result.succeeded.push(imageUrl);
+      } catch (error) {
+        console.error('[💾 MediaExport] Failed to save image:', imageUrl, error);
+        result.failed.push({ imageUrl, error: errorMessage(error) });
+      }
+      onProgress?.(result.succeeded.length + result.failed.length, imageUrls.length);
+    }
+
+    console.log(`[💾 MediaExport] Saved ${result.succeeded.length}/${imageUrls.length} images to Photos`);
+    return result;
+  }
+
+  /**
+   * Share several images in a single share sheet. Images that fail to
+   * download are left out and reported as failures.
+   */
+  public async shareImages(imageUrls: string[]): Promise<BulkActionResult> {
+    const result: BulkActionResult = { succeeded: [], failed: [] };
+    const localUris: string[] = [];
+
+    for (const imageUrl of imageUrls) {
+      try {
+        localUris.push(await this.downloadToCache(imageUrl));
+        result.succeeded.push(imageUrl);
+      } catch (error) {
+        console.error('[💾 MediaExport] Failed to download image for sharing:', imageUrl, error);
+        result.failed.push({ imageUrl, error: errorMessage(error) });
+      }
+    }
+
+    if (localUris.length > 0) {
+      await Share.open({
+        urls: localUris,
+        type: 'image/jpeg',
+        message: 'Check out these AI-generated images from Twyn!',
+        failOnCancel: false,
+      });
+      console.log(`[💾 MediaExport] Shared ${localUris.length} images`);
+    }
+
+    return result;
+  }
+
+  private async downloadToCache(imageUrl: string): Promise<string> {
+    const filename = `twyn_image_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.jpg`;
+    const download = await FileSystem.downloadAsync(imageUrl, `${FileSystem.cacheDirectory}${filename}`);
+
+    if (download.status !== 200) {
+      throw new Error(`Download failed with status ${download.status}`);
+    }
+    return download.uri;
+  }
+}
+
+export default MediaExportService.getInstance();
@@ -0,0 +1,343 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APIService } from './APIService';
+import {
+  CachedModelStore,
+  ModelDeletionReport,
+  ModelStatus,
+  ModelStoreChange,
+  ModelStoreState,
+  PendingModelDeletion,
+  UserModel,
+} from '../types/model.types';
+import { getFamilyId, isSelectableVersion, promoteVersion, toVersionState } from '../utils/modelVersions';
+
+const MODELS_STORAGE_KEY = 'twyn_model_store';
+const LEGACY_MODELS_CACHE_KEY = 'twyn_cached_models'; // AppStateContext's cache from before the store
+const SELECTED_MODEL_KEY = 'twyn_selected_model_id';
+const CACHE_EXPIRY_MS = 5 * 60 * 1000; // Older caches aren't shown while the first fetch runs
+const DEFAULT_UNDO_WINDOW_MS = 10 * 1000; // When the backend doesn't say how long a delete can be undone
+
+type BackendModel = Awaited<ReturnType<typeof APIService.fetchUserModels>>['models'][number];
+type ModelStoreListener = (state: ModelStoreState, change: ModelStoreChange) => void;
+
+const emptyState = (): ModelStoreState => ({ byId: {}, ids: [], selectedId: null, loadedAt: null });
+
+export const toUserModel = (backendModel: BackendModel): UserModel => ({
+  id: backendModel.id,
+  user_id: backendModel.user_id,
+  name: backendModel.name,
+  status: backendModel.status as ModelStatus,
+  higgsfield_id: backendModel.higgsfield_id || null,
+  thumbnail_url: backendModel.thumbnail_url || null,
+  photo_count: backendModel.photo_count || 0,
+  created_at: backendModel.created_at,
+  updated_at: backendModel.updated_at,
+  familyId: getFamilyId(backendModel),
+  version: backendModel.version || 1,
+  versionState: toVersionState(backendModel.version_state),
+});
+
+export const normalizeModels = (models: UserModel[]): Pick<ModelStoreState, 'byId' | 'ids'> => {
+  const sorted = [...models].sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+  return {
+    byId: Object.fromEntries(sorted.map(model => [model.id, model])),
+    ids: sorted.map(model => model.id),
+  };
+};
+
+export const selectModels = (state: ModelStoreState): UserModel[] => state.ids.map(id => state.byId[id]);
+
+export const selectSelectableModels = (state: ModelStoreState): UserModel[] =>
+  selectModels(state).filter(isSelectableVersion);
+
+export const selectSelectedModel = (state: ModelStoreState): UserModel | undefined =>
+  state.selectedId ? state.byId[state.selectedId] : undefined;
+
+// Selections saved before the store may hold the model's Higgsfield id
+export const resolveModelId = (state: ModelStoreState, id: string): string | null => {
+  if (state.byId[id]) return id;
+  return selectModels(state).find(model => model.higgsfield_id === id)?.id || null;
+};
+
+/**
+ * The selection after the model list changed: an archived version hands over
+ * to its family's active version, a deleted model clears the selection, and a
+ * single model is selected automatically.
+ */
+export const reconcileSelection = (state: ModelStoreState): string | null => {
+  const selectable = selectSelectableModels(state);
+  const resolvedId = state.selectedId ? resolveModelId(state, state.selectedId) : null;
+
+  if (resolvedId) {
+    const selected = state.byId[resolvedId];
+    if (isSelectableVersion(selected)) return resolvedId;
+
+    const active = selectable.find(model => model.familyId === selected.familyId && model.versionState === 'active');
+    if (active) return active.id;
+  }
+
+  return selectable.length === 1 ? selectable[0].id : null;
+};
+
+/**
+ * Model Repository
+ * The one store for the user's trained models. Holds them normalized by
+ * backend id with a single selection, fetches `/users/models` at most once at a
+ * time, and notifies subscribers of every change so contexts derive their own
+ * shapes from the same data.
+ */
+class ModelRepository {
+  private static instance: ModelRepository;
+  private state: ModelStoreState = emptyState();
+  private restoring: Promise<void> | null = null;
+  private refreshing: Promise<ModelStoreState> | null = null;
+  private listeners: ModelStoreListener[] = [];
+  private pendingDeletions = new Map<string, PendingModelDeletion>();
+
+  private constructor() {}
+
+  public static getInstance(): ModelRepository {
+    if (!ModelRepository.instance) {
+      ModelRepository.instance = new ModelRepository();
+    }
+    return ModelRepository.instance;
+  }
+
+  public getState(): ModelStoreState {
+    return this.state;
+  }
+
+  public subscribe(listener: ModelStoreListener): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Load the cached models and saved selection once, for immediate UI before the first fetch
+  public restore(): Promise<void> {
+    if (!this.restoring) {
+      this.restoring = this.restoreFromStorage();
+    }
+    return this.restoring;
+  }
+
+  /**
+   * Fetch the user's models. Concurrent calls share one request, so every
+   * context can ask for a refresh without multiplying network calls.
+   */
+  public refresh(): Promise<ModelStoreState> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchAndStore().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  public async select(id: string | null): Promise<void> {
+    const selectedId = id ? resolveModelId(this.state, id) || id : null;
+    if (selectedId === this.state.selectedId) return;
+
+    console.log('[🧠 ModelRepository] Selecting model:', selectedId);
+    this.state = { ...this.state, selectedId };
+    this.emit({ type: 'selected', id: selectedId });
+    await this.persistSelection();
+  }
+
+  public async rename(id: string, name: string): Promise<void> {
+    await APIService.renameModel(id, name);
+    this.patchModels([{ ...this.state.byId[id], name }]);
+  }
+
+  public getDeletionPreview(id: string): Promise<ModelDeletionReport> {
+    return APIService.getModelDeletionPreview(id);
+  }
+
+  /**
+   * Delete a model. The backend keeps it restorable until `undoUntil`, so the
+   * removed model is remembered here for `undoRemove` until then. A model the
+   * store never had is only deleted on the backend, without an undo.
+   */
+  public async remove(id: string): Promise<PendingModelDeletion> {
+    const { report, undoUntil } = await APIService.deleteModel(id);
+
+    const { [id]: removedModel, ...byId } = this.state.byId;
+    const wasSelected = this.state.selectedId === id;
+    const pending: PendingModelDeletion = {
+      model: removedModel || null,
+      report,
+      wasSelected,
+      undoUntil: (undoUntil && Date.parse(undoUntil)) || Date.now() + DEFAULT_UNDO_WINDOW_MS,
+    };
+    if (!removedModel) {
+      console.log('[🧠 ModelRepository] Deleted a model that was not in the store:', id);
+      return pending;
+    }
+    this.pendingDeletions.set(id, pending);
+
+    this.state = {
+      ...this.state,
+      byId,
+      ids: this.state.ids.filter(modelId => modelId !== id),
+      selectedId: wasSelected ? null : this.state.selectedId,
+    };
+    console.log('[🧠 ModelRepository] Model removed:', id);
+
+    this.emit({ type: 'removed', id });
+    if (wasSelected) {
+      this.emit({ type: 'selected', id: null });
+      await this.persistSelection();
+    }
+    await this.persistModels();
+    return pending;
+  }
+
+  // Bring back a model deleted within its undo window, selected again if it was before
+  public async undoRemove(id: string): Promise<void> {
+    const pending = this.pendingDeletions.get(id);
+    if (!pending?.model || Date.now() > pending.undoUntil) {
+      this.pendingDeletions.delete(id);
+      throw new Error('This model can no longer be restored');
+    }
+    const { model } = pending;
+
+    await APIService.undoModelDeletion(id);
+    this.pendingDeletions.delete(id);
+
+    this.state = { ...this.state, ...normalizeModels([...selectModels(this.state), model]) };
+    console.log('[🧠 ModelRepository] Model restored:', id);
+    this.emit({ type: 'restored', id });
+    await this.persistModels();
+
+    if (pending.wasSelected && !this.state.selectedId) {
+      await this.select(id);
+    }
+  }
+
+  // Make a version its family's default; the family's other versions are archived
+  public async promote(id: string): Promise<void> {
+    await APIService.promoteModelVersion(id);
+
+    const promoted = promoteVersion(selectModels(this.state), id);
+    const family = promoted.filter(model => model.familyId === this.state.byId[id]?.familyId);
+    this.patchModels(family);
+
+    // An archived version can't stay selected
+    const selected = selectSelectedModel(this.state);
+    if (selected && !isSelectableVersion(selected)) {
+      await this.select(id);
+    }
+  }
+
+  // Forget the signed-out user's models and selection
+  public async clear(): Promise<void> {
+    this.state = emptyState();
+    this.restoring = null;
+    this.pendingDeletions.clear();
+    this.emit({ type: 'cleared' });
+    try {
+      await AsyncStorage.multiRemove([MODELS_STORAGE_KEY, SELECTED_MODEL_KEY]);
+    } catch (error) {
+      console.error('[🧠 ModelRepository] Failed to clear stored models:', error);
+    }
+  }
+
+  private async restoreFromStorage(): Promise<void> {
+    try {
+      const [cachedData, storedSelection] = await Promise.all([
+        AsyncStorage.getItem(MODELS_STORAGE_KEY),
+        AsyncStorage.getItem(SELECTED_MODEL_KEY),
+      ]);
+      await AsyncStorage.removeItem(LEGACY_MODELS_CACHE_KEY);
+
+      // A fetch may have finished first; it wins over the cache
+      if (this.state.loadedAt) return;
+
+      const cache: CachedModelStore | null = cachedData ? JSON.parse(cachedData) : null;
+      if (cache && Date.now() - cache.fetchedAt < CACHE_EXPIRY_MS) {
+        this.state = { ...this.state, ...normalizeModels(cache.models) };
+        console.log('[🧠 ModelRepository] Restored', cache.models.length, 'models from cache');
+        this.emit({ type: 'loaded', added: this.state.ids, removed: [] });
+      }
+
+      if (storedSelection && !this.state.selectedId) {
+        this.state = { ...this.state, selectedId: resolveModelId(this.state, storedSelection) || storedSelection };
+        this.emit({ type: 'selected', id: this.state.selectedId });
+      }
+    } catch (error) {
+      console.error('[🧠 ModelRepository] Failed to restore models:', error);
+    }
+  }
+
+  private async fetchAndStore(): Promise<ModelStoreState> {
+    await this.restore();
+
+    const response = await APIService.fetchUserModels();
+    const previous = this.state;
+    const normalized = normalizeModels(response.models.map(toUserModel));
+    const loaded: ModelStoreState = { ...previous, ...normalized, loadedAt: Date.now() };
+    this.state = { ...loaded, selectedId: reconcileSelection(loaded) };
+
+    const added = normalized.ids.filter(id => !previous.byId[id]);
+    const removed = previous.ids.filter(id => !normalized.byId[id]);
+    console.log(`[🧠 ModelRepository] Loaded ${normalized.ids.length} models (+${added.length} -${removed.length})`);
+
+    this.emit({ type: 'loaded', added, removed });
+    if (this.state.selectedId !== previous.selectedId) {
+      this.emit({ type: 'selected', id: this.state.selectedId });
+      await this.persistSelection();
+    }
+    await this.persistModels();
+    return this.state;
+  }
+
+  private patchModels(models: UserModel[]): void {
+    const byId = { ...this.state.byId };
+    models.filter(model => byId[model.id]).forEach(model => {
+      byId[model.id] = model;
+    });
+    this.state = { ...this.state, byId };
+    this.emit({ type: 'updated', ids: models.map(model => model.id) });
+    this.persistModels();
+  }
+
+  private emit(change: ModelStoreChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.state, change);
+      } catch (error) {
+        console.error('[🧠 ModelRepository] Listener failed:', error);
+      }
+    });
+  }
+
+  private async persistModels(): Promise<void> {
+    if (!this.state.loadedAt) return; // Nothing fetched yet; keep the previous cache
+
+    try {
+      const cache: CachedModelStore = { models: selectModels(this.state), fetchedAt: this.state.loadedAt };
+      await AsyncStorage.setItem(MODELS_STORAGE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.error('[🧠 ModelRepository] Failed to save models:', error);
+    }
+  }
+
+  private async persistSelection(): Promise<void> {
+    try {
+      if (this.state.selectedId) {
+        await AsyncStorage.setItem(SELECTED_MODEL_KEY, this.state.selectedId);
+      } else {
+        await AsyncStorage.removeItem(SELECTED_MODEL_KEY);
+      }
+    } catch (error) {
+      console.error('[🧠 ModelRepository] Failed to save selected model:', error);
+    }
+  }
+}
+
+export default ModelRepository.getInstance();
@@ -0,0 +1,181 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { PhotoCheckResult, PhotoIssue, PhotoQualityReport, TrainingPhoto } from '../types/training.types';
+
+// dHash compares each pixel with its right neighbour on a 9x8 grayscale thumbnail
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export const MIN_SHORT_SIDE = 512; // Faces get too few pixels for training below this
+export const MAX_ASPECT_RATIO = 2.5; // Panoramas and long screenshots
+export const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20 MB
+export const DUPLICATE_DISTANCE = 6; // Hash bits (of 64) that may differ for near-duplicates
+
+type ThumbnailLoader = (uri: string, width: number, height: number) => Promise<number[]>;
+
+export interface PhotoQualityOptions {
+  thumbnailLoader?: ThumbnailLoader; // Grayscale values (0-255), row by row. Injected by tests.
+}
+
+/**
+ * Difference hash: one bit per horizontally adjacent pixel pair, set when the
+ * left pixel is brighter. Survives resizing, recompression and small edits.
+ */
+export const computeDifferenceHash = (luminance: number[], width = HASH_WIDTH, height = HASH_HEIGHT): string => {
+  let hex = '';
+  let nibble = 0;
+  let bits = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      nibble = (nibble << 1) | (luminance[y * width + x] > luminance[y * width + x + 1] ? 1 : 0);
+      bits++;
+      if (bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Checks that only need the picker's metadata
+export const checkPhotoMetadata = (photo: TrainingPhoto): PhotoIssue[] => {
+  const issues: PhotoIssue[] = [];
+  const shortSide = Math.min(photo.width, photo.height);
+  const longSide = Math.max(photo.width, photo.height);
+
+  if (shortSide > 0 && shortSide < MIN_SHORT_SIDE) {
+    issues.push({ type: 'lowResolution', message: `Low resolution (${photo.width}×${photo.height})` });
+  }
+  if (shortSide > 0 && longSide / shortSide > MAX_ASPECT_RATIO) {
+    issues.push({ type: 'extremeAspectRatio', message: 'Unusual shape - crop closer to your face' });
+  }
+  if (photo.fileSize && photo.fileSize > MAX_FILE_SIZE) {
+    issues.push({ type: 'oversized', message: `Very large file (${formatMegabytes(photo.fileSize)})` });
+  }
+  return issues;
+};
+
+/**
+ * Pair each near-duplicate with the first photo it resembles. The first photo
+ * of a group is kept unflagged so the user only has to drop the copies.
+ */
+export const findNearDuplicates = (
+  hashes: { id: string; hash: string }[],
+  maxDistance = DUPLICATE_DISTANCE
+): Map<string, string> => {
+  const duplicates = new Map<string, string>();
+  const originals: { id: string; hash: string }[] = [];
+
+  hashes.forEach(entry => {
+    const original = originals.find(candidate => hammingDistance(candidate.hash, entry.hash) <= maxDistance);
+    if (original) {
+      duplicates.set(entry.id, original.id);
+    } else {
+      originals.push(entry);
+    }
+  });
+  return duplicates;
+};
+
+const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Let the native side do the heavy downscaling; only a 9x8 JPEG is decoded in JS
+const loadGrayscaleThumbnail: ThumbnailLoader = async (uri, width, height) => {
+  const image = await ImageManipulator.manipulate(uri).resize({ width, height }).renderAsync();
+  const { base64 } = await image.saveAsync({ format: SaveFormat.JPEG, compress: 1, base64: true });
+  if (!base64) throw new Error('Thumbnail has no data');
+
+  const { data } = decodeJpeg(decodeBase64(base64), { useTArray: true, formatAsRGBA: true });
+  const luminance: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    luminance.push(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return luminance;
+};
+
+/**
+ * Photo Quality Service
+ * On-device checks for training photos before they are uploaded: near-duplicates,
+ * low resolution, extreme aspect ratios and oversized files.
+ */
+class PhotoQualityService {
+  private static instance: PhotoQualityService;
+  private options: PhotoQualityOptions = {};
+
+  private constructor() {}
+
+  public static getInstance(): PhotoQualityService {
+    if (!PhotoQualityService.instance) {
+      PhotoQualityService.instance = new PhotoQualityService();
+    }
+    return PhotoQualityService.instance;
+  }
+
+  public configure(options: PhotoQualityOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public async analyzePhotos(
+    photos: TrainingPhoto[],
+    onProgress?: (checked: number, total: number) => void
+  ): Promise<PhotoQualityReport> {
+    const loadThumbnail = this.options.thumbnailLoader || loadGrayscaleThumbnail;
+    const results: PhotoCheckResult[] = [];
+
+    // One at a time - each thumbnail is a native round trip and memory is tight with 50 photos
+    for (const photo of photos) {
+      const result: PhotoCheckResult = { photo, issues: checkPhotoMetadata(photo) };
+      try {
+        result.hash = computeDifferenceHash(await loadThumbnail(photo.uri, HASH_WIDTH, HASH_HEIGHT));
+      } catch (error) {
+        // Duplicate detection is best effort; the metadata checks still apply
+        console.warn('[🔍 PhotoQuality] ⚠️ Could not hash photo:', photo.id, error);
+      }
+      results.push(result);
+      onProgress?.(results.length, photos.length);
+    }
+
+    const hashed = results
+      .filter((result): result is PhotoCheckResult & { hash: string } => !!result.hash)
+      .map(result => ({ id: result.photo.id, hash: result.hash }));
+    const duplicates = findNearDuplicates(hashed);
+
+    results.forEach(result => {
+      const duplicateOf = duplicates.get(result.photo.id);
+      if (duplicateOf) {
+        const originalIndex = photos.findIndex(photo => photo.id === duplicateOf);
+        result.issues.push({ type: 'duplicate', message: `Looks like photo ${originalIndex + 1}`, duplicateOf });
+      }
+    });
+
+    const flaggedCount = results.filter(result => result.issues.length > 0).length;
+    console.log(`[🔍 PhotoQuality] Checked ${photos.length} photos, ${flaggedCount} flagged`);
+    return { results, flaggedCount };
+  }
+}
+
+export default PhotoQualityService.getInstance();
@@ -0,0 +1,163 @@
+import { createClient, RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CONFIG } from './APIService';
+import { Preset, PresetChange } from '../types/preset.types';
+
+/**
+ * Preset Realtime Service
+ * Listens to insert/update/delete events on the Supabase presets table and
+ * hands them to PresetRepository as PresetChanges, so an `is_active` flip or a
+ * `sort_order` change shows up without waiting for the next revalidation.
+ */
+
+// What Supabase Realtime delivers for a postgres_changes event
+export interface PresetChangePayload {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Partial<Preset>;
+  old: Partial<Preset>;
+}
+
+// The subset of RealtimeChannel this service uses
+export interface PresetChangeChannel {
+  on(
+    type: 'postgres_changes',
+    filter: { event: '*'; schema: string; table: string },
+    callback: (payload: PresetChangePayload) => void
+  ): PresetChangeChannel;
+  subscribe(callback?: (status: string, error?: Error) => void): PresetChangeChannel;
+  unsubscribe(): unknown;
+}
+
+export interface PresetRealtimeOptions {
+  channelFactory?: (name: string) => PresetChangeChannel; // Injected by tests to emit changes by hand
+}
+
+export interface PresetRealtimeHandlers {
+  onChange: (change: PresetChange) => void;
+  onResubscribed?: () => void; // The channel came back after dropping - changes may have been missed
+}
+
+const CHANNEL_NAME = 'preset-catalog';
+
+// Map a Realtime payload to a PresetChange, or null if it can't be applied
+export const toPresetChange = (payload: PresetChangePayload): PresetChange | null => {
+  switch (payload.eventType) {
+    case 'INSERT':
+    case 'UPDATE':
+      if (!payload.new?.id) return null;
+      return { event: payload.eventType, preset: payload.new as Preset, oldId: payload.old?.id };
+    case 'DELETE':
+      if (!payload.old?.id) return null;
+      return { event: 'DELETE', preset: null, oldId: payload.old.id };
+    default:
+      return null;
+  }
+};
+
+class PresetRealtimeService {
+  private static instance: PresetRealtimeService;
+  private client: SupabaseClient | null = null;
+  private channel: PresetChangeChannel | null = null; // A RealtimeChannel unless a test injected one
+  private handlers: PresetRealtimeHandlers | null = null;
+  private subscribed = false;
+  private interrupted = false;
+  private options: PresetRealtimeOptions = {};
+
+  private constructor() {}
+
+  public static getInstance(): PresetRealtimeService {
+    if (!PresetRealtimeService.instance) {
+      PresetRealtimeService.instance = new PresetRealtimeService();
+    }
+    return PresetRealtimeService.instance;
+  }
+
+  public configure(options: PresetRealtimeOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public isActive(): boolean {
+    return this.channel !== null;
+  }
+
+  public start(handlers: PresetRealtimeHandlers): void {
+    this.handlers = handlers;
+    if (this.channel) return;
+
+    console.log('[📡 PresetRealtime] Subscribing to preset changes');
+
+    try {
+      this.channel = this.createChannel()
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: SUPABASE_CONFIG.presetsTable },
+          payload => this.handlePayload(payload)
+        )
+        .subscribe((status, error) => this.handleStatus(status, error));
+    } catch (error) {
+      // Realtime is an optimisation - revalidation still keeps the catalog fresh
+      console.warn('[📡 PresetRealtime] ⚠️ Could not subscribe to preset changes:', error);
+      this.channel = null;
+    }
+  }
+
+  public stop(): void {
+    if (!this.channel) return;
+
+    console.log('[📡 PresetRealtime] Unsubscribing from preset changes');
+    const channel = this.channel;
+    this.channel = null;
+    this.handlers = null;
+    this.subscribed = false;
+    this.interrupted = false;
+
+    if (this.client && channel instanceof RealtimeChannel) {
+      this.client.removeChannel(channel);
+    } else {
+      channel.unsubscribe();
+    }
+  }
+
+  private createChannel(): PresetChangeChannel {
+    if (this.options.channelFactory) {
+      return this.options.channelFactory(CHANNEL_NAME);
+    }
+
+    if (!this.client) {
+      this.client = createClient(SUPABASE_CONFIG.url, SUPABASE_CONFIG.apiKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+    }
+    return this.client.channel(CHANNEL_NAME);
+  }
+
+  private handlePayload(payload: PresetChangePayload): void {
+    const change = toPresetChange(payload);
+    if (!change) {
+      console.warn('[📡 PresetRealtime] ⚠️ Ignoring malformed change:', payload?.eventType);
+      return;
+    }
+
+    console.log('[📡 PresetRealtime] Preset', change.event, change.preset?.id || change.oldId);
+    this.handlers?.onChange(change);
+  }
+
+  private handleStatus(status: string, error?: Error): void {
+    if (status === 'SUBSCRIBED') {
+      // Realtime rejoins on its own; catch up on whatever happened while it was down
+      if (this.subscribed && this.interrupted) {
+        console.log('[📡 PresetRealtime] Resubscribed, catching up');
+        this.handlers?.onResubscribed?.();
+      }
+      this.subscribed = true;
+      this.interrupted = false;
+      return;
+    }
+
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      console.warn('[📡 PresetRealtime] ⚠️ Channel', status, error?.message || '');
+      this.interrupted = true;
+    }
+  }
+}
+
+export default PresetRealtimeService.getInstance();
@@ -0,0 +1,271 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APIService } from './APIService';
+import ImageCacheManager, { CachePriority } from './ImageCacheManager';
+import PresetRealtimeService from './PresetRealtimeService';
+import { CachedPresetCatalog, Preset, PresetCatalogDiff, PresetChange } from '../types/preset.types';
+
+const CATALOG_STORAGE_KEY = 'preset_catalog';
+const REVALIDATE_INTERVAL_MS = 60 * 1000; // Don't hit Supabase on every screen mount
+
+type CatalogListener = (presets: Preset[], diff: PresetCatalogDiff) => void;
+
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Prefer the server's ETag; otherwise version by updated_at, or by content when the rows don't carry it
+export const getCatalogVersion = (presets: Preset[], etag?: string | null): string => {
+  if (etag) return `etag:${etag}`;
+
+  const timestamps = presets.map(preset => preset.updated_at).filter((value): value is string => !!value);
+  if (timestamps.length === presets.length && timestamps.length > 0) {
+    return `updated:${timestamps.sort()[timestamps.length - 1]}:${presets.length}`;
+  }
+  return `hash:${hashString(JSON.stringify(presets))}`;
+};
+
+const presetContentChanged = (a: Preset, b: Preset): boolean =>
+  a.name !== b.name ||
+  a.image_url !== b.image_url ||
+  a.prompt !== b.prompt ||
+  a.category !== b.category ||
+  a.style_id !== b.style_id ||
+  a.updated_at !== b.updated_at;
+
+export const diffPresets = (previous: Preset[], next: Preset[]): PresetCatalogDiff => {
+  const previousById = new Map(previous.map(preset => [preset.id, preset]));
+  const nextIds = new Set(next.map(preset => preset.id));
+
+  const added = next.filter(preset => !previousById.has(preset.id));
+  const removed = previous.filter(preset => !nextIds.has(preset.id));
+  const updated = next.filter(preset => {
+    const old = previousById.get(preset.id);
+    return !!old && presetContentChanged(old, preset);
+  });
+
+  // Compare the relative order of presets present in both catalogs
+  const keptPrevious = previous.filter(preset => nextIds.has(preset.id)).map(preset => preset.id);
+  const keptNext = next.filter(preset => previousById.has(preset.id)).map(preset => preset.id);
+  const reordered = keptPrevious.some((id, index) => keptNext[index] !== id);
+
+  return { added, removed, updated, reordered };
+};
+
+/**
+ * Apply one realtime row change to a catalog. Only active presets are kept, so
+ * an `is_active` flip to false removes the preset; the result stays in sort_order.
+ */
+export const applyPresetChange = (presets: Preset[], change: PresetChange): Preset[] => {
+  const id = change.preset?.id || change.oldId;
+  if (!id) return presets;
+
+  const index = presets.findIndex(preset => preset.id === id);
+  const next = presets.filter(preset => preset.id !== id);
+
+  if (change.event !== 'DELETE' && change.preset?.is_active) {
+    // Keep the old position for ties so an unrelated update doesn't shuffle equal sort_orders
+    next.splice(index === -1 ? next.length : index, 0, { ...presets[index], ...change.preset });
+  }
+
+  return next.sort((a, b) => a.sort_order - b.sort_order);
+};
+
+export const isEmptyDiff = (diff: PresetCatalogDiff): boolean =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.updated.length === 0 && !diff.reordered;
+
+/**
+ * Preset Repository
+ * Offline-first access to the preset catalog: cached presets are returned
+ * immediately and revalidated against Supabase in the background. While anyone
+ * is subscribed, Supabase Realtime changes are applied to the cache as they happen.
+ */
+class PresetRepository {
+  private static instance: PresetRepository;
+  private catalog: CachedPresetCatalog | null = null;
+  private catalogLoaded = false;
+  private revalidation: Promise<PresetCatalogDiff | null> | null = null;
+  private listeners = new Set<CatalogListener>();
+
+  private constructor() {}
+
+  public static getInstance(): PresetRepository {
+    if (!PresetRepository.instance) {
+      PresetRepository.instance = new PresetRepository();
+    }
+    return PresetRepository.instance;
+  }
+
+  /**
+   * Stale-while-revalidate: resolves with the cached catalog when there is one
+   * (and refreshes it in the background), otherwise waits for the network.
+   * Only throws when there is neither a cache nor a connection.
+   */
+  public async getPresets(options: { forceRefresh?: boolean } = {}): Promise<Preset[]> {
+    const cached = await this.loadCatalog();
+
+    if (!cached) {
+      await this.revalidate();
+      return this.catalog?.presets || [];
+    }
+
+    if (options.forceRefresh || this.isStale(cached)) {
+      this.revalidate().catch(error => {
+        console.warn('[📚 PresetRepository] ⚠️ Background revalidation failed, keeping cached catalog:', error?.message || error);
+      });
+    }
+    return cached.presets;
+  }
+
+  public async getCachedPresets(): Promise<Preset[] | null> {
+    const cached = await this.loadCatalog();
+    return cached ? cached.presets : null;
+  }
+
+  /**
+   * Fetch the latest catalog and replace the cache if it changed. Concurrent
+   * calls share one request. Resolves with the diff, or null when nothing changed.
+   */
+  public revalidate(): Promise<PresetCatalogDiff | null> {
+    if (!this.revalidation) {
+      this.revalidation = this.fetchAndStore().finally(() => {
+        this.revalidation = null;
+      });
+    }
+    return this.revalidation;
+  }
+
+  // Called with the new catalog whenever a revalidation or realtime change updates it
+  public subscribe(listener: CatalogListener): { remove: () => void } {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.startRealtime();
+    }
+
+    return {
+      remove: () => {
+        this.listeners.delete(listener);
+        if (this.listeners.size === 0) {
+          PresetRealtimeService.stop();
+        }
+      },
+    };
+  }
+
+  /**
+   * Apply a realtime row change to the cached catalog and notify subscribers.
+   * Resolves with the diff, or null when the change didn't affect the catalog.
+   */
+  public async applyChange(change: PresetChange): Promise<PresetCatalogDiff | null> {
+    const previous = await this.loadCatalog();
+    // Nothing to patch yet - the first fetch will include this change
+    if (!previous) return null;
+
+    const presets = applyPresetChange(previous.presets, change);
+    const diff = diffPresets(previous.presets, presets);
+    if (isEmptyDiff(diff)) return null;
+
+    // The ETag no longer describes this catalog, so the next revalidation does a full fetch
+    await this.persist({ presets, version: getCatalogVersion(presets), fetchedAt: previous.fetchedAt });
+    this.prefetchThumbnails(diff);
+    this.listeners.forEach(listener => listener(presets, diff));
+    return diff;
+  }
+
+  private startRealtime(): void {
+    PresetRealtimeService.start({
+      onChange: change => {
+        this.applyChange(change).catch(error => {
+          console.error('[📚 PresetRepository] Failed to apply realtime change:', error);
+        });
+      },
+      onResubscribed: () => {
+        this.revalidate().catch(error => {
+          console.warn('[📚 PresetRepository] ⚠️ Catch-up revalidation failed:', error?.message || error);
+        });
+      },
+    });
+  }
+
+  private isStale(catalog: CachedPresetCatalog): boolean {
+    return Date.now() - new Date(catalog.fetchedAt).getTime() > REVALIDATE_INTERVAL_MS;
+  }
+
+  private async loadCatalog(): Promise<CachedPresetCatalog | null> {
+    if (this.catalogLoaded) return this.catalog;
+
+    try {
+      const stored = await AsyncStorage.getItem(CATALOG_STORAGE_KEY);
+      // A revalidation may have finished while storage was being read
+      if (!this.catalogLoaded) {
+        this.catalog = stored ? JSON.parse(stored) : null;
+      }
+    } catch (error) {
+      console.error('[📚 PresetRepository] Failed to load cached catalog:', error);
+    }
+    this.catalogLoaded = true;
+    return this.catalog;
+  }
+
+  private async fetchAndStore(): Promise<PresetCatalogDiff | null> {
+    const previous = await this.loadCatalog();
+    const etag = previous?.version.startsWith('etag:') ? previous.version.slice('etag:'.length) : null;
+
+    const response = await APIService.fetchPresetCatalog(etag);
+    const fetchedAt = new Date().toISOString();
+
+    if (response.notModified && previous) {
+      console.log('[📚 PresetRepository] Catalog unchanged (304)');
+      await this.persist({ ...previous, fetchedAt });
+      return null;
+    }
+
+    const version = getCatalogVersion(response.presets, response.etag);
+    if (previous && previous.version === version) {
+      console.log('[📚 PresetRepository] Catalog unchanged, version', version);
+      await this.persist({ ...previous, fetchedAt });
+      return null;
+    }
+
+    const diff = diffPresets(previous?.presets || [], response.presets);
+    await this.persist({ presets: response.presets, version, fetchedAt });
+
+    console.log(
+      `[📚 PresetRepository] Catalog updated: +${diff.added.length} -${diff.removed.length} ~${diff.updated.length}` +
+      (diff.reordered ? ' (reordered)' : '')
+    );
+
+    this.prefetchThumbnails(previous ? diff : { ...diff, added: response.presets });
+
+    if (!isEmptyDiff(diff) || !previous) {
+      this.listeners.forEach(listener => listener(response.presets, diff));
+    }
+    return diff;
+  }
+
+  // Warm the image cache for thumbnails the user hasn't seen yet
+  private prefetchThumbnails(diff: PresetCatalogDiff): void {
+    const urls = [...diff.added, ...diff.updated]
+      .map(preset => preset.image_url)
+      .filter(Boolean);
+
+    if (urls.length > 0) {
+      ImageCacheManager.preloadImages(urls, CachePriority.NORMAL);
+    }
+  }
+
+  private async persist(catalog: CachedPresetCatalog): Promise<void> {
+    this.catalog = catalog;
+    this.catalogLoaded = true;
+    try {
+      await AsyncStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(catalog));
+    } catch (error) {
+      console.error('[📚 PresetRepository] Failed to save catalog:', error);
+    }
+  }
+}
+
+export default PresetRepository.getInstance();
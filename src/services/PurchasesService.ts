@@ -0,0 +1,181 @@
+import { APIService } from './APIService';
+import AuthService from './AuthService';
+import {
+  Entitlement,
+  FREE_TIER,
+  PurchaseProduct,
+  PurchaseProvider,
+  PurchaseValidationError,
+} from '../types/purchases.types';
+
+type EntitlementListener = (entitlement: Entitlement) => void;
+
+export const freeEntitlement = (): Entitlement => ({ tier: FREE_TIER, productId: null, expiresAt: null, rank: 0 });
+
+export const isEntitlementActive = (entitlement: Entitlement, now: number = Date.now()): boolean =>
+  !entitlement.expiresAt || Date.parse(entitlement.expiresAt) > now;
+
+// The highest-ranked entitlement that hasn't expired, or the free tier
+export const pickEntitlement = (entitlements: Entitlement[], now: number = Date.now()): Entitlement =>
+  entitlements
+    .filter(entitlement => isEntitlementActive(entitlement, now))
+    .sort((a, b) => b.rank - a.rank)[0] || freeEntitlement();
+
+// "free" -> "Free", for the plan pill
+export const formatTierLabel = (tier: string | undefined): string => {
+  const name = tier || FREE_TIER;
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+/**
+ * Purchases Service
+ * Upgrades through whichever store provider is installed. Every receipt is
+ * validated by the backend before anything unlocks; the resulting entitlement
+ * becomes the user's subscriptionTier and is announced to subscribers so
+ * gated features can refresh their limits.
+ */
+class PurchasesService {
+  private static instance: PurchasesService;
+  private provider: PurchaseProvider | null = null;
+  private initializing: Promise<void> | null = null;
+  private products: PurchaseProduct[] | null = null;
+  private entitlement: Entitlement = freeEntitlement();
+  private listeners: EntitlementListener[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): PurchasesService {
+    if (!PurchasesService.instance) {
+      PurchasesService.instance = new PurchasesService();
+    }
+    return PurchasesService.instance;
+  }
+
+  public setProvider(provider: PurchaseProvider | null): void {
+    console.log('[💳 PurchasesService] Using provider:', provider?.platform || 'none');
+    this.provider = provider;
+    this.initializing = null;
+    this.products = null;
+  }
+
+  // False when no store is installed, e.g. in a simulator build without one
+  public isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  public getEntitlement(): Entitlement {
+    return this.entitlement;
+  }
+
+  public subscribe(listener: EntitlementListener): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // The backend's catalog, limited to what the store sells, with store prices
+  public async getProducts(): Promise<PurchaseProduct[]> {
+    const provider = await this.ready();
+    if (!this.products) {
+      const catalog = await APIService.fetchPurchaseCatalog();
+      this.products = await provider.getProducts(catalog);
+      console.log(`[💳 PurchasesService] ${this.products.length} of ${catalog.length} products available`);
+    }
+    return this.products;
+  }
+
+  /**
+   * Buy a product. Throws PurchaseCancelledError when the user backs out. The
+   * store transaction is only finished once the backend accepted the receipt;
+   * when it doesn't, the user has already paid, so this throws
+   * PurchaseValidationError and the open transaction can be restored later.
+   */
+  public async purchase(productId: string): Promise<Entitlement> {
+    const provider = await this.ready();
+    console.log('[💳 PurchasesService] Purchasing:', productId);
+
+    const receipt = await provider.purchase(productId);
+    let entitlement: Entitlement;
+    try {
+      entitlement = await APIService.validatePurchase(receipt);
+    } catch (error) {
+      console.warn('[💳 PurchasesService] ⚠️ Paid but not validated:', receipt.transactionId, error);
+      throw new PurchaseValidationError(receipt, error);
+    }
+    await provider.finishTransaction(receipt);
+
+    await this.applyEntitlement(entitlement);
+    return entitlement;
+  }
+
+  // Validate everything the store says the user owns and keep the best plan
+  public async restore(): Promise<Entitlement> {
+    const provider = await this.ready();
+    const receipts = await provider.restore();
+    console.log('[💳 PurchasesService] Restoring', receipts.length, 'purchases');
+
+    const validated: Entitlement[] = [];
+    for (const receipt of receipts) {
+      try {
+        validated.push(await APIService.validatePurchase(receipt));
+        await provider.finishTransaction(receipt);
+      } catch (error) {
+        console.warn('[💳 PurchasesService] ⚠️ Could not restore purchase:', receipt.productId, error);
+      }
+    }
+
+    const entitlement = pickEntitlement([this.entitlement, ...validated]);
+    await this.applyEntitlement(entitlement);
+    return entitlement;
+  }
+
+  // The backend's view of the user's plan, e.g. after a renewal or expiry
+  public async refreshEntitlement(): Promise<Entitlement> {
+    const entitlement = await APIService.fetchEntitlement();
+    await this.applyEntitlement(entitlement);
+    return entitlement;
+  }
+
+  // Forget the signed-out user's plan so it can't carry over to the next account
+  public clear(): void {
+    const previous = this.entitlement;
+    this.entitlement = freeEntitlement();
+    if (previous.tier !== this.entitlement.tier) {
+      this.notify();
+    }
+  }
+
+  private async ready(): Promise<PurchaseProvider> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('Purchases are not available on this device');
+    }
+    if (!this.initializing) {
+      this.initializing = provider.initialize();
+    }
+    await this.initializing;
+    return provider;
+  }
+
+  private async applyEntitlement(entitlement: Entitlement): Promise<void> {
+    const previous = this.entitlement;
+    this.entitlement = entitlement;
+    await AuthService.updateSubscriptionTier(entitlement.tier);
+
+    if (previous.tier !== entitlement.tier || previous.expiresAt !== entitlement.expiresAt) {
+      console.log('[💳 PurchasesService] Plan changed:', previous.tier, '→', entitlement.tier);
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.entitlement));
+  }
+}
+
+export default PurchasesService.getInstance();
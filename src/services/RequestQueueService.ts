@@ -0,0 +1,364 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import axios from 'axios';
+import {
+  QueuedRequest,
+  QueuedRequestKind,
+  QueuedRequestPayload,
+  RequestQueueEvent,
+  SerializedFormPart,
+} from '../types/queue.types';
+import { ApiError, ApiErrorType, NetworkError } from '../types/api.types';
+
+const QUEUE_STORAGE_KEY = 'outbound_request_queue';
+
+const BASE_RETRY_DELAY = 5000; // 5 seconds
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+const MAX_SERVER_ATTEMPTS = 8; // Server errors give up eventually, network errors keep waiting
+const MAX_REQUEST_AGE = 24 * 60 * 60 * 1000; // Drop requests the user queued more than a day ago
+
+// Thrown by APIService when a request could not reach the backend and was queued for later
+export class RequestQueuedError extends NetworkError {
+  public readonly queuedRequest: QueuedRequest;
+
+  constructor(queuedRequest: QueuedRequest) {
+    super(ApiErrorType.NETWORK_ERROR, "You're offline. We'll send this request as soon as you're back online.");
+    this.name = 'RequestQueuedError';
+    this.queuedRequest = queuedRequest;
+  }
+}
+
+// A request that left the device but never got an answer (offline, DNS, timeout)
+export const isNetworkError = (error: any): boolean => {
+  if (error instanceof NetworkError) return true;
+  if (axios.isAxiosError(error)) {
+    return !error.response;
+  }
+  return error?.message === 'Network request failed';
+};
+
+// Server errors worth retrying; other 4xx responses will never succeed on replay
+const isRetryableError = (error: any): boolean => {
+  if (error instanceof ApiError) return error.isRetryable;
+  if (isNetworkError(error)) return true;
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status === 429 || (status !== undefined && status >= 500);
+};
+
+export const generateIdempotencyKey = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// React Native's FormData keeps its entries in `_parts` as [name, value] tuples
+export const serializeFormData = (formData: FormData): SerializedFormPart[] => {
+  const parts: [string, any][] = (formData as any)._parts || [];
+  return parts.map(([name, value]) =>
+    value && typeof value === 'object' && 'uri' in value
+      ? { name, file: { uri: value.uri, type: value.type, name: value.name } }
+      : { name, value: String(value) }
+  );
+};
+
+export const deserializeFormData = (parts: SerializedFormPart[]): FormData => {
+  const formData = new FormData();
+  parts.forEach(part => {
+    if ('file' in part) {
+      formData.append(part.name, part.file as any);
+    } else {
+      formData.append(part.name, part.value);
+    }
+  });
+  return formData;
+};
+
+type RequestHandler = (payload: QueuedRequestPayload, idempotencyKey: string) => Promise<any>;
+type QueueListener = (event: RequestQueueEvent) => void;
+type OnlineListener = () => void;
+
+class RequestQueueService {
+  private static instance: RequestQueueService;
+  private requests: QueuedRequest[] = [];
+  private handlers: Partial<Record<QueuedRequestKind, RequestHandler>> = {};
+  private listeners: QueueListener[] = [];
+  private onlineListeners: OnlineListener[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private processing = false;
+  private offline = false; // Set when a request couldn't reach the backend, cleared by the next successful one
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): RequestQueueService {
+    if (!RequestQueueService.instance) {
+      RequestQueueService.instance = new RequestQueueService();
+    }
+    return RequestQueueService.instance;
+  }
+
+  // APIService registers how each kind of request is sent (avoids a circular import)
+  public registerHandler(kind: QueuedRequestKind, handler: RequestHandler): void {
+    this.handlers[kind] = handler;
+  }
+
+  // Subscribe to queue changes and replay results
+  public subscribe(listener: QueueListener): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Called once each time the device comes back online after a request failed to reach the backend
+  public subscribeOnline(listener: OnlineListener): () => void {
+    this.onlineListeners.push(listener);
+
+    return () => {
+      const index = this.onlineListeners.indexOf(listener);
+      if (index > -1) {
+        this.onlineListeners.splice(index, 1);
+      }
+    };
+  }
+
+  public async getPendingRequests(kind?: QueuedRequestKind): Promise<QueuedRequest[]> {
+    await this.ensureLoaded();
+    return kind ? this.requests.filter(request => request.kind === kind) : [...this.requests];
+  }
+
+  /**
+   * Add a request to the queue. Requests are deduplicated by idempotency key,
+   * so enqueuing the same request twice keeps a single entry.
+   */
+  public async enqueue(
+    kind: QueuedRequestKind,
+    payload: QueuedRequestPayload,
+    idempotencyKey: string,
+    meta?: Record<string, any>
+  ): Promise<QueuedRequest> {
+    await this.ensureLoaded();
+
+    const existing = this.requests.find(request => request.id === idempotencyKey);
+    if (existing) {
+      console.log('[📮 RequestQueue] Request already queued, skipping duplicate:', idempotencyKey);
+      return existing;
+    }
+
+    const request: QueuedRequest = {
+      id: idempotencyKey,
+      kind,
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() + BASE_RETRY_DELAY).toISOString(),
+      waitingForNetwork: true,
+      meta,
+    };
+
+    this.requests = [...this.requests, request];
+    this.offline = true;
+    console.log(`[📮 RequestQueue] Queued ${kind} request:`, idempotencyKey);
+    await this.persist();
+    this.scheduleNextAttempt();
+    return request;
+  }
+
+  public async remove(id: string): Promise<void> {
+    await this.ensureLoaded();
+    this.requests = this.requests.filter(request => request.id !== id);
+    await this.persist();
+    this.scheduleNextAttempt();
+  }
+
+  // A request couldn't reach the backend; the next notifyOnline counts as connectivity coming back
+  public notifyOffline(): void {
+    this.offline = true;
+  }
+
+  /**
+   * Called when a request reached the backend. Only acts on the transition from
+   * offline, so routine responses cost nothing: online listeners are told and
+   * requests that were only waiting for the network are replayed right away.
+   * Requests backing off after server errors keep their schedule.
+   */
+  public notifyOnline(): void {
+    if (!this.offline) return;
+    this.offline = false;
+    console.log('[📮 RequestQueue] Connectivity restored');
+
+    const now = new Date().toISOString();
+    this.requests = this.requests.map(request =>
+      request.waitingForNetwork ? { ...request, nextAttemptAt: now } : request
+    );
+
+    this.onlineListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[📮 RequestQueue] Listener error:', error);
+      }
+    });
+    if (this.requests.length > 0) {
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Replay due requests in the order they were queued
+   */
+  public async processQueue(force: boolean = false): Promise<void> {
+    await this.ensureLoaded();
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = Date.now();
+      const due = this.requests.filter(request => force || new Date(request.nextAttemptAt).getTime() <= now);
+
+      for (const request of due) {
+        if (now - new Date(request.createdAt).getTime() > MAX_REQUEST_AGE) {
+          await this.dropRequest(request, 'Request expired before the device came back online');
+          continue;
+        }
+
+        const handler = this.handlers[request.kind];
+        if (!handler) {
+          console.warn(`[📮 RequestQueue] ⚠️ No handler registered for ${request.kind}, keeping request`);
+          continue;
+        }
+
+        try {
+          console.log(`[📮 RequestQueue] 🔄 Replaying ${request.kind} (attempt ${request.attempts + 1}):`, request.id);
+          const result = await handler(request.payload, request.id);
+
+          this.requests = this.requests.filter(r => r.id !== request.id);
+          await this.persist();
+          console.log(`[📮 RequestQueue] ✅ Replayed ${request.kind}:`, request.id);
+          this.emit({ type: 'completed', request, result });
+        } catch (error: any) {
+          const attempts = request.attempts + 1;
+          const errorMessage = error?.message || 'Request failed';
+
+          if (!isRetryableError(error) || (!isNetworkError(error) && attempts >= MAX_SERVER_ATTEMPTS)) {
+            await this.dropRequest(request, errorMessage);
+            continue;
+          }
+
+          const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+          this.requests = this.requests.map(r =>
+            r.id === request.id
+              ? {
+                  ...r,
+                  attempts,
+                  lastError: errorMessage,
+                  nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+                  waitingForNetwork: isNetworkError(error),
+                }
+              : r
+          );
+          await this.persist();
+          console.log(`[📮 RequestQueue] ⏳ ${request.kind} still failing, retrying in ${Math.round(delay / 1000)}s:`, errorMessage);
+
+          // Still offline - no point hammering the rest of the queue right now
+          if (isNetworkError(error)) {
+            this.offline = true;
+            break;
+          }
+        }
+      }
+    } finally {
+      this.processing = false;
+      this.scheduleNextAttempt();
+    }
+  }
+
+  // Stop timers and listeners (used by tests)
+  public dispose(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.loadPromise = null;
+    this.requests = [];
+    this.onlineListeners = [];
+    this.offline = false;
+  }
+
+  private async dropRequest(request: QueuedRequest, errorMessage: string): Promise<void> {
+    console.error(`[📮 RequestQueue] ❌ Giving up on ${request.kind}:`, request.id, errorMessage);
+    this.requests = this.requests.filter(r => r.id !== request.id);
+    await this.persist();
+    this.emit({ type: 'failed', request, errorMessage });
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+      this.requests = stored ? JSON.parse(stored) : [];
+      if (this.requests.length > 0) {
+        console.log(`[📮 RequestQueue] Restored ${this.requests.length} queued requests`);
+      }
+    } catch (error) {
+      console.error('[📮 RequestQueue] Failed to load queue:', error);
+      this.requests = [];
+    }
+
+    // Timers don't fire while the app is suspended, so catch up on anything that fell due
+    this.appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active' && this.requests.length > 0) {
+        this.processQueue();
+      }
+    });
+
+    this.scheduleNextAttempt();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(this.requests));
+    } catch (error) {
+      console.error('[📮 RequestQueue] Failed to persist queue:', error);
+    }
+    this.emit({ type: 'changed', requests: [...this.requests] });
+  }
+
+  private scheduleNextAttempt(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.requests.length === 0 || this.processing) return;
+
+    const nextAttempt = Math.min(...this.requests.map(request => new Date(request.nextAttemptAt).getTime()));
+    const delay = Math.max(nextAttempt - Date.now(), 0);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, delay);
+  }
+
+  private emit(event: RequestQueueEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[📮 RequestQueue] Listener error:', error);
+      }
+    });
+  }
+}
+
+export default RequestQueueService.getInstance();
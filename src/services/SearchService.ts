@@ -0,0 +1,276 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GenerationBatch, Preset } from '../types/preset.types';
+
+const RECENT_SEARCHES_STORAGE_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 10;
+
+export type SearchScope = 'home' | 'gallery';
+
+// [start, end) character offsets into the original text
+export type MatchRange = [number, number];
+
+export interface FieldMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+export interface PresetSearchResult {
+  preset: Preset;
+  score: number;
+  matches: Partial<Record<'name' | 'category' | 'prompt', MatchRange[]>>;
+}
+
+export interface BatchSearchResult {
+  batch: GenerationBatch;
+  score: number;
+  presetName?: string;
+  nameRanges: MatchRange[];
+}
+
+// Name matches matter most, prompts least
+const FIELD_WEIGHTS = { name: 3, category: 2, prompt: 1 } as const;
+
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokenize = (query: string): string[] => normalize(query).split(/\s+/).filter(Boolean);
+
+const isWordStart = (text: string, index: number): boolean => index === 0 || /[^a-z0-9]/.test(text[index - 1]);
+
+// Subsequence match ("ptrt" -> "portrait"), scored by how tightly the characters cluster
+const matchSubsequence = (token: string, text: string): FieldMatch | null => {
+  const ranges: MatchRange[] = [];
+  let textIndex = 0;
+  let gaps = 0;
+
+  for (const char of token) {
+    const found = text.indexOf(char, textIndex);
+    if (found === -1) return null;
+
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === found) {
+      last[1] = found + 1;
+    } else {
+      if (last) gaps += found - last[1];
+      ranges.push([found, found + 1]);
+    }
+    textIndex = found + 1;
+  }
+
+  // Too scattered to be a meaningful match
+  if (gaps > token.length * 3) return null;
+  return { score: Math.max(0.1, 0.5 - gaps * 0.05), ranges };
+};
+
+/**
+ * Match one token against normalized text. Substrings beat subsequences,
+ * and substrings at the start of a word beat ones in the middle.
+ */
+const matchToken = (token: string, text: string): FieldMatch | null => {
+  let index = text.indexOf(token);
+  while (index !== -1) {
+    if (isWordStart(text, index)) {
+      return { score: index === 0 ? 1.5 : 1.2, ranges: [[index, index + token.length]] };
+    }
+    const next = text.indexOf(token, index + 1);
+    if (next === -1) break;
+    index = next;
+  }
+
+  const substring = text.indexOf(token);
+  if (substring !== -1) {
+    return { score: 0.8, ranges: [[substring, substring + token.length]] };
+  }
+
+  // Single characters would match almost anything as a subsequence
+  return token.length > 2 ? matchSubsequence(token, text) : null;
+};
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range] as MatchRange);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Fuzzy-match a query against a single piece of text. Every token of the
+ * query has to match for the text to count.
+ */
+export const fuzzyMatch = (query: string, text: string | undefined): FieldMatch | null => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0 || !text) return null;
+
+  // NFD normalization only strips combining marks, so offsets stay aligned with the original for
+  // precomposed text; fall back to no highlighting if the lengths ever differ
+  const normalizedText = normalize(text);
+  const offsetsAligned = normalizedText.length === text.length;
+
+  let score = 0;
+  const ranges: MatchRange[] = [];
+  for (const token of tokens) {
+    const match = matchToken(token, normalizedText);
+    if (!match) return null;
+    score += match.score;
+    ranges.push(...match.ranges);
+  }
+
+  return { score: score / tokens.length, ranges: offsetsAligned ? mergeRanges(ranges) : [] };
+};
+
+/**
+ * Rank presets by how well name, category and prompt match the query.
+ * Tokens may match across fields ("neon portrait" finds a "Neon" preset in "portrait").
+ */
+export const searchPresets = (presets: Preset[], query: string): PresetSearchResult[] => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+
+  const results: PresetSearchResult[] = [];
+
+  presets.forEach(preset => {
+    let score = 0;
+    const matches: PresetSearchResult['matches'] = {};
+
+    for (const token of tokens) {
+      let best: { field: keyof typeof FIELD_WEIGHTS; match: FieldMatch; weighted: number } | null = null;
+      for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+        const match = fuzzyMatch(token, preset[field]);
+        const weighted = match ? match.score * FIELD_WEIGHTS[field] : 0;
+        if (match && (!best || weighted > best.weighted)) {
+          best = { field, match, weighted };
+        }
+      }
+
+      if (!best) return;
+      const { field, match } = best;
+      score += match.score * FIELD_WEIGHTS[field];
+      matches[field] = mergeRanges([...(matches[field] || []), ...match.ranges]);
+    }
+
+    results.push({ preset, score, matches });
+  });
+
+  return results.sort((a, b) => b.score - a.score || a.preset.sort_order - b.preset.sort_order);
+};
+
+/**
+ * Match gallery batches by the preset that produced them. Batches that only
+ * carry a preset id are resolved against the fetched presets.
+ */
+export const searchBatches = (batches: GenerationBatch[], presets: Preset[], query: string): BatchSearchResult[] => {
+  if (tokenize(query).length === 0) return [];
+
+  const presetsById = new Map(presets.map(preset => [preset.id, preset]));
+  const scoreByPresetId = new Map(searchPresets(presets, query).map(result => [result.preset.id, result]));
+  const results: BatchSearchResult[] = [];
+
+  batches.forEach(batch => {
+    const presetId = batch.presetId || batch.preset?.id;
+    const preset = batch.preset || (presetId ? presetsById.get(presetId) : undefined);
+    const presetName = preset?.name || batch.presetName;
+    const presetResult = presetId ? scoreByPresetId.get(presetId) : undefined;
+
+    if (presetResult) {
+      results.push({ batch, score: presetResult.score, presetName, nameRanges: presetResult.matches.name || [] });
+      return;
+    }
+
+    // Custom prompts and presets that are no longer active only have what the batch itself carries
+    const nameMatch = fuzzyMatch(query, presetName);
+    const categoryMatch = fuzzyMatch(query, batch.category || preset?.category);
+    const promptMatch = fuzzyMatch(query, preset?.prompt);
+    const score = Math.max(
+      (nameMatch?.score || 0) * FIELD_WEIGHTS.name,
+      (categoryMatch?.score || 0) * FIELD_WEIGHTS.category,
+      (promptMatch?.score || 0) * FIELD_WEIGHTS.prompt
+    );
+    if (score > 0) {
+      results.push({ batch, score, presetName, nameRanges: nameMatch?.ranges || [] });
+    }
+  });
+
+  // Equal scores keep the gallery's newest-first order
+  return results.sort((a, b) => b.score - a.score || b.batch.generatedAt.getTime() - a.batch.generatedAt.getTime());
+};
+
+/**
+ * Search Service
+ * Keeps recent searches for the Home and Gallery search bars
+ */
+class SearchService {
+  private static instance: SearchService;
+  private recentSearches: Record<SearchScope, string[]> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): SearchService {
+    if (!SearchService.instance) {
+      SearchService.instance = new SearchService();
+    }
+    return SearchService.instance;
+  }
+
+  // Most recent first
+  public async getRecentSearches(scope: SearchScope): Promise<string[]> {
+    const recent = await this.load();
+    return recent[scope];
+  }
+
+  public async addRecentSearch(scope: SearchScope, query: string): Promise<string[]> {
+    const trimmed = query.trim();
+    const recent = await this.load();
+    if (!trimmed) return recent[scope];
+
+    recent[scope] = [
+      trimmed,
+      ...recent[scope].filter(item => normalize(item) !== normalize(trimmed)),
+    ].slice(0, MAX_RECENT_SEARCHES);
+
+    await this.persist();
+    return recent[scope];
+  }
+
+  public async removeRecentSearch(scope: SearchScope, query: string): Promise<string[]> {
+    const recent = await this.load();
+    recent[scope] = recent[scope].filter(item => item !== query);
+    await this.persist();
+    return recent[scope];
+  }
+
+  public async clearRecentSearches(scope: SearchScope): Promise<void> {
+    const recent = await this.load();
+    recent[scope] = [];
+    await this.persist();
+  }
+
+  private async load(): Promise<Record<SearchScope, string[]>> {
+    if (this.recentSearches) return this.recentSearches;
+
+    try {
+      const stored = await AsyncStorage.getItem(RECENT_SEARCHES_STORAGE_KEY);
+      this.recentSearches = { home: [], gallery: [], ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.error('[🔎 Search] Failed to load recent searches:', error);
+      this.recentSearches = { home: [], gallery: [] };
+    }
+    return this.recentSearches!;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(RECENT_SEARCHES_STORAGE_KEY, JSON.stringify(this.recentSearches));
+    } catch (error) {
+      console.error('[🔎 Search] Failed to save recent searches:', error);
+    }
+  }
+}
+
+export default SearchService.getInstance();
@@ -0,0 +1,142 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TrainingProgressRecord, TrainingStage } from '../types/training.types';
+
+const PROGRESS_STORAGE_KEY = 'training_progress';
+
+const MAX_SAMPLES = 20;
+const ETA_WINDOW_MS = 10 * 60 * 1000; // Estimate from the recent rate; early minutes are often slower
+const TYPICAL_TRAINING_SECONDS = 20 * 60; // Used until the backend reports enough progress to measure
+const FINALIZING_THRESHOLD = 0.95;
+
+const FINISHED_STATUSES = ['completed', 'succeeded', 'ready', 'failed', 'error', 'cancelled'];
+const QUEUED_STATUSES = ['pending', 'queued', 'starting', 'waiting'];
+const FINALIZING_STATUSES = ['finalizing', 'saving', 'uploading_weights', 'postprocessing'];
+
+export interface TrainingProgressReading {
+  status: string;
+  progress?: number;
+  message?: string;
+}
+
+export const isTrainingFinished = (status: string): boolean =>
+  FINISHED_STATUSES.includes(status.toLowerCase());
+
+// The status endpoint reports progress as a percentage (0-100); records keep a 0-1 fraction
+export const normalizeProgress = (value: number | undefined | null): number | null => {
+  if (value === undefined || value === null || isNaN(value)) return null;
+  return Math.min(1, Math.max(0, value / 100));
+};
+
+export const toTrainingStage = (status: string, progress: number): TrainingStage => {
+  const normalized = status.toLowerCase();
+  if (QUEUED_STATUSES.includes(normalized)) return 'queued';
+  if (FINALIZING_STATUSES.includes(normalized) || progress >= FINALIZING_THRESHOLD) return 'finalizing';
+  return 'training';
+};
+
+/**
+ * Seconds until training is done, from the progress rate over the last few
+ * minutes. Falls back to the typical duration when progress isn't moving (or
+ * isn't reported). Null while queued - the wait depends on other users.
+ */
+export const estimateSecondsRemaining = (
+  record: Pick<TrainingProgressRecord, 'stage' | 'progress' | 'samples' | 'firstSeenAt'>,
+  now: number = Date.now()
+): number | null => {
+  if (record.stage === 'queued') return null;
+
+  const recent = record.samples.filter(sample => now - sample.at <= ETA_WINDOW_MS);
+  if (recent.length >= 2) {
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const rate = (last.progress - first.progress) / ((last.at - first.at) / 1000);
+    if (rate > 0) {
+      return Math.round((1 - last.progress) / rate);
+    }
+  }
+
+  const elapsed = (now - new Date(record.firstSeenAt).getTime()) / 1000;
+  const fallback = record.progress > 0
+    ? TYPICAL_TRAINING_SECONDS * (1 - record.progress)
+    : TYPICAL_TRAINING_SECONDS - elapsed;
+  return Math.round(Math.max(60, fallback));
+};
+
+// Fold a status response into a model's record
+export const recordProgress = (
+  previous: TrainingProgressRecord | undefined,
+  modelId: string,
+  reading: TrainingProgressReading,
+  now: number = Date.now()
+): TrainingProgressRecord => {
+  const reported = normalizeProgress(reading.progress);
+  // Progress only moves forward; a missing value keeps the last one
+  const progress = Math.max(reported ?? 0, previous?.progress ?? 0);
+  const samples = reported === null
+    ? previous?.samples || []
+    : [...(previous?.samples || []), { at: now, progress }].slice(-MAX_SAMPLES);
+
+  const record: TrainingProgressRecord = {
+    modelId,
+    stage: toTrainingStage(reading.status, progress),
+    progress,
+    etaSeconds: null,
+    message: reading.message,
+    firstSeenAt: previous?.firstSeenAt || new Date(now).toISOString(),
+    updatedAt: new Date(now).toISOString(),
+    samples,
+  };
+  return { ...record, etaSeconds: estimateSecondsRemaining(record, now) };
+};
+
+export const formatTimeRemaining = (seconds: number): string => {
+  if (seconds < 60) return 'Less than a minute left';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `About ${minutes} min left`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `About ${hours} h ${rest} min left` : `About ${hours} h left`;
+};
+
+/**
+ * Training Progress Tracker
+ * Remembers the progress readings for models that are training so estimates
+ * survive an app restart. TrainingContext does the polling.
+ */
+class TrainingProgressTracker {
+  private static instance: TrainingProgressTracker;
+  private records: Record<string, TrainingProgressRecord> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): TrainingProgressTracker {
+    if (!TrainingProgressTracker.instance) {
+      TrainingProgressTracker.instance = new TrainingProgressTracker();
+    }
+    return TrainingProgressTracker.instance;
+  }
+
+  public async getRecords(): Promise<Record<string, TrainingProgressRecord>> {
+    if (this.records) return this.records;
+
+    try {
+      const stored = await AsyncStorage.getItem(PROGRESS_STORAGE_KEY);
+      this.records = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('[⏱️ TrainingProgress] Failed to load progress:', error);
+      this.records = {};
+    }
+    return this.records!;
+  }
+
+  public async saveRecords(records: Record<string, TrainingProgressRecord>): Promise<void> {
+    this.records = records;
+    try {
+      await AsyncStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(records));
+    } catch (error) {
+      console.error('[⏱️ TrainingProgress] Failed to save progress:', error);
+    }
+  }
+}
+
+export default TrainingProgressTracker.getInstance();
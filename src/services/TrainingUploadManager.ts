@@ -0,0 +1,452 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { APIService } from './APIService';
+import RequestQueue, { generateIdempotencyKey, isNetworkError } from './RequestQueueService';
+import { ApiError } from '../types/api.types';
+import {
+  TrainingUploadEvent,
+  TrainingUploadFile,
+  TrainingUploadJob,
+  TrainingUploadPurpose,
+} from '../types/training.types';
+
+const JOBS_STORAGE_KEY = 'training_upload_jobs';
+
+const MAX_UPLOAD_DIMENSION = 1536; // Long side; training doesn't benefit from more
+const UPLOAD_QUALITY = 0.85;
+const CONCURRENT_UPLOADS = 2;
+const MAX_FILE_ATTEMPTS = 4; // Per file, for server errors; network errors pause the whole job instead
+const BASE_RETRY_DELAY = 2000; // 2 seconds
+const MAX_JOB_AGE = 24 * 60 * 60 * 1000; // The backend expires unfinished upload sessions after a day
+
+type UploadListener = (event: TrainingUploadEvent) => void;
+
+export interface TrainingUploadOptions {
+  retryDelay?: number; // Base delay between attempts. Shortened by tests.
+}
+
+export interface TrainingUploadRequest {
+  purpose: TrainingUploadPurpose;
+  modelName?: string;
+  photos: { uri: string; width?: number; height?: number }[];
+  baseModelId?: string; // Retrain this model version with the new photos added
+  removedPhotoIds?: string[]; // Photos of the base version to leave out
+  meta?: Record<string, any>;
+}
+
+// Overall progress of a job, 0-1. Uploaded files count fully, in-flight files partially.
+export const getUploadProgress = (job: TrainingUploadJob): number => {
+  if (job.files.length === 0) return 1; // Retrains that only drop photos have nothing to send
+  const total = job.files.reduce((sum, file) => sum + (file.status === 'uploaded' ? 1 : file.progress), 0);
+  return total / job.files.length;
+};
+
+export const getUploadedCount = (job: TrainingUploadJob): number =>
+  job.files.filter(file => file.status === 'uploaded').length;
+
+/**
+ * Downscale so the long side fits MAX_UPLOAD_DIMENSION and re-encode as JPEG
+ * (HEIC and PNG picks become JPEG too). Resolves with the new file's uri.
+ */
+export const prepareTrainingPhoto = async (uri: string, width?: number, height?: number): Promise<string> => {
+  let context = ImageManipulator.manipulate(uri);
+  if (width && height && Math.max(width, height) > MAX_UPLOAD_DIMENSION) {
+    context = context.resize(width >= height ? { width: MAX_UPLOAD_DIMENSION } : { height: MAX_UPLOAD_DIMENSION });
+  }
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({ format: SaveFormat.JPEG, compress: UPLOAD_QUALITY });
+  return result.uri;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Training Upload Manager
+ * Uploads training photos one at a time into a backend upload session instead of
+ * one huge multipart request. Photos are resized first, each file retries on its
+ * own, and the job is persisted so it picks up where it left off after the app is
+ * backgrounded, goes offline or restarts. Training starts only once the session
+ * is committed, after every file has landed.
+ */
+class TrainingUploadManager {
+  private static instance: TrainingUploadManager;
+  private jobs: TrainingUploadJob[] = [];
+  private listeners: UploadListener[] = [];
+  private running = new Set<string>();
+  private loadPromise: Promise<void> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+  private unsubscribeOnline: (() => void) | null = null;
+  private options: TrainingUploadOptions = {};
+
+  private constructor() {}
+
+  public static getInstance(): TrainingUploadManager {
+    if (!TrainingUploadManager.instance) {
+      TrainingUploadManager.instance = new TrainingUploadManager();
+    }
+    return TrainingUploadManager.instance;
+  }
+
+  public configure(options: TrainingUploadOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public subscribe(listener: UploadListener): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Unfinished jobs, including ones restored from a previous launch
+  public async getJobs(purpose?: TrainingUploadPurpose): Promise<TrainingUploadJob[]> {
+    await this.ensureLoaded();
+    return purpose ? this.jobs.filter(job => job.purpose === purpose) : [...this.jobs];
+  }
+
+  /**
+   * Create an upload job and start sending it in the background. Resolves as
+   * soon as the job is saved; follow it with `subscribe`.
+   */
+  public async startUpload(request: TrainingUploadRequest): Promise<TrainingUploadJob> {
+    await this.ensureLoaded();
+
+    const job: TrainingUploadJob = {
+      id: generateIdempotencyKey(),
+      purpose: request.purpose,
+      modelName: request.modelName,
+      baseModelId: request.baseModelId,
+      removedPhotoIds: request.removedPhotoIds,
+      files: request.photos.map((photo, index) => ({
+        index,
+        sourceUri: photo.uri,
+        width: photo.width,
+        height: photo.height,
+        status: 'pending',
+        progress: 0,
+        attempts: 0,
+      })),
+      status: 'uploading',
+      createdAt: new Date().toISOString(),
+      meta: request.meta,
+    };
+
+    console.log(`[📤 TrainingUpload] Starting ${job.purpose} upload of ${job.files.length} photos:`, job.id);
+    this.jobs = [...this.jobs, job];
+    await this.persist();
+    this.emit({ type: 'progress', job });
+    this.run(job.id);
+    return job;
+  }
+
+  // Try a failed or paused job again; files that already landed are not re-sent
+  public async retry(jobId: string): Promise<void> {
+    await this.ensureLoaded();
+    this.updateJob(jobId, job => ({
+      ...job,
+      status: 'uploading',
+      error: undefined,
+      files: job.files.map(file =>
+        file.status === 'failed' ? { ...file, status: 'pending', attempts: 0, error: undefined } : file
+      ),
+    }));
+    await this.persist();
+    this.emitProgress(jobId);
+    this.run(jobId);
+  }
+
+  public async cancel(jobId: string): Promise<void> {
+    await this.ensureLoaded();
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    console.log('[📤 TrainingUpload] Cancelled upload:', jobId);
+    await this.removeJob(job);
+  }
+
+  // Pick up every unfinished job (called on load, when the app is foregrounded and when connectivity returns)
+  public resumePending(): void {
+    this.jobs
+      .filter(job => job.status !== 'failed' && !this.running.has(job.id))
+      .forEach(job => {
+        console.log(`[📤 TrainingUpload] Resuming upload (${getUploadedCount(job)}/${job.files.length} sent):`, job.id);
+        this.updateJob(job.id, j => ({ ...j, status: j.status === 'committing' ? 'committing' : 'uploading' }));
+        this.run(job.id);
+      });
+  }
+
+  // Stop listeners and forget state (used by tests)
+  public dispose(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeOnline?.();
+    this.unsubscribeOnline = null;
+    this.loadPromise = null;
+    this.jobs = [];
+    this.listeners = [];
+    this.running.clear();
+    this.options = {};
+  }
+
+  private async run(jobId: string): Promise<void> {
+    if (this.running.has(jobId)) return;
+    this.running.add(jobId);
+
+    try {
+      await this.openSession(jobId);
+      await this.uploadFiles(jobId);
+      await this.commit(jobId);
+    } catch (error: any) {
+      const job = this.jobs.find(j => j.id === jobId);
+      if (!job) return; // Cancelled while running
+
+      if (isNetworkError(error)) {
+        console.log('[📤 TrainingUpload] ⏸️ Offline, pausing upload:', jobId);
+        RequestQueue.notifyOffline(); // So the next request that gets through resumes this job
+        this.updateJob(jobId, j => ({ ...j, status: 'paused', error: error?.message }));
+        await this.persist();
+        this.emitProgress(jobId);
+      } else {
+        const errorMessage = error?.message || 'Upload failed';
+        console.error('[📤 TrainingUpload] ❌ Upload failed:', jobId, errorMessage);
+        this.updateJob(jobId, j => ({ ...j, status: 'failed', error: errorMessage }));
+        await this.persist();
+        this.emit({ type: 'failed', job: this.getJob(jobId)!, errorMessage });
+      }
+    } finally {
+      this.running.delete(jobId);
+    }
+  }
+
+  private async openSession(jobId: string): Promise<void> {
+    const job = this.requireJob(jobId);
+
+    if (!job.uploadId) {
+      const { uploadId } = await APIService.createTrainingUpload(job.purpose, job.files.length, job.id);
+      this.updateJob(jobId, j => ({ ...j, uploadId }));
+      await this.persist();
+      return;
+    }
+
+    // Resuming: native uploads may have finished while we weren't watching
+    const { uploadedIndexes } = await APIService.getTrainingUpload(job.uploadId);
+    const uploaded = new Set(uploadedIndexes);
+    this.updateJob(jobId, j => ({
+      ...j,
+      files: j.files.map(file =>
+        uploaded.has(file.index) ? { ...file, status: 'uploaded', progress: 1, error: undefined } : file
+      ),
+    }));
+  }
+
+  private async uploadFiles(jobId: string): Promise<void> {
+    const remaining = this.requireJob(jobId).files
+      .filter(file => file.status !== 'uploaded')
+      .map(file => file.index);
+
+    // A few files in flight at once; the first hard failure stops the others before their next file or attempt
+    const abort = { aborted: false };
+    const worker = async () => {
+      while (!abort.aborted && remaining.length > 0) {
+        const index = remaining.shift()!;
+        try {
+          await this.uploadFile(jobId, index, abort);
+        } catch (error) {
+          abort.aborted = true;
+          throw error;
+        }
+      }
+    };
+
+    // Wait for every worker to settle so a retry never overlaps an upload still in flight
+    const results = await Promise.allSettled(
+      Array.from({ length: Math.min(CONCURRENT_UPLOADS, remaining.length) }, worker)
+    );
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+  }
+
+  private async uploadFile(jobId: string, index: number, abort: { aborted: boolean }): Promise<void> {
+    const retryDelay = this.options.retryDelay ?? BASE_RETRY_DELAY;
+
+    while (true) {
+      if (abort.aborted) {
+        // A sibling failed the job; leave this file for the retry
+        this.updateFile(jobId, index, { status: 'pending', progress: 0 });
+        return;
+      }
+
+      const job = this.requireJob(jobId);
+      const file = job.files[index];
+
+      try {
+        const preparedUri = await this.ensurePrepared(jobId, file);
+        this.updateFile(jobId, index, { status: 'uploading', progress: 0 });
+
+        await APIService.uploadTrainingFile(job.uploadId!, index, preparedUri, progress => {
+          this.updateFile(jobId, index, { progress });
+          this.emitProgress(jobId);
+        });
+
+        this.updateFile(jobId, index, { status: 'uploaded', progress: 1, error: undefined });
+        await this.persist();
+        this.emitProgress(jobId);
+        return;
+      } catch (error: any) {
+        if (!this.getJob(jobId)) throw error; // Cancelled
+        const attempts = file.attempts + 1;
+        const errorMessage = error?.message || 'Upload failed';
+
+        if (isNetworkError(error)) {
+          this.updateFile(jobId, index, { status: 'pending', progress: 0 });
+          throw error;
+        }
+
+        const retryable = error instanceof ApiError ? error.isRetryable : false;
+        if (!retryable || attempts >= MAX_FILE_ATTEMPTS) {
+          this.updateFile(jobId, index, { status: 'failed', progress: 0, attempts, error: errorMessage });
+          throw error;
+        }
+
+        const wait = error instanceof ApiError && error.retryAfter
+          ? error.retryAfter * 1000
+          : retryDelay * Math.pow(2, attempts - 1);
+        console.log(`[📤 TrainingUpload] ⏳ Photo ${index + 1} failed (attempt ${attempts}), retrying in ${wait}ms:`, errorMessage);
+        this.updateFile(jobId, index, { status: 'pending', progress: 0, attempts, error: errorMessage });
+        await delay(wait);
+      }
+    }
+  }
+
+  // Resize once; the copy is kept until the job finishes so retries don't redo it
+  private async ensurePrepared(jobId: string, file: TrainingUploadFile): Promise<string> {
+    if (file.preparedUri) {
+      // The OS may have cleared the cache directory since the last launch
+      const info = await FileSystem.getInfoAsync(file.preparedUri);
+      if (info.exists) return file.preparedUri;
+    }
+
+    const preparedUri = await prepareTrainingPhoto(file.sourceUri, file.width, file.height);
+    this.updateFile(jobId, file.index, { preparedUri });
+    await this.persist();
+    return preparedUri;
+  }
+
+  private async commit(jobId: string): Promise<void> {
+    const job = this.requireJob(jobId);
+    this.updateJob(jobId, j => ({ ...j, status: 'committing' }));
+    await this.persist();
+    this.emitProgress(jobId);
+
+    const body = job.baseModelId
+      ? { modelName: job.modelName, baseModelId: job.baseModelId, removedPhotoIds: job.removedPhotoIds || [] }
+      : { modelName: job.modelName };
+    const result = await APIService.commitTrainingUpload(job.uploadId!, body, job.id);
+    console.log(`[📤 TrainingUpload] ✅ Upload committed (${job.files.length} photos):`, jobId);
+
+    const committed: TrainingUploadJob = { ...this.requireJob(jobId), status: 'committed', result };
+    await this.removeJob(committed);
+    this.emit({ type: 'committed', job: committed, result });
+  }
+
+  private getJob(jobId: string): TrainingUploadJob | undefined {
+    return this.jobs.find(job => job.id === jobId);
+  }
+
+  private requireJob(jobId: string): TrainingUploadJob {
+    const job = this.getJob(jobId);
+    if (!job) throw new Error('Upload was cancelled');
+    return job;
+  }
+
+  private updateJob(jobId: string, update: (job: TrainingUploadJob) => TrainingUploadJob): void {
+    this.jobs = this.jobs.map(job => (job.id === jobId ? update(job) : job));
+  }
+
+  private updateFile(jobId: string, index: number, changes: Partial<TrainingUploadFile>): void {
+    this.updateJob(jobId, job => ({
+      ...job,
+      files: job.files.map(file => (file.index === index ? { ...file, ...changes } : file)),
+    }));
+  }
+
+  private async removeJob(job: TrainingUploadJob): Promise<void> {
+    this.jobs = this.jobs.filter(j => j.id !== job.id);
+    await this.persist();
+
+    // Resized copies are only needed until the backend has them
+    await Promise.all(
+      job.files
+        .filter(file => file.preparedUri)
+        .map(file => FileSystem.deleteAsync(file.preparedUri!, { idempotent: true }).catch(() => undefined))
+    );
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(JOBS_STORAGE_KEY);
+      const jobs: TrainingUploadJob[] = stored ? JSON.parse(stored) : [];
+      const now = Date.now();
+      this.jobs = jobs.filter(job => now - new Date(job.createdAt).getTime() <= MAX_JOB_AGE);
+      if (this.jobs.length !== jobs.length) {
+        await this.persist();
+      }
+      if (this.jobs.length > 0) {
+        console.log(`[📤 TrainingUpload] Restored ${this.jobs.length} unfinished uploads`);
+      }
+    } catch (error) {
+      console.error('[📤 TrainingUpload] Failed to load uploads:', error);
+      this.jobs = [];
+    }
+
+    // Foregrounding is when iOS lets us run again and when connectivity is most likely back
+    this.appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        this.resumePending();
+      }
+    });
+    this.unsubscribeOnline = RequestQueue.subscribeOnline(() => this.resumePending());
+
+    this.resumePending();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(this.jobs));
+    } catch (error) {
+      console.error('[📤 TrainingUpload] Failed to save uploads:', error);
+    }
+  }
+
+  private emitProgress(jobId: string): void {
+    const job = this.getJob(jobId);
+    if (job) {
+      this.emit({ type: 'progress', job });
+    }
+  }
+
+  private emit(event: TrainingUploadEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[📤 TrainingUpload] Listener error:', error);
+      }
+    });
+  }
+}
+
+export default TrainingUploadManager.getInstance();
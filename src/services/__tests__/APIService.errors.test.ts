@@ -0,0 +1,90 @@
+import axios, { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import {
+  ApiErrorType,
+  ContentRejectedError,
+  NetworkError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+} from '../../types/api.types';
+
+// Every request fails the way the current test asks; set before APIService creates its axios instances
+let failRequest: (config: InternalAxiosRequestConfig) => AxiosError;
+axios.defaults.adapter = config => Promise.reject(failRequest(config));
+
+// APIService is mocked globally in jest.setup.js - we need the real error mapping here
+const { APIService } = jest.requireActual('../APIService');
+
+const respondWith = (status: number, data: any = {}, headers: Record<string, string> = {}) => {
+  failRequest = config => new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config, {}, {
+    status,
+    statusText: '',
+    data,
+    headers,
+    config: { ...config, headers: new AxiosHeaders() },
+  });
+};
+
+const requestError = async () => {
+  try {
+    await APIService.get('/presets');
+  } catch (error) {
+    return error as any;
+  }
+  throw new Error('Expected the request to fail');
+};
+
+describe('APIService error mapping', () => {
+  it('maps requests without a response to NetworkError', async () => {
+    failRequest = config => new AxiosError('Network Error', 'ERR_NETWORK', config, {});
+
+    const error = await requestError();
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.type).toBe(ApiErrorType.NETWORK_ERROR);
+  });
+
+  it('keeps status, backend code, retry-after and request id', async () => {
+    respondWith(429, { code: 'rate_limited' }, { 'retry-after': '30', 'x-request-id': 'req-1' });
+
+    const error = await requestError();
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.status).toBe(429);
+    expect(error.code).toBe('rate_limited');
+    expect(error.retryAfter).toBe(30);
+    expect(error.requestId).toBe('req-1');
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it('uses backend codes for quota and content rejections', async () => {
+    respondWith(403, { code: 'quota_exceeded' });
+    expect(await requestError()).toBeInstanceOf(QuotaExceededError);
+
+    respondWith(402);
+    expect(await requestError()).toBeInstanceOf(QuotaExceededError);
+
+    respondWith(400, { code: 'nsfw_detected' });
+    expect(await requestError()).toBeInstanceOf(ContentRejectedError);
+  });
+
+  it('tells the model limit apart from the generation limit', async () => {
+    respondWith(403, { code: 'generation_limit_reached' });
+    const generationLimit = await requestError();
+    expect(generationLimit.isModelLimit).toBe(false);
+    expect(generationLimit.message).toBe("You've reached your generation limit for this month.");
+
+    respondWith(403, { code: 'model_limit_reached' });
+    const modelLimit = await requestError();
+    expect(modelLimit).toBeInstanceOf(QuotaExceededError);
+    expect(modelLimit.code).toBe('model_limit_reached');
+    expect(modelLimit.isModelLimit).toBe(true);
+    expect(modelLimit.message).toBe("You've reached the number of models your plan allows.");
+  });
+
+  it('maps 5xx responses to ServerError', async () => {
+    respondWith(503);
+
+    const error = await requestError();
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.message).toBe('Server error. Please try again later.');
+  });
+});
@@ -0,0 +1,50 @@
+import axios, { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import AuthService from '../AuthService';
+
+// Supabase answers 401 until the token has been refreshed; set before APIService creates its axios instances
+const sent: { method?: string; authorization: string }[] = [];
+axios.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+  sent.push({ method: config.method, authorization: String(config.headers.Authorization) });
+  if (config.headers.Authorization !== 'Bearer access-token-2') {
+    throw new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, {}, {
+      status: 401,
+      statusText: '',
+      data: {},
+      headers: {},
+      config: { ...config, headers: new AxiosHeaders() },
+    });
+  }
+  return { status: 200, statusText: 'OK', data: [], headers: {}, config };
+};
+
+// APIService is mocked globally in jest.setup.js - we need the real interceptors here
+const { APIService } = jest.requireActual('../APIService');
+
+describe('APIService Supabase calls', () => {
+  let token: string;
+
+  beforeEach(() => {
+    sent.length = 0;
+    token = 'access-token-1';
+    jest.spyOn(AuthService, 'getAccessToken').mockImplementation(async () => token);
+    jest.spyOn(AuthService, 'getCurrentUserId').mockResolvedValue('user-1');
+    jest.spyOn(AuthService, 'refreshToken').mockImplementation(async () => {
+      token = 'access-token-2';
+      return true;
+    });
+  });
+
+  it('refreshes and retries a favorites fetch rejected with 401', async () => {
+    await expect(APIService.fetchFavorites()).resolves.toEqual([]);
+
+    expect(AuthService.refreshToken).toHaveBeenCalledTimes(1);
+    expect(sent.map(request => request.authorization)).toEqual(['Bearer access-token-1', 'Bearer access-token-2']);
+  });
+
+  it('refreshes and retries a rename rejected with 401', async () => {
+    await APIService.renameModel('model-1', 'New name');
+
+    expect(sent).toHaveLength(2);
+    expect(sent[1].method).toBe('patch');
+  });
+});
@@ -0,0 +1,102 @@
+import axios, { AxiosError } from 'axios';
+import * as SecureStore from 'expo-secure-store';
+import AuthService, { getRefreshDelay } from '../AuthService';
+
+const secureStore = SecureStore as jest.Mocked<typeof SecureStore>;
+
+const session = (expiresAt: number) => ({
+  data: {
+    success: true,
+    user: { id: 'user-1', phone: '+15555550100', subscriptionTier: 'free' },
+    session: { access_token: 'access-token-1', refresh_token: 'refresh-token-1', expires_at: expiresAt },
+  },
+});
+
+const refreshed = (expiresAt?: number) => ({
+  data: { access_token: 'access-token-2', refresh_token: 'refresh-token-2', expires_at: expiresAt },
+});
+
+describe('AuthService token refresh', () => {
+  let stored: Record<string, string>;
+  let post: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2026-10-18T12:00:00Z') });
+    stored = { soul_refresh_token: 'refresh-token-1' };
+    secureStore.getItemAsync.mockImplementation(async key => stored[key] ?? null);
+    secureStore.setItemAsync.mockImplementation(async (key, value) => {
+      stored[key] = value;
+    });
+    secureStore.deleteItemAsync.mockImplementation(async key => {
+      delete stored[key];
+    });
+    post = jest.spyOn(axios, 'post');
+  });
+
+  afterEach(async () => {
+    await AuthService.logout();
+    post.mockRestore();
+    jest.useRealTimers();
+  });
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  it('shares one refresh request between concurrent callers', async () => {
+    post.mockResolvedValue(refreshed(nowSeconds() + 3600));
+
+    const results = await Promise.all([AuthService.refreshToken(), AuthService.refreshToken()]);
+
+    expect(results).toEqual([true, true]);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(stored.soul_access_token).toBe('access-token-2');
+    expect(stored.soul_token_expires_at).toBe(String(nowSeconds() + 3600));
+  });
+
+  it('refreshes a minute before the session expires', async () => {
+    post.mockResolvedValueOnce(session(nowSeconds() + 600));
+    await AuthService.verifyOTP('+15555550100', '123456');
+    post.mockClear();
+    post.mockResolvedValue(refreshed(nowSeconds() + 4200));
+
+    await jest.advanceTimersByTimeAsync(getRefreshDelay(nowSeconds() + 600) - 1000);
+    expect(post).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(post).toHaveBeenCalledWith(expect.stringContaining('/auth/refresh'), { refreshToken: 'refresh-token-1' });
+    expect(stored.soul_access_token).toBe('access-token-2');
+  });
+
+  it('refreshes an expiring token before handing it out', async () => {
+    post.mockResolvedValueOnce(session(nowSeconds() + 30));
+    await AuthService.verifyOTP('+15555550100', '123456');
+    post.mockResolvedValue(refreshed(nowSeconds() + 3600));
+
+    expect(await AuthService.getAccessToken()).toBe('access-token-2');
+  });
+
+  it('keeps the session when the refresh cannot reach the server', async () => {
+    stored.soul_access_token = 'access-token-1';
+    post.mockRejectedValue(new AxiosError('Network Error', 'ERR_NETWORK'));
+
+    expect(await AuthService.refreshToken()).toBe(false);
+    expect(stored.soul_access_token).toBe('access-token-1');
+
+    // Back online, the retry goes through without waiting for another request
+    post.mockResolvedValue(refreshed(nowSeconds() + 3600));
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(stored.soul_access_token).toBe('access-token-2');
+  });
+
+  it('keeps the caller\'s headers when adding the token', async () => {
+    stored.soul_access_token = 'access-token-1';
+    const fetchMock = jest.fn().mockResolvedValue({ status: 200 });
+    global.fetch = fetchMock;
+
+    await AuthService.fetchWithAuth('https://api.test/upload', { headers: new Headers({ 'Content-Type': 'image/jpeg' }) });
+
+    const headers: Headers = fetchMock.mock.calls[0][1].headers;
+    expect(headers.get('Content-Type')).toBe('image/jpeg');
+    expect(headers.get('Authorization')).toBe('Bearer access-token-1');
+  });
+});
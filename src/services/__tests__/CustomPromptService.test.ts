@@ -0,0 +1,46 @@
+import {
+  createCustomPreset,
+  getPromptStyles,
+  isCustomPreset,
+} from '../CustomPromptService';
+import { makePreset } from '../../test-utils/fixtures';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+let CustomPromptService: typeof import('../CustomPromptService').default;
+
+const loadService = freshSingletonEachTest(() => require('../CustomPromptService').default, loaded => {
+  CustomPromptService = loaded;
+});
+
+describe('CustomPromptService', () => {
+  it('collects distinct styles in catalogue order', () => {
+    const styles = getPromptStyles([
+      makePreset('1', { style_id: 'style-a' }),
+      makePreset('2', { style_id: 'style-b' }),
+      makePreset('3', { style_id: 'style-a' }),
+    ]);
+
+    expect(styles.map(style => style.style_id)).toEqual(['style-a', 'style-b']);
+    expect(styles[0]).toEqual(expect.objectContaining({ name: 'Preset 1', presetCount: 2 }));
+  });
+
+  it('wraps custom prompts in a preset that is recognisable as custom', () => {
+    const [style] = getPromptStyles([makePreset('1', { style_id: 'style-a' })]);
+    const customPreset = createCustomPreset('  me on the moon  ', style);
+
+    expect(customPreset).toEqual(expect.objectContaining({ style_id: 'style-a', prompt: 'me on the moon' }));
+    expect(isCustomPreset(customPreset)).toBe(true);
+    expect(isCustomPreset(makePreset('1', { style_id: 'style-a' }))).toBe(false);
+  });
+
+  it('keeps history most-recent first without duplicates', async () => {
+    await CustomPromptService.addToHistory('first', 'style-a');
+    await CustomPromptService.addToHistory('second', 'style-a');
+    await CustomPromptService.addToHistory('first', 'style-a');
+
+    loadService();
+    const history = await CustomPromptService.getHistory();
+
+    expect(history.map(entry => entry.prompt)).toEqual(['first', 'second']);
+  });
+});
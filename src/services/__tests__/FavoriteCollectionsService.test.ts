@@ -0,0 +1,73 @@
+import {
+  addToCollection,
+  countCollectionItems,
+  createCollection,
+  getCollectionCoverKey,
+  mergeCollections,
+  pruneCollections,
+  reorderCollection,
+  toCollectionRecord,
+} from '../FavoriteCollectionsService';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+let FavoriteCollectionsService: typeof import('../FavoriteCollectionsService').default;
+
+const loadService = freshSingletonEachTest(() => require('../FavoriteCollectionsService').default, loaded => {
+  FavoriteCollectionsService = loaded;
+});
+
+describe('FavoriteCollectionsService', () => {
+  it('lets an item sit in several collections without duplicates', () => {
+    const headshots = addToCollection(createCollection('  Headshots ', ['image:a']), 'image:a');
+    const instagram = addToCollection(createCollection('For Instagram'), 'image:a');
+
+    expect(headshots.name).toBe('Headshots');
+    expect(headshots.itemKeys).toEqual(['image:a']);
+    expect(instagram.itemKeys).toEqual(['image:a']);
+  });
+
+  it('applies a dragged order and keeps items the order left out', () => {
+    const collection = createCollection('Headshots', ['image:a', 'image:b', 'preset:c']);
+
+    expect(reorderCollection(collection, ['preset:c', 'image:a', 'image:unknown']).itemKeys)
+      .toEqual(['preset:c', 'image:a', 'image:b']);
+  });
+
+  it('falls back to the first item when the cover is removed', () => {
+    const collection = { ...createCollection('Headshots', ['image:a', 'image:b']), coverKey: 'image:b' };
+    expect(getCollectionCoverKey(collection)).toBe('image:b');
+
+    const [pruned] = pruneCollections([collection], ['image:b']);
+    expect(pruned.itemKeys).toEqual(['image:a']);
+    expect(getCollectionCoverKey(pruned)).toBe('image:a');
+  });
+
+  it('persists collections', async () => {
+    const collection = createCollection('Headshots', ['image:a']);
+    await FavoriteCollectionsService.saveCollections([collection]);
+
+    loadService();
+    expect(await FavoriteCollectionsService.getCollections()).toEqual([collection]);
+  });
+
+  it('counts only items that are still favorited', () => {
+    const collection = createCollection('Headshots', ['image:a', 'image:b']);
+    expect(countCollectionItems(collection, new Set(['image:a']))).toBe(1);
+  });
+
+  it('merges with the server by latest change and keeps deletions', () => {
+    const kept = { ...createCollection('Headshots', ['image:a']), updatedAt: '2026-10-18T10:00:00.000Z' };
+    const deleted = { ...createCollection('Old'), updatedAt: '2026-10-17T10:00:00.000Z' };
+    const remoteNewer = { ...toCollectionRecord(kept), name: 'Headshots (renamed)', updated_at: '2026-10-18T11:00:00.000Z' };
+    const remoteOnly = { ...toCollectionRecord(createCollection('From my phone', ['preset:c'])), created_at: '2026-10-01T00:00:00.000Z' };
+
+    const { merged, upload } = mergeCollections(
+      [kept, deleted],
+      [{ id: deleted.id, deletedAt: '2026-10-18T12:00:00.000Z' }],
+      [remoteNewer, remoteOnly]
+    );
+
+    expect(merged.map(collection => collection.name)).toEqual(['Headshots (renamed)', 'From my phone']);
+    expect(upload).toEqual([expect.objectContaining({ id: deleted.id, deleted_at: '2026-10-18T12:00:00.000Z' })]);
+  });
+});
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { mergeFavorites } from '../FavoritesSyncService';
+import { FavoriteItem, FavoriteRecord } from '../../types/favorites.types';
+import { makePreset } from '../../test-utils/fixtures';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+const item = (id: string, updatedAt: string): FavoriteItem => ({
+  id,
+  type: 'preset',
+  data: makePreset(id),
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date(updatedAt),
+});
+
+const record = (id: string, updatedAt: string, deletedAt: string | null = null): FavoriteRecord => ({
+  item_id: id,
+  item_type: 'preset',
+  data: makePreset(id),
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: updatedAt,
+  deleted_at: deletedAt,
+});
+
+let FavoritesSyncService: typeof import('../FavoritesSyncService').default;
+let AuthService: typeof import('../AuthService').default;
+let APIService: typeof import('../APIService').APIService;
+
+// Signed in as user-1
+const loadService = freshSingletonEachTest(() => ({
+  FavoritesSyncService: require('../FavoritesSyncService').default,
+  AuthService: require('../AuthService').default,
+  APIService: require('../APIService').APIService,
+}), loaded => {
+  ({ FavoritesSyncService, AuthService, APIService } = loaded);
+
+  jest.spyOn(AuthService, 'getCurrentUserId').mockResolvedValue('user-1');
+  jest.spyOn(AuthService, 'isAuthenticated').mockReturnValue(true);
+  (APIService.fetchFavorites as jest.Mock).mockResolvedValue([]);
+  (APIService.upsertFavorites as jest.Mock).mockResolvedValue(undefined);
+});
+
+describe('FavoritesSyncService', () => {
+  it('resolves conflicts by the most recent change', () => {
+    const { merged, upload } = mergeFavorites(
+      [item('a', '2025-03-01T00:00:00Z'), item('b', '2025-01-01T00:00:00Z')],
+      [{ id: 'c', type: 'preset', deletedAt: '2025-03-01T00:00:00.000Z' }],
+      [
+        record('a', '2025-02-01T00:00:00.000Z'),
+        record('b', '2025-02-01T00:00:00.000Z', '2025-02-01T00:00:00.000Z'), // Removed on another device later
+        record('c', '2025-02-01T00:00:00.000Z'),
+        record('d', '2025-02-01T00:00:00.000Z'), // Added on another device
+      ]
+    );
+
+    expect(merged.map(favorite => favorite.id)).toEqual(['a', 'd']);
+    expect(upload.map(change => [change.item_id, change.deleted_at !== null])).toEqual([['a', false], ['c', true]]);
+  });
+
+  it('uploads existing local favorites the first time a user syncs', async () => {
+    const local = [item('a', '2025-01-01T00:00:00Z')];
+
+    expect(await FavoritesSyncService.sync(local)).toEqual([expect.objectContaining({ id: 'a' })]);
+    expect(APIService.upsertFavorites).toHaveBeenCalledWith([expect.objectContaining({ item_id: 'a' })]);
+    expect(await AsyncStorage.getItem('favorites_synced_user')).toBe('user-1');
+  });
+
+  it('sends removals once and then forgets them', async () => {
+    await FavoritesSyncService.sync([]);
+    await FavoritesSyncService.recordRemovals([{ id: 'a', type: 'preset' }]);
+
+    await FavoritesSyncService.sync([]);
+    expect(APIService.upsertFavorites).toHaveBeenLastCalledWith([expect.objectContaining({ item_id: 'a', deleted_at: expect.any(String) })]);
+
+    loadService();
+    await FavoritesSyncService.sync([]);
+    expect(APIService.upsertFavorites).toHaveBeenCalledWith([]);
+  });
+
+  it('keeps pending removals when the server is unreachable', async () => {
+    await FavoritesSyncService.recordRemovals([{ id: 'a', type: 'preset' }]);
+    (APIService.fetchFavorites as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+
+    await expect(FavoritesSyncService.sync([])).rejects.toThrow('Network error');
+
+    loadService();
+    await FavoritesSyncService.sync([]);
+    expect(APIService.upsertFavorites).toHaveBeenCalledWith([expect.objectContaining({ item_id: 'a' })]);
+  });
+
+  it("doesn't hand one account's favorites to another", async () => {
+    await FavoritesSyncService.sync([item('a', '2025-01-01T00:00:00Z')]);
+    (AuthService.getCurrentUserId as jest.Mock).mockResolvedValue('user-2');
+    (APIService.fetchFavorites as jest.Mock).mockResolvedValue([record('z', '2025-01-01T00:00:00.000Z')]);
+
+    expect(await FavoritesSyncService.sync([item('a', '2025-01-01T00:00:00Z')])).toEqual([expect.objectContaining({ id: 'z' })]);
+    expect(APIService.upsertFavorites).toHaveBeenLastCalledWith([]);
+  });
+
+  it('does nothing while signed out', async () => {
+    (AuthService.isAuthenticated as jest.Mock).mockReturnValue(false);
+
+    expect(await FavoritesSyncService.sync([item('a', '2025-01-01T00:00:00Z')])).toBeNull();
+    expect(APIService.fetchFavorites).not.toHaveBeenCalled();
+  });
+});
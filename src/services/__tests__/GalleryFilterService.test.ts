@@ -0,0 +1,69 @@
+import {
+  DEFAULT_GALLERY_FILTERS,
+  filterBatches,
+  getBatchDateRange,
+  groupBatches,
+} from '../GalleryFilterService';
+import { makeBatch } from '../../test-utils/fixtures';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+const now = new Date(2024, 5, 15, 12, 0, 0); // Saturday noon
+
+const today = makeBatch('today', { generatedAt: new Date(2024, 5, 15, 9), modelId: 'model-a', category: 'portrait', source: 'preset' });
+const thisWeek = makeBatch('week', { generatedAt: new Date(2024, 5, 10, 18), modelId: 'model-b', category: 'fantasy', source: 'custom' });
+const older = makeBatch('older', { generatedAt: new Date(2024, 4, 1), modelId: 'model-a', source: 'camera' });
+
+let GalleryFilterService: typeof import('../GalleryFilterService').default;
+
+const loadService = freshSingletonEachTest(() => require('../GalleryFilterService').default, loaded => {
+  GalleryFilterService = loaded;
+});
+
+describe('GalleryFilterService', () => {
+  it('buckets batches into Today, This Week and Older by calendar day', () => {
+    expect(getBatchDateRange(today, now)).toBe('today');
+    expect(getBatchDateRange(thisWeek, now)).toBe('week');
+    expect(getBatchDateRange(older, now)).toBe('older');
+  });
+
+  it('combines model, source and date filters', () => {
+    const batches = [today, thisWeek, older];
+
+    expect(filterBatches(batches, { ...DEFAULT_GALLERY_FILTERS, modelId: 'model-a' }, now)).toEqual([today, older]);
+    expect(filterBatches(batches, { ...DEFAULT_GALLERY_FILTERS, modelId: 'model-a', source: 'camera' }, now)).toEqual([older]);
+    expect(filterBatches(batches, { ...DEFAULT_GALLERY_FILTERS, dateRange: 'week' }, now)).toEqual([thisWeek]);
+  });
+
+  it('treats batches without a source as preset generations', () => {
+    const legacy = makeBatch('legacy', { generatedAt: new Date(2024, 5, 15, 8) });
+    expect(filterBatches([legacy], { ...DEFAULT_GALLERY_FILTERS, source: 'preset' }, now)).toEqual([legacy]);
+  });
+
+  it('groups into titled sections and drops empty ones', () => {
+    const byDate = groupBatches([older, today], 'date', new Map(), now);
+    expect(byDate.map(section => section.title)).toEqual(['Today', 'Older']);
+
+    const byModel = groupBatches([today, thisWeek, older], 'model', new Map([['model-a', 'Alex']]), now);
+    expect(byModel.map(section => [section.title, section.batches.map(b => b.id)])).toEqual([
+      ['Alex', ['today', 'older']],
+      ['Unknown Model', ['week']],
+    ]);
+  });
+
+  it('persists filters across sessions', async () => {
+    await GalleryFilterService.saveFilters({ ...DEFAULT_GALLERY_FILTERS, source: 'camera', groupBy: 'source' });
+    loadService();
+
+    expect(await GalleryFilterService.getFilters()).toEqual({ ...DEFAULT_GALLERY_FILTERS, source: 'camera', groupBy: 'source' });
+  });
+
+  it('drops a saved model filter once the model is gone', async () => {
+    await GalleryFilterService.saveFilters({ ...DEFAULT_GALLERY_FILTERS, modelId: 'model-a', source: 'camera' });
+
+    expect(await GalleryFilterService.dropMissingModel(id => id === 'model-a')).toMatchObject({ modelId: 'model-a' });
+    expect(await GalleryFilterService.dropMissingModel(() => false)).toEqual({ ...DEFAULT_GALLERY_FILTERS, source: 'camera' });
+
+    loadService();
+    expect((await GalleryFilterService.getFilters()).modelId).toBeNull();
+  });
+});
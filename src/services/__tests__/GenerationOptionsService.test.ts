@@ -0,0 +1,42 @@
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  normalizeGenerationOptions,
+} from '../GenerationOptionsService';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+let GenerationOptionsService: typeof import('../GenerationOptionsService').default;
+
+const loadService = freshSingletonEachTest(() => require('../GenerationOptionsService').default, loaded => {
+  GenerationOptionsService = loaded;
+});
+
+describe('GenerationOptionsService', () => {
+  it('returns defaults for presets without saved options', async () => {
+    expect(await GenerationOptionsService.getOptions('preset-1')).toEqual(DEFAULT_GENERATION_OPTIONS);
+  });
+
+  it('persists last-used options per preset', async () => {
+    await GenerationOptionsService.saveOptions('preset-1', {
+      quality: 'basic',
+      aspect_ratio: '16:9',
+      seed: 42,
+      negative_prompt: '  blurry  ',
+      enhance_prompt: true,
+    });
+
+    loadService();
+
+    expect(await GenerationOptionsService.getOptions('preset-1')).toEqual({
+      quality: 'basic',
+      aspect_ratio: '16:9',
+      seed: 42,
+      negative_prompt: 'blurry',
+      enhance_prompt: true,
+    });
+    expect(await GenerationOptionsService.getOptions('preset-2')).toEqual(DEFAULT_GENERATION_OPTIONS);
+  });
+
+  it('drops empty negative prompts and invalid seeds', () => {
+    expect(normalizeGenerationOptions({ negative_prompt: '   ', seed: NaN })).toEqual(DEFAULT_GENERATION_OPTIONS);
+  });
+});
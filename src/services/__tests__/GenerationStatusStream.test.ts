@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import WebSocket, { WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import GenerationStatusStream from '../GenerationStatusStream';
+import NotificationService from '../NotificationService';
+
+// Local mock of the backend status stream
+const startMockServer = async () => {
+  const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise(resolve => server.once('listening', resolve));
+  const subscriptions: string[] = [];
+  let client: WebSocket | null = null;
+
+  server.on('connection', socket => {
+    client = socket;
+    socket.on('message', raw => {
+      const message = JSON.parse(raw.toString());
+      if (message.type === 'subscribe') subscriptions.push(message.generation_id);
+    });
+  });
+
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    subscriptions,
+    push: (message: Record<string, any>) => client?.send(JSON.stringify({ type: 'generation_status', ...message })),
+    dropClients: () => server.clients.forEach(socket => socket.terminate()),
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+};
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('GenerationStatusStream', () => {
+  let server: Awaited<ReturnType<typeof startMockServer>>;
+
+  beforeEach(async () => {
+    server = await startMockServer();
+    GenerationStatusStream.configure({
+      url: server.url,
+      socketFactory: url => new WebSocket(url) as any,
+    });
+  });
+
+  afterEach(async () => {
+    GenerationStatusStream.reset();
+    await server.close();
+  });
+
+  it('subscribes by generation_id and emits completion events', async () => {
+    const removed = jest.fn();
+    const completed = jest.fn();
+    const removeSub = NotificationService.on('removeSkeletonGeneration', removed);
+    const completeSub = NotificationService.on('generationCompleted', completed);
+
+    GenerationStatusStream.subscribe('gen-1');
+    await waitFor(() => server.subscriptions.includes('gen-1'));
+    expect(GenerationStatusStream.isConnected()).toBe(true);
+
+    server.push({ generation_id: 'gen-1', status: 'completed', image_count: 4 });
+    await waitFor(() => removed.mock.calls.length > 0);
+
+    expect(removed).toHaveBeenCalledWith({ generationId: 'gen-1' });
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ generationId: 'gen-1', imageCount: 4 }));
+    // Last subscription finished - the socket is released
+    expect(GenerationStatusStream.isConnected()).toBe(false);
+
+    removeSub.remove();
+    completeSub.remove();
+  });
+
+  it('emits generationFailed for failed generations', async () => {
+    const failed = jest.fn();
+    const subscription = NotificationService.on('generationFailed', failed);
+
+    GenerationStatusStream.subscribe('gen-2');
+    await waitFor(() => server.subscriptions.includes('gen-2'));
+    server.push({ generation_id: 'gen-2', status: 'failed', error_message: 'Model unavailable' });
+    await waitFor(() => failed.mock.calls.length > 0);
+
+    expect(failed).toHaveBeenCalledWith({ generationId: 'gen-2', errorMessage: 'Model unavailable' });
+    subscription.remove();
+  });
+
+  it('reports the stream as down and resubscribes after reconnecting', async () => {
+    const connectionChanges: boolean[] = [];
+    const unsubscribe = GenerationStatusStream.onConnectionChange(connected => connectionChanges.push(connected));
+
+    GenerationStatusStream.subscribe('gen-3');
+    await waitFor(() => server.subscriptions.length === 1);
+
+    server.dropClients();
+    await waitFor(() => connectionChanges.includes(false));
+    await waitFor(() => server.subscriptions.length === 2);
+
+    expect(server.subscriptions).toEqual(['gen-3', 'gen-3']);
+    expect(connectionChanges).toEqual([true, false, true]);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,140 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APIService } from '../APIService';
+import {
+  normalizeModels,
+  reconcileSelection,
+  selectModels,
+  selectSelectableModels,
+  toUserModel,
+} from '../ModelRepository';
+import { ModelStoreChange } from '../../types/model.types';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+let ModelRepository: typeof import('../ModelRepository').default;
+let api: jest.Mocked<typeof APIService>;
+
+freshSingletonEachTest(() => ({
+  ModelRepository: require('../ModelRepository').default,
+  api: require('../APIService').APIService,
+}), loaded => {
+  ({ ModelRepository, api } = loaded);
+});
+
+const backendModel = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  user_id: 'user-1',
+  name: `Model ${id}`,
+  status: 'completed',
+  higgsfield_id: `hf-${id}`,
+  thumbnail_url: undefined,
+  photo_count: 20,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const respondWith = (models: ReturnType<typeof backendModel>[]) =>
+  api.fetchUserModels.mockResolvedValue({ models, count: models.length, userId: 'user-1' });
+
+const deletionReport = (modelId: string) => ({
+  modelId,
+  imageCount: 8,
+  batchCount: 2,
+  notificationCount: 1,
+  artifactCount: 21,
+  previewImageUrls: [],
+});
+
+describe('ModelRepository', () => {
+  beforeEach(() => {
+    api.deleteModel.mockImplementation(async id => ({ report: deletionReport(id), undoUntil: null }));
+  });
+
+  it('shares one fetch between concurrent refreshes', async () => {
+    respondWith([backendModel('a'), backendModel('b', { created_at: '2026-02-01T00:00:00Z' })]);
+
+    const [first, second] = await Promise.all([ModelRepository.refresh(), ModelRepository.refresh()]);
+
+    expect(api.fetchUserModels).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(selectModels(first).map(model => model.id)).toEqual(['b', 'a']);
+  });
+
+  it('moves a selection saved as a Higgsfield id onto the model id', async () => {
+    await AsyncStorage.setItem('twyn_selected_model_id', 'hf-b');
+    respondWith([backendModel('a'), backendModel('b')]);
+
+    const state = await ModelRepository.refresh();
+
+    expect(state.selectedId).toBe('b');
+    expect(await AsyncStorage.getItem('twyn_selected_model_id')).toBe('b');
+  });
+
+  it('notifies subscribers when a selected model is deleted', async () => {
+    respondWith([backendModel('a'), backendModel('b')]);
+    await ModelRepository.refresh();
+    await ModelRepository.select('a');
+
+    const changes: ModelStoreChange[] = [];
+    ModelRepository.subscribe((_state, change) => changes.push(change));
+    await ModelRepository.remove('a');
+
+    expect(api.deleteModel).toHaveBeenCalledWith('a');
+    expect(changes).toEqual([{ type: 'removed', id: 'a' }, { type: 'selected', id: null }]);
+    expect(ModelRepository.getState().ids).toEqual(['b']);
+  });
+
+  it('restores a deleted model and its selection within the undo window', async () => {
+    respondWith([backendModel('a'), backendModel('b')]);
+    await ModelRepository.refresh();
+    await ModelRepository.select('a');
+
+    const pending = await ModelRepository.remove('a');
+    expect(pending.report.imageCount).toBe(8);
+    expect(pending.wasSelected).toBe(true);
+
+    await ModelRepository.undoRemove('a');
+
+    expect(api.undoModelDeletion).toHaveBeenCalledWith('a');
+    expect(ModelRepository.getState().byId.a).toBeDefined();
+    expect(ModelRepository.getState().selectedId).toBe('a');
+  });
+
+  it('deletes a model the store never had without an undo or a change', async () => {
+    respondWith([backendModel('a')]);
+    await ModelRepository.refresh();
+
+    const changes: ModelStoreChange[] = [];
+    ModelRepository.subscribe((_state, change) => changes.push(change));
+    const pending = await ModelRepository.remove('missing');
+
+    expect(api.deleteModel).toHaveBeenCalledWith('missing');
+    expect(pending.model).toBeNull();
+    expect(changes).toEqual([]);
+    await expect(ModelRepository.undoRemove('missing')).rejects.toThrow('no longer be restored');
+  });
+
+  it('refuses to undo once the undo window has passed', async () => {
+    respondWith([backendModel('a')]);
+    api.deleteModel.mockResolvedValue({ report: deletionReport('a'), undoUntil: '2020-01-01T00:00:00Z' });
+    await ModelRepository.refresh();
+    await ModelRepository.remove('a');
+
+    await expect(ModelRepository.undoRemove('a')).rejects.toThrow('no longer be restored');
+    expect(api.undoModelDeletion).not.toHaveBeenCalled();
+  });
+
+  it('hands the selection to the active version when the selected one is archived', () => {
+    const state = {
+      ...normalizeModels([
+        toUserModel(backendModel('v1', { version_state: 'archived' })),
+        toUserModel(backendModel('v2', { parent_model_id: 'v1', version: 2, version_state: 'active' })),
+      ]),
+      selectedId: 'v1',
+      loadedAt: Date.now(),
+    };
+
+    expect(selectSelectableModels(state).map(model => model.id)).toEqual(['v2']);
+    expect(reconcileSelection(state)).toBe('v2');
+  });
+});
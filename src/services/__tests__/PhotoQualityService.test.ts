@@ -0,0 +1,83 @@
+import PhotoQualityService, {
+  checkPhotoMetadata,
+  computeDifferenceHash,
+  findNearDuplicates,
+  hammingDistance,
+} from '../PhotoQualityService';
+import { TrainingPhoto } from '../../types/training.types';
+
+// 9x8 thumbnails: brightness falls left to right, or alternates in a checkerboard
+const gradient = (offset = 0) => Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 20 + offset);
+const checkerboard = () => Array.from({ length: 72 }, (_, i) => ((i % 9) + Math.floor(i / 9)) % 2 ? 200 : 40);
+
+const photo = (id: string, overrides: Partial<TrainingPhoto> = {}): TrainingPhoto => ({
+  id,
+  uri: `file://${id}.jpg`,
+  width: 1024,
+  height: 1024,
+  fileSize: 2 * 1024 * 1024,
+  ...overrides,
+});
+
+describe('PhotoQualityService', () => {
+  it('hashes brightness differences so re-exposed copies still match', () => {
+    const hash = computeDifferenceHash(gradient());
+
+    expect(hash).toBe('ffffffffffffffff');
+    expect(hammingDistance(hash, computeDifferenceHash(gradient(10)))).toBe(0);
+    expect(hammingDistance(hash, computeDifferenceHash(checkerboard()))).toBeGreaterThan(20);
+  });
+
+  it('flags low resolution, extreme shapes and oversized files from metadata', () => {
+    expect(checkPhotoMetadata(photo('ok'))).toEqual([]);
+    expect(checkPhotoMetadata(photo('small', { width: 400, height: 600 })).map(issue => issue.type))
+      .toEqual(['lowResolution']);
+    expect(checkPhotoMetadata(photo('panorama', { width: 4000, height: 1000 })).map(issue => issue.type))
+      .toEqual(['extremeAspectRatio']);
+    expect(checkPhotoMetadata(photo('huge', { fileSize: 30 * 1024 * 1024 })).map(issue => issue.type))
+      .toEqual(['oversized']);
+    // Picker results without a size are not flagged
+    expect(checkPhotoMetadata(photo('unknown', { fileSize: undefined }))).toEqual([]);
+  });
+
+  it('leaves the first photo of a duplicate group unflagged', () => {
+    const duplicates = findNearDuplicates([
+      { id: 'a', hash: 'ffffffffffffffff' },
+      { id: 'b', hash: 'aaaaaaaaaaaaaaaa' },
+      { id: 'c', hash: 'fffffffffffffff0' },
+    ]);
+
+    expect(Array.from(duplicates)).toEqual([['c', 'a']]);
+  });
+
+  it('reports near-duplicates and still checks photos it could not hash', async () => {
+    const thumbnails: Record<string, number[]> = {
+      'file://a.jpg': gradient(),
+      'file://b.jpg': checkerboard(),
+      'file://c.jpg': gradient(5),
+    };
+    PhotoQualityService.configure({
+      thumbnailLoader: async uri => {
+        if (!thumbnails[uri]) throw new Error('Unreadable');
+        return thumbnails[uri];
+      },
+    });
+    const progress: number[] = [];
+
+    const report = await PhotoQualityService.analyzePhotos(
+      [photo('a'), photo('b'), photo('c'), photo('d', { width: 300, height: 300 })],
+      checked => progress.push(checked)
+    );
+
+    expect(progress).toEqual([1, 2, 3, 4]);
+    expect(report.flaggedCount).toBe(2);
+    expect(report.results.map(result => result.issues.map(issue => issue.type))).toEqual([
+      [],
+      [],
+      ['duplicate'],
+      ['lowResolution'],
+    ]);
+    expect(report.results[2].issues[0].duplicateOf).toBe('a');
+    expect(report.results[3].hash).toBeUndefined();
+  });
+});
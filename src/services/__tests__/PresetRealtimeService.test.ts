@@ -0,0 +1,121 @@
+import { PresetChangeChannel, PresetChangePayload } from '../PresetRealtimeService';
+import { applyPresetChange } from '../PresetRepository';
+import { Preset } from '../../types/preset.types';
+import { makePreset } from '../../test-utils/fixtures';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+// Catalogue order follows the id
+const preset = (id: string, overrides: Partial<Preset> = {}): Preset =>
+  makePreset(id, { sort_order: Number(id), ...overrides });
+
+// Stands in for a Supabase RealtimeChannel; tests push payloads and statuses by hand
+const createFakeChannel = () => {
+  let onPayload: ((payload: PresetChangePayload) => void) | null = null;
+  let onStatus: ((status: string) => void) | null = null;
+
+  const channel: PresetChangeChannel = {
+    on: (_type, _filter, callback) => {
+      onPayload = callback;
+      return channel;
+    },
+    subscribe: callback => {
+      onStatus = callback || null;
+      return channel;
+    },
+    unsubscribe: jest.fn(),
+  };
+
+  return {
+    channel,
+    emit: (payload: PresetChangePayload) => onPayload?.(payload),
+    setStatus: (status: string) => onStatus?.(status),
+  };
+};
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let PresetRealtimeService: typeof import('../PresetRealtimeService').default;
+let PresetRepository: typeof import('../PresetRepository').default;
+let APIService: typeof import('../APIService').APIService;
+
+let fake: ReturnType<typeof createFakeChannel>;
+
+const loadServices = freshSingletonEachTest(() => ({
+  PresetRealtimeService: require('../PresetRealtimeService').default,
+  PresetRepository: require('../PresetRepository').default,
+  APIService: require('../APIService').APIService,
+}), loaded => {
+  ({ PresetRealtimeService, PresetRepository, APIService } = loaded);
+  fake = createFakeChannel();
+  PresetRealtimeService.configure({ channelFactory: () => fake.channel });
+});
+
+describe('PresetRealtimeService', () => {
+  beforeEach(async () => {
+    (APIService.fetchPresetCatalog as jest.Mock).mockResolvedValue({
+      presets: [preset('1'), preset('2'), preset('3')],
+      etag: 'v1',
+      notModified: false,
+    });
+    await PresetRepository.getPresets();
+  });
+
+  it('applies inserts, deactivations and deletes in sort order', () => {
+    const presets = [preset('1'), preset('2'), preset('3')];
+
+    const inserted = applyPresetChange(presets, { event: 'INSERT', preset: preset('4', { sort_order: 0 }) });
+    expect(inserted.map(p => p.id)).toEqual(['4', '1', '2', '3']);
+
+    const deactivated = applyPresetChange(presets, { event: 'UPDATE', preset: preset('2', { is_active: false }) });
+    expect(deactivated.map(p => p.id)).toEqual(['1', '3']);
+
+    const deleted = applyPresetChange(presets, { event: 'DELETE', preset: null, oldId: '3' });
+    expect(deleted.map(p => p.id)).toEqual(['1', '2']);
+  });
+
+  it('only listens while the catalog has subscribers', () => {
+    const subscription = PresetRepository.subscribe(jest.fn());
+    expect(PresetRealtimeService.isActive()).toBe(true);
+
+    subscription.remove();
+    expect(PresetRealtimeService.isActive()).toBe(false);
+    expect(fake.channel.unsubscribe).toHaveBeenCalled();
+  });
+
+  it('pushes sort_order changes to subscribers and the cache', async () => {
+    const listener = jest.fn();
+    PresetRepository.subscribe(listener);
+
+    fake.emit({ eventType: 'UPDATE', new: preset('3', { sort_order: 0 }), old: { id: '3' } });
+    await flushPromises();
+
+    const expected = [preset('3', { sort_order: 0 }), preset('1'), preset('2')];
+    expect(listener).toHaveBeenCalledWith(expected, expect.objectContaining({ reordered: true }));
+
+    loadServices();
+    expect(await PresetRepository.getCachedPresets()).toEqual(expected);
+  });
+
+  it('ignores changes that leave the catalog as it was', async () => {
+    const listener = jest.fn();
+    PresetRepository.subscribe(listener);
+
+    fake.emit({ eventType: 'UPDATE', new: preset('9', { is_active: false }), old: { id: '9' } });
+    fake.emit({ eventType: 'DELETE', new: {}, old: {} });
+    await flushPromises();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('revalidates after the channel recovers from a drop', async () => {
+    PresetRepository.subscribe(jest.fn());
+    fake.setStatus('SUBSCRIBED');
+    expect(APIService.fetchPresetCatalog).toHaveBeenCalledTimes(1);
+
+    fake.setStatus('CHANNEL_ERROR');
+    fake.setStatus('SUBSCRIBED');
+    await flushPromises();
+
+    expect(APIService.fetchPresetCatalog).toHaveBeenCalledTimes(2);
+  });
+});
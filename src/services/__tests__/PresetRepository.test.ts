@@ -0,0 +1,84 @@
+import { diffPresets } from '../PresetRepository';
+import { PresetChangeChannel } from '../PresetRealtimeService';
+import { makePreset } from '../../test-utils/fixtures';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Keeps subscribers off the network
+const channel: PresetChangeChannel = {
+  on: () => channel,
+  subscribe: () => channel,
+  unsubscribe: jest.fn(),
+};
+
+let PresetRepository: typeof import('../PresetRepository').default;
+let APIService: typeof import('../APIService').APIService;
+let ImageCacheManager: typeof import('../ImageCacheManager').default;
+
+const loadRepository = freshSingletonEachTest(() => {
+  const modules = {
+    PresetRepository: require('../PresetRepository').default,
+    APIService: require('../APIService').APIService,
+    ImageCacheManager: require('../ImageCacheManager'),
+  };
+  require('../PresetRealtimeService').default.configure({ channelFactory: () => channel });
+  return modules;
+}, loaded => {
+  ({ PresetRepository, APIService, ImageCacheManager } = loaded);
+});
+
+describe('PresetRepository', () => {
+  it('diffs added, removed, updated and reordered presets', () => {
+    const diff = diffPresets(
+      [makePreset('1'), makePreset('2'), makePreset('3')],
+      [makePreset('3'), makePreset('1', { name: 'Renamed' }), makePreset('4')]
+    );
+
+    expect(diff.added.map(p => p.id)).toEqual(['4']);
+    expect(diff.removed.map(p => p.id)).toEqual(['2']);
+    expect(diff.updated.map(p => p.id)).toEqual(['1']);
+    expect(diff.reordered).toBe(true);
+  });
+
+  it('fetches and caches the catalog when nothing is stored yet', async () => {
+    (APIService.fetchPresetCatalog as jest.Mock).mockResolvedValue({ presets: [makePreset('1')], etag: 'v1', notModified: false });
+
+    expect(await PresetRepository.getPresets()).toEqual([makePreset('1')]);
+    expect(ImageCacheManager.preloadImages).toHaveBeenCalledWith(['https://example.com/1.jpg'], 'normal');
+
+    loadRepository();
+    expect(await PresetRepository.getCachedPresets()).toEqual([makePreset('1')]);
+  });
+
+  it('serves the cached catalog while revalidating with the stored ETag', async () => {
+    (APIService.fetchPresetCatalog as jest.Mock).mockResolvedValueOnce({ presets: [makePreset('1')], etag: 'v1', notModified: false });
+    await PresetRepository.getPresets();
+
+    const listener = jest.fn();
+    PresetRepository.subscribe(listener);
+    (APIService.fetchPresetCatalog as jest.Mock).mockResolvedValueOnce({
+      presets: [makePreset('1'), makePreset('2')],
+      etag: 'v2',
+      notModified: false,
+    });
+
+    expect(await PresetRepository.getPresets({ forceRefresh: true })).toEqual([makePreset('1')]);
+    await flushPromises();
+
+    expect(APIService.fetchPresetCatalog).toHaveBeenLastCalledWith('v1');
+    expect(listener).toHaveBeenCalledWith([makePreset('1'), makePreset('2')], expect.objectContaining({ added: [makePreset('2')] }));
+    expect(ImageCacheManager.preloadImages).toHaveBeenLastCalledWith(['https://example.com/2.jpg'], 'normal');
+  });
+
+  it('keeps the cached catalog when offline', async () => {
+    (APIService.fetchPresetCatalog as jest.Mock).mockResolvedValueOnce({ presets: [makePreset('1')], etag: null, notModified: false });
+    await PresetRepository.getPresets();
+
+    (APIService.fetchPresetCatalog as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+
+    expect(await PresetRepository.getPresets({ forceRefresh: true })).toEqual([makePreset('1')]);
+    await flushPromises();
+    expect(await PresetRepository.getCachedPresets()).toEqual([makePreset('1')]);
+  });
+});
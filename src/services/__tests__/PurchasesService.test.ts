@@ -0,0 +1,118 @@
+import { APIService } from '../APIService';
+import { pickEntitlement } from '../PurchasesService';
+import { FakePurchaseProvider } from '../FakePurchaseProvider';
+import { Entitlement, PurchaseCancelledError } from '../../types/purchases.types';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+let PurchasesService: typeof import('../PurchasesService').default;
+let AuthService: typeof import('../AuthService').default;
+let api: jest.Mocked<typeof APIService>;
+
+freshSingletonEachTest(() => ({
+  PurchasesService: require('../PurchasesService').default,
+  AuthService: require('../AuthService').default,
+  api: require('../APIService').APIService,
+}), loaded => {
+  ({ PurchasesService, AuthService, api } = loaded);
+});
+
+const entitlement = (tier: string, rank: number, expiresAt: string | null = null): Entitlement => ({
+  tier,
+  productId: `twyn.${tier}.monthly`,
+  expiresAt,
+  rank,
+});
+
+describe('PurchasesService', () => {
+  let provider: FakePurchaseProvider;
+  let updateTier: jest.SpyInstance;
+
+  beforeEach(() => {
+    provider = new FakePurchaseProvider();
+    PurchasesService.setProvider(provider);
+    updateTier = jest.spyOn(AuthService, 'updateSubscriptionTier').mockResolvedValue();
+
+    api.fetchPurchaseCatalog.mockResolvedValue([
+      { productId: 'twyn.plus.monthly', tier: 'plus', rank: 1 },
+      { productId: 'twyn.pro.monthly', tier: 'pro', rank: 2 },
+    ]);
+    api.validatePurchase.mockImplementation(async receipt =>
+      entitlement(receipt.productId.split('.')[1], receipt.productId.includes('pro') ? 2 : 1)
+    );
+  });
+
+  it('lists the catalog with store prices', async () => {
+    const products = await PurchasesService.getProducts();
+
+    expect(products.map(product => product.tier)).toEqual(['plus', 'pro']);
+    expect(products[0].price).toBe('$4.99');
+  });
+
+  it('unlocks the tier only after the backend validated the receipt', async () => {
+    const listener = jest.fn();
+    PurchasesService.subscribe(listener);
+
+    const result = await PurchasesService.purchase('twyn.plus.monthly');
+
+    expect(api.validatePurchase).toHaveBeenCalledWith(expect.objectContaining({ productId: 'twyn.plus.monthly', platform: 'fake' }));
+    expect(provider.finishedTransactions).toEqual(['fake-transaction-1']);
+    expect(result.tier).toBe('plus');
+    expect(updateTier).toHaveBeenCalledWith('plus');
+    expect(listener).toHaveBeenCalledWith(result);
+  });
+
+  it('leaves the transaction open when validation fails', async () => {
+    api.validatePurchase.mockRejectedValueOnce(new Error('Invalid receipt'));
+
+    // The service's own copy of the types module, so match by name
+    await expect(PurchasesService.purchase('twyn.plus.monthly')).rejects.toMatchObject({
+      name: 'PurchaseValidationError',
+      reason: new Error('Invalid receipt'),
+    });
+
+    expect(provider.finishedTransactions).toEqual([]);
+    expect(PurchasesService.getEntitlement().tier).toBe('free');
+
+    // The store still has it, so restoring picks it up
+    const restored = await PurchasesService.restore();
+    expect(restored.tier).toBe('plus');
+  });
+
+  it("doesn't restore the previous account's plan after sign-out", async () => {
+    await PurchasesService.purchase('twyn.pro.monthly');
+    PurchasesService.clear();
+
+    // The next account has nothing in the store
+    PurchasesService.setProvider(new FakePurchaseProvider());
+    const restored = await PurchasesService.restore();
+
+    expect(restored.tier).toBe('free');
+    expect(updateTier).toHaveBeenLastCalledWith('free');
+  });
+
+  it('tells subscribers the plan is gone on sign-out', async () => {
+    await PurchasesService.purchase('twyn.pro.monthly');
+    const listener = jest.fn();
+    PurchasesService.subscribe(listener);
+
+    PurchasesService.clear();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ tier: 'free' }));
+  });
+
+  it('passes a cancelled purchase through without validating', async () => {
+    provider.setNextOutcome('cancel');
+
+    await expect(PurchasesService.purchase('twyn.pro.monthly')).rejects.toBeInstanceOf(PurchaseCancelledError);
+    expect(api.validatePurchase).not.toHaveBeenCalled();
+  });
+
+  it('picks the highest active entitlement', () => {
+    const now = Date.parse('2026-10-18T00:00:00Z');
+    const expiredPro = entitlement('pro', 2, '2026-10-01T00:00:00Z');
+    const plus = entitlement('plus', 1, '2026-11-18T00:00:00Z');
+
+    expect(pickEntitlement([expiredPro, plus], now).tier).toBe('plus');
+    expect(pickEntitlement([expiredPro], now).tier).toBe('free');
+  });
+});
@@ -0,0 +1,144 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosError } from 'axios';
+import RequestQueue, { isNetworkError, serializeFormData, deserializeFormData } from '../RequestQueueService';
+
+const networkError = () => new AxiosError('Network Error', 'ERR_NETWORK');
+const httpError = (status: number) =>
+  new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, { status } as any);
+
+describe('RequestQueueService', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    RequestQueue.dispose();
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    RequestQueue.dispose();
+    jest.useRealTimers();
+  });
+
+  it('persists queued requests and dedupes by idempotency key', async () => {
+    await RequestQueue.enqueue('generateImages', { format: 'json', body: { prompt: 'a' } }, 'key-1');
+    await RequestQueue.enqueue('generateImages', { format: 'json', body: { prompt: 'a' } }, 'key-1');
+
+    const pending = await RequestQueue.getPendingRequests();
+    expect(pending).toHaveLength(1);
+
+    const stored = JSON.parse((await AsyncStorage.getItem('outbound_request_queue')) || '[]');
+    expect(stored[0].id).toBe('key-1');
+  });
+
+  it('replays with the idempotency key and emits completion', async () => {
+    const handler = jest.fn().mockResolvedValue({ generation_id: 'gen-1' });
+    const listener = jest.fn();
+    RequestQueue.registerHandler('generateImages', handler);
+    const unsubscribe = RequestQueue.subscribe(listener);
+
+    await RequestQueue.enqueue('generateImages', { format: 'json', body: { prompt: 'a' } }, 'key-2', { skeletonId: 's1' });
+    await RequestQueue.processQueue(true);
+
+    expect(handler).toHaveBeenCalledWith({ format: 'json', body: { prompt: 'a' } }, 'key-2');
+    expect(await RequestQueue.getPendingRequests()).toHaveLength(0);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'completed',
+      result: { generation_id: 'gen-1' },
+    }));
+    unsubscribe();
+  });
+
+  it('backs off while still offline', async () => {
+    RequestQueue.registerHandler('captureAndGenerate', jest.fn().mockRejectedValue(networkError()));
+
+    await RequestQueue.enqueue('captureAndGenerate', { format: 'form', parts: [] }, 'key-3');
+    await RequestQueue.processQueue(true);
+
+    const [request] = await RequestQueue.getPendingRequests();
+    expect(request.attempts).toBe(1);
+    expect(new Date(request.nextAttemptAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('replays requests waiting for the network as soon as connectivity returns', async () => {
+    const handler = jest.fn().mockRejectedValueOnce(networkError()).mockResolvedValue({});
+    const onOnline = jest.fn();
+    RequestQueue.registerHandler('captureAndGenerate', handler);
+    RequestQueue.subscribeOnline(onOnline);
+
+    await RequestQueue.enqueue('captureAndGenerate', { format: 'form', parts: [] }, 'key-5');
+    await RequestQueue.processQueue(true);
+    handler.mockClear();
+
+    const completed = new Promise(resolve => {
+      RequestQueue.subscribe(event => {
+        if (event.type === 'completed') resolve(event);
+      });
+    });
+    RequestQueue.notifyOnline();
+    RequestQueue.notifyOnline();
+    await completed;
+
+    expect(onOnline).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await RequestQueue.getPendingRequests()).toHaveLength(0);
+  });
+
+  it('keeps the backoff after server errors when connectivity returns', async () => {
+    const handler = jest.fn().mockRejectedValue(httpError(503));
+    RequestQueue.registerHandler('captureAndGenerate', handler);
+
+    await RequestQueue.enqueue('captureAndGenerate', { format: 'form', parts: [] }, 'key-6');
+    await RequestQueue.processQueue(true);
+    handler.mockClear();
+
+    RequestQueue.notifyOffline();
+    RequestQueue.notifyOnline();
+    await Promise.resolve();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await RequestQueue.getPendingRequests()).toHaveLength(1);
+  });
+
+  it('drops requests the backend rejects', async () => {
+    const listener = jest.fn();
+    RequestQueue.registerHandler('captureAndGenerate', jest.fn().mockRejectedValue(httpError(400)));
+    const unsubscribe = RequestQueue.subscribe(listener);
+
+    await RequestQueue.enqueue('captureAndGenerate', { format: 'form', parts: [] }, 'key-4');
+    await RequestQueue.processQueue(true);
+
+    expect(await RequestQueue.getPendingRequests()).toHaveLength(0);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'failed' }));
+    unsubscribe();
+  });
+});
+
+describe('request queue helpers', () => {
+  const originalFormData = global.FormData;
+
+  beforeAll(() => {
+    // jsdom's FormData stringifies file objects; use React Native's implementation like the app does
+    global.FormData = require('react-native/Libraries/Network/FormData').default;
+  });
+
+  afterAll(() => {
+    global.FormData = originalFormData;
+  });
+
+  it('detects network errors', () => {
+    expect(isNetworkError(networkError())).toBe(true);
+    expect(isNetworkError(httpError(500))).toBe(false);
+  });
+
+  it('round-trips form data including file parts', () => {
+    const formData = new FormData();
+    formData.append('modelName', 'Me');
+    formData.append('images', { uri: 'file:///photo.jpg', type: 'image/jpeg', name: 'photo.jpg' } as any);
+
+    const parts = serializeFormData(formData);
+    expect(parts).toEqual([
+      { name: 'modelName', value: 'Me' },
+      { name: 'images', file: { uri: 'file:///photo.jpg', type: 'image/jpeg', name: 'photo.jpg' } },
+    ]);
+    expect(serializeFormData(deserializeFormData(parts))).toEqual(parts);
+  });
+});
@@ -0,0 +1,56 @@
+import { fuzzyMatch, searchBatches, searchPresets } from '../SearchService';
+import { makeBatch, makePreset } from '../../test-utils/fixtures';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+const presets = [
+  makePreset('1', { name: 'Neon Nights', prompt: 'city street at night with neon lights', sort_order: 1 }),
+  makePreset('2', { name: 'Golden Hour', prompt: 'warm sunset light, neon sign in background', sort_order: 2 }),
+  makePreset('3', { name: 'Dragon Rider', category: 'fantasy', prompt: 'riding a dragon over mountains', sort_order: 3 }),
+];
+
+let SearchService: typeof import('../SearchService').default;
+
+const loadService = freshSingletonEachTest(() => require('../SearchService').default, loaded => {
+  SearchService = loaded;
+});
+
+describe('SearchService', () => {
+  it('ranks name matches above prompt matches', () => {
+    const results = searchPresets(presets, 'neon');
+
+    expect(results.map(result => result.preset.id)).toEqual(['1', '2']);
+    expect(results[0].matches.name).toEqual([[0, 4]]);
+    expect(results[1].matches.prompt).toBeDefined();
+  });
+
+  it('matches tokens across fields and tolerates missing letters', () => {
+    expect(searchPresets(presets, 'dragon fantasy').map(result => result.preset.id)).toEqual(['3']);
+    expect(searchPresets(presets, 'drgn').map(result => result.preset.id)).toEqual(['3']);
+    expect(fuzzyMatch('xyz', 'Dragon Rider')).toBeNull();
+  });
+
+  it('finds gallery batches by the preset that produced them', () => {
+    const batches = [
+      makeBatch('b1', { generatedAt: new Date('2024-01-02'), presetId: '3' }),
+      makeBatch('b2', { generatedAt: new Date('2024-01-01'), presetName: 'Dragon Rider' }),
+      makeBatch('b3', { generatedAt: new Date('2024-01-03'), presetId: '1' }),
+    ];
+
+    const results = searchBatches(batches, presets, 'dragon');
+
+    expect(results.map(result => result.batch.id)).toEqual(['b1', 'b2']);
+    expect(results[0]).toEqual(expect.objectContaining({ presetName: 'Dragon Rider', nameRanges: [[0, 6]] }));
+  });
+
+  it('keeps recent searches per scope, most recent first', async () => {
+    await SearchService.addRecentSearch('home', 'neon');
+    await SearchService.addRecentSearch('home', 'dragon');
+    await SearchService.addRecentSearch('home', 'Neon');
+    await SearchService.addRecentSearch('gallery', 'portrait');
+
+    loadService();
+
+    expect(await SearchService.getRecentSearches('home')).toEqual(['Neon', 'dragon']);
+    expect(await SearchService.getRecentSearches('gallery')).toEqual(['portrait']);
+  });
+});
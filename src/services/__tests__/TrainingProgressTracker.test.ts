@@ -0,0 +1,82 @@
+import {
+  estimateSecondsRemaining,
+  formatTimeRemaining,
+  normalizeProgress,
+  recordProgress,
+  toTrainingStage,
+} from '../TrainingProgressTracker';
+import { freshSingletonEachTest } from '../../test-utils/freshSingleton';
+
+const start = Date.parse('2026-01-01T12:00:00Z');
+const minutes = (n: number) => start + n * 60 * 1000;
+
+let TrainingProgressTracker: typeof import('../TrainingProgressTracker').default;
+
+const loadTracker = freshSingletonEachTest(() => require('../TrainingProgressTracker').default, loaded => {
+  TrainingProgressTracker = loaded;
+});
+
+describe('TrainingProgressTracker', () => {
+  it('reads progress as a percentage', () => {
+    expect(normalizeProgress(40)).toBe(0.4);
+    expect(normalizeProgress(0.4)).toBe(0.004);
+    expect(normalizeProgress(140)).toBe(1);
+    expect(normalizeProgress(undefined)).toBeNull();
+  });
+
+  it('treats a 1% report as 1%, not done', () => {
+    let record = recordProgress(undefined, 'model-1', { status: 'training', progress: 1 }, minutes(0));
+    expect(record.progress).toBe(0.01);
+    expect(record.stage).toBe('training');
+
+    record = recordProgress(record, 'model-1', { status: 'training', progress: 2 }, minutes(1));
+    expect(record.progress).toBe(0.02);
+  });
+
+  it('maps backend statuses onto stages', () => {
+    expect(toTrainingStage('pending', 0)).toBe('queued');
+    expect(toTrainingStage('training', 0.5)).toBe('training');
+    expect(toTrainingStage('training', 0.97)).toBe('finalizing');
+    expect(toTrainingStage('uploading_weights', 0.6)).toBe('finalizing');
+  });
+
+  it('estimates time left from the recent progress rate', () => {
+    let record = recordProgress(undefined, 'model-1', { status: 'training', progress: 10 }, minutes(0));
+    record = recordProgress(record, 'model-1', { status: 'training', progress: 20 }, minutes(2));
+
+    // 10% every 2 minutes, 80% to go
+    expect(record.etaSeconds).toBe(16 * 60);
+    expect(record.samples).toHaveLength(2);
+    expect(record.firstSeenAt).toBe(new Date(minutes(0)).toISOString());
+  });
+
+  it('falls back to the typical duration when progress is not reported', () => {
+    let record = recordProgress(undefined, 'model-1', { status: 'training' }, minutes(0));
+    record = recordProgress(record, 'model-1', { status: 'training' }, minutes(5));
+
+    expect(record.progress).toBe(0);
+    expect(record.etaSeconds).toBe(15 * 60);
+    expect(estimateSecondsRemaining({ ...record, stage: 'queued' }, minutes(5))).toBeNull();
+    // Never claims it's done while the backend still says training
+    expect(estimateSecondsRemaining(record, minutes(60))).toBe(60);
+  });
+
+  it('never moves progress backwards', () => {
+    const record = recordProgress(undefined, 'model-1', { status: 'training', progress: 50 }, minutes(0));
+    expect(recordProgress(record, 'model-1', { status: 'training', progress: 30 }, minutes(1)).progress).toBe(0.5);
+  });
+
+  it('formats the estimate for the card', () => {
+    expect(formatTimeRemaining(30)).toBe('Less than a minute left');
+    expect(formatTimeRemaining(8 * 60)).toBe('About 8 min left');
+    expect(formatTimeRemaining(70 * 60)).toBe('About 1 h 10 min left');
+  });
+
+  it('keeps records across restarts', async () => {
+    const record = recordProgress(undefined, 'model-1', { status: 'training', progress: 20 }, minutes(0));
+    await TrainingProgressTracker.saveRecords({ 'model-1': record });
+
+    loadTracker();
+    expect(await TrainingProgressTracker.getRecords()).toEqual({ 'model-1': record });
+  });
+});
@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator } from 'expo-image-manipulator';
+import { APIService } from '../APIService';
+import RequestQueue from '../RequestQueueService';
+import TrainingUploadManager, { getUploadProgress } from '../TrainingUploadManager';
+import { NetworkError, ServerError, ValidationError } from '../../types/api.types';
+import { TrainingUploadEvent } from '../../types/training.types';
+
+const api = APIService as jest.Mocked<typeof APIService>;
+const photos = [1, 2, 3].map(n => ({ uri: `file://photo_${n}.heic`, width: 4032, height: 3024 }));
+
+// Resolve with the first event that ends (or pauses) the job
+const nextOutcome = () =>
+  new Promise<TrainingUploadEvent>(resolve => {
+    const unsubscribe = TrainingUploadManager.subscribe(event => {
+      if (event.type !== 'progress' || event.job.status === 'paused') {
+        unsubscribe();
+        resolve(event);
+      }
+    });
+  });
+
+describe('TrainingUploadManager', () => {
+  let resize: jest.Mock;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    TrainingUploadManager.dispose();
+    TrainingUploadManager.configure({ retryDelay: 0 });
+    await AsyncStorage.clear();
+
+    resize = jest.fn();
+    const context: any = {
+      resize: resize.mockImplementation(() => context),
+      renderAsync: jest.fn().mockResolvedValue({
+        saveAsync: jest.fn().mockImplementation(() => Promise.resolve({ uri: `file://cache/prepared_${Math.random()}.jpg` })),
+      }),
+    };
+    (ImageManipulator.manipulate as jest.Mock).mockReturnValue(context);
+    (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({ exists: true });
+    (FileSystem.deleteAsync as jest.Mock).mockResolvedValue(undefined);
+
+    api.createTrainingUpload.mockResolvedValue({ uploadId: 'upload-1' });
+    api.getTrainingUpload.mockResolvedValue({ uploadedIndexes: [] });
+    api.uploadTrainingFile.mockResolvedValue(undefined);
+    api.commitTrainingUpload.mockResolvedValue({ modelId: 'model-1' });
+  });
+
+  afterAll(() => {
+    TrainingUploadManager.dispose();
+    RequestQueue.dispose();
+  });
+
+  it('resizes and uploads every photo, then commits once', async () => {
+    const outcome = nextOutcome();
+    const job = await TrainingUploadManager.startUpload({ purpose: 'model', modelName: 'Me', photos });
+    const event = await outcome;
+
+    expect(event.type).toBe('committed');
+    expect(resize).toHaveBeenCalledWith({ width: 1536 });
+    expect(api.createTrainingUpload).toHaveBeenCalledWith('model', 3, job.id);
+    expect(api.uploadTrainingFile.mock.calls.map(call => call[1]).sort()).toEqual([0, 1, 2]);
+    expect(api.commitTrainingUpload).toHaveBeenCalledTimes(1);
+    expect(api.commitTrainingUpload).toHaveBeenCalledWith('upload-1', { modelName: 'Me' }, job.id);
+    expect(await TrainingUploadManager.getJobs()).toEqual([]);
+  });
+
+  it('commits a new version on top of the base model, even without new photos', async () => {
+    const outcome = nextOutcome();
+    const job = await TrainingUploadManager.startUpload({
+      purpose: 'model',
+      modelName: 'Me',
+      photos: [],
+      baseModelId: 'model-1',
+      removedPhotoIds: ['photo-3'],
+    });
+
+    expect((await outcome).type).toBe('committed');
+    expect(api.uploadTrainingFile).not.toHaveBeenCalled();
+    expect(api.commitTrainingUpload).toHaveBeenCalledWith(
+      'upload-1',
+      { modelName: 'Me', baseModelId: 'model-1', removedPhotoIds: ['photo-3'] },
+      job.id
+    );
+  });
+
+  it('retries a photo the server rejected temporarily', async () => {
+    api.uploadTrainingFile.mockRejectedValueOnce(new ServerError({ status: 503 }));
+
+    const outcome = nextOutcome();
+    await TrainingUploadManager.startUpload({ purpose: 'onboarding', photos });
+
+    expect((await outcome).type).toBe('committed');
+    expect(api.uploadTrainingFile).toHaveBeenCalledTimes(4);
+  });
+
+  it('pauses offline and resumes without re-sending photos that landed', async () => {
+    api.uploadTrainingFile
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValue(new NetworkError());
+
+    let outcome = nextOutcome();
+    const job = await TrainingUploadManager.startUpload({ purpose: 'model', modelName: 'Me', photos });
+    const paused = await outcome;
+
+    expect(paused.job.status).toBe('paused');
+    expect(api.commitTrainingUpload).not.toHaveBeenCalled();
+
+    // Back online; the backend also finished a native upload while the app wasn't looking
+    api.uploadTrainingFile.mockReset().mockResolvedValue(undefined);
+    api.getTrainingUpload.mockResolvedValue({ uploadedIndexes: [0, 1] });
+    outcome = nextOutcome();
+    TrainingUploadManager.resumePending();
+    const committed = await outcome;
+
+    expect(committed.type).toBe('committed');
+    expect(getUploadProgress(committed.job)).toBe(1);
+    expect(api.createTrainingUpload).toHaveBeenCalledTimes(1);
+    expect(api.uploadTrainingFile).toHaveBeenCalledTimes(1);
+    expect(api.uploadTrainingFile.mock.calls[0][1]).toBe(2);
+    expect(api.commitTrainingUpload).toHaveBeenCalledWith('upload-1', { modelName: 'Me' }, job.id);
+  });
+
+  it('fails the job without committing when a photo is rejected', async () => {
+    api.uploadTrainingFile.mockRejectedValue(new ValidationError({ serverMessage: 'Unsupported image' }));
+
+    const outcome = nextOutcome();
+    await TrainingUploadManager.startUpload({ purpose: 'model', modelName: 'Me', photos });
+    const event = await outcome;
+
+    expect(event.type).toBe('failed');
+    expect(event.type === 'failed' && event.errorMessage).toBe('Unsupported image');
+    expect(api.commitTrainingUpload).not.toHaveBeenCalled();
+    expect((await TrainingUploadManager.getJobs())[0].status).toBe('failed');
+  });
+
+  it('resumes a paused upload when connectivity returns', async () => {
+    api.uploadTrainingFile.mockRejectedValue(new NetworkError());
+
+    let outcome = nextOutcome();
+    await TrainingUploadManager.startUpload({ purpose: 'model', modelName: 'Me', photos });
+    expect((await outcome).job.status).toBe('paused');
+
+    api.uploadTrainingFile.mockReset().mockResolvedValue(undefined);
+    outcome = nextOutcome();
+    RequestQueue.notifyOnline(); // Another request got through
+
+    expect((await outcome).type).toBe('committed');
+  });
+
+  it('stops the other uploads once one fails and can be retried', async () => {
+    api.uploadTrainingFile.mockImplementation(async (_uploadId, index) => {
+      if (index === 0) throw new ValidationError({ serverMessage: 'Unsupported image' });
+      if (index === 1) throw new ServerError({ status: 503 });
+    });
+
+    let outcome = nextOutcome();
+    const job = await TrainingUploadManager.startUpload({ purpose: 'model', modelName: 'Me', photos });
+    expect((await outcome).type).toBe('failed');
+    expect(api.uploadTrainingFile.mock.calls.map(call => call[1]).sort()).toEqual([0, 1]);
+
+    api.uploadTrainingFile.mockReset().mockResolvedValue(undefined);
+    api.getTrainingUpload.mockResolvedValue({ uploadedIndexes: [] });
+    outcome = nextOutcome();
+    await TrainingUploadManager.retry(job.id);
+
+    expect((await outcome).type).toBe('committed');
+    expect(api.uploadTrainingFile.mock.calls.map(call => call[1]).sort()).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,22 @@
+import { GenerationBatch, Preset } from '../types/preset.types';
+
+// A catalogue preset; tests override only the fields they're about
+export const makePreset = (id: string, overrides: Partial<Preset> = {}): Preset => ({
+  id,
+  style_id: `style-${id}`,
+  name: `Preset ${id}`,
+  image_url: `https://example.com/${id}.jpg`,
+  prompt: 'a prompt',
+  category: 'portrait',
+  sort_order: 0,
+  is_active: true,
+  ...overrides,
+});
+
+// A one-image gallery batch
+export const makeBatch = (id: string, overrides: Partial<GenerationBatch> = {}): GenerationBatch => ({
+  id,
+  images: [`https://example.com/${id}.jpg`],
+  generatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
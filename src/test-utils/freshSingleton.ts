@@ -0,0 +1,34 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Require modules again through `load`, as after an app restart: singletons
+ * come back as new instances with their own mocks, over the AsyncStorage mock
+ * that jest.setup.js shares between them.
+ *
+ *   Service = freshSingleton(() => require('../Service').default);
+ */
+export const freshSingleton = <T>(load: () => T): T => {
+  let loaded: T | undefined;
+  jest.isolateModules(() => {
+    loaded = load();
+  });
+  return loaded as T;
+};
+
+/**
+ * Give every test a fresh load over an empty AsyncStorage. Returns the restart
+ * used by tests that reload mid-test to check what was persisted.
+ *
+ *   let Service: typeof import('../Service').default;
+ *   const restart = freshSingletonEachTest(() => require('../Service').default, loaded => { Service = loaded; });
+ */
+export const freshSingletonEachTest = <T>(load: () => T, onLoad: (loaded: T) => void): (() => void) => {
+  const restart = () => onLoad(freshSingleton(load));
+
+  beforeEach(async () => {
+    restart();
+    await AsyncStorage.clear();
+  });
+
+  return restart;
+};
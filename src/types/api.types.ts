@@ -0,0 +1,158 @@
+// API Errors
+export enum ApiErrorType {
+  NETWORK_ERROR = 'network_error',
+  TIMEOUT = 'timeout',
+  UNAUTHORIZED = 'unauthorized',
+  FORBIDDEN = 'forbidden',
+  NOT_FOUND = 'not_found',
+  VALIDATION = 'validation',
+  QUOTA_EXCEEDED = 'quota_exceeded',
+  RATE_LIMITED = 'rate_limited',
+  CONTENT_REJECTED = 'content_rejected',
+  SERVER_ERROR = 'server_error',
+  UNKNOWN = 'unknown',
+}
+
+export interface ApiErrorDetails {
+  status?: number; // HTTP status code, undefined when the request never got a response
+  code?: string; // Backend error code (e.g. 'quota_exceeded', 'nsfw_detected')
+  retryAfter?: number; // Seconds the backend asked us to wait before retrying
+  requestId?: string; // Backend request ID for support / log correlation
+  serverMessage?: string; // Raw message from the backend, for logging only
+}
+
+export class ApiError extends Error {
+  public readonly type: ApiErrorType;
+  public readonly status?: number;
+  public readonly code?: string;
+  public readonly retryAfter?: number;
+  public readonly requestId?: string;
+  public readonly serverMessage?: string;
+
+  constructor(type: ApiErrorType, message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.type = type;
+    this.status = details.status;
+    this.code = details.code;
+    this.retryAfter = details.retryAfter;
+    this.requestId = details.requestId;
+    this.serverMessage = details.serverMessage;
+  }
+
+  // Whether trying the same request again later can succeed
+  public get isRetryable(): boolean {
+    return [
+      ApiErrorType.NETWORK_ERROR,
+      ApiErrorType.TIMEOUT,
+      ApiErrorType.RATE_LIMITED,
+      ApiErrorType.SERVER_ERROR,
+    ].includes(this.type);
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(type: ApiErrorType.NETWORK_ERROR | ApiErrorType.TIMEOUT = ApiErrorType.NETWORK_ERROR, message?: string) {
+    super(type, message || getApiErrorMessage(type));
+    this.name = 'NetworkError';
+  }
+}
+
+export class AuthenticationError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    super(ApiErrorType.UNAUTHORIZED, getApiErrorMessage(ApiErrorType.UNAUTHORIZED), details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class PermissionError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    super(ApiErrorType.FORBIDDEN, getApiErrorMessage(ApiErrorType.FORBIDDEN), details);
+    this.name = 'PermissionError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    super(ApiErrorType.NOT_FOUND, getApiErrorMessage(ApiErrorType.NOT_FOUND), details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    // Validation messages from the backend are written for users, so prefer them
+    super(ApiErrorType.VALIDATION, details.serverMessage || getApiErrorMessage(ApiErrorType.VALIDATION), details);
+    this.name = 'ValidationError';
+  }
+}
+
+// Backend code for hitting the plan's model limit; every other quota code is about generations
+export const MODEL_LIMIT_CODE = 'model_limit_reached';
+
+export class QuotaExceededError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    super(
+      ApiErrorType.QUOTA_EXCEEDED,
+      details.code === MODEL_LIMIT_CODE
+        ? "You've reached the number of models your plan allows."
+        : getApiErrorMessage(ApiErrorType.QUOTA_EXCEEDED),
+      details
+    );
+    this.name = 'QuotaExceededError';
+  }
+
+  public get isModelLimit(): boolean {
+    return this.code === MODEL_LIMIT_CODE;
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    super(ApiErrorType.RATE_LIMITED, getApiErrorMessage(ApiErrorType.RATE_LIMITED), details);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ContentRejectedError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    super(ApiErrorType.CONTENT_REJECTED, getApiErrorMessage(ApiErrorType.CONTENT_REJECTED), details);
+    this.name = 'ContentRejectedError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(details: ApiErrorDetails = {}) {
+    super(ApiErrorType.SERVER_ERROR, getApiErrorMessage(ApiErrorType.SERVER_ERROR), details);
+    this.name = 'ServerError';
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+export const getApiErrorMessage = (type: ApiErrorType): string => {
+  switch (type) {
+    case ApiErrorType.NETWORK_ERROR:
+      return 'Network error. Please check your connection.';
+    case ApiErrorType.TIMEOUT:
+      return 'The request took too long. Please try again.';
+    case ApiErrorType.UNAUTHORIZED:
+      return 'Authentication failed';
+    case ApiErrorType.FORBIDDEN:
+      return 'Access denied';
+    case ApiErrorType.NOT_FOUND:
+      return 'Resource not found';
+    case ApiErrorType.VALIDATION:
+      return 'Some of the request details are invalid.';
+    case ApiErrorType.QUOTA_EXCEEDED:
+      return "You've reached your generation limit for this month.";
+    case ApiErrorType.RATE_LIMITED:
+      return 'Too many requests. Please try again later.';
+    case ApiErrorType.CONTENT_REJECTED:
+      return "This content didn't pass our safety check. Please try a different photo or prompt.";
+    case ApiErrorType.SERVER_ERROR:
+      return 'Server error. Please try again later.';
+    default:
+      return 'An unknown error occurred';
+  }
+};
@@ -27,12 +27,13 @@ export interface VerifyOTPResponse {
 export interface SessionData {
   access_token: string;
   refresh_token: string;
-  expires_at: number;
+  expires_at: number; // Epoch seconds
 }
 
 export interface RefreshTokenResponse {
   access_token: string;
   refresh_token: string;
+  expires_at?: number; // Epoch seconds; older backends leave it out
 }
 
 // User Models
@@ -0,0 +1,68 @@
+// Favorites Types
+import { Preset } from './preset.types';
+
+export type FavoriteType = 'preset' | 'image';
+
+export interface ImageFavoriteData {
+  imageUrl: string;
+  batchId: string;
+  generatedAt: Date;
+  prompt?: string;
+}
+
+export interface FavoriteItem {
+  id: string;
+  type: FavoriteType;
+  data: Preset | ImageFavoriteData;
+  createdAt: Date;
+  updatedAt?: Date; // Last local change; favorites saved before sync existed fall back to createdAt
+}
+
+// FavoriteItem.data as stored in a row; dates come back from the server as ISO strings
+export type FavoriteRecordData = Preset | (Omit<ImageFavoriteData, 'generatedAt'> & { generatedAt: Date | string });
+
+// A row in the Supabase favorites table, keyed by (user_id, item_type, item_id).
+// Removed favorites stay as rows with deleted_at set so removals sync across devices.
+export interface FavoriteRecord {
+  item_id: string;
+  item_type: FavoriteType;
+  data: FavoriteRecordData | null; // Null on removed rows
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+// A local removal that hasn't reached the server yet
+export interface FavoriteTombstone {
+  id: string;
+  type: FavoriteType;
+  deletedAt: string;
+}
+
+// A named, ordered group of favorites ("Headshots", "For Instagram"). A favorite can be in several.
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  itemKeys: string[]; // favoriteKey(id, type) in display order
+  coverKey: string | null; // Chosen cover; falls back to the first item
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+// A row in the Supabase favorite_collections table, keyed by (user_id, id).
+// Deleted collections stay as rows with deleted_at set, like favorites.
+export interface FavoriteCollectionRecord {
+  id: string;
+  name: string;
+  item_keys: string[];
+  cover_key: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+// A local collection deletion that hasn't reached the server yet
+export interface FavoriteCollectionTombstone {
+  id: string;
+  deletedAt: string;
+}
@@ -0,0 +1,61 @@
+// Gallery types
+
+import { GenerationBatch, GenerationSource } from './preset.types';
+
+export interface BulkActionFailure {
+  imageUrl: string;
+  error: string;
+}
+
+// Outcome of an action applied to several images at once
+export interface BulkActionResult {
+  succeeded: string[];
+  failed: BulkActionFailure[];
+}
+
+// A generation batch as returned by /images/batches
+export interface ApiImageBatch {
+  id: string;
+  images: string[];
+  created_at: string;
+  higgsfield_id: string;
+  source?: GenerationSource;
+  model_id?: string;
+  preset_id?: string;
+  preset_name?: string;
+  category?: string;
+  prompt?: string;
+  synthetic?: boolean; // Made up on the device when /images/batches is unavailable; the server doesn't know its id
+}
+
+// One page of /images/batches, newest first. next_cursor is null on the last page.
+export interface ImageBatchPage {
+  batches: ApiImageBatch[];
+  count: number;
+  next_cursor: string | null;
+}
+
+export interface ImageBatchPageRequest {
+  limit?: number;
+  cursor?: string | null;
+}
+
+export type GalleryDateRange = 'all' | 'today' | 'week' | 'older';
+
+export type GalleryGrouping = 'date' | 'model' | 'category' | 'source';
+
+// Persisted gallery filter state - null means "any"
+export interface GalleryFilters {
+  modelId: string | null;
+  category: string | null;
+  presetId: string | null;
+  source: GenerationSource | null;
+  dateRange: GalleryDateRange;
+  groupBy: GalleryGrouping;
+}
+
+export interface GallerySection {
+  key: string;
+  title: string;
+  batches: GenerationBatch[];
+}
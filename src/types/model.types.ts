@@ -0,0 +1,56 @@
+// Trained Model Types
+
+import { ModelVersionInfo } from './training.types';
+
+export type ModelStatus = 'pending' | 'training' | 'completed' | 'failed';
+
+// One backend model row, as held by the ModelRepository
+export interface UserModel extends ModelVersionInfo {
+  id: string; // Backend id; the id used everywhere in the app
+  user_id: string;
+  name: string;
+  status: ModelStatus;
+  higgsfield_id: string | null; // Needed to generate with the model
+  thumbnail_url: string | null;
+  photo_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ModelStoreState {
+  byId: Record<string, UserModel>;
+  ids: string[]; // Newest first
+  selectedId: string | null;
+  loadedAt: number | null; // Last successful fetch
+}
+
+export type ModelStoreChange =
+  | { type: 'loaded'; added: string[]; removed: string[] }
+  | { type: 'updated'; ids: string[] }
+  | { type: 'removed'; id: string }
+  | { type: 'restored'; id: string } // A removal was undone
+  | { type: 'selected'; id: string | null }
+  | { type: 'cleared' };
+
+export interface CachedModelStore {
+  models: UserModel[];
+  fetchedAt: number;
+}
+
+// What deleting a model removes on the backend
+export interface ModelDeletionReport {
+  modelId: string;
+  imageCount: number; // Generated images, across all their batches
+  batchCount: number;
+  notificationCount: number;
+  artifactCount: number; // Training photos and weights in storage
+  previewImageUrls: string[]; // A few of the images, for the confirmation
+}
+
+// A deleted model that can still be brought back
+export interface PendingModelDeletion {
+  model: UserModel | null; // Null when the store never had it; there's nothing to undo then
+  report: ModelDeletionReport;
+  wasSelected: boolean;
+  undoUntil: number; // Epoch ms
+}
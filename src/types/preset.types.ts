@@ -9,13 +9,51 @@ export interface Preset {
   category: string;
   sort_order: number;
   is_active: boolean;
+  updated_at?: string; // ISO timestamp, used to version the cached catalog
 }
 
+export interface PresetCatalogResponse {
+  presets: Preset[];
+  etag: string | null;
+  notModified: boolean; // 304 - the catalog matching the sent ETag is still current
+}
+
+// The preset catalog as kept on-device
+export interface CachedPresetCatalog {
+  presets: Preset[];
+  version: string; // ETag when the server sends one, otherwise derived from updated_at
+  fetchedAt: string; // ISO timestamp
+}
+
+export interface PresetCatalogDiff {
+  added: Preset[];
+  removed: Preset[];
+  updated: Preset[]; // Same id, changed content
+  reordered: boolean;
+}
+
+// A row change pushed by Supabase Realtime on the presets table
+export interface PresetChange {
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+  preset: Preset | null; // The new row; null for deletes
+  oldId?: string; // Primary key of the previous row (deletes only carry this)
+}
+
+// Where a generation's prompt came from
+export type GenerationSource = 'preset' | 'custom' | 'camera';
+
 export interface GenerationBatch {
   id: string;
   images: string[];
   generatedAt: Date;
   preset?: Preset;
+  source?: GenerationSource;
+  modelId?: string; // Trained model (LoRAModel.id) the images were generated with
+  presetId?: string;
+  presetName?: string;
+  category?: string;
+  prompt?: string; // Prompt the images were generated with; custom prompts have no preset to look up
+  synthetic?: boolean; // Id made up on the device, so it can only be deleted image by image
 }
 
 export interface CharacterModel {
@@ -39,6 +77,20 @@ export interface GenerationRequest {
   enhance_prompt?: boolean;
   negative_prompt?: string;
   seed?: number;
+  source?: GenerationSource; // Defaults to 'preset' on the backend
+}
+
+// User-adjustable generation parameters (the advanced-options sheet)
+export type GenerationOptions = Pick<
+  GenerationRequest,
+  'quality' | 'aspect_ratio' | 'seed' | 'negative_prompt' | 'enhance_prompt'
+>;
+
+// A prompt the user generated with in custom mode
+export interface CustomPromptEntry {
+  prompt: string;
+  style_id: string;
+  used_at: string; // ISO timestamp
 }
 
 export interface GenerationResponse {
@@ -47,6 +99,21 @@ export interface GenerationResponse {
   message: string;
 }
 
+// What startGeneration did with the request; queued ones are sent once the device is back online
+export type GenerationSubmission = 'sent' | 'queued';
+
+export type GenerationStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'nsfw';
+
+export interface GenerationStatusResponse {
+  generation_id: string;
+  status: GenerationStatus;
+  progress: number; // 0-100
+  image_urls: string[]; // Populated once the generation has completed
+  batch_id?: string;
+  created_at?: string;
+  error_message?: string;
+}
+
 // Categories (dynamic from Supabase)
 export type PresetCategory = 
   | 'portrait' 
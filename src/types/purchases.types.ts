@@ -0,0 +1,73 @@
+// Purchases Types
+
+export const FREE_TIER = 'free';
+
+export type PurchasePlatform = 'ios' | 'android' | 'fake';
+
+// A plan the backend sells, with the store's localized price
+export interface PurchaseProduct {
+  productId: string; // Store product id
+  tier: string; // The UserProfile.subscriptionTier it unlocks
+  title: string;
+  description: string;
+  price: string; // Localized, e.g. "$4.99"
+  period: 'month' | 'year';
+}
+
+// The backend's catalog entry for a product; the store fills in the rest
+export interface PurchaseCatalogItem {
+  productId: string;
+  tier: string;
+  rank: number; // Higher tiers win when several entitlements are active
+}
+
+// Proof of a purchase, validated by the backend before anything unlocks
+export interface PurchaseReceipt {
+  productId: string;
+  transactionId: string;
+  receipt: string; // Opaque store receipt or purchase token
+  platform: PurchasePlatform;
+}
+
+export interface Entitlement {
+  tier: string;
+  productId: string | null; // Null on the free tier
+  expiresAt: string | null; // Null when it doesn't expire
+  rank: number;
+}
+
+/**
+ * A store (App Store, Google Play, or a fake for tests) behind one interface.
+ * Providers only talk to the store; PurchasesService validates every receipt
+ * with the backend before unlocking anything.
+ */
+export interface PurchaseProvider {
+  readonly platform: PurchasePlatform;
+  initialize(): Promise<void>;
+  getProducts(catalog: PurchaseCatalogItem[]): Promise<PurchaseProduct[]>; // Only products the store sells
+  purchase(productId: string): Promise<PurchaseReceipt>; // Throws PurchaseCancelledError when the user backs out
+  restore(): Promise<PurchaseReceipt[]>;
+  finishTransaction(receipt: PurchaseReceipt): Promise<void>; // After the backend accepted the receipt
+}
+
+// The user closed the store sheet; not an error worth showing
+export class PurchaseCancelledError extends Error {
+  constructor() {
+    super('Purchase cancelled');
+    this.name = 'PurchaseCancelledError';
+  }
+}
+
+// The store charged the user but the backend didn't accept the receipt yet. The
+// transaction stays open, so Restore Purchases can validate it again later.
+export class PurchaseValidationError extends Error {
+  public readonly receipt: PurchaseReceipt;
+  public readonly reason: unknown; // What validatePurchase threw, for logging
+
+  constructor(receipt: PurchaseReceipt, reason: unknown) {
+    super('Your payment went through, but we could not activate your plan yet. Tap Restore Purchases to try again.');
+    this.name = 'PurchaseValidationError';
+    this.receipt = receipt;
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,32 @@
+// Offline Request Queue Types
+
+// Mutating API calls that are worth replaying once the device is back online
+export type QueuedRequestKind = 'generateImages' | 'captureAndGenerate';
+
+// FormData cannot be persisted directly, so its parts are stored as plain values.
+// File parts keep their local uri and are re-attached on replay.
+export type SerializedFormPart =
+  | { name: string; value: string }
+  | { name: string; file: { uri: string; type?: string; name?: string } };
+
+export type QueuedRequestPayload =
+  | { format: 'json'; body: any }
+  | { format: 'form'; parts: SerializedFormPart[] };
+
+export interface QueuedRequest {
+  id: string; // Also used as the Idempotency-Key header so the backend can dedupe replays
+  kind: QueuedRequestKind;
+  payload: QueuedRequestPayload;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  waitingForNetwork: boolean; // Last attempt never reached the backend; replayed as soon as connectivity returns
+  // Caller-supplied context (e.g. the skeleton id shown in the UI) so state can be restored after a restart
+  meta?: Record<string, any>;
+}
+
+export type RequestQueueEvent =
+  | { type: 'changed'; requests: QueuedRequest[] }
+  | { type: 'completed'; request: QueuedRequest; result: any }
+  | { type: 'failed'; request: QueuedRequest; errorMessage: string };
@@ -0,0 +1,121 @@
+// Training Photo Types
+
+// A photo picked for model training, before upload
+export interface TrainingPhoto {
+  id: string;
+  uri: string;
+  width: number;
+  height: number;
+  fileSize?: number; // Bytes; not every picker result reports it
+}
+
+export type PhotoIssueType = 'duplicate' | 'lowResolution' | 'extremeAspectRatio' | 'oversized';
+
+export interface PhotoIssue {
+  type: PhotoIssueType;
+  message: string;
+  duplicateOf?: string; // Id of the photo this one looks like
+}
+
+export interface PhotoCheckResult {
+  photo: TrainingPhoto;
+  issues: PhotoIssue[];
+  hash?: string; // 64-bit difference hash as hex; missing when the photo couldn't be read
+}
+
+export interface PhotoQualityReport {
+  results: PhotoCheckResult[]; // Same order as the photos that were checked
+  flaggedCount: number;
+}
+
+// Resumable Training Uploads
+
+// 'model' creates a model from TrainingScreen; 'onboarding' is the first avatar upload
+export type TrainingUploadPurpose = 'model' | 'onboarding';
+
+export type TrainingUploadFileStatus = 'pending' | 'uploading' | 'uploaded' | 'failed';
+
+export interface TrainingUploadFile {
+  index: number; // Position in the upload session; the backend stores one file per index
+  sourceUri: string;
+  width?: number;
+  height?: number;
+  preparedUri?: string; // Resized, recompressed copy in the cache directory
+  status: TrainingUploadFileStatus;
+  progress: number; // 0-1 for the current attempt
+  attempts: number;
+  error?: string;
+}
+
+// 'paused' means the device went offline; it resumes when the app is foregrounded
+export type TrainingUploadStatus = 'uploading' | 'paused' | 'committing' | 'committed' | 'failed';
+
+export interface TrainingUploadResult {
+  modelId?: string;
+  tempModelId?: string; // Onboarding uploads are attached to the account later
+  message?: string;
+}
+
+export interface TrainingUploadJob {
+  id: string; // Also the Idempotency-Key for creating and committing the session
+  purpose: TrainingUploadPurpose;
+  modelName?: string;
+  baseModelId?: string; // Set when retraining an existing model as a new version
+  removedPhotoIds?: string[];
+  uploadId?: string; // Backend upload session, created before the first file is sent
+  files: TrainingUploadFile[];
+  status: TrainingUploadStatus;
+  createdAt: string;
+  error?: string;
+  result?: TrainingUploadResult;
+  meta?: Record<string, any>; // Caller context (e.g. the skeleton model id) for restoring UI after a restart
+}
+
+export type TrainingUploadEvent =
+  | { type: 'progress'; job: TrainingUploadJob }
+  | { type: 'committed'; job: TrainingUploadJob; result: TrainingUploadResult }
+  | { type: 'failed'; job: TrainingUploadJob; errorMessage: string };
+
+// Training Progress
+
+export type TrainingStage = 'uploading' | 'queued' | 'training' | 'finalizing';
+
+// What ModelCard shows for a model that isn't ready yet
+export interface TrainingProgress {
+  stage: TrainingStage;
+  progress: number; // 0-1
+  etaSeconds: number | null; // null while there's nothing to base an estimate on
+  message?: string;
+}
+
+// Persisted per model so the estimate carries on after a restart
+export interface TrainingProgressRecord extends TrainingProgress {
+  modelId: string;
+  firstSeenAt: string;
+  updatedAt: string;
+  samples: { at: number; progress: number }[]; // Recent readings, oldest first
+}
+
+// Model Versions
+
+// 'active' is the version the user promoted (or the only one). Retraining adds a
+// 'candidate'; promoting one archives the rest, which stay in the history only.
+export type ModelVersionState = 'active' | 'candidate' | 'archived';
+
+export interface ModelVersionInfo {
+  id: string;
+  familyId: string; // Id of the first version; shared by every retrain of the model
+  version: number; // 1 for the original training
+  versionState: ModelVersionState;
+}
+
+// A photo a model version was trained on
+export interface ModelPhoto {
+  id: string;
+  url: string;
+}
+
+export interface ImproveModelRequest {
+  addPhotos: { uri: string; width?: number; height?: number }[];
+  removedPhotoIds: string[]; // Photos of the base version to leave out of the new version
+}
@@ -0,0 +1,18 @@
+import { getBatchPrompt } from '../generationBatches';
+import { makeBatch, makePreset } from '../../test-utils/fixtures';
+
+const preset = makePreset('preset-1', { name: 'Golden Hour', prompt: 'warm sunset light' });
+
+describe('getBatchPrompt', () => {
+  it('prefers the prompt the batch carries', () => {
+    expect(getBatchPrompt(makeBatch('batch-1', { prompt: 'a custom prompt', presetId: 'preset-1' }), [preset])).toBe('a custom prompt');
+  });
+
+  it('resolves a batch that only knows its preset id', () => {
+    expect(getBatchPrompt(makeBatch('batch-1', { presetId: 'preset-1' }), [preset])).toBe('warm sunset light');
+  });
+
+  it('is empty when nothing is known', () => {
+    expect(getBatchPrompt(makeBatch('batch-1', { presetId: 'retired' }), [preset])).toBe('');
+  });
+});
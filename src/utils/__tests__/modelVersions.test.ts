@@ -0,0 +1,50 @@
+import {
+  getFamilyId,
+  getFamilyRepresentative,
+  getNextVersionNumber,
+  groupModelVersions,
+  promoteVersion,
+  toVersionState,
+} from '../modelVersions';
+import { ModelVersionInfo } from '../../types/training.types';
+
+const version = (id: string, familyId: string, n: number, versionState: ModelVersionInfo['versionState']) =>
+  ({ id, familyId, version: n, versionState });
+
+describe('modelVersions', () => {
+  const models = [
+    version('b-2', 'b-1', 2, 'candidate'),
+    version('a-1', 'a-1', 1, 'active'),
+    version('b-1', 'b-1', 1, 'active'),
+  ];
+
+  it('treats rows from before versioning as the first, active version', () => {
+    expect(getFamilyId({ id: 'a-1' })).toBe('a-1');
+    expect(getFamilyId({ id: 'b-2', parent_model_id: 'b-1' })).toBe('b-1');
+    expect(toVersionState(undefined)).toBe('active');
+    expect(toVersionState('candidate')).toBe('candidate');
+  });
+
+  it('groups versions by family, oldest first', () => {
+    const families = groupModelVersions(models);
+
+    expect(Array.from(families.keys())).toEqual(['b-1', 'a-1']);
+    expect(families.get('b-1')!.map(m => m.id)).toEqual(['b-1', 'b-2']);
+    expect(getNextVersionNumber(families.get('b-1')!)).toBe(3);
+  });
+
+  it('shows the selected version, else the active one', () => {
+    const family = groupModelVersions(models).get('b-1')!;
+
+    expect(getFamilyRepresentative(family, 'b-2').id).toBe('b-2');
+    expect(getFamilyRepresentative(family, 'a-1').id).toBe('b-1');
+  });
+
+  it('archives the rest of the family when a version is promoted', () => {
+    const promoted = promoteVersion(models, 'b-2');
+
+    expect(promoted.find(m => m.id === 'b-2')!.versionState).toBe('active');
+    expect(promoted.find(m => m.id === 'b-1')!.versionState).toBe('archived');
+    expect(promoted.find(m => m.id === 'a-1')!.versionState).toBe('active');
+  });
+});
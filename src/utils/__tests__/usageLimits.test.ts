@@ -0,0 +1,53 @@
+import {
+  canCreateModels,
+  canGenerateImages,
+  formatUsageSummary,
+  getRemainingGenerations,
+  recordGeneration,
+} from '../usageLimits';
+import { UserUsage } from '../../types/auth.types';
+
+const usage = (overrides: Partial<UserUsage> = {}): UserUsage => ({
+  currentPeriod: { startDate: '2026-10-01T00:00:00Z', endDate: '2026-11-01T00:00:00Z', generationCount: 9 },
+  limits: { models: 1, monthlyGenerations: 10 },
+  modelsCreated: 1,
+  generationsThisMonth: 9,
+  canCreateModels: false,
+  canGenerateImages: true,
+  ...overrides,
+});
+
+const duringPeriod = Date.parse('2026-10-18T00:00:00Z');
+
+describe('usageLimits', () => {
+  it('allows everything until usage has loaded', () => {
+    expect(canGenerateImages(null)).toBe(true);
+    expect(canCreateModels(null)).toBe(true);
+  });
+
+  it('blocks generating once the last generation of the month is recorded', () => {
+    const before = usage();
+    expect(canGenerateImages(before, duringPeriod)).toBe(true);
+
+    const after = recordGeneration(before);
+    expect(getRemainingGenerations(after)).toBe(0);
+    expect(after.currentPeriod.generationCount).toBe(10);
+    expect(canGenerateImages(after, duringPeriod)).toBe(false);
+
+    // A new period starts with a fresh count
+    expect(canGenerateImages(after, Date.parse('2026-11-02T00:00:00Z'))).toBe(true);
+  });
+
+  it('treats -1 as unlimited', () => {
+    const unlimited = usage({ limits: { models: -1, monthlyGenerations: -1 }, canCreateModels: true });
+
+    expect(getRemainingGenerations(unlimited)).toBeNull();
+    expect(canCreateModels(unlimited)).toBe(true);
+    expect(formatUsageSummary(unlimited)).toBe('1 model · unlimited generations');
+  });
+
+  it('summarizes model slots and generations left', () => {
+    expect(formatUsageSummary(usage())).toBe('1 of 1 model · 1 generation left this month');
+    expect(canCreateModels(usage())).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * User-facing alerts for typed API errors
+ * Keeps generation error copy consistent between PresetDetailScreen and AnimatedPresetModal
+ */
+
+import { Alert } from 'react-native';
+import { ApiErrorType, isApiError } from '../types/api.types';
+import { BulkActionResult } from '../types/gallery.types';
+import { UserUsage } from '../types/auth.types';
+
+const formatRetryAfter = (seconds?: number): string => {
+  if (!seconds) return 'in a moment';
+  if (seconds < 60) return `in ${seconds} seconds`;
+  return `in ${Math.ceil(seconds / 60)} minutes`;
+};
+
+export const showGenerationErrorAlert = (error: unknown, onRetry?: () => void): void => {
+  if (!isApiError(error)) {
+    // Validation errors raised before the request (e.g. no model selected)
+    const message = error instanceof Error ? error.message : 'Generation failed. Please try again.';
+    Alert.alert('Generation Failed ❌', message, [{ text: 'OK' }]);
+    return;
+  }
+
+  const retryButtons = onRetry
+    ? [{ text: 'Cancel', style: 'cancel' as const }, { text: 'Try Again', onPress: onRetry }]
+    : [{ text: 'OK' }];
+
+  switch (error.type) {
+    case ApiErrorType.QUOTA_EXCEEDED:
+      Alert.alert(
+        'Generation Limit Reached',
+        `${error.message} Your limit resets at the start of next month.`,
+        [{ text: 'OK' }]
+      );
+      break;
+    case ApiErrorType.RATE_LIMITED:
+      Alert.alert(
+        'Slow Down a Little',
+        `You're generating faster than we can keep up. Please try again ${formatRetryAfter(error.retryAfter)}.`,
+        [{ text: 'OK' }]
+      );
+      break;
+    case ApiErrorType.CONTENT_REJECTED:
+      Alert.alert('Content Not Allowed', error.message, [{ text: 'OK' }]);
+      break;
+    case ApiErrorType.NETWORK_ERROR:
+    case ApiErrorType.TIMEOUT:
+      Alert.alert('No Connection', error.message, retryButtons);
+      break;
+    case ApiErrorType.UNAUTHORIZED:
+      Alert.alert('Session Expired', 'Please sign in again to keep generating.', [{ text: 'OK' }]);
+      break;
+    case ApiErrorType.SERVER_ERROR:
+      Alert.alert(
+        'Generation Failed ❌',
+        error.requestId ? `${error.message}\n\nReference: ${error.requestId}` : error.message,
+        retryButtons
+      );
+      break;
+    default:
+      Alert.alert('Generation Failed ❌', error.message, [{ text: 'OK' }]);
+  }
+};
+
+const formatResetDate = (usage: UserUsage): string =>
+  new Date(usage.currentPeriod.endDate).toLocaleDateString(undefined, { month: 'long', day: 'numeric' });
+
+const upgradeButtons = (onUpgrade?: () => void) =>
+  onUpgrade
+    ? [{ text: 'Not Now', style: 'cancel' as const }, { text: 'Upgrade', onPress: onUpgrade }]
+    : [{ text: 'OK' }];
+
+// Shown before a generation request when the month's generations are used up
+export const showGenerationLimitAlert = (usage: UserUsage, onUpgrade?: () => void): void => {
+  Alert.alert(
+    'Generation Limit Reached',
+    `You've used all ${usage.limits.monthlyGenerations} generations on your plan this month. Your limit resets on ${formatResetDate(usage)}, or upgrade your plan to keep generating.`,
+    upgradeButtons(onUpgrade)
+  );
+};
+
+// Shown instead of starting training when every model slot is taken
+export const showModelLimitAlert = (usage: UserUsage, onUpgrade?: () => void): void => {
+  Alert.alert(
+    'Model Limit Reached',
+    `Your plan includes ${usage.limits.models} model${usage.limits.models === 1 ? '' : 's'}. Upgrade your plan or delete a model to train a new one.`,
+    upgradeButtons(onUpgrade)
+  );
+};
+
+const pluralizePhotos = (count: number): string => `${count} photo${count === 1 ? '' : 's'}`;
+
+// Report the outcome of a gallery bulk action, calling out partial failures
+export const showBulkActionResultAlert = (
+  verb: 'saved' | 'shared' | 'deleted',
+  result: BulkActionResult,
+  confirmSuccess: boolean = false
+): void => {
+  const total = result.succeeded.length + result.failed.length;
+
+  if (result.failed.length === 0) {
+    if (confirmSuccess) {
+      Alert.alert('Done ✅', `${pluralizePhotos(total)} ${verb}.`, [{ text: 'OK' }]);
+    }
+    return;
+  }
+
+  if (result.succeeded.length === 0) {
+    Alert.alert(
+      'Something Went Wrong',
+      `None of the ${pluralizePhotos(total)} could be ${verb}. Please try again.`,
+      [{ text: 'OK' }]
+    );
+    return;
+  }
+
+  Alert.alert(
+    'Some Photos Failed',
+    `${result.succeeded.length} of ${pluralizePhotos(total)} ${verb}. ${result.failed.length} couldn't be ${verb} - they're still selected so you can try again.`,
+    [{ text: 'OK' }]
+  );
+};
+
+// Explain why a model delete failed instead of a generic "try again"
+export const showModelDeleteErrorAlert = (error: unknown): void => {
+  if (!isApiError(error)) {
+    Alert.alert('Error', 'Failed to delete model. Please try again.', [{ text: 'OK' }]);
+    return;
+  }
+
+  switch (error.type) {
+    case ApiErrorType.NOT_FOUND:
+      Alert.alert('Model Not Found', 'This model was already deleted.', [{ text: 'OK' }]);
+      break;
+    case ApiErrorType.FORBIDDEN:
+      Alert.alert("Can't Delete Model", 'You do not have permission to delete this model.', [{ text: 'OK' }]);
+      break;
+    case ApiErrorType.NETWORK_ERROR:
+    case ApiErrorType.TIMEOUT:
+      Alert.alert('No Connection', `${error.message} Your model was not deleted.`, [{ text: 'OK' }]);
+      break;
+    default:
+      Alert.alert(
+        "Couldn't Delete Model",
+        error.requestId ? `${error.message}\n\nReference: ${error.requestId}` : error.message,
+        [{ text: 'OK' }]
+      );
+  }
+};
@@ -0,0 +1,11 @@
+import { GenerationBatch, Preset } from '../types/preset.types';
+
+/**
+ * The prompt behind a batch, for favorites. Batches from the gallery API carry
+ * it themselves or only a preset id, which is resolved against the presets.
+ */
+export const getBatchPrompt = (batch: GenerationBatch, presets: Preset[] = []): string =>
+  batch.prompt ||
+  batch.preset?.prompt ||
+  (batch.presetId && presets.find(preset => preset.id === batch.presetId)?.prompt) ||
+  '';
@@ -0,0 +1,52 @@
+/**
+ * Helpers for model versions
+ * A retrained model is a new backend row pointing at the first version; these
+ * group the rows back into families for TrainingContext and AppStateContext.
+ */
+
+import { ModelVersionInfo, ModelVersionState } from '../types/training.types';
+
+export const getFamilyId = (model: { id: string; parent_model_id?: string | null }): string =>
+  model.parent_model_id || model.id;
+
+// Rows from before versioning have no state and are the active (only) version
+export const toVersionState = (value?: string | null): ModelVersionState =>
+  value === 'candidate' || value === 'archived' ? value : 'active';
+
+export const isSelectableVersion = (model: Pick<ModelVersionInfo, 'versionState'>): boolean =>
+  model.versionState !== 'archived';
+
+// Families keyed by familyId, in the order they first appear, versions oldest first
+export const groupModelVersions = <T extends ModelVersionInfo>(models: T[]): Map<string, T[]> => {
+  const families = new Map<string, T[]>();
+  models.forEach(model => {
+    families.set(model.familyId, [...(families.get(model.familyId) || []), model]);
+  });
+  families.forEach((versions, familyId) => {
+    families.set(familyId, [...versions].sort((a, b) => a.version - b.version));
+  });
+  return families;
+};
+
+// The version a family's card shows: the selected one, else the active one, else the newest
+export const getFamilyRepresentative = <T extends ModelVersionInfo>(versions: T[], selectedId?: string | null): T =>
+  versions.find(version => version.id === selectedId) ||
+  versions.find(version => version.versionState === 'active') ||
+  versions[versions.length - 1];
+
+export const getNextVersionNumber = (versions: Pick<ModelVersionInfo, 'version'>[]): number =>
+  Math.max(0, ...versions.map(version => version.version)) + 1;
+
+/**
+ * Apply a promotion locally: the promoted version becomes active and every
+ * other version of its family is archived.
+ */
+export const promoteVersion = <T extends ModelVersionInfo>(models: T[], promotedId: string): T[] => {
+  const promoted = models.find(model => model.id === promotedId);
+  if (!promoted) return models;
+
+  return models.map(model => {
+    if (model.familyId !== promoted.familyId) return model;
+    return { ...model, versionState: model.id === promotedId ? 'active' : 'archived' };
+  });
+};
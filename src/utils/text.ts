@@ -0,0 +1,6 @@
+/**
+ * Helpers for user-facing copy
+ */
+
+// "1 image", "3 images"
+export const plural = (count: number, noun: string): string => `${count} ${noun}${count !== 1 ? 's' : ''}`;
@@ -0,0 +1,53 @@
+/**
+ * Helpers for plan limits
+ * A limit of -1 means unlimited. Usage that hasn't loaded never blocks anything;
+ * the backend still enforces the limits and answers with a quota error.
+ */
+
+import { UserUsage } from '../types/auth.types';
+import { plural } from './text';
+
+export const isUnlimited = (limit: number): boolean => limit < 0;
+
+// Null when unlimited
+export const getRemaining = (limit: number, used: number): number | null =>
+  isUnlimited(limit) ? null : Math.max(0, limit - used);
+
+export const getRemainingGenerations = (usage: UserUsage): number | null =>
+  getRemaining(usage.limits.monthlyGenerations, usage.generationsThisMonth);
+
+export const getRemainingModelSlots = (usage: UserUsage): number | null =>
+  getRemaining(usage.limits.models, usage.modelsCreated);
+
+// Once the period has ended the count resets, whatever the cached usage says
+export const isPeriodOver = (usage: UserUsage, now: number = Date.now()): boolean =>
+  Date.parse(usage.currentPeriod.endDate) < now;
+
+export const canGenerateImages = (usage: UserUsage | null, now: number = Date.now()): boolean =>
+  !usage || isPeriodOver(usage, now) || (usage.canGenerateImages && getRemainingGenerations(usage) !== 0);
+
+export const canCreateModels = (usage: UserUsage | null): boolean =>
+  !usage || (usage.canCreateModels && getRemainingModelSlots(usage) !== 0);
+
+// Count a generation the backend accepted, until the next fetch has the real number
+export const recordGeneration = (usage: UserUsage): UserUsage => {
+  const generationsThisMonth = usage.generationsThisMonth + 1;
+  const next: UserUsage = {
+    ...usage,
+    generationsThisMonth,
+    currentPeriod: { ...usage.currentPeriod, generationCount: usage.currentPeriod.generationCount + 1 },
+  };
+  return { ...next, canGenerateImages: usage.canGenerateImages && getRemainingGenerations(next) !== 0 };
+};
+
+// e.g. "1 of 3 models · 12 generations left this month"
+export const formatUsageSummary = (usage: UserUsage): string => {
+  const models = isUnlimited(usage.limits.models)
+    ? plural(usage.modelsCreated, 'model')
+    : `${usage.modelsCreated} of ${plural(usage.limits.models, 'model')}`;
+  const remaining = getRemainingGenerations(usage);
+  const generations = remaining === null
+    ? 'unlimited generations'
+    : `${plural(remaining, 'generation')} left this month`;
+  return `${models} · ${generations}`;
+};